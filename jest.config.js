@@ -3,4 +3,5 @@ module.exports = {
     testEnvironment: 'node',
     testMatch: ['**/tests/**/*.test.ts'],
     moduleFileExtensions: ['ts', 'js', 'json', 'node'],
+    setupFiles: ['<rootDir>/tests/setup.ts'],
 };
@@ -4,6 +4,28 @@ import { User, UserImpl, MembershipType } from '../models/User';
 import { Seat, SeatImpl, SeatType, SeatStatus } from '../models/Seat';
 import { Showtime, ShowtimeImpl } from '../models/Showtime';
 import { Ticket, TicketType, TicketFactoryProvider } from '../ticket/TicketFactory';
+import {
+    PaymentFeeSource,
+    PriceBreakdown,
+    PriceBreakdownInput,
+    PriceCalculator,
+    PriceLineType,
+    allocateToTickets,
+    formatPriceLine
+} from '../pricing/PriceBreakdown';
+import {
+    MembershipPromotion,
+    Promotion,
+    PromotionBenefit,
+    PromotionResolution,
+    PromotionResolver,
+    PromotionSource,
+    VoucherPromotion,
+    describePromotions
+} from '../pricing/PromotionResolver';
+import { Money, formatRupiah } from '../pricing/Money';
+import { FAMILY_VOUCHER_CODE, VoucherService } from './Voucher';
+import type { PaymentProfile } from '../payment/PaymentTarget';
 
 // Enum status booking
 export enum BookingStatus {
@@ -18,10 +40,21 @@ export enum BookingStatus {
 // Interface untuk add-on booking
 export interface BookingAddon {
     name: string;
-    price: number;
+    price: Money;             // Harga satuan
     quantity: number;
 }
 
+// Nominal yang benar-benar ditagih saat pembayaran berhasil (disimpan, tidak dihitung ulang)
+export interface BookingCharges {
+    breakdown: PriceBreakdown;
+    pointsRedeemed: number;
+    pointsAmount: Money;          // Bagian total yang dibayar dengan poin loyalty
+    cashAmount: Money;            // Bagian total yang dibayar dengan metode pembayaran
+    paymentMethod: string;
+    transactionId: string;
+    paidAt: Date;
+}
+
 // Product: Booking
 // Objek kompleks yang dibangun oleh Builder
 export class Booking {
@@ -35,45 +68,146 @@ export class Booking {
     // Properti opsional
     public addons: BookingAddon[] = [];
     public voucherCode: string | null = null;
-    public discountAmount: number = 0;
+    public discountAmount: Money = Money.zero();
     public insuranceIncluded: boolean = false;
+    public paymentBank: string | null = null;     // Bank pembayaran untuk promo bank
     public notes: string = '';
+    public charges: BookingCharges | null = null;   // Diisi saat pembayaran berhasil
 
     // Metadata
     public createdAt: Date = new Date();
     public updatedAt: Date = new Date();
 
+    private static readonly INSURANCE_RATE = 0.02;
+    private checkoutResolution: PromotionResolution | null = null;   // Dikunci saat checkout
+
+    // Rincian harga dari kalkulator harga terpadu; paymentFee menambahkan biaya metode pembayaran
+    // dan payment (profil metode pembayaran) mengaktifkan promo pembayaran. Booking yang sudah
+    // dibayar selalu memakai rincian saat pembayaran, walau membership atau promo berubah kemudian.
+    getPriceBreakdown(paymentFee?: PaymentFeeSource, payment?: PaymentProfile): PriceBreakdown {
+        if (this.charges) {
+            return this.charges.breakdown;
+        }
+        const resolution = this.getPromotionResolution(payment);
+        return PriceCalculator.getDefault().calculate({
+            ...this.getPriceItems(),
+            discounts: resolution.applied
+                .filter(entry => entry.promotion.benefit === PromotionBenefit.DISCOUNT)
+                .map(entry => ({
+                    label: entry.promotion.label,
+                    amount: entry.amount,
+                    type: entry.promotion.source === PromotionSource.MEMBERSHIP
+                        ? PriceLineType.MEMBERSHIP_DISCOUNT
+                        : PriceLineType.DISCOUNT
+                })),
+            paymentFee
+        });
+    }
+
+    // Promo milik booking: voucher yang sudah divalidasi dan diskon membership
+    getPromotions(): Promotion[] {
+        const promotions: Promotion[] = [];
+        if (this.voucherCode && !this.discountAmount.isZero()) {
+            promotions.push(new VoucherPromotion(this.voucherCode, this.discountAmount));
+        }
+        if (this.user) {
+            const user = this.user as UserImpl;
+            promotions.push(new MembershipPromotion(user.membership, user.getDiscountPercentage()));
+        }
+        return promotions;
+    }
+
+    // Promo yang dipakai dan ditolak (beserta alasannya) dari resolver default. Setelah checkout
+    // hasil checkout yang dipakai, sehingga tagihan pembayaran sama dengan promo yang memakai kuota.
+    getPromotionResolution(payment?: PaymentProfile | null): PromotionResolution {
+        if (this.checkoutResolution) {
+            return this.checkoutResolution;
+        }
+        const subtotal = PriceCalculator.getDefault().calculate(this.getPriceItems()).subtotal;
+        return PromotionResolver.getDefault().resolve(
+            { subtotal, paymentBank: this.paymentBank, payment },
+            this.getPromotions()
+        );
+    }
+
+    // Checkout: promo dievaluasi sekali dengan profil pembayaran lalu dikunci, dan voucher yang ikut
+    // dipakai dicatat pemakaiannya (VoucherError jika kuota habis sejak build). Voucher yang kalah
+    // dari promo lain tidak memakai kuota.
+    checkout(payment?: PaymentProfile | null, voucherService: VoucherService = VoucherService.getDefault()): PromotionResolution {
+        if (!this.user || !this.showtime) {
+            throw new Error('Booking belum lengkap');
+        }
+        this.checkoutResolution = null;
+        const resolution = this.getPromotionResolution(payment);
+        const voucherApplied = resolution.applied.some(entry => entry.promotion.source === PromotionSource.VOUCHER);
+        if (this.voucherCode && voucherApplied && !voucherService.getActiveRedemption(this.id)) {
+            const redemption = voucherService.redeem(this.voucherCode, this.id, {
+                userId: this.user.id,
+                showtime: this.showtime,
+                purchaseAmount: Money.of(this.getSubtotal())
+            });
+            this.discountAmount = redemption.discount;
+        }
+        this.checkoutResolution = resolution;
+        this.updatedAt = new Date();
+        return resolution;
+    }
+
+    private getPriceItems(): PriceBreakdownInput {
+        return {
+            tickets: this.tickets.map(ticket => ({
+                label: `${ticket.seat.getCode()} - ${ticket.getDescription()}`,
+                unitPrice: ticket.getPrice()
+            })),
+            addons: this.addons.map(addon => ({
+                label: addon.name,
+                unitPrice: addon.price,
+                quantity: addon.quantity
+            })),
+            insuranceRate: this.insuranceIncluded ? Booking.INSURANCE_RATE : 0
+        };
+    }
+
     // Menghitung subtotal tiket
     getTicketsSubtotal(): number {
-        return this.tickets.reduce((sum, ticket) => sum + ticket.getPrice(), 0);
+        return this.getPriceBreakdown().ticketsSubtotal.toNumber();
     }
 
     // Menghitung subtotal addon
     getAddonsSubtotal(): number {
-        return this.addons.reduce((sum, addon) => sum + (addon.price * addon.quantity), 0);
+        return this.getPriceBreakdown().addonsSubtotal.toNumber();
     }
 
     // Menghitung biaya asuransi (2% dari subtotal tiket)
     getInsuranceFee(): number {
-        if (!this.insuranceIncluded) return 0;
-        return Math.round(this.getTicketsSubtotal() * 0.02);
+        return this.getPriceBreakdown().insuranceTotal.toNumber();
     }
 
     // Menghitung total sebelum diskon
     getSubtotal(): number {
-        return this.getTicketsSubtotal() + this.getAddonsSubtotal() + this.getInsuranceFee();
+        return this.getPriceBreakdown().subtotal.toNumber();
     }
 
-    // Mendapatkan persentase diskon dari membership user
+    // Mendapatkan diskon dari membership user (persentase dari subtotal)
     getMembershipDiscount(): number {
-        if (!this.user) return 0;
-        const discountPercentage = (this.user as UserImpl).getDiscountPercentage();
-        return Math.round(this.getSubtotal() * discountPercentage / 100);
+        return this.getPriceBreakdown().membershipDiscount.toNumber();
+    }
+
+    // Pajak dalam total (sudah termasuk harga pada konfigurasi default)
+    getTaxTotal(): number {
+        return this.getPriceBreakdown().taxTotal.toNumber();
     }
 
     // Menghitung total akhir
-    getTotalPrice(): number {
-        return this.getSubtotal() - this.discountAmount - this.getMembershipDiscount();
+    getTotalPrice(): Money {
+        return this.getPriceBreakdown().total;
+    }
+
+    // Total akhir dibagi ke setiap tiket sesuai proporsi harganya (misalnya untuk refund per kursi)
+    getTicketAllocations(): { ticket: Ticket; amount: Money }[] {
+        const breakdown = this.getPriceBreakdown();
+        const shares = allocateToTickets(breakdown.total, breakdown);
+        return this.tickets.map((ticket, index) => ({ ticket, amount: shares[index] }));
     }
 
     // Menampilkan ringkasan booking
@@ -106,44 +240,51 @@ export class Booking {
         this.tickets.forEach(ticket => {
             summary += `
 ║   ${ticket.seat.getCode()} - ${ticket.getDescription().substring(0, 35).padEnd(45)}║
-║        Rp ${ticket.getPrice().toLocaleString('id-ID').padEnd(49)}║`;
+║        ${formatRupiah(ticket.getPrice()).padEnd(52)}║`;
         });
 
-        if (this.addons.length > 0) {
+        const breakdown = this.getPriceBreakdown();
+        const addonLines = breakdown.lines.filter(line => line.type === PriceLineType.ADDON);
+        if (addonLines.length > 0) {
             summary += `
 ╠══════════════════════════════════════════════════════════════╣
 ║ ADD-ONS                                                      ║`;
-            this.addons.forEach(addon => {
-                const addonTotal = addon.price * addon.quantity;
+            addonLines.forEach(line => {
                 summary += `
-║   ${addon.name} x${addon.quantity} = Rp ${addonTotal.toLocaleString('id-ID').padEnd(35)}║`;
+║   ${line.label} x${line.quantity ?? 1} = ${formatRupiah(line.amount).padEnd(38)}║`;
             });
         }
 
-        summary += `
-╠══════════════════════════════════════════════════════════════╣
-║ RINCIAN HARGA                                                ║
-║ Subtotal Tiket     : Rp ${this.getTicketsSubtotal().toLocaleString('id-ID').padEnd(35)}║
-║ Subtotal Add-ons   : Rp ${this.getAddonsSubtotal().toLocaleString('id-ID').padEnd(35)}║`;
-
-        if (this.insuranceIncluded) {
-            summary += `
-║ Asuransi Tiket     : Rp ${this.getInsuranceFee().toLocaleString('id-ID').padEnd(35)}║`;
-        }
-
-        if (this.discountAmount > 0) {
+        const resolution = this.getPromotionResolution();
+        const promotionNotes = describePromotions(resolution);
+        if (promotionNotes.length > 0) {
             summary += `
-║ Diskon Voucher     : -Rp ${this.discountAmount.toLocaleString('id-ID').padEnd(34)}║`;
+╠══════════════════════════════════════════════════════════════╣
+║ PROMO - maks. diskon ${formatRupiah(resolution.maxDiscount).padEnd(41)}║`;
+            promotionNotes.forEach(note => {
+                summary += `
+║ ${note.substring(0, 61).padEnd(61)}║`;
+            });
         }
 
-        if (this.getMembershipDiscount() > 0) {
-            summary += `
-║ Diskon Member      : -Rp ${this.getMembershipDiscount().toLocaleString('id-ID').padEnd(34)}║`;
-        }
+        summary += `
+╠══════════════════════════════════════════════════════════════╣
+║ RINCIAN HARGA                                                ║
+║ Subtotal Tiket     : ${formatRupiah(breakdown.ticketsSubtotal).padEnd(38)}║
+║ Subtotal Add-ons   : ${formatRupiah(breakdown.addonsSubtotal).padEnd(38)}║`;
+
+        // Asuransi, diskon, pajak, biaya, dan pembulatan sesuai urutan rincian
+        breakdown.lines
+            .filter(line => line.type !== PriceLineType.TICKET && line.type !== PriceLineType.ADDON)
+            .forEach(line => {
+                const { label, value } = formatPriceLine(line);
+                summary += `
+║ ${label.substring(0, 18).padEnd(18)} : ${value.padEnd(38)}║`;
+            });
 
         summary += `
 ╠══════════════════════════════════════════════════════════════╣
-║ TOTAL              : Rp ${this.getTotalPrice().toLocaleString('id-ID').padEnd(35)}║
+║ TOTAL              : ${formatRupiah(breakdown.total).padEnd(38)}║
 ╚══════════════════════════════════════════════════════════════╝`;
 
         return summary;
@@ -157,9 +298,11 @@ export interface BookingBuilder {
     setUser(user: User): BookingBuilder;
     setShowtime(showtime: Showtime): BookingBuilder;
     addSeat(seat: Seat, ticketType: TicketType): BookingBuilder;
+    addCoupleSeats(seat: Seat, partnerSeat: Seat, ticketType: TicketType): BookingBuilder;
     addAddon(name: string, price: number, quantity: number): BookingBuilder;
-    applyVoucher(code: string, discountAmount: number): BookingBuilder;
+    applyVoucher(code: string): BookingBuilder;
     includeInsurance(): BookingBuilder;
+    setPaymentBank(bank: string): BookingBuilder;
     setNotes(notes: string): BookingBuilder;
     build(): Booking;
 }
@@ -169,7 +312,8 @@ export interface BookingBuilder {
 export class ConcreteBookingBuilder implements BookingBuilder {
     private booking: Booking;
 
-    constructor() {
+    // voucherService kosong berarti memakai VoucherService.getDefault() saat build()
+    constructor(private voucherService?: VoucherService) {
         this.booking = new Booking();
         this.reset();
     }
@@ -210,17 +354,31 @@ export class ConcreteBookingBuilder implements BookingBuilder {
         return this;
     }
 
+    // Menambahkan sepasang kursi couple: tiket untuk kedua penghuni, harga dibebankan sekali
+    addCoupleSeats(seat: Seat, partnerSeat: Seat, ticketType: TicketType): BookingBuilder {
+        if (!this.booking.showtime) {
+            throw new Error('Showtime harus diset terlebih dahulu');
+        }
+
+        const factory = TicketFactoryProvider.getFactory(ticketType);
+        const tickets = factory.createCoupleTickets(this.booking.showtime, seat, partnerSeat);
+        this.booking.tickets.push(...tickets);
+        this.booking.updatedAt = new Date();
+        return this;
+    }
+
     // Menambahkan addon (snack, merchandise, dll)
     addAddon(name: string, price: number, quantity: number): BookingBuilder {
-        this.booking.addons.push({ name, price, quantity });
+        this.booking.addons.push({ name, price: Money.of(price), quantity });
         this.booking.updatedAt = new Date();
         return this;
     }
 
-    // Mengaplikasikan voucher diskon
-    applyVoucher(code: string, discountAmount: number): BookingBuilder {
-        this.booking.voucherCode = code;
-        this.booking.discountAmount = discountAmount;
+    // Mengaplikasikan voucher diskon; nominal diskon dihitung VoucherService saat build() dan
+    // pemakaiannya baru dicatat saat Booking.checkout()
+    applyVoucher(code: string): BookingBuilder {
+        this.booking.voucherCode = VoucherService.normalizeCode(code);
+        this.booking.discountAmount = Money.zero();
         this.booking.updatedAt = new Date();
         return this;
     }
@@ -232,6 +390,13 @@ export class ConcreteBookingBuilder implements BookingBuilder {
         return this;
     }
 
+    // Bank pembayaran; promo bank yang terdaftar di PromotionResolver dievaluasi terhadap bank ini
+    setPaymentBank(bank: string): BookingBuilder {
+        this.booking.paymentBank = bank;
+        this.booking.updatedAt = new Date();
+        return this;
+    }
+
     // Menambahkan catatan
     setNotes(notes: string): BookingBuilder {
         this.booking.notes = notes;
@@ -252,6 +417,16 @@ export class ConcreteBookingBuilder implements BookingBuilder {
             throw new Error('Minimal harus ada 1 tiket');
         }
 
+        // Voucher hanya divalidasi (VoucherError jika tidak valid); kuota dipakai saat checkout
+        if (this.booking.voucherCode) {
+            const voucherService = this.voucherService ?? VoucherService.getDefault();
+            this.booking.discountAmount = voucherService.quote(this.booking.voucherCode, {
+                userId: this.booking.user.id,
+                showtime: this.booking.showtime,
+                purchaseAmount: Money.of(this.booking.getSubtotal())
+            });
+        }
+
         this.booking.status = BookingStatus.PENDING;
         this.booking.updatedAt = new Date();
 
@@ -320,11 +495,12 @@ export class BookingDirector {
             .build();
     }
 
-    // Membuat booking keluarga (4 tiket + snack)
+    // Membuat booking keluarga (4 tiket + snack); default memakai voucher paket keluarga
     buildFamilyBooking(
         user: User,
         showtime: Showtime,
-        seats: Seat[]
+        seats: Seat[],
+        voucherCode: string | null = FAMILY_VOUCHER_CODE
     ): Booking {
         if (seats.length !== 4) {
             throw new Error('Family booking memerlukan tepat 4 kursi');
@@ -339,11 +515,13 @@ export class BookingDirector {
             builderChain = builderChain.addSeat(seat, TicketType.REGULAR);
         });
 
-        return builderChain
+        builderChain = builderChain
             .addAddon('Family Popcorn Bucket', 75000, 1)
-            .addAddon('Coca-Cola Large', 20000, 4)
-            .applyVoucher('FAMILY20', 20000)
-            .build();
+            .addAddon('Coca-Cola Large', 20000, 4);
+        if (voucherCode) {
+            builderChain = builderChain.applyVoucher(voucherCode);
+        }
+        return builderChain.build();
     }
 }
 
@@ -0,0 +1,609 @@
+// Booking Repository - Penyimpanan Booking
+//
+// Booking hasil ConcreteBookingBuilder (beserta BookingContext lifecycle-nya, jika ada) disimpan
+// lewat BookingRepository agar tidak hilang setelah checkout selesai. Implementasi in-memory dan
+// file JSON sama-sama menyimpan snapshot hasil serialisasi, sehingga objek yang dimuat selalu
+// salinan baru dan perilaku kedua implementasi identik. Serialisasi mempertahankan tiket
+// (termasuk pasangan kursi couple), add-on, voucher, nominal yang ditagih, dan riwayat status lifecycle.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Booking, BookingAddon, BookingCharges, BookingStatus } from './BookingBuilder';
+import { BookingContext, StateHistoryEntry } from './BookingStatus';
+import { PriceBreakdown, PriceLine, PriceLineType } from '../pricing/PriceBreakdown';
+import { Money } from '../pricing/Money';
+import { User, UserImpl, MembershipType, UserRole } from '../models/User';
+import { Showtime, ShowtimeImpl } from '../models/Showtime';
+import { MovieImpl } from '../models/Movie';
+import { Cinema, CinemaImpl, Studio, StudioImpl, StudioType } from '../models/Cinema';
+import { Seat, SeatImpl, SeatStatus, SeatType } from '../models/Seat';
+import { SeatMapDefinition } from '../models/SeatMapDefinition';
+import {
+    CoupleCompanionTicket,
+    CoupleTicket,
+    IMAXTicket,
+    RegularTicket,
+    Ticket,
+    TicketType,
+    VIPTicket
+} from '../ticket/TicketFactory';
+
+// Error ketika data booking tersimpan tidak dapat dibaca atau dipulihkan
+export class BookingStorageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BookingStorageError';
+    }
+}
+
+// Format JSON booking tersimpan (tanggal dalam ISO string)
+export interface SerializedUser {
+    id: string;
+    name: string;
+    email: string;
+    phone: string;
+    membership: MembershipType;
+    requiresAccessibleSeating: boolean;
+    role: UserRole;
+}
+
+export interface SerializedStudio {
+    id: string;
+    name: string;
+    type: StudioType;
+    capacity: number;
+    rowCount: number;
+    seatsPerRow: number;
+    seatMap?: SeatMapDefinition;
+}
+
+export interface SerializedShowtime {
+    id: string;
+    movie: {
+        id: string;
+        title: string;
+        genre: string;
+        duration: number;
+        rating: string;
+        synopsis: string;
+        posterUrl: string;
+        releaseDate: string;
+    };
+    cinema: {
+        id: string;
+        name: string;
+        location: string;
+        address: string;
+        city: string;
+        studios: SerializedStudio[];
+    };
+    studio: SerializedStudio;
+    date: string;
+    startTime: string;
+    endTime: string;
+    listPrice: number;
+}
+
+export interface SerializedSeat {
+    id: string;
+    row: string;
+    number: number;
+    type: SeatType;
+    status: SeatStatus;
+    price: number;
+}
+
+// Jenis tiket tersimpan; tiket pendamping couple merujuk tiket utamanya
+export enum SerializedTicketKind {
+    SINGLE = 'SINGLE',
+    COUPLE = 'COUPLE',
+    COUPLE_COMPANION = 'COUPLE_COMPANION'
+}
+
+export interface SerializedTicket {
+    kind: SerializedTicketKind;
+    id: string;
+    type: TicketType;
+    seat: SerializedSeat;
+    price: number;                    // Harga per kursi saat booking dibuat (bukan harga ulang)
+    partnerSeat?: SerializedSeat;     // COUPLE
+    primaryTicketId?: string;         // COUPLE_COMPANION
+}
+
+export interface SerializedLifecycle {
+    state: string;
+    customerName: string;
+    movieTitle: string;
+    userId?: string;                  // Tidak ada pada data lama
+    showtimeId?: string;
+    seats: string[];
+    totalAmount: number;
+    paidAmount: number;
+    transactionId: string | null;
+    stateHistory: { fromState: string; toState: string; timestamp: string }[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface SerializedPriceLine {
+    type: PriceLineType;
+    label: string;
+    amount: number;
+    quantity?: number;
+    unitPrice?: number;
+    included?: boolean;
+}
+
+export interface SerializedCharges {
+    lines: SerializedPriceLine[];
+    ticketsSubtotal: number;
+    addonsSubtotal: number;
+    insuranceTotal: number;
+    subtotal: number;
+    discountTotal: number;
+    membershipDiscount: number;
+    taxTotal: number;
+    taxIncluded: boolean;
+    amountDue: number;
+    feeTotal: number;
+    rounding: number;
+    total: number;
+    pointsRedeemed: number;
+    pointsAmount: number;
+    cashAmount: number;
+    paymentMethod: string;
+    transactionId: string;
+    paidAt: string;
+}
+
+export interface SerializedAddon {
+    name: string;
+    price: number;
+    quantity: number;
+}
+
+export interface SerializedBooking {
+    id: string;
+    user: SerializedUser | null;
+    showtime: SerializedShowtime | null;
+    tickets: SerializedTicket[];
+    status: BookingStatus;
+    addons: SerializedAddon[];
+    voucherCode: string | null;
+    discountAmount: number;
+    insuranceIncluded: boolean;
+    paymentBank: string | null;
+    notes: string;
+    createdAt: string;
+    updatedAt: string;
+    charges?: SerializedCharges | null;   // Tidak ada pada file lama
+    lifecycle: SerializedLifecycle | null;
+}
+
+// Booking yang dimuat beserta lifecycle-nya (null jika tidak disimpan)
+export interface BookingRecord {
+    booking: Booking;
+    lifecycle: BookingContext | null;
+}
+
+const TICKETS: Record<TicketType, (id: string, showtime: Showtime, seat: Seat) => Ticket> = {
+    [TicketType.REGULAR]: (id, showtime, seat) => new RegularTicket(id, showtime, seat),
+    [TicketType.VIP]: (id, showtime, seat) => new VIPTicket(id, showtime, seat),
+    [TicketType.IMAX]: (id, showtime, seat) => new IMAXTicket(id, showtime, seat)
+};
+
+export class BookingSerializer {
+
+    // Mengubah booking (dan lifecycle-nya) menjadi struktur serializable
+    static serialize(booking: Booking, lifecycle: BookingContext | null = null): SerializedBooking {
+        return {
+            id: booking.id,
+            user: booking.user ? serializeUser(booking.user) : null,
+            showtime: booking.showtime ? serializeShowtime(booking.showtime) : null,
+            tickets: booking.tickets.map(serializeTicket),
+            status: booking.status,
+            addons: booking.addons.map(addon => ({ ...addon, price: addon.price.toNumber() })),
+            voucherCode: booking.voucherCode,
+            discountAmount: booking.discountAmount.toNumber(),
+            insuranceIncluded: booking.insuranceIncluded,
+            paymentBank: booking.paymentBank,
+            notes: booking.notes,
+            createdAt: booking.createdAt.toISOString(),
+            updatedAt: booking.updatedAt.toISOString(),
+            charges: booking.charges ? serializeCharges(booking.charges) : null,
+            lifecycle: lifecycle ? serializeLifecycle(lifecycle) : null
+        };
+    }
+
+    static deserialize(data: SerializedBooking): BookingRecord {
+        const booking = new Booking();
+        booking.id = data.id;
+        booking.user = data.user ? deserializeUser(data.user) : null;
+        booking.showtime = data.showtime ? deserializeShowtime(data.showtime) : null;
+        booking.tickets = deserializeTickets(data, booking.showtime);
+        booking.status = data.status;
+        booking.addons = data.addons.map((addon): BookingAddon => ({ ...addon, price: Money.of(addon.price) }));
+        booking.voucherCode = data.voucherCode;
+        booking.discountAmount = Money.of(data.discountAmount);
+        booking.insuranceIncluded = data.insuranceIncluded;
+        booking.paymentBank = data.paymentBank;
+        booking.notes = data.notes;
+        booking.createdAt = new Date(data.createdAt);
+        booking.updatedAt = new Date(data.updatedAt);
+        booking.charges = data.charges ? deserializeCharges(data.charges) : null;
+
+        return {
+            booking,
+            lifecycle: data.lifecycle ? deserializeLifecycle(data.id, data.lifecycle) : null
+        };
+    }
+
+    static toJSON(booking: Booking, lifecycle: BookingContext | null = null): string {
+        return JSON.stringify(BookingSerializer.serialize(booking, lifecycle), null, 2);
+    }
+
+    static fromJSON(text: string): BookingRecord {
+        let data: SerializedBooking;
+        try {
+            data = JSON.parse(text);
+        } catch (error) {
+            throw new BookingStorageError(`JSON booking tidak valid (${(error as Error).message})`);
+        }
+        return BookingSerializer.deserialize(data);
+    }
+}
+
+// Kontrak penyimpanan booking
+export interface BookingRepository {
+    // Menyimpan booking; tanpa lifecycle, lifecycle yang sudah tersimpan dipertahankan
+    save(booking: Booking, lifecycle?: BookingContext): void;
+    findById(bookingId: string): BookingRecord | null;
+    findByUser(userId: string): BookingRecord[];
+    findByShowtime(showtimeId: string): BookingRecord[];
+    findByStatus(status: BookingStatus): BookingRecord[];
+    delete(bookingId: string): boolean;
+    count(): number;
+}
+
+// Base class: menyimpan snapshot per booking, subclass menentukan cara persist
+export abstract class BaseBookingRepository implements BookingRepository {
+    private static defaultRepository: BookingRepository | null = null;
+    protected snapshots: Map<string, SerializedBooking> = new Map();
+
+    // Repository default (in-memory jika belum diganti)
+    static getDefault(): BookingRepository {
+        if (!this.defaultRepository) {
+            this.defaultRepository = new InMemoryBookingRepository();
+        }
+        return this.defaultRepository;
+    }
+
+    // Mengganti repository default; null kembali ke in-memory baru saat dibutuhkan
+    static setDefault(repository: BookingRepository | null): void {
+        this.defaultRepository = repository;
+    }
+
+    save(booking: Booking, lifecycle?: BookingContext): void {
+        if (!booking.id) {
+            throw new Error('Booking tanpa ID tidak dapat disimpan');
+        }
+        if (lifecycle && lifecycle.getBookingId() !== booking.id) {
+            throw new Error(`Lifecycle ${lifecycle.getBookingId()} bukan milik booking ${booking.id}`);
+        }
+
+        const snapshot = BookingSerializer.serialize(booking, lifecycle ?? null);
+        if (!lifecycle) {
+            snapshot.lifecycle = this.snapshots.get(booking.id)?.lifecycle ?? null;
+        }
+        this.snapshots.set(booking.id, snapshot);
+        this.persist();
+        console.log(`[BookingRepository] Saved ${booking.id} (${booking.status})`);
+    }
+
+    findById(bookingId: string): BookingRecord | null {
+        const snapshot = this.snapshots.get(bookingId);
+        return snapshot ? BookingSerializer.deserialize(snapshot) : null;
+    }
+
+    findByUser(userId: string): BookingRecord[] {
+        return this.find(snapshot => snapshot.user?.id === userId);
+    }
+
+    findByShowtime(showtimeId: string): BookingRecord[] {
+        return this.find(snapshot => snapshot.showtime?.id === showtimeId);
+    }
+
+    findByStatus(status: BookingStatus): BookingRecord[] {
+        return this.find(snapshot => snapshot.status === status);
+    }
+
+    delete(bookingId: string): boolean {
+        if (!this.snapshots.delete(bookingId)) return false;
+        this.persist();
+        console.log(`[BookingRepository] Deleted ${bookingId}`);
+        return true;
+    }
+
+    count(): number {
+        return this.snapshots.size;
+    }
+
+    // Dipanggil setelah setiap perubahan
+    protected abstract persist(): void;
+
+    private find(predicate: (snapshot: SerializedBooking) => boolean): BookingRecord[] {
+        return Array.from(this.snapshots.values())
+            .filter(predicate)
+            .map(snapshot => BookingSerializer.deserialize(snapshot));
+    }
+}
+
+// Repository in-memory (hilang saat proses berhenti)
+export class InMemoryBookingRepository extends BaseBookingRepository {
+    protected persist(): void { }
+}
+
+// Format file repository
+interface BookingStoreFile {
+    version: number;
+    bookings: SerializedBooking[];
+}
+
+const STORE_VERSION = 1;
+
+// Repository berbasis file JSON; setiap perubahan ditulis ulang ke file (lewat file sementara
+// lalu rename agar file tidak setengah tertulis jika proses berhenti)
+export class FileBookingRepository extends BaseBookingRepository {
+    constructor(private filePath: string) {
+        super();
+        this.load();
+    }
+
+    getFilePath(): string {
+        return this.filePath;
+    }
+
+    // Memuat ulang isi file (misalnya setelah diubah proses lain)
+    reload(): void {
+        this.snapshots.clear();
+        this.load();
+    }
+
+    protected persist(): void {
+        const data: BookingStoreFile = { version: STORE_VERSION, bookings: Array.from(this.snapshots.values()) };
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        const tempPath = `${this.filePath}.tmp`;
+        fs.writeFileSync(tempPath, JSON.stringify(data, null, 2), 'utf8');
+        fs.renameSync(tempPath, this.filePath);
+    }
+
+    private load(): void {
+        if (!fs.existsSync(this.filePath)) return;
+
+        let data: BookingStoreFile;
+        try {
+            data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new BookingStorageError(`File booking ${this.filePath} tidak dapat dibaca: ${reason}`);
+        }
+        if (data.version !== STORE_VERSION || !Array.isArray(data.bookings)) {
+            throw new BookingStorageError(`Format file booking ${this.filePath} tidak dikenal (versi ${data.version})`);
+        }
+
+        data.bookings.forEach(snapshot => this.snapshots.set(snapshot.id, snapshot));
+        console.log(`[BookingRepository] Loaded ${this.snapshots.size} booking(s) from ${this.filePath}`);
+    }
+}
+
+function serializeUser(user: User): SerializedUser {
+    return {
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        phone: user.phone,
+        membership: user.membership,
+        requiresAccessibleSeating: user.requiresAccessibleSeating ?? false,
+        role: user.role ?? UserRole.CUSTOMER
+    };
+}
+
+function deserializeUser(data: SerializedUser): UserImpl {
+    return new UserImpl(data.id, data.name, data.email, data.phone, data.membership, data.requiresAccessibleSeating, data.role);
+}
+
+function serializeStudio(studio: Studio): SerializedStudio {
+    return {
+        id: studio.id,
+        name: studio.name,
+        type: studio.type,
+        capacity: studio.capacity,
+        rowCount: studio.rowCount,
+        seatsPerRow: studio.seatsPerRow,
+        seatMap: studio.seatMap
+    };
+}
+
+function deserializeStudio(data: SerializedStudio): StudioImpl {
+    return new StudioImpl(data.id, data.name, data.type, data.capacity, data.rowCount, data.seatsPerRow, data.seatMap);
+}
+
+function serializeShowtime(showtime: Showtime): SerializedShowtime {
+    const { movie, cinema } = showtime;
+    return {
+        id: showtime.id,
+        movie: {
+            id: movie.id,
+            title: movie.title,
+            genre: movie.genre,
+            duration: movie.duration,
+            rating: movie.rating,
+            synopsis: movie.synopsis,
+            posterUrl: movie.posterUrl,
+            releaseDate: movie.releaseDate.toISOString()
+        },
+        cinema: serializeCinema(cinema),
+        studio: serializeStudio(showtime.studio),
+        date: showtime.date.toISOString(),
+        startTime: showtime.startTime,
+        endTime: showtime.endTime,
+        listPrice: showtime.listPrice
+    };
+}
+
+function serializeCinema(cinema: Cinema): SerializedShowtime['cinema'] {
+    return {
+        id: cinema.id,
+        name: cinema.name,
+        location: cinema.location,
+        address: cinema.address,
+        city: cinema.city,
+        studios: cinema.studios.map(serializeStudio)
+    };
+}
+
+function deserializeShowtime(data: SerializedShowtime): ShowtimeImpl {
+    const { movie, cinema } = data;
+    return new ShowtimeImpl(
+        data.id,
+        new MovieImpl(movie.id, movie.title, movie.genre, movie.duration, movie.rating, movie.synopsis, movie.posterUrl, new Date(movie.releaseDate)),
+        new CinemaImpl(cinema.id, cinema.name, cinema.location, cinema.address, cinema.city, cinema.studios.map(deserializeStudio)),
+        deserializeStudio(data.studio),
+        new Date(data.date),
+        data.startTime,
+        data.endTime,
+        data.listPrice
+    );
+}
+
+function serializeSeat(seat: Seat): SerializedSeat {
+    return { id: seat.id, row: seat.row, number: seat.number, type: seat.type, status: seat.status, price: seat.price };
+}
+
+function deserializeSeat(data: SerializedSeat): SeatImpl {
+    return new SeatImpl(data.id, data.row, data.number, data.type, data.status, data.price);
+}
+
+function serializeTicket(ticket: Ticket): SerializedTicket {
+    const base = { id: ticket.id, type: ticket.type, seat: serializeSeat(ticket.seat), price: ticket.price.toNumber() };
+    if (ticket instanceof CoupleTicket) {
+        return { ...base, kind: SerializedTicketKind.COUPLE, partnerSeat: serializeSeat(ticket.partnerSeat) };
+    }
+    if (ticket instanceof CoupleCompanionTicket) {
+        return { ...base, kind: SerializedTicketKind.COUPLE_COMPANION, primaryTicketId: ticket.getPrimaryTicket().id };
+    }
+    return { ...base, kind: SerializedTicketKind.SINGLE };
+}
+
+// Tiket dibuat ulang dengan harga tersimpan, bukan dihitung ulang dari pricing engine saat ini
+function deserializeTickets(data: SerializedBooking, showtime: Showtime | null): Ticket[] {
+    if (data.tickets.length > 0 && !showtime) {
+        throw new BookingStorageError(`Booking ${data.id} memiliki tiket tanpa showtime`);
+    }
+
+    const restored = new Map<string, Ticket>();
+    return data.tickets.map(ticketData => {
+        const seat = deserializeSeat(ticketData.seat);
+        let ticket: Ticket;
+        if (ticketData.kind === SerializedTicketKind.COUPLE_COMPANION) {
+            const primary = restored.get(ticketData.primaryTicketId ?? '');
+            if (!(primary instanceof CoupleTicket)) {
+                throw new BookingStorageError(`Tiket utama ${ticketData.primaryTicketId} untuk ${ticketData.id} tidak ditemukan`);
+            }
+            ticket = new CoupleCompanionTicket(ticketData.id, seat, primary);
+        } else {
+            const createTicket = TICKETS[ticketData.type];
+            if (!createTicket) {
+                throw new BookingStorageError(`Tipe tiket tidak dikenal: ${ticketData.type}`);
+            }
+            ticket = createTicket(ticketData.id, showtime!, seat);
+            ticket.price = Money.of(ticketData.price);
+            if (ticketData.kind === SerializedTicketKind.COUPLE) {
+                if (!ticketData.partnerSeat) {
+                    throw new BookingStorageError(`Tiket couple ${ticketData.id} tidak memiliki kursi pasangan`);
+                }
+                ticket = new CoupleTicket(ticket, deserializeSeat(ticketData.partnerSeat));
+            }
+        }
+        restored.set(ticket.id, ticket);
+        return ticket;
+    });
+}
+
+function serializeLifecycle(lifecycle: BookingContext): SerializedLifecycle {
+    const snapshot = lifecycle.toSnapshot();
+    return {
+        state: snapshot.state,
+        customerName: snapshot.customerName,
+        movieTitle: snapshot.movieTitle,
+        userId: snapshot.userId,
+        showtimeId: snapshot.showtimeId,
+        seats: snapshot.seats,
+        totalAmount: snapshot.totalAmount,
+        paidAmount: snapshot.paidAmount,
+        transactionId: snapshot.transactionId,
+        stateHistory: snapshot.stateHistory.map(entry => ({ ...entry, timestamp: entry.timestamp.toISOString() })),
+        createdAt: snapshot.createdAt.toISOString(),
+        updatedAt: snapshot.updatedAt.toISOString()
+    };
+}
+
+function deserializeLifecycle(bookingId: string, data: SerializedLifecycle): BookingContext {
+    const stateHistory: StateHistoryEntry[] = data.stateHistory.map(entry => ({ ...entry, timestamp: new Date(entry.timestamp) }));
+    return BookingContext.fromSnapshot({
+        ...data,
+        bookingId,
+        stateHistory,
+        createdAt: new Date(data.createdAt),
+        updatedAt: new Date(data.updatedAt)
+    });
+}
+
+const BREAKDOWN_AMOUNTS = [
+    'ticketsSubtotal', 'addonsSubtotal', 'insuranceTotal', 'subtotal', 'discountTotal', 'membershipDiscount',
+    'taxTotal', 'amountDue', 'feeTotal', 'rounding', 'total'
+] as const;
+
+function serializeCharges(charges: BookingCharges): SerializedCharges {
+    const { breakdown } = charges;
+    const amounts = Object.fromEntries(BREAKDOWN_AMOUNTS.map(key => [key, breakdown[key].toNumber()])) as
+        Record<typeof BREAKDOWN_AMOUNTS[number], number>;
+    return {
+        ...amounts,
+        lines: breakdown.lines.map(line => ({
+            ...line,
+            amount: line.amount.toNumber(),
+            unitPrice: line.unitPrice?.toNumber()
+        })),
+        taxIncluded: breakdown.taxIncluded,
+        pointsRedeemed: charges.pointsRedeemed,
+        pointsAmount: charges.pointsAmount.toNumber(),
+        cashAmount: charges.cashAmount.toNumber(),
+        paymentMethod: charges.paymentMethod,
+        transactionId: charges.transactionId,
+        paidAt: charges.paidAt.toISOString()
+    };
+}
+
+function deserializeCharges(data: SerializedCharges): BookingCharges {
+    const amounts = Object.fromEntries(BREAKDOWN_AMOUNTS.map(key => [key, Money.of(data[key])])) as
+        Record<typeof BREAKDOWN_AMOUNTS[number], Money>;
+    const breakdown: PriceBreakdown = {
+        ...amounts,
+        lines: data.lines.map((line): PriceLine => ({
+            ...line,
+            amount: Money.of(line.amount),
+            unitPrice: line.unitPrice !== undefined ? Money.of(line.unitPrice) : undefined
+        })),
+        taxIncluded: data.taxIncluded
+    };
+    return {
+        breakdown,
+        pointsRedeemed: data.pointsRedeemed,
+        pointsAmount: Money.of(data.pointsAmount),
+        cashAmount: Money.of(data.cashAmount),
+        paymentMethod: data.paymentMethod,
+        transactionId: data.transactionId,
+        paidAt: new Date(data.paidAt)
+    };
+}
@@ -1,3 +1,6 @@
+import { AuditTrail, AuditOutcome } from '../utils/AuditTrail';
+import { IDR, Money, RoundingMode, formatRupiah } from '../pricing/Money';
+
 export interface BookingState {
     // Mendapatkan nama state
     getName(): string;
@@ -37,22 +40,28 @@ export class BookingContext {
     private bookingId: string;
     private customerName: string;
     private movieTitle: string;
+    private userId: string | null;
+    private showtimeId: string | null;
     private seats: string[];
     private totalAmount: number;
     private paidAmount: number;
     private transactionId: string | null;
     private stateHistory: StateHistoryEntry[];
+    private refundListeners: BookingRefundListener[] = [];
     private createdAt: Date;
     private updatedAt: Date;
 
     constructor(
         customerName: string,
         movieTitle: string,
-        bookingId?: string
+        bookingId?: string,
+        options: BookingContextOptions = {}
     ) {
         this.bookingId = bookingId || this.generateBookingId();
         this.customerName = customerName;
         this.movieTitle = movieTitle;
+        this.userId = options.userId ?? null;
+        this.showtimeId = options.showtimeId ?? null;
         this.seats = [];
         this.totalAmount = 0;
         this.paidAmount = 0;
@@ -80,6 +89,44 @@ export class BookingContext {
         this.logStateChange(previousState);
 
         console.log(`[Booking ${this.bookingId}] State changed: ${previousState} → ${state.getName()}`);
+        AuditTrail.record({
+            actor: this.getAuditActor(),
+            action: 'booking.transition',
+            resource: `booking:${this.bookingId}`,
+            outcome: AuditOutcome.SUCCESS,
+            showtimeId: this.showtimeId ?? undefined,
+            details: { from: previousState, to: state.getName() }
+        });
+    }
+
+    // Mendaftarkan listener refund (misalnya untuk membalik voucher dan poin loyalty booking ini)
+    onRefund(listener: BookingRefundListener): void {
+        this.refundListeners.push(listener);
+    }
+
+    // Mencatat refund ke audit trail lalu memberi tahu listener refund
+    recordRefund(amount: number): void {
+        AuditTrail.record({
+            actor: this.getAuditActor(),
+            action: 'booking.refund',
+            resource: `booking:${this.bookingId}`,
+            outcome: AuditOutcome.SUCCESS,
+            showtimeId: this.showtimeId ?? undefined,
+            details: { amount, paidAmount: this.paidAmount, transactionId: this.transactionId }
+        });
+
+        const event: BookingRefundEvent = {
+            bookingId: this.bookingId,
+            userId: this.userId,
+            showtimeId: this.showtimeId,
+            amount
+        };
+        this.refundListeners.forEach(listener => listener(event));
+    }
+
+    // Actor audit disamakan dengan proxy kursi: user id, atau 'GUEST' bila booking tanpa akun
+    private getAuditActor(): string {
+        return this.userId ?? 'GUEST';
     }
 
     private logStateChange(previousState: string): void {
@@ -96,7 +143,7 @@ export class BookingContext {
         if (this.state.canModify()) {
             this.seats.push(seatCode);
             this.totalAmount += price;
-            console.log(`[Booking ${this.bookingId}] Seat ${seatCode} added. Total: Rp ${this.totalAmount.toLocaleString()}`);
+            console.log(`[Booking ${this.bookingId}] Seat ${seatCode} added. Total: ${formatRupiah(this.totalAmount)}`);
         }
     }
 
@@ -130,6 +177,8 @@ export class BookingContext {
     getBookingId(): string { return this.bookingId; }
     getCustomerName(): string { return this.customerName; }
     getMovieTitle(): string { return this.movieTitle; }
+    getUserId(): string | null { return this.userId; }
+    getShowtimeId(): string | null { return this.showtimeId; }
     getSeats(): string[] { return [...this.seats]; }
     getTotalAmount(): number { return this.totalAmount; }
     getPaidAmount(): number { return this.paidAmount; }
@@ -147,6 +196,47 @@ export class BookingContext {
         this.updatedAt = new Date();
     }
 
+    // Snapshot data booking untuk disimpan (state disimpan sebagai nama)
+    toSnapshot(): BookingContextSnapshot {
+        return {
+            bookingId: this.bookingId,
+            customerName: this.customerName,
+            movieTitle: this.movieTitle,
+            userId: this.userId ?? undefined,
+            showtimeId: this.showtimeId ?? undefined,
+            state: this.state.getName(),
+            seats: [...this.seats],
+            totalAmount: this.totalAmount,
+            paidAmount: this.paidAmount,
+            transactionId: this.transactionId,
+            stateHistory: this.stateHistory.map(entry => ({ ...entry, timestamp: new Date(entry.timestamp.getTime()) })),
+            createdAt: new Date(this.createdAt.getTime()),
+            updatedAt: new Date(this.updatedAt.getTime())
+        };
+    }
+
+    // Memulihkan booking dari snapshot tanpa mencatat transisi atau audit baru
+    static fromSnapshot(snapshot: BookingContextSnapshot): BookingContext {
+        const createState = STATES[snapshot.state];
+        if (!createState) {
+            throw new Error(`State booking tidak dikenal: ${snapshot.state}`);
+        }
+
+        const context = new BookingContext(snapshot.customerName, snapshot.movieTitle, snapshot.bookingId, {
+            userId: snapshot.userId,
+            showtimeId: snapshot.showtimeId
+        });
+        context.state = createState();
+        context.seats = [...snapshot.seats];
+        context.totalAmount = snapshot.totalAmount;
+        context.paidAmount = snapshot.paidAmount;
+        context.transactionId = snapshot.transactionId;
+        context.stateHistory = snapshot.stateHistory.map(entry => ({ ...entry, timestamp: new Date(entry.timestamp.getTime()) }));
+        context.createdAt = new Date(snapshot.createdAt.getTime());
+        context.updatedAt = new Date(snapshot.updatedAt.getTime());
+        return context;
+    }
+
     // Menampilkan detail booking
     displayDetails(): string {
         const stateIndicators: Record<string, string> = {
@@ -169,8 +259,8 @@ export class BookingContext {
 ║ Customer      : ${this.customerName.padEnd(43)}║
 ║ Movie         : ${this.movieTitle.padEnd(43)}║
 ║ Seats         : ${this.seats.join(', ').padEnd(43)}║
-║ Total Amount  : Rp ${this.totalAmount.toLocaleString('id-ID').padEnd(40)}║
-║ Paid Amount   : Rp ${this.paidAmount.toLocaleString('id-ID').padEnd(40)}║
+║ Total Amount  : ${formatRupiah(this.totalAmount).padEnd(43)}║
+║ Paid Amount   : ${formatRupiah(this.paidAmount).padEnd(43)}║
 ╠══════════════════════════════════════════════════════════════╣
 ║ Can Modify: ${this.state.canModify() ? 'Yes' : 'No'}  │ Can Pay: ${this.state.canPay() ? 'Yes' : 'No'}  │ Can Cancel: ${this.state.canCancel() ? 'Yes' : 'No'}      ║
 ╚══════════════════════════════════════════════════════════════╝
@@ -188,12 +278,45 @@ export class BookingContext {
     }
 }
 
-interface StateHistoryEntry {
+export interface StateHistoryEntry {
     fromState: string;
     toState: string;
     timestamp: Date;
 }
 
+// Identitas pemilik booking untuk audit trail
+export interface BookingContextOptions {
+    userId?: string;
+    showtimeId?: string;
+}
+
+// Refund yang tercatat pada lifecycle booking
+export interface BookingRefundEvent {
+    bookingId: string;
+    userId: string | null;
+    showtimeId: string | null;
+    amount: number;
+}
+
+export type BookingRefundListener = (event: BookingRefundEvent) => void;
+
+// Data BookingContext yang dapat disimpan dan dipulihkan
+export interface BookingContextSnapshot {
+    bookingId: string;
+    customerName: string;
+    movieTitle: string;
+    userId?: string;
+    showtimeId?: string;
+    state: string;
+    seats: string[];
+    totalAmount: number;
+    paidAmount: number;
+    transactionId: string | null;
+    stateHistory: StateHistoryEntry[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
 // CONCRETE STATE: DraftState
 // State awal ketika booking baru dibuat
 export class DraftState implements BookingState {
@@ -257,11 +380,11 @@ export class PendingState implements BookingState {
         const required = context.getTotalAmount();
 
         if (amount < required) {
-            console.log(`[Pending] Payment insufficient. Required: Rp ${required.toLocaleString()}, Received: Rp ${amount.toLocaleString()}`);
+            console.log(`[Pending] Payment insufficient. Required: ${formatRupiah(required)}, Received: ${formatRupiah(amount)}`);
             return;
         }
 
-        console.log(`[Pending] Payment received: Rp ${amount.toLocaleString()}`);
+        console.log(`[Pending] Payment received: ${formatRupiah(amount)}`);
         context.setPaidAmount(amount);
         context.setTransactionId(`TXN-${Date.now().toString(36).toUpperCase()}`);
         context.setState(new PaidState());
@@ -323,7 +446,8 @@ export class PaidState implements BookingState {
 
     refund(context: BookingContext): void {
         console.log('[Paid] Processing refund...');
-        console.log(`[Paid] Refunding Rp ${context.getPaidAmount().toLocaleString()} to customer...`);
+        console.log(`[Paid] Refunding ${formatRupiah(context.getPaidAmount())} to customer...`);
+        context.recordRefund(context.getPaidAmount());
         context.setState(new CancelledState());
     }
 
@@ -365,8 +489,9 @@ export class ConfirmedState implements BookingState {
 
     refund(context: BookingContext): void {
         console.log('[Confirmed] Processing refund (partial refund may apply)...');
-        const refundAmount = Math.round(context.getPaidAmount() * 0.8); // 80% refund
-        console.log(`[Confirmed] Refunding Rp ${refundAmount.toLocaleString()} (80% of payment)...`);
+        const refundAmount = Money.of(context.getPaidAmount(), IDR, RoundingMode.HALF_UP).multiply(0.8, RoundingMode.HALF_UP).toNumber(); // 80% refund
+        console.log(`[Confirmed] Refunding ${formatRupiah(refundAmount)} (80% of payment)...`);
+        context.recordRefund(refundAmount);
         context.setState(new CancelledState());
     }
 
@@ -454,6 +579,16 @@ export class CancelledState implements BookingState {
     canRefund(): boolean { return false; }
 }
 
+// Pembuat state berdasarkan nama, dipakai saat memulihkan snapshot
+const STATES: Record<string, () => BookingState> = {
+    Draft: () => new DraftState(),
+    Pending: () => new PendingState(),
+    Paid: () => new PaidState(),
+    Confirmed: () => new ConfirmedState(),
+    Completed: () => new CompletedState(),
+    Cancelled: () => new CancelledState()
+};
+
 // STATE MACHINE DIAGRAM (untuk dokumentasi)
 //
 //  ┌─────────┐
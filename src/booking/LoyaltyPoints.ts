@@ -0,0 +1,366 @@
+// Loyalty Points - Buku Besar Poin Member
+//
+// Poin didapat dari booking yang selesai dibayar dengan rate sesuai MembershipType, dapat
+// ditukar sebagai komponen pembayaran saat checkout, kedaluwarsa setelah periode tertentu, dan
+// dibalik ketika booking di-refund. Ledger hanya menambah entri (tidak pernah mengubah entri
+// lama) sehingga saldo selalu dapat dihitung ulang dari entri, dan setiap entri dicatat ke
+// AuditTrail. Penukaran memakai poin yang paling dulu kedaluwarsa (FIFO per lot akrual).
+
+import { MembershipType } from '../models/User';
+import { Money } from '../pricing/Money';
+import { AuditOutcome, AuditTrail } from '../utils/AuditTrail';
+import { Clock, SystemClock } from '../utils/Clock';
+
+export enum LedgerEntryType {
+    ACCRUAL = 'ACCRUAL',
+    ACCRUAL_REVERSAL = 'ACCRUAL_REVERSAL',
+    REDEMPTION = 'REDEMPTION',
+    REDEMPTION_REVERSAL = 'REDEMPTION_REVERSAL',
+    EXPIRY = 'EXPIRY'
+}
+
+// Satu entri ledger; points bertanda (akrual positif, penukaran/kedaluwarsa negatif)
+export interface LedgerEntry {
+    id: string;
+    userId: string;
+    type: LedgerEntryType;
+    points: number;
+    createdAt: Date;
+    description: string;
+    bookingId?: string;
+    relatedEntryId?: string;      // Entri yang dibalik atau lot yang kedaluwarsa
+    expiresAt?: Date;             // Untuk entri yang menambah poin (lot)
+}
+
+// Error ketika saldo poin tidak cukup untuk ditukar
+export class InsufficientPointsError extends Error {
+    constructor(
+        public readonly userId: string,
+        public readonly requested: number,
+        public readonly available: number
+    ) {
+        super(`Saldo poin ${userId} tidak mencukupi: diminta ${requested}, tersedia ${available}`);
+        this.name = 'InsufficientPointsError';
+    }
+}
+
+export interface LoyaltyLedgerOptions {
+    earnRates?: Partial<Record<MembershipType, number>>;  // Poin per Rp 1.000 yang dibayar
+    pointValue?: number;          // Nilai tukar 1 poin dalam rupiah
+    expiryDays?: number;          // Masa berlaku poin sejak didapat
+    clock?: Clock;
+}
+
+export const DEFAULT_EARN_RATES: Record<MembershipType, number> = {
+    [MembershipType.REGULAR]: 1,
+    [MembershipType.SILVER]: 1.25,
+    [MembershipType.GOLD]: 1.5,
+    [MembershipType.PLATINUM]: 2
+};
+
+// Hasil penukaran poin sebagai komponen pembayaran
+export interface PointsRedemption {
+    entry: LedgerEntry;
+    amount: Money;
+}
+
+// Sisa poin per lot akrual, dihitung ulang dari entri
+interface PointLot {
+    entryId: string;
+    remaining: number;
+    expiresAt: Date;
+}
+
+// Poin yang diambil sebuah entri pengurang dari satu lot
+interface LotUsage {
+    lotEntryId: string;
+    points: number;
+    expiresAt: Date;
+}
+
+export class LoyaltyLedger {
+    private static defaultLedger: LoyaltyLedger | null = null;
+    private entries: LedgerEntry[] = [];
+    private entryCounter = 0;
+    private earnRates: Record<MembershipType, number>;
+    private pointValue: Money;
+    private expiryDays: number;
+    private clock: Clock;
+
+    constructor(options: LoyaltyLedgerOptions = {}) {
+        this.earnRates = { ...DEFAULT_EARN_RATES, ...options.earnRates };
+        this.pointValue = Money.of(options.pointValue ?? 10);
+        this.expiryDays = options.expiryDays ?? 365;
+        this.clock = options.clock ?? new SystemClock();
+        if (this.pointValue.minorUnits <= 0) {
+            throw new Error('Nilai tukar poin harus lebih dari 0');
+        }
+        if (!Number.isInteger(this.expiryDays) || this.expiryDays <= 0) {
+            throw new Error('Masa berlaku poin harus bilangan bulat positif (hari)');
+        }
+    }
+
+    // Ledger yang dipakai facade dan refund booking
+    static getDefault(): LoyaltyLedger {
+        if (!this.defaultLedger) {
+            this.defaultLedger = new LoyaltyLedger();
+        }
+        return this.defaultLedger;
+    }
+
+    // Mengganti ledger default; null membuat ledger kosong baru saat dibutuhkan
+    static setDefault(ledger: LoyaltyLedger | null): void {
+        this.defaultLedger = ledger;
+    }
+
+    // Membangun ulang ledger dari entri yang diekspor (misalnya dari penyimpanan)
+    static fromEntries(entries: LedgerEntry[], options: LoyaltyLedgerOptions = {}): LoyaltyLedger {
+        const ledger = new LoyaltyLedger(options);
+        ledger.entries = entries.map(entry => ({ ...entry }));
+        ledger.entryCounter = entries.length;
+        return ledger;
+    }
+
+    getPointValue(): Money {
+        return this.pointValue;
+    }
+
+    // Poin untuk nominal yang dibayar sesuai tier (dibulatkan ke bawah)
+    calculatePoints(membership: MembershipType, paidAmount: Money): number {
+        const rate = this.earnRates[membership] ?? 0;
+        return Math.max(0, Math.floor(paidAmount.toNumber() / 1000 * rate));
+    }
+
+    // Nilai rupiah dari sejumlah poin
+    valueOf(points: number): Money {
+        return this.pointValue.multiply(points);
+    }
+
+    // Jumlah poin minimum yang nilainya menutup nominal tertentu
+    pointsFor(amount: Money): number {
+        return Math.ceil(amount.minorUnits / this.pointValue.minorUnits);
+    }
+
+    // Akrual poin untuk booking yang sudah dibayar; satu akrual aktif per booking
+    accrue(userId: string, membership: MembershipType, bookingId: string, paidAmount: Money): LedgerEntry | null {
+        const existing = this.findActive(LedgerEntryType.ACCRUAL, LedgerEntryType.ACCRUAL_REVERSAL, bookingId);
+        if (existing) {
+            return existing;
+        }
+        const points = this.calculatePoints(membership, paidAmount);
+        if (points === 0) {
+            return null;
+        }
+        return this.append({
+            userId,
+            type: LedgerEntryType.ACCRUAL,
+            points,
+            bookingId,
+            description: `Poin booking ${bookingId} (${membership})`,
+            expiresAt: this.expiryFromNow()
+        });
+    }
+
+    // Membalik akrual booking yang di-refund; poin yang sudah terpakai tidak ditarik sampai saldo negatif
+    reverseAccrual(bookingId: string): LedgerEntry | null {
+        const accrual = this.findActive(LedgerEntryType.ACCRUAL, LedgerEntryType.ACCRUAL_REVERSAL, bookingId);
+        if (!accrual) {
+            return null;
+        }
+        const clawback = Math.min(accrual.points, Math.max(0, this.getBalance(accrual.userId)));
+        return this.append({
+            userId: accrual.userId,
+            type: LedgerEntryType.ACCRUAL_REVERSAL,
+            points: clawback > 0 ? -clawback : 0,
+            bookingId,
+            relatedEntryId: accrual.id,
+            description: clawback < accrual.points
+                ? `Pembatalan poin booking ${bookingId} (${accrual.points - clawback} poin sudah terpakai)`
+                : `Pembatalan poin booking ${bookingId}`
+        });
+    }
+
+    // Menukar poin sebagai komponen pembayaran booking
+    redeem(userId: string, points: number, bookingId: string): PointsRedemption {
+        if (!Number.isInteger(points) || points <= 0) {
+            throw new Error('Jumlah poin yang ditukar harus bilangan bulat positif');
+        }
+        if (this.findActive(LedgerEntryType.REDEMPTION, LedgerEntryType.REDEMPTION_REVERSAL, bookingId)) {
+            throw new Error(`Booking ${bookingId} sudah memakai poin`);
+        }
+
+        const available = this.getBalance(userId);
+        if (points > available) {
+            AuditTrail.record({
+                actor: userId,
+                action: 'loyalty.redemption',
+                resource: `loyalty:${userId}`,
+                outcome: AuditOutcome.DENIED,
+                details: { bookingId, points, available }
+            });
+            throw new InsufficientPointsError(userId, points, available);
+        }
+
+        const entry = this.append({
+            userId,
+            type: LedgerEntryType.REDEMPTION,
+            points: -points,
+            bookingId,
+            description: `Penukaran poin untuk booking ${bookingId}`
+        });
+        return { entry, amount: this.valueOf(points) };
+    }
+
+    // Mengembalikan poin yang ditukar ketika pembayaran gagal atau booking di-refund; poin kembali
+    // ke lot asalnya dengan masa berlaku semula (satu entri per lot). Entri pertama dikembalikan.
+    reverseRedemption(bookingId: string): LedgerEntry | null {
+        const redemption = this.findActive(LedgerEntryType.REDEMPTION, LedgerEntryType.REDEMPTION_REVERSAL, bookingId);
+        if (!redemption) {
+            return null;
+        }
+        const usages = this.computeLots(redemption.userId).usages.get(redemption.id) || [];
+        const restored = usages.reduce((sum, usage) => sum + usage.points, 0);
+        if (restored < -redemption.points) {
+            // Poin yang tidak berasal dari lot mana pun (ledger lama dengan defisit)
+            usages.push({ lotEntryId: '', points: -redemption.points - restored, expiresAt: this.expiryFromNow() });
+        }
+
+        const entries = usages.map(usage => this.append({
+            userId: redemption.userId,
+            type: LedgerEntryType.REDEMPTION_REVERSAL,
+            points: usage.points,
+            bookingId,
+            relatedEntryId: redemption.id,
+            description: usage.lotEntryId
+                ? `Pengembalian poin booking ${bookingId} ke ${usage.lotEntryId}`
+                : `Pengembalian poin booking ${bookingId}`,
+            expiresAt: usage.expiresAt
+        }));
+        return entries[0] ?? null;
+    }
+
+    // Mencatat kedaluwarsa lot poin yang sudah lewat masa berlakunya
+    expire(userId?: string): LedgerEntry[] {
+        const now = this.clock.now();
+        const userIds = userId ? [userId] : [...new Set(this.entries.map(entry => entry.userId))];
+        const expired: LedgerEntry[] = [];
+
+        for (const id of userIds) {
+            for (const lot of this.computeLots(id).lots) {
+                if (lot.remaining > 0 && lot.expiresAt <= now) {
+                    expired.push(this.append({
+                        userId: id,
+                        type: LedgerEntryType.EXPIRY,
+                        points: -lot.remaining,
+                        relatedEntryId: lot.entryId,
+                        description: `Poin kedaluwarsa dari ${lot.entryId}`
+                    }));
+                }
+            }
+        }
+        return expired;
+    }
+
+    // Saldo = jumlah seluruh entri; lot yang kedaluwarsa dicatat lebih dulu
+    getBalance(userId: string): number {
+        this.expire(userId);
+        return LoyaltyLedger.sumPoints(this.getEntries(userId));
+    }
+
+    getEntries(userId?: string): LedgerEntry[] {
+        return this.entries
+            .filter(entry => !userId || entry.userId === userId)
+            .map(entry => ({ ...entry }));
+    }
+
+    static sumPoints(entries: LedgerEntry[]): number {
+        return entries.reduce((sum, entry) => sum + entry.points, 0);
+    }
+
+    private append(data: Omit<LedgerEntry, 'id' | 'createdAt'>): LedgerEntry {
+        const entry: LedgerEntry = {
+            id: `LPT-${++this.entryCounter}`,
+            createdAt: this.clock.now(),
+            ...data
+        };
+        this.entries.push(entry);
+
+        const balance = LoyaltyLedger.sumPoints(this.entries.filter(candidate => candidate.userId === entry.userId));
+        AuditTrail.record({
+            actor: entry.userId,
+            action: `loyalty.${entry.type.toLowerCase()}`,
+            resource: `loyalty:${entry.userId}/entry:${entry.id}`,
+            outcome: AuditOutcome.SUCCESS,
+            details: { points: entry.points, balance, bookingId: entry.bookingId, relatedEntryId: entry.relatedEntryId }
+        });
+        console.log(`[LoyaltyLedger] ${entry.type} ${entry.points > 0 ? '+' : ''}${entry.points} poin untuk ${entry.userId} (saldo ${balance})`);
+        return { ...entry };
+    }
+
+    // Entri terakhir suatu jenis untuk booking yang belum dibalik
+    private findActive(type: LedgerEntryType, reversalType: LedgerEntryType, bookingId: string): LedgerEntry | null {
+        const entry = [...this.entries].reverse().find(candidate => candidate.type === type && candidate.bookingId === bookingId);
+        if (!entry || this.entries.some(candidate => candidate.type === reversalType && candidate.relatedEntryId === entry.id)) {
+            return null;
+        }
+        return entry;
+    }
+
+    // Menghitung sisa setiap lot dari entri secara berurutan; pemakaian diambil dari lot yang
+    // paling dulu kedaluwarsa, kekurangan (akrual dibalik setelah poinnya dipakai) dicatat sebagai defisit.
+    // usages mencatat lot yang dipakai setiap entri pengurang.
+    private computeLots(userId: string): { lots: PointLot[]; deficit: number; usages: Map<string, LotUsage[]> } {
+        const lots: PointLot[] = [];
+        const usages = new Map<string, LotUsage[]>();
+        let deficit = 0;
+        const consume = (entryId: string, points: number, preferredLotId?: string) => {
+            let remaining = points;
+            const taken: LotUsage[] = [];
+            const ordered = [...lots].sort((a, b) =>
+                Number(b.entryId === preferredLotId) - Number(a.entryId === preferredLotId) ||
+                a.expiresAt.getTime() - b.expiresAt.getTime()
+            );
+            for (const lot of ordered) {
+                if (remaining === 0) break;
+                const amount = Math.min(lot.remaining, remaining);
+                if (amount === 0) continue;
+                lot.remaining -= amount;
+                remaining -= amount;
+                taken.push({ lotEntryId: lot.entryId, points: amount, expiresAt: lot.expiresAt });
+            }
+            usages.set(entryId, taken);
+            deficit += remaining;
+        };
+
+        for (const entry of this.entries.filter(candidate => candidate.userId === userId)) {
+            if (entry.type === LedgerEntryType.EXPIRY) {
+                const lot = lots.find(candidate => candidate.entryId === entry.relatedEntryId);
+                if (lot) lot.remaining += entry.points;
+            } else if (entry.points > 0) {
+                const covered = Math.min(deficit, entry.points);
+                deficit -= covered;
+                lots.push({
+                    entryId: entry.id,
+                    remaining: entry.points - covered,
+                    expiresAt: entry.expiresAt ?? this.expiryFrom(entry.createdAt)
+                });
+            } else {
+                consume(entry.id, -entry.points, entry.type === LedgerEntryType.ACCRUAL_REVERSAL ? entry.relatedEntryId : undefined);
+            }
+        }
+        return { lots, deficit, usages };
+    }
+
+    private expiryFromNow(): Date {
+        return this.expiryFrom(this.clock.now());
+    }
+
+    private expiryFrom(date: Date): Date {
+        return new Date(date.getTime() + this.expiryDays * 24 * 60 * 60 * 1000);
+    }
+}
+
+// Nilai poin untuk tampilan, misalnya "120 poin (Rp 1.200)"
+export function describePoints(points: number, ledger: LoyaltyLedger = LoyaltyLedger.getDefault()): string {
+    return `${points} poin (${ledger.valueOf(points).format()})`;
+}
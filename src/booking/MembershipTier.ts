@@ -0,0 +1,436 @@
+// Membership Tier - Evaluasi Otomatis Tier Member
+//
+// Tier pengguna dihitung dari total belanja dan jumlah kunjungan (booking yang dibayar) dalam
+// jendela bergulir, dengan ambang per tier yang dimuat dari file JSON (default:
+// membership-tiers.json). Naik tier berlaku langsung saat evaluasi, sedangkan turun tier baru
+// berlaku setelah masa tenggang habis dan pengguna tetap tidak memenuhi syarat. Evaluasi
+// dijalankan berkala terhadap Clock yang di-inject: start() memasang timer yang memanggil runDue
+// walau tidak ada booking baru (job eksternal juga dapat memanggil runDue langsung), dan setiap
+// perubahan dipublikasikan sebagai BookingEvent agar observer notifikasi dapat bereaksi.
+
+import * as fs from 'fs';
+import defaultTiers from './membership-tiers.json';
+import { MembershipType, User } from '../models/User';
+import { BookingEventType, BookingSubject, NotificationManager } from '../notification/NotificationService';
+import { Money } from '../pricing/Money';
+import { Clock, SystemClock } from '../utils/Clock';
+
+// Syarat minimal sebuah tier (keduanya harus terpenuhi)
+export interface TierThreshold {
+    tier: MembershipType;
+    minSpend: number;         // Total belanja dalam rupiah selama jendela evaluasi
+    minVisits: number;        // Jumlah booking yang dibayar selama jendela evaluasi
+}
+
+// Format file tier
+export interface MembershipTierDefinition {
+    windowMonths: number;
+    gracePeriodDays: number;
+    tiers: TierThreshold[];
+}
+
+export enum TierChangeType {
+    UPGRADE = 'UPGRADE',
+    GRACE_STARTED = 'GRACE_STARTED',
+    GRACE_CANCELLED = 'GRACE_CANCELLED',
+    DOWNGRADE = 'DOWNGRADE'
+}
+
+// Hasil evaluasi yang mengubah tier atau status masa tenggang
+export interface TierChange {
+    id: string;
+    userId: string;
+    type: TierChangeType;
+    from: MembershipType;
+    to: MembershipType;       // Tier hasil perubahan; untuk GRACE_STARTED tier yang akan berlaku
+    spend: Money;
+    visits: number;
+    occurredAt: Date;
+    graceUntil?: Date;
+}
+
+// Belanja satu booking yang dihitung untuk tier
+export interface TierActivity {
+    userId: string;
+    bookingId: string;
+    amount: Money;
+    occurredAt: Date;
+}
+
+// Posisi pengguna saat ini terhadap ambang tier
+export interface TierStanding {
+    userId: string;
+    tier: MembershipType;
+    qualifiedTier: MembershipType;
+    spend: Money;
+    visits: number;
+    windowStart: Date;
+    graceUntil: Date | null;
+}
+
+// Error ketika definisi tier tidak valid
+export class MembershipTierValidationError extends Error {
+    constructor(public readonly errors: string[]) {
+        super(`Definisi tier member tidak valid: ${errors.join('; ')}`);
+        this.name = 'MembershipTierValidationError';
+    }
+}
+
+export interface MembershipTierEngineOptions {
+    definition?: MembershipTierDefinition;
+    clock?: Clock;
+    notifier?: BookingSubject;    // Tanpa notifier, perubahan tetap berlaku tetapi tidak dipublikasikan
+    evaluationIntervalMs?: number;
+}
+
+// Definisi tier default (membership-tiers.json di-bundle saat kompilasi)
+export const DEFAULT_TIER_DEFINITION = defaultTiers as MembershipTierDefinition;
+
+// Default: evaluasi sekali sehari
+export const DEFAULT_TIER_EVALUATION_INTERVAL = 24 * 60 * 60 * 1000;
+
+// Default: timer scheduler mengecek jadwal evaluasi setiap menit
+export const DEFAULT_TIER_SCHEDULER_POLL_INTERVAL = 60 * 1000;
+
+// Urutan tier dari terendah
+const TIER_ORDER: MembershipType[] = [
+    MembershipType.REGULAR,
+    MembershipType.SILVER,
+    MembershipType.GOLD,
+    MembershipType.PLATINUM
+];
+
+const EVENT_TYPES: Partial<Record<TierChangeType, BookingEventType>> = {
+    [TierChangeType.UPGRADE]: BookingEventType.MEMBERSHIP_UPGRADED,
+    [TierChangeType.GRACE_STARTED]: BookingEventType.MEMBERSHIP_GRACE_PERIOD,
+    [TierChangeType.DOWNGRADE]: BookingEventType.MEMBERSHIP_DOWNGRADED
+};
+
+export class MembershipTierEngine {
+    private static defaultEngine: MembershipTierEngine | null = null;
+
+    private definition: MembershipTierDefinition;
+    private thresholds: TierThreshold[];
+    private clock: Clock;
+    private notifier: BookingSubject | null;
+    private intervalMs: number;
+    private nextRunAt: Date;
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private users: Map<string, User> = new Map();
+    private activities: Map<string, TierActivity> = new Map();   // bookingId -> aktivitas
+    private graces: Map<string, Date> = new Map();               // userId -> akhir masa tenggang
+    private history: TierChange[] = [];
+    private changeCounter = 0;
+
+    constructor(options: MembershipTierEngineOptions = {}) {
+        const definition = options.definition || DEFAULT_TIER_DEFINITION;
+        const errors = MembershipTierEngine.validate(definition);
+        if (errors.length > 0) {
+            throw new MembershipTierValidationError(errors);
+        }
+        this.definition = definition;
+        this.thresholds = [...definition.tiers].sort((a, b) => rankOf(a.tier) - rankOf(b.tier));
+        this.clock = options.clock || new SystemClock();
+        this.notifier = options.notifier || null;
+        this.intervalMs = options.evaluationIntervalMs ?? DEFAULT_TIER_EVALUATION_INTERVAL;
+        if (this.intervalMs <= 0) {
+            throw new Error('Interval evaluasi tier harus lebih dari 0');
+        }
+        this.nextRunAt = this.clock.now();
+    }
+
+    // Engine default mempublikasikan perubahan tier ke observer notifikasi bawaan (email, SMS, push)
+    static getDefault(): MembershipTierEngine {
+        if (!this.defaultEngine) {
+            this.defaultEngine = new MembershipTierEngine({ notifier: new NotificationManager().getNotifier() });
+        }
+        return this.defaultEngine;
+    }
+
+    // Mengganti engine default; null membuat engine baru saat dibutuhkan
+    static setDefault(engine: MembershipTierEngine | null): void {
+        this.defaultEngine = engine;
+    }
+
+    static fromFile(filePath: string, options: Omit<MembershipTierEngineOptions, 'definition'> = {}): MembershipTierEngine {
+        return new MembershipTierEngine({ ...options, definition: MembershipTierEngine.readDefinition(filePath) });
+    }
+
+    // Memvalidasi definisi dan mengembalikan daftar pesan error (kosong jika valid)
+    static validate(definition: MembershipTierDefinition): string[] {
+        const errors: string[] = [];
+        if (!definition || typeof definition !== 'object') {
+            return ['Definisi tier harus berupa objek JSON'];
+        }
+        if (!Number.isInteger(definition.windowMonths) || definition.windowMonths < 1) {
+            errors.push('windowMonths harus bilangan bulat minimal 1');
+        }
+        if (typeof definition.gracePeriodDays !== 'number' || definition.gracePeriodDays < 0) {
+            errors.push('gracePeriodDays tidak boleh negatif');
+        }
+        if (!Array.isArray(definition.tiers)) {
+            errors.push('Field tiers harus berupa array');
+            return errors;
+        }
+
+        const seen = new Set<MembershipType>();
+        definition.tiers.forEach((threshold, index) => {
+            const label = `tiers[${index}]`;
+            if (!TIER_ORDER.includes(threshold.tier)) {
+                errors.push(`${label}: tier tidak dikenal "${threshold.tier}"`);
+            } else if (seen.has(threshold.tier)) {
+                errors.push(`${label}: tier duplikat ${threshold.tier}`);
+            }
+            seen.add(threshold.tier);
+            if (typeof threshold.minSpend !== 'number' || threshold.minSpend < 0) {
+                errors.push(`${label}: minSpend tidak boleh negatif`);
+            }
+            if (!Number.isInteger(threshold.minVisits) || threshold.minVisits < 0) {
+                errors.push(`${label}: minVisits harus bilangan bulat tidak negatif`);
+            }
+        });
+
+        const regular = definition.tiers.find(threshold => threshold.tier === MembershipType.REGULAR);
+        if (!regular || regular.minSpend !== 0 || regular.minVisits !== 0) {
+            errors.push('Tier REGULAR harus ada dengan minSpend dan minVisits 0');
+        }
+
+        // Tier yang lebih tinggi tidak boleh lebih mudah dicapai
+        const ordered = definition.tiers
+            .filter(threshold => TIER_ORDER.includes(threshold.tier))
+            .sort((a, b) => rankOf(a.tier) - rankOf(b.tier));
+        for (let i = 1; i < ordered.length; i++) {
+            const lower = ordered[i - 1];
+            const higher = ordered[i];
+            if (higher.minSpend < lower.minSpend || higher.minVisits < lower.minVisits) {
+                errors.push(`Ambang ${higher.tier} lebih rendah dari ${lower.tier}`);
+            }
+        }
+        return errors;
+    }
+
+    getDefinition(): MembershipTierDefinition {
+        return { ...this.definition, tiers: this.thresholds.map(threshold => ({ ...threshold })) };
+    }
+
+    // Mendaftarkan pengguna agar ikut dievaluasi berkala
+    register(user: User): void {
+        this.users.set(user.id, user);
+    }
+
+    // Mencatat belanja booking yang dibayar (sekali per booking)
+    recordActivity(user: User, bookingId: string, amount: Money): TierActivity {
+        this.register(user);
+        const existing = this.activities.get(bookingId);
+        if (existing) return existing;
+
+        const activity: TierActivity = { userId: user.id, bookingId, amount, occurredAt: this.clock.now() };
+        this.activities.set(bookingId, activity);
+        console.log(`[MembershipTier] ${user.name} spent ${amount.format()} on ${bookingId}`);
+        return activity;
+    }
+
+    // Membatalkan belanja booking yang di-refund; null jika tidak ada yang dibatalkan
+    reverseActivity(bookingId: string): TierActivity | null {
+        const activity = this.activities.get(bookingId);
+        if (!activity) return null;
+
+        this.activities.delete(bookingId);
+        console.log(`[MembershipTier] Activity ${bookingId} reversed for ${activity.userId}`);
+        return activity;
+    }
+
+    // Tier tertinggi yang syaratnya terpenuhi
+    qualify(spend: Money, visits: number): MembershipType {
+        let qualified = MembershipType.REGULAR;
+        for (const threshold of this.thresholds) {
+            if (spend.toNumber() >= threshold.minSpend && visits >= threshold.minVisits) {
+                qualified = threshold.tier;
+            }
+        }
+        return qualified;
+    }
+
+    getStanding(userId: string): TierStanding {
+        const user = this.getUser(userId);
+        const now = this.clock.now();
+        const windowStart = new Date(now.getTime());
+        windowStart.setMonth(windowStart.getMonth() - this.definition.windowMonths);
+
+        const activities = Array.from(this.activities.values()).filter(activity =>
+            activity.userId === userId && activity.occurredAt > windowStart && activity.occurredAt <= now
+        );
+        const spend = Money.sum(activities.map(activity => activity.amount));
+        return {
+            userId,
+            tier: user.membership,
+            qualifiedTier: this.qualify(spend, activities.length),
+            spend,
+            visits: activities.length,
+            windowStart,
+            graceUntil: this.graces.get(userId) || null
+        };
+    }
+
+    // Mengevaluasi satu pengguna dan menerapkan perubahan tier; null jika tidak ada perubahan
+    evaluate(userId: string): TierChange | null {
+        const user = this.getUser(userId);
+        const standing = this.getStanding(userId);
+        const now = this.clock.now();
+        const current = rankOf(user.membership);
+        const qualified = rankOf(standing.qualifiedTier);
+        const graceUntil = this.graces.get(userId);
+
+        if (qualified > current) {
+            this.graces.delete(userId);
+            return this.apply(user, standing, TierChangeType.UPGRADE);
+        }
+        if (qualified === current) {
+            if (!graceUntil) return null;
+            this.graces.delete(userId);
+            return this.apply(user, standing, TierChangeType.GRACE_CANCELLED);
+        }
+        if (!graceUntil && this.definition.gracePeriodDays > 0) {
+            const until = new Date(now.getTime() + this.definition.gracePeriodDays * 24 * 60 * 60 * 1000);
+            this.graces.set(userId, until);
+            return this.apply(user, standing, TierChangeType.GRACE_STARTED, until);
+        }
+        if (graceUntil && now < graceUntil) return null;
+
+        this.graces.delete(userId);
+        return this.apply(user, standing, TierChangeType.DOWNGRADE);
+    }
+
+    // Mengevaluasi semua pengguna terdaftar
+    evaluateAll(): TierChange[] {
+        const changes: TierChange[] = [];
+        for (const userId of this.users.keys()) {
+            const change = this.evaluate(userId);
+            if (change) changes.push(change);
+        }
+        return changes;
+    }
+
+    // Dipanggil oleh scheduler; evaluasi hanya berjalan jika jadwalnya sudah tiba
+    runDue(): TierChange[] {
+        const now = this.clock.now();
+        if (now < this.nextRunAt) return [];
+
+        console.log(`[MembershipTier] Evaluating ${this.users.size} member(s)`);
+        const changes = this.evaluateAll();
+        // Jadwal berikutnya dihitung dari sekarang agar jeda panjang tidak memicu evaluasi beruntun
+        this.nextRunAt = new Date(now.getTime() + this.intervalMs);
+        return changes;
+    }
+
+    // Memulai scheduler: runDue dicek setiap pollIntervalMs (waktu nyata), sedangkan jadwal
+    // evaluasinya tetap mengikuti Clock. Timer tidak menahan proses tetap hidup.
+    start(pollIntervalMs: number = DEFAULT_TIER_SCHEDULER_POLL_INTERVAL): void {
+        if (pollIntervalMs <= 0) {
+            throw new Error('Interval scheduler tier harus lebih dari 0');
+        }
+        this.stop();
+        this.timer = setInterval(() => {
+            try {
+                this.runDue();
+            } catch (error) {
+                console.log(`[MembershipTier] Evaluasi terjadwal gagal: ${(error as Error).message}`);
+            }
+        }, pollIntervalMs);
+        this.timer.unref?.();
+        console.log(`[MembershipTier] Scheduler started (poll ${pollIntervalMs} ms)`);
+    }
+
+    stop(): void {
+        if (!this.timer) return;
+        clearInterval(this.timer);
+        this.timer = null;
+        console.log('[MembershipTier] Scheduler stopped');
+    }
+
+    isRunning(): boolean {
+        return this.timer !== null;
+    }
+
+    getNotifier(): BookingSubject | null {
+        return this.notifier;
+    }
+
+    getNextRunAt(): Date {
+        return new Date(this.nextRunAt.getTime());
+    }
+
+    getHistory(userId?: string): TierChange[] {
+        return userId ? this.history.filter(change => change.userId === userId) : [...this.history];
+    }
+
+    private static readDefinition(filePath: string): MembershipTierDefinition {
+        try {
+            return JSON.parse(fs.readFileSync(filePath, 'utf8')) as MembershipTierDefinition;
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new MembershipTierValidationError([`File ${filePath} tidak dapat dibaca: ${reason}`]);
+        }
+    }
+
+    private getUser(userId: string): User {
+        const user = this.users.get(userId);
+        if (!user) {
+            throw new Error(`Pengguna ${userId} belum terdaftar untuk evaluasi tier`);
+        }
+        return user;
+    }
+
+    private apply(user: User, standing: TierStanding, type: TierChangeType, graceUntil?: Date): TierChange {
+        const from = user.membership;
+        const to = type === TierChangeType.GRACE_CANCELLED ? from : standing.qualifiedTier;
+        if (type === TierChangeType.UPGRADE || type === TierChangeType.DOWNGRADE) {
+            user.membership = to;
+        }
+
+        const change: TierChange = {
+            id: `TIER-${++this.changeCounter}`,
+            userId: user.id,
+            type,
+            from,
+            to,
+            spend: standing.spend,
+            visits: standing.visits,
+            occurredAt: this.clock.now(),
+            graceUntil
+        };
+        this.history.push(change);
+        console.log(`[MembershipTier] ${user.name}: ${type} ${from} -> ${to}`);
+        this.publish(user, change);
+        return change;
+    }
+
+    private publish(user: User, change: TierChange): void {
+        const eventType = EVENT_TYPES[change.type];
+        if (!this.notifier || !eventType) return;
+
+        this.notifier.notify({
+            eventType,
+            bookingId: change.id,
+            customerName: user.name,
+            customerEmail: user.email,
+            customerPhone: user.phone,
+            movieTitle: '',
+            cinemaName: '',
+            showtime: '',
+            seats: [],
+            totalAmount: change.spend.toNumber(),
+            timestamp: change.occurredAt,
+            additionalData: {
+                previousTier: change.from,
+                newTier: change.to,
+                visits: change.visits,
+                graceUntil: change.graceUntil?.toISOString()
+            }
+        });
+    }
+}
+
+function rankOf(tier: MembershipType): number {
+    return TIER_ORDER.indexOf(tier);
+}
@@ -0,0 +1,336 @@
+// Voucher - Kode Promo yang Diterbitkan dari PromoTemplate
+//
+// Kode voucher diterbitkan dari PromoTemplate (prototype di PromoRegistry) dengan batas
+// pemakaian global dan per pengguna, serta pembatasan film, bioskop, dan tipe studio.
+// Nominal diskon selalu dihitung di sisi server dari template dan jumlah pembelian, bukan dari
+// angka yang dikirim pemanggil. BookingBuilder hanya memvalidasi voucher; pemakaian dicatat
+// sebagai redemption saat checkout dan dibalik ketika checkout gagal atau booking di-refund
+// sehingga kuota voucher kembali tersedia.
+
+import { StudioType } from '../models/Cinema';
+import { Showtime } from '../models/Showtime';
+import { IDR, Money } from '../pricing/Money';
+import { PromoRegistry, PromoTemplate } from '../seat/SeatLayout';
+import { AuditOutcome, AuditTrail } from '../utils/AuditTrail';
+import { Clock, SystemClock } from '../utils/Clock';
+
+// Alasan voucher ditolak
+export enum VoucherRejectionReason {
+    NOT_FOUND = 'NOT_FOUND',
+    NOT_YET_VALID = 'NOT_YET_VALID',
+    EXPIRED = 'EXPIRED',
+    MOVIE_NOT_ELIGIBLE = 'MOVIE_NOT_ELIGIBLE',
+    CINEMA_NOT_ELIGIBLE = 'CINEMA_NOT_ELIGIBLE',
+    STUDIO_NOT_ELIGIBLE = 'STUDIO_NOT_ELIGIBLE',
+    MINIMUM_PURCHASE = 'MINIMUM_PURCHASE',
+    GLOBAL_LIMIT_REACHED = 'GLOBAL_LIMIT_REACHED',
+    USER_LIMIT_REACHED = 'USER_LIMIT_REACHED',
+    ALREADY_REDEEMED = 'ALREADY_REDEEMED'
+}
+
+// Error ketika voucher tidak dapat dipakai
+export class VoucherError extends Error {
+    constructor(
+        public readonly code: string,
+        public readonly reason: VoucherRejectionReason,
+        message: string
+    ) {
+        super(`Voucher ${code} tidak dapat dipakai: ${message}`);
+        this.name = 'VoucherError';
+    }
+}
+
+// Pembatasan voucher; field kosong berarti tidak dibatasi
+export interface VoucherRestrictions {
+    movieIds?: string[];
+    cinemaIds?: string[];
+    studioTypes?: StudioType[];
+}
+
+export interface VoucherIssueOptions extends VoucherRestrictions {
+    code?: string;                    // Default: dibuat dari id template
+    maxRedemptions?: number;          // Batas pemakaian global
+    maxRedemptionsPerUser?: number;
+    validFrom?: Date;                 // Default: masa berlaku template
+    validUntil?: Date;
+}
+
+export interface Voucher {
+    code: string;
+    template: PromoTemplate;
+    validFrom: Date;
+    validUntil: Date;
+    maxRedemptions?: number;
+    maxRedemptionsPerUser?: number;
+    restrictions: VoucherRestrictions;
+    issuedAt: Date;
+}
+
+export enum RedemptionStatus {
+    ACTIVE = 'ACTIVE',
+    REVERSED = 'REVERSED'
+}
+
+export interface VoucherRedemption {
+    id: string;
+    code: string;
+    userId: string;
+    bookingId: string;
+    purchaseAmount: Money;
+    discount: Money;
+    redeemedAt: Date;
+    status: RedemptionStatus;
+    reversedAt?: Date;
+}
+
+// Data pembelian yang diperiksa saat validasi
+export interface VoucherContext {
+    userId: string;
+    showtime: Showtime;
+    purchaseAmount: Money;
+}
+
+// Hasil validasi (tidak melempar error)
+export interface VoucherCheck {
+    code: string;
+    valid: boolean;
+    discount: Money;
+    reason?: VoucherRejectionReason;
+    message?: string;
+}
+
+// Voucher paket keluarga yang selalu tersedia di service default (dipakai BookingDirector)
+export const FAMILY_VOUCHER_CODE = 'FAMILY20';
+
+export class VoucherService {
+    private static defaultService: VoucherService | null = null;
+    private vouchers: Map<string, Voucher> = new Map();
+    private redemptions: VoucherRedemption[] = [];
+    private redemptionCounter = 0;
+
+    constructor(private clock: Clock = new SystemClock()) { }
+
+    // Service yang dipakai BookingBuilder dan facade
+    static getDefault(): VoucherService {
+        if (!this.defaultService) {
+            this.defaultService = VoucherService.createDefault();
+        }
+        return this.defaultService;
+    }
+
+    // Mengganti service default; null membuat service bawaan baru saat dibutuhkan
+    static setDefault(service: VoucherService | null): void {
+        this.defaultService = service;
+    }
+
+    // Service bawaan dengan voucher paket keluarga (potongan Rp20.000 untuk pembelian paket)
+    static createDefault(clock: Clock = new SystemClock()): VoucherService {
+        const service = new VoucherService(clock);
+        const family = new PromoTemplate(
+            'PROMO-FAMILY20',
+            'Paket Keluarga',
+            'Potongan paket keluarga 4 tiket + snack',
+            10,
+            300000,
+            20000,
+            3650
+        );
+        family.addTermsAndCondition('Minimal pembelian paket keluarga Rp300.000');
+        service.issue(family, { code: FAMILY_VOUCHER_CODE });
+        return service;
+    }
+
+    static normalizeCode(code: string): string {
+        return code.trim().toUpperCase();
+    }
+
+    // Menerbitkan kode voucher dari template
+    issue(template: PromoTemplate, options: VoucherIssueOptions = {}): Voucher {
+        const code = VoucherService.normalizeCode(options.code ?? template.getId().replace(/^PROMO-/, ''));
+        if (!code) {
+            throw new Error('Kode voucher tidak boleh kosong');
+        }
+        if (this.vouchers.has(code)) {
+            throw new Error(`Kode voucher ${code} sudah diterbitkan`);
+        }
+        for (const [field, value] of [['maxRedemptions', options.maxRedemptions], ['maxRedemptionsPerUser', options.maxRedemptionsPerUser]] as const) {
+            if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+                throw new Error(`${field} harus bilangan bulat positif`);
+            }
+        }
+
+        const voucher: Voucher = {
+            code,
+            template,
+            validFrom: options.validFrom ?? template.getValidFrom(),
+            validUntil: options.validUntil ?? template.getValidUntil(),
+            maxRedemptions: options.maxRedemptions,
+            maxRedemptionsPerUser: options.maxRedemptionsPerUser,
+            restrictions: {
+                movieIds: options.movieIds,
+                cinemaIds: options.cinemaIds,
+                studioTypes: options.studioTypes
+            },
+            issuedAt: this.clock.now()
+        };
+        if (voucher.validUntil < voucher.validFrom) {
+            throw new Error(`Masa berlaku voucher ${code} tidak valid`);
+        }
+        this.vouchers.set(code, voucher);
+        console.log(`[VoucherService] Voucher ${code} issued from ${template.getId()}`);
+        return voucher;
+    }
+
+    // Menerbitkan voucher dari prototype yang terdaftar di PromoRegistry
+    issueFromRegistry(key: string, options: VoucherIssueOptions = {}): Voucher {
+        const template = PromoRegistry.getPrototype(key);
+        if (!template) {
+            throw new Error(`Promo ${key} tidak terdaftar`);
+        }
+        return this.issue(template, options);
+    }
+
+    getVoucher(code: string): Voucher | null {
+        return this.vouchers.get(VoucherService.normalizeCode(code)) || null;
+    }
+
+    // Memeriksa voucher dan menghitung diskon tanpa mencatat pemakaian
+    validate(code: string, context: VoucherContext): VoucherCheck {
+        const normalized = VoucherService.normalizeCode(code);
+        try {
+            const discount = this.checkOrThrow(normalized, context);
+            return { code: normalized, valid: true, discount };
+        } catch (error) {
+            if (!(error instanceof VoucherError)) throw error;
+            return { code: normalized, valid: false, discount: Money.zero(), reason: error.reason, message: error.message };
+        }
+    }
+
+    // Menghitung diskon tanpa mencatat pemakaian; melempar VoucherError jika tidak valid
+    quote(code: string, context: VoucherContext): Money {
+        return this.checkOrThrow(VoucherService.normalizeCode(code), context);
+    }
+
+    // Memakai voucher untuk booking; melempar VoucherError jika tidak valid
+    redeem(code: string, bookingId: string, context: VoucherContext): VoucherRedemption {
+        const normalized = VoucherService.normalizeCode(code);
+        let discount: Money;
+        try {
+            if (this.getActiveRedemption(bookingId)) {
+                throw new VoucherError(normalized, VoucherRejectionReason.ALREADY_REDEEMED,
+                    `booking ${bookingId} sudah memakai voucher`);
+            }
+            discount = this.checkOrThrow(normalized, context);
+        } catch (error) {
+            if (error instanceof VoucherError) {
+                this.audit(context.userId, 'voucher.redeem', normalized, AuditOutcome.DENIED, { bookingId, reason: error.reason });
+            }
+            throw error;
+        }
+
+        const redemption: VoucherRedemption = {
+            id: `RDM-${++this.redemptionCounter}`,
+            code: normalized,
+            userId: context.userId,
+            bookingId,
+            purchaseAmount: context.purchaseAmount,
+            discount,
+            redeemedAt: this.clock.now(),
+            status: RedemptionStatus.ACTIVE
+        };
+        this.redemptions.push(redemption);
+        console.log(`[VoucherService] ${normalized} redeemed for ${bookingId}: ${discount.format()}`);
+        this.audit(context.userId, 'voucher.redeem', normalized, AuditOutcome.SUCCESS, {
+            bookingId,
+            discount: discount.toNumber()
+        });
+        return redemption;
+    }
+
+    // Membalik pemakaian voucher sebuah booking (refund/pembatalan); null jika tidak ada
+    reverse(bookingId: string): VoucherRedemption | null {
+        const redemption = this.getActiveRedemption(bookingId);
+        if (!redemption) return null;
+
+        redemption.status = RedemptionStatus.REVERSED;
+        redemption.reversedAt = this.clock.now();
+        console.log(`[VoucherService] Redemption ${redemption.code} for ${bookingId} reversed`);
+        this.audit(redemption.userId, 'voucher.reverse', redemption.code, AuditOutcome.SUCCESS, {
+            bookingId,
+            discount: redemption.discount.toNumber()
+        });
+        return redemption;
+    }
+
+    getRedemptions(code?: string): VoucherRedemption[] {
+        const normalized = code ? VoucherService.normalizeCode(code) : null;
+        return this.redemptions.filter(redemption => !normalized || redemption.code === normalized);
+    }
+
+    getActiveRedemption(bookingId: string): VoucherRedemption | null {
+        return this.redemptions.find(redemption =>
+            redemption.bookingId === bookingId && redemption.status === RedemptionStatus.ACTIVE
+        ) || null;
+    }
+
+    // Jumlah pemakaian aktif (global atau untuk satu pengguna)
+    getUsageCount(code: string, userId?: string): number {
+        return this.getRedemptions(code).filter(redemption =>
+            redemption.status === RedemptionStatus.ACTIVE && (!userId || redemption.userId === userId)
+        ).length;
+    }
+
+    // Urutan pemeriksaan: masa berlaku, film/bioskop/studio, minimum pembelian, kuota global, kuota user
+    private checkOrThrow(code: string, context: VoucherContext): Money {
+        const voucher = this.vouchers.get(code);
+        if (!voucher) {
+            throw new VoucherError(code, VoucherRejectionReason.NOT_FOUND, 'kode tidak ditemukan');
+        }
+
+        const now = this.clock.now();
+        if (now < voucher.validFrom) {
+            throw new VoucherError(code, VoucherRejectionReason.NOT_YET_VALID,
+                `berlaku mulai ${voucher.validFrom.toISOString()}`);
+        }
+        if (now > voucher.validUntil) {
+            throw new VoucherError(code, VoucherRejectionReason.EXPIRED,
+                `berakhir ${voucher.validUntil.toISOString()}`);
+        }
+
+        const { movieIds, cinemaIds, studioTypes } = voucher.restrictions;
+        const { showtime } = context;
+        if (movieIds && !movieIds.includes(showtime.movie.id)) {
+            throw new VoucherError(code, VoucherRejectionReason.MOVIE_NOT_ELIGIBLE,
+                `tidak berlaku untuk film ${showtime.movie.title}`);
+        }
+        if (cinemaIds && !cinemaIds.includes(showtime.cinema.id)) {
+            throw new VoucherError(code, VoucherRejectionReason.CINEMA_NOT_ELIGIBLE,
+                `tidak berlaku di ${showtime.cinema.name}`);
+        }
+        if (studioTypes && !studioTypes.includes(showtime.studio.type)) {
+            throw new VoucherError(code, VoucherRejectionReason.STUDIO_NOT_ELIGIBLE,
+                `tidak berlaku untuk studio ${showtime.studio.type}`);
+        }
+
+        const minimum = Money.of(voucher.template.getMinimumPurchase(), IDR);
+        if (context.purchaseAmount.compare(minimum) < 0) {
+            throw new VoucherError(code, VoucherRejectionReason.MINIMUM_PURCHASE,
+                `minimum pembelian ${minimum.format()}`);
+        }
+
+        if (voucher.maxRedemptions !== undefined && this.getUsageCount(code) >= voucher.maxRedemptions) {
+            throw new VoucherError(code, VoucherRejectionReason.GLOBAL_LIMIT_REACHED, 'kuota voucher sudah habis');
+        }
+        if (voucher.maxRedemptionsPerUser !== undefined &&
+            this.getUsageCount(code, context.userId) >= voucher.maxRedemptionsPerUser) {
+            throw new VoucherError(code, VoucherRejectionReason.USER_LIMIT_REACHED,
+                'batas pemakaian per pengguna sudah tercapai');
+        }
+
+        return Money.of(voucher.template.calculateDiscount(context.purchaseAmount.toNumber()), IDR);
+    }
+
+    private audit(actor: string, action: string, code: string, outcome: AuditOutcome, details: Record<string, unknown>): void {
+        AuditTrail.record({ actor, action, resource: `voucher:${code}`, outcome, details });
+    }
+}
@@ -1,3 +1,6 @@
+import { PriceBreakdown, PriceCalculator, PriceLineType, formatPriceLine } from '../pricing/PriceBreakdown';
+import { Money, formatRupiah } from '../pricing/Money';
+
 // Abstract Product: PackageTicket
 // Interface untuk tiket dalam paket
 export interface PackageTicket {
@@ -178,7 +181,22 @@ export interface CinemaPackageFactory {
     createDrink(): Drink;
     createSouvenir?(): Souvenir; // Optional, hanya untuk paket premium
     getPackageName(): string;
-    getTotalPrice(): number;
+    getPriceBreakdown(): PriceBreakdown;
+    getTotalPrice(): Money;
+}
+
+// Rincian harga paket: tiket sebagai TICKET, produk lain sebagai ADDON, lalu diskon paket
+function calculatePackageBreakdown(
+    packageName: string,
+    ticket: PackageTicket,
+    products: { getName(): string; getPrice(): number }[],
+    discountRate: number
+): PriceBreakdown {
+    return PriceCalculator.getDefault().calculate({
+        tickets: [{ label: ticket.getName(), unitPrice: Money.of(ticket.getPrice()) }],
+        addons: products.map(product => ({ label: product.getName(), unitPrice: Money.of(product.getPrice()) })),
+        discounts: [{ label: `Diskon ${packageName}`, rate: discountRate }]
+    });
 }
 
 // Concrete Factory: RegularPackageFactory
@@ -200,14 +218,18 @@ export class RegularPackageFactory implements CinemaPackageFactory {
         return 'Paket Hemat Regular';
     }
 
-    getTotalPrice(): number {
-        const ticket = this.createTicket();
-        const snack = this.createSnack();
-        const drink = this.createDrink();
-
+    getPriceBreakdown(): PriceBreakdown {
         // Diskon paket 10%
-        const subtotal = ticket.getPrice() + snack.getPrice() + drink.getPrice();
-        return Math.round(subtotal * 0.9);
+        return calculatePackageBreakdown(
+            this.getPackageName(),
+            this.createTicket(),
+            [this.createSnack(), this.createDrink()],
+            0.1
+        );
+    }
+
+    getTotalPrice(): Money {
+        return this.getPriceBreakdown().total;
     }
 }
 
@@ -240,16 +262,18 @@ export class PremiumPackageFactory implements CinemaPackageFactory {
         return 'Paket Premium VIP';
     }
 
-    getTotalPrice(): number {
-        const ticket = this.createTicket();
-        const snack = this.createSnack();
-        const drink = this.createDrink();
-        const souvenir = this.createSouvenir();
-
+    getPriceBreakdown(): PriceBreakdown {
         // Diskon paket 15%
-        const subtotal = ticket.getPrice() + snack.getPrice() +
-            drink.getPrice() + souvenir.getPrice();
-        return Math.round(subtotal * 0.85);
+        return calculatePackageBreakdown(
+            this.getPackageName(),
+            this.createTicket(),
+            [this.createSnack(), this.createDrink(), this.createSouvenir()],
+            0.15
+        );
+    }
+
+    getTotalPrice(): Money {
+        return this.getPriceBreakdown().total;
     }
 }
 
@@ -288,18 +312,18 @@ export class CinemaPackage {
 ║ TIKET                                                        ║
 ║   ${this.ticket.getName().padEnd(57)}║
 ║   ${this.ticket.getDescription().padEnd(57)}║
-║   Harga: Rp ${this.ticket.getPrice().toLocaleString('id-ID').padEnd(47)}║
+║   Harga: ${formatRupiah(this.ticket.getPrice()).padEnd(50)}║
 ╠══════════════════════════════════════════════════════════════╣
 ║ SNACK                                                        ║
 ║   ${this.snack.getName().padEnd(57)}║
 ║   Ukuran: ${this.snack.getSize().padEnd(49)}║
 ║   Kalori: ${this.snack.getCalories().toString().padEnd(49)}cal║
-║   Harga: Rp ${this.snack.getPrice().toLocaleString('id-ID').padEnd(47)}║
+║   Harga: ${formatRupiah(this.snack.getPrice()).padEnd(50)}║
 ╠══════════════════════════════════════════════════════════════╣
 ║ MINUMAN                                                      ║
 ║   ${this.drink.getName().padEnd(57)}║
 ║   Ukuran: ${this.drink.getSize()} (${this.drink.getVolume()}ml)${' '.repeat(35)}║
-║   Harga: Rp ${this.drink.getPrice().toLocaleString('id-ID').padEnd(47)}║`;
+║   Harga: ${formatRupiah(this.drink.getPrice()).padEnd(50)}║`;
 
         if (this.souvenir) {
             output += `
@@ -307,12 +331,26 @@ export class CinemaPackage {
 ║ SOUVENIR                                                     ║
 ║   ${this.souvenir.getName().padEnd(57)}║
 ║   ${this.souvenir.getDescription().padEnd(57)}║
-║   Harga: Rp ${this.souvenir.getPrice().toLocaleString('id-ID').padEnd(47)}║`;
+║   Harga: ${formatRupiah(this.souvenir.getPrice()).padEnd(50)}║`;
+        }
+
+        // Diskon paket, pajak, dan pembulatan dari rincian harga
+        const breakdown = this.getPriceBreakdown();
+        const extraLines = breakdown.lines.filter(line =>
+            line.type !== PriceLineType.TICKET && line.type !== PriceLineType.ADDON);
+        if (extraLines.length > 0) {
+            output += `
+╠══════════════════════════════════════════════════════════════╣`;
+            for (const line of extraLines) {
+                const { label, value } = formatPriceLine(line);
+                output += `
+║   ${label.substring(0, 33).padEnd(33)} ${value.padEnd(23)}║`;
+            }
         }
 
         output += `
 ╠══════════════════════════════════════════════════════════════╣
-║ TOTAL PAKET: Rp ${this.factory.getTotalPrice().toLocaleString('id-ID').padEnd(43)}║
+║ TOTAL PAKET: ${formatRupiah(breakdown.total).padEnd(46)}║
 ╚══════════════════════════════════════════════════════════════╝`;
 
         return output;
@@ -334,8 +372,12 @@ export class CinemaPackage {
         return this.souvenir;
     }
 
-    getTotalPrice(): number {
-        return this.factory.getTotalPrice();
+    getPriceBreakdown(): PriceBreakdown {
+        return this.factory.getPriceBreakdown();
+    }
+
+    getTotalPrice(): Money {
+        return this.getPriceBreakdown().total;
     }
 }
 
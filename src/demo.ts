@@ -90,6 +90,8 @@ import {
     SeatSelectionController
 } from './seat/SeatSelection';
 
+import { formatRupiah } from './pricing/Money';
+
 // ═══════════════════════════════════════════════════════════════════════════
 // UTILITY FUNCTIONS
 // ═══════════════════════════════════════════════════════════════════════════
@@ -130,9 +132,9 @@ function demoFactoryMethod(): void {
     const imaxTicket = imaxFactory.createTicket(showtime, seat);
 
     console.log(`\nCreated Tickets:`);
-    console.log(`  Regular Ticket: ${regularTicket.id} - Rp ${regularTicket.getPrice().toLocaleString()}`);
-    console.log(`  VIP Ticket: ${vipTicket.id} - Rp ${vipTicket.getPrice().toLocaleString()}`);
-    console.log(`  IMAX Ticket: ${imaxTicket.id} - Rp ${imaxTicket.getPrice().toLocaleString()}`);
+    console.log(`  Regular Ticket: ${regularTicket.id} - ${formatRupiah(regularTicket.getPrice())}`);
+    console.log(`  VIP Ticket: ${vipTicket.id} - ${formatRupiah(vipTicket.getPrice())}`);
+    console.log(`  IMAX Ticket: ${imaxTicket.id} - ${formatRupiah(imaxTicket.getPrice())}`);
 
     console.log('\n' + regularTicket.printTicket());
 }
@@ -167,7 +169,7 @@ function demoBuilder(): void {
     const basicBooking = director.buildBasicBooking(user, showtime, seat);
     console.log(`Booking ID: ${basicBooking.id}`);
     console.log(`Tickets: ${basicBooking.tickets.length}`);
-    console.log(`Total: Rp ${basicBooking.getTotalPrice().toLocaleString()}`);
+    console.log(`Total: ${formatRupiah(basicBooking.getTotalPrice())}`);
 
     printSubHeader('VIP Booking');
     const seat2 = createSampleSeat('B', 2);
@@ -175,7 +177,7 @@ function demoBuilder(): void {
     console.log(`Booking ID: ${vipBooking.id}`);
     console.log(`Tickets: ${vipBooking.tickets.length}`);
     console.log(`Insurance: ${vipBooking.insuranceIncluded}`);
-    console.log(`Total: Rp ${vipBooking.getTotalPrice().toLocaleString()}`);
+    console.log(`Total: ${formatRupiah(vipBooking.getTotalPrice())}`);
 
     printSubHeader('Combo Booking');
     const seat3 = createSampleSeat('C', 3);
@@ -183,7 +185,7 @@ function demoBuilder(): void {
     console.log(`Booking ID: ${comboBooking.id}`);
     console.log(`Tickets: ${comboBooking.tickets.length}`);
     console.log(`Addons: ${comboBooking.addons.length}`);
-    console.log(`Total: Rp ${comboBooking.getTotalPrice().toLocaleString()}`);
+    console.log(`Total: ${formatRupiah(comboBooking.getTotalPrice())}`);
 }
 
 // Demo 4: Prototype Pattern
@@ -254,7 +256,7 @@ function demoDecorator(): void {
     printSubHeader('Basic Ticket');
     let ticket: TicketComponent = new BasicTicket('Avengers: Endgame', '14:00', 'D5', 75000);
     console.log(`Description: ${ticket.getDescription()}`);
-    console.log(`Price: Rp ${ticket.getPrice().toLocaleString()}`);
+    console.log(`Price: ${formatRupiah(ticket.getPrice())}`);
 
     printSubHeader('Adding Decorations');
 
@@ -324,6 +326,7 @@ function demoProxy(): void {
     printSubHeader('Cache Statistics');
     const stats = proxy.getCacheStats();
     console.log(`Cache entries: ${stats.entries}`);
+    console.log(`Hit ratio: ${(stats.hitRatio * 100).toFixed(0)}% (${stats.hits} hit, ${stats.misses} miss)`);
 
     printSubHeader('Access Log');
     const logs = proxy.getAccessLog(3);
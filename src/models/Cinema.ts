@@ -1,6 +1,8 @@
 // Model Bioskop dan Studio
 // Merepresentasikan data bioskop beserta studio-studionya
 
+import { SeatMapDefinition } from './SeatMapDefinition';
+
 // Tipe studio yang tersedia
 export enum StudioType {
     REGULAR = 'REGULAR',
@@ -17,6 +19,7 @@ export interface Studio {
     capacity: number;
     rowCount: number;
     seatsPerRow: number;
+    seatMap?: SeatMapDefinition;   // Tata letak kursi (opsional, default persegi panjang)
 }
 
 // Interface Cinema (Bioskop)
@@ -37,7 +40,8 @@ export class StudioImpl implements Studio {
         public type: StudioType,
         public capacity: number,
         public rowCount: number,
-        public seatsPerRow: number
+        public seatsPerRow: number,
+        public seatMap?: SeatMapDefinition
     ) { }
 
     // Mendapatkan deskripsi studio
@@ -0,0 +1,42 @@
+// Model Definisi Peta Kursi (Seat Map)
+// Format deklaratif untuk mendeskripsikan tata letak kursi studio:
+// baris dengan posisi kursi eksplisit, lorong/celah, tipe kursi dan zona.
+
+import { SeatType } from './Seat';
+
+// Zona kursi berdasarkan jarak ke layar
+export enum SeatZone {
+    FRONT = 'FRONT',
+    MIDDLE = 'MIDDLE',
+    BACK = 'BACK'
+}
+
+// Definisi satu kursi dalam baris
+export interface SeatMapSeatDefinition {
+    number: number;      // Nomor kursi (kode kursi = label baris + nomor)
+    column: number;      // Posisi horizontal di grid studio (dimulai dari 0)
+    type?: SeatType;     // Default: REGULAR
+    zone?: SeatZone;     // Default: mengikuti baris atau dihitung dari posisi baris
+    companion?: boolean; // Kursi pendamping, harus bersebelahan dengan ruang kursi roda
+}
+
+// Definisi satu baris kursi
+// Gunakan `seats` untuk posisi eksplisit, atau `pattern` untuk notasi ringkas:
+//   R = Regular, V = VIP, C = Couple, W = Wheelchair, P = Pendamping kursi roda, _ = celah/lorong
+//   contoh: 'RRR_RRRRRR_RRR'
+export interface SeatMapRowDefinition {
+    label: string;
+    seats?: SeatMapSeatDefinition[];
+    pattern?: string;
+    offset?: number;       // Kolom awal pattern (untuk baris yang bergeser/staggered)
+    startNumber?: number;  // Nomor kursi pertama pattern (default 1)
+    zone?: SeatZone;
+}
+
+// Definisi lengkap seat map sebuah studio
+export interface SeatMapDefinition {
+    id: string;
+    name: string;
+    columns?: number;      // Lebar grid; default: kolom terbesar + 1
+    rows: SeatMapRowDefinition[];
+}
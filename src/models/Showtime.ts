@@ -3,6 +3,7 @@
 
 import { Movie } from './Movie';
 import { Cinema, Studio } from './Cinema';
+import { PricingEngine, showtimePricingContext } from '../pricing/PricingEngine';
 
 // Interface Showtime
 export interface Showtime {
@@ -13,7 +14,9 @@ export interface Showtime {
     date: Date;
     startTime: string;
     endTime: string;
-    basePrice: number;
+    listPrice: number;       // Harga daftar sebelum aturan harga
+    basePrice: number;       // Harga kursi standar setelah aturan harga tingkat showtime
+    getStartDateTime(): Date;
     isPast(): boolean;
 }
 
@@ -27,9 +30,14 @@ export class ShowtimeImpl implements Showtime {
         public date: Date,
         public startTime: string,
         public endTime: string,
-        public basePrice: number
+        public listPrice: number
     ) { }
 
+    // Harga dari pricing engine default (studio, hari, jam tayang, hari libur)
+    get basePrice(): number {
+        return PricingEngine.getDefault().calculate(showtimePricingContext(this));
+    }
+
     // Mendapatkan informasi jadwal lengkap
     getFullSchedule(): string {
         const dateStr = this.date.toLocaleDateString('id-ID', {
@@ -41,12 +49,16 @@ export class ShowtimeImpl implements Showtime {
         return `${this.movie.title} - ${dateStr} ${this.startTime}`;
     }
 
-    // Mengecek apakah jadwal sudah lewat
-    isPast(): boolean {
-        const now = new Date();
+    // Mendapatkan tanggal dan jam mulai tayang
+    getStartDateTime(): Date {
         const showDateTime = new Date(this.date);
         const [hours, minutes] = this.startTime.split(':').map(Number);
         showDateTime.setHours(hours, minutes);
-        return showDateTime < now;
+        return showDateTime;
+    }
+
+    // Mengecek apakah jadwal sudah lewat
+    isPast(): boolean {
+        return this.getStartDateTime() < new Date();
     }
 }
@@ -9,6 +9,14 @@ export enum MembershipType {
     PLATINUM = 'PLATINUM'
 }
 
+// Peran pengguna (pelanggan atau staf bioskop)
+export enum UserRole {
+    CUSTOMER = 'CUSTOMER',
+    CASHIER = 'CASHIER',
+    SUPERVISOR = 'SUPERVISOR',
+    ADMIN = 'ADMIN'
+}
+
 // Interface User
 export interface User {
     id: string;
@@ -16,6 +24,8 @@ export interface User {
     email: string;
     phone: string;
     membership: MembershipType;
+    requiresAccessibleSeating?: boolean;   // Pengguna kursi roda (boleh memesan kursi aksesibel)
+    role?: UserRole;                       // Default CUSTOMER
 }
 
 // Implementasi konkret User
@@ -25,7 +35,9 @@ export class UserImpl implements User {
         public name: string,
         public email: string,
         public phone: string,
-        public membership: MembershipType = MembershipType.REGULAR
+        public membership: MembershipType = MembershipType.REGULAR,
+        public requiresAccessibleSeating: boolean = false,
+        public role: UserRole = UserRole.CUSTOMER
     ) { }
 
     // Mendapatkan diskon berdasarkan membership
@@ -42,7 +54,7 @@ export class UserImpl implements User {
         }
     }
 
-    // Upgrade membership
+    // Mengubah membership secara manual; perubahan otomatis dilakukan MembershipTierEngine
     upgradeMembership(newMembership: MembershipType): void {
         this.membership = newMembership;
     }
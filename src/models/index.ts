@@ -7,3 +7,4 @@ export * from './Cinema';
 export * from './Seat';
 export * from './User';
 export * from './Showtime';
+export * from './SeatMapDefinition';
@@ -1,3 +1,6 @@
+import { AuditTrail, AuditOutcome } from '../utils/AuditTrail';
+import { formatRupiah } from '../pricing/Money';
+
 export interface BookingEvent {
     eventType: BookingEventType;
     bookingId: string;
@@ -22,7 +25,13 @@ export enum BookingEventType {
     BOOKING_CANCELLED = 'BOOKING_CANCELLED',
     BOOKING_COMPLETED = 'BOOKING_COMPLETED',
     REMINDER_1_HOUR = 'REMINDER_1_HOUR',
-    REMINDER_24_HOUR = 'REMINDER_24_HOUR'
+    REMINDER_24_HOUR = 'REMINDER_24_HOUR',
+    WAITLIST_OFFERED = 'WAITLIST_OFFERED',
+    WAITLIST_ACCEPTED = 'WAITLIST_ACCEPTED',
+    WAITLIST_EXPIRED = 'WAITLIST_EXPIRED',
+    MEMBERSHIP_UPGRADED = 'MEMBERSHIP_UPGRADED',
+    MEMBERSHIP_GRACE_PERIOD = 'MEMBERSHIP_GRACE_PERIOD',
+    MEMBERSHIP_DOWNGRADED = 'MEMBERSHIP_DOWNGRADED'
 }
 
 // OBSERVER INTERFACE
@@ -107,11 +116,20 @@ export class BookingNotifier implements BookingSubject {
         console.log(`[BookingNotifier] Notified ${notifiedCount} observers\n`);
     }
 
+    // Log in-memory hanya menyimpan event terbaru; jejak lengkap ditulis ke AuditTrail
     private logEvent(event: BookingEvent): void {
         this.eventLog.push(event);
         if (this.eventLog.length > this.maxLogSize) {
             this.eventLog.shift();
         }
+
+        AuditTrail.record({
+            actor: event.customerName,
+            action: `notification.${event.eventType}`,
+            resource: `booking:${event.bookingId}`,
+            outcome: AuditOutcome.SUCCESS,
+            details: { movieTitle: event.movieTitle, showtime: event.showtime, seats: event.seats }
+        });
     }
 
     // Mendapatkan daftar observer
@@ -144,7 +162,13 @@ export class EmailNotificationObserver implements BookingObserver {
             BookingEventType.PAYMENT_SUCCESS,
             BookingEventType.BOOKING_CONFIRMED,
             BookingEventType.BOOKING_CANCELLED,
-            BookingEventType.REMINDER_24_HOUR
+            BookingEventType.REMINDER_24_HOUR,
+            BookingEventType.WAITLIST_OFFERED,
+            BookingEventType.WAITLIST_ACCEPTED,
+            BookingEventType.WAITLIST_EXPIRED,
+            BookingEventType.MEMBERSHIP_UPGRADED,
+            BookingEventType.MEMBERSHIP_GRACE_PERIOD,
+            BookingEventType.MEMBERSHIP_DOWNGRADED
         ];
     }
 
@@ -166,7 +190,7 @@ Booking Anda telah dibuat dengan detail:
 - Bioskop: ${event.cinemaName}
 - Jadwal: ${event.showtime}
 - Kursi: ${event.seats.join(', ')}
-- Total: Rp ${event.totalAmount.toLocaleString('id-ID')}
+- Total: ${formatRupiah(event.totalAmount)}
 
 Silakan selesaikan pembayaran dalam 15 menit.
 
@@ -179,7 +203,7 @@ Tim Bioskop
                 body: `
 Hai ${event.customerName},
 
-Pembayaran Anda sebesar Rp ${event.totalAmount.toLocaleString('id-ID')} telah berhasil!
+Pembayaran Anda sebesar ${formatRupiah(event.totalAmount)} telah berhasil!
 
 Detail Booking:
 - ID Booking: ${event.bookingId}
@@ -239,6 +263,84 @@ Detail:
 - Kursi: ${event.seats.join(', ')}
 
 Sampai jumpa di bioskop!
+        `
+            }),
+            [BookingEventType.WAITLIST_OFFERED]: () => ({
+                subject: `Kursi Tersedia untuk Anda - ${event.movieTitle}`,
+                body: `
+Hai ${event.customerName},
+
+Kursi yang Anda tunggu kini tersedia dan dikhususkan untuk Anda:
+- Film: ${event.movieTitle}
+- Bioskop: ${event.cinemaName}
+- Jadwal: ${event.showtime}
+- Kursi: ${event.seats.join(', ')}
+
+Penawaran berlaku sampai ${event.additionalData?.expiresAt}. Setelah itu kursi ditawarkan ke antrian berikutnya.
+
+Salam,
+Tim Bioskop
+        `
+            }),
+            [BookingEventType.WAITLIST_ACCEPTED]: () => ({
+                subject: `Penawaran Waitlist Diterima - ${event.movieTitle}`,
+                body: `
+Hai ${event.customerName},
+
+Kursi ${event.seats.join(', ')} untuk ${event.movieTitle} (${event.showtime}) telah dikunci atas nama Anda.
+
+Salam,
+Tim Bioskop
+        `
+            }),
+            [BookingEventType.WAITLIST_EXPIRED]: () => ({
+                subject: `Penawaran Waitlist Berakhir - ${event.movieTitle}`,
+                body: `
+Hai ${event.customerName},
+
+Penawaran kursi ${event.seats.join(', ')} untuk ${event.movieTitle} telah berakhir dan diteruskan ke antrian berikutnya.
+
+Salam,
+Tim Bioskop
+        `
+            }),
+            [BookingEventType.MEMBERSHIP_UPGRADED]: () => ({
+                subject: `Selamat! Anda Naik ke Member ${event.additionalData?.newTier}`,
+                body: `
+Hai ${event.customerName},
+
+Keanggotaan Anda naik dari ${event.additionalData?.previousTier} ke ${event.additionalData?.newTier}.
+Belanja selama periode evaluasi: ${formatRupiah(event.totalAmount)} (${event.additionalData?.visits} kunjungan).
+
+Nikmati diskon dan poin yang lebih besar di setiap pemesanan.
+
+Salam,
+Tim Bioskop
+        `
+            }),
+            [BookingEventType.MEMBERSHIP_GRACE_PERIOD]: () => ({
+                subject: `Pertahankan Member ${event.additionalData?.previousTier} Anda`,
+                body: `
+Hai ${event.customerName},
+
+Aktivitas Anda belum memenuhi syarat member ${event.additionalData?.previousTier}.
+Jika hingga ${event.additionalData?.graceUntil} syarat belum terpenuhi, keanggotaan Anda
+akan menjadi ${event.additionalData?.newTier}.
+
+Salam,
+Tim Bioskop
+        `
+            }),
+            [BookingEventType.MEMBERSHIP_DOWNGRADED]: () => ({
+                subject: `Perubahan Keanggotaan - ${event.additionalData?.newTier}`,
+                body: `
+Hai ${event.customerName},
+
+Masa tenggang telah berakhir dan keanggotaan Anda kini ${event.additionalData?.newTier}.
+Terus menonton untuk kembali naik tier!
+
+Salam,
+Tim Bioskop
         `
             }),
             [BookingEventType.PAYMENT_PENDING]: () => ({ subject: '', body: '' }),
@@ -280,7 +382,8 @@ export class SMSNotificationObserver implements BookingObserver {
         return [
             BookingEventType.PAYMENT_SUCCESS,
             BookingEventType.BOOKING_CONFIRMED,
-            BookingEventType.REMINDER_1_HOUR
+            BookingEventType.REMINDER_1_HOUR,
+            BookingEventType.WAITLIST_OFFERED
         ];
     }
 
@@ -292,7 +395,7 @@ export class SMSNotificationObserver implements BookingObserver {
     private composeSMS(event: BookingEvent): string {
         switch (event.eventType) {
             case BookingEventType.PAYMENT_SUCCESS:
-                return `[BIOSKOP] Pembayaran Rp ${event.totalAmount.toLocaleString()} berhasil! Booking: ${event.bookingId}`;
+                return `[BIOSKOP] Pembayaran ${formatRupiah(event.totalAmount)} berhasil! Booking: ${event.bookingId}`;
 
             case BookingEventType.BOOKING_CONFIRMED:
                 return `[E-TICKET] ${event.movieTitle} - ${event.showtime} - Kursi ${event.seats.join(',')}. Tunjukkan pesan ini di loket.`;
@@ -300,6 +403,9 @@ export class SMSNotificationObserver implements BookingObserver {
             case BookingEventType.REMINDER_1_HOUR:
                 return `[REMINDER] Film ${event.movieTitle} dimulai 1 jam lagi di ${event.cinemaName}!`;
 
+            case BookingEventType.WAITLIST_OFFERED:
+                return `[WAITLIST] Kursi ${event.seats.join(',')} untuk ${event.movieTitle} tersedia. Konfirmasi sebelum ${event.additionalData?.expiresAt}.`;
+
             default:
                 return `[BIOSKOP] Booking ${event.bookingId} - ${event.eventType}`;
         }
@@ -330,7 +436,10 @@ export class PushNotificationObserver implements BookingObserver {
             BookingEventType.PAYMENT_SUCCESS,
             BookingEventType.BOOKING_CONFIRMED,
             BookingEventType.REMINDER_1_HOUR,
-            BookingEventType.REMINDER_24_HOUR
+            BookingEventType.REMINDER_24_HOUR,
+            BookingEventType.WAITLIST_OFFERED,
+            BookingEventType.MEMBERSHIP_UPGRADED,
+            BookingEventType.MEMBERSHIP_GRACE_PERIOD
         ];
     }
 
@@ -369,6 +478,27 @@ export class PushNotificationObserver implements BookingObserver {
                     icon: 'calendar'
                 };
 
+            case BookingEventType.WAITLIST_OFFERED:
+                return {
+                    title: '🎟️ Kursi Waitlist Tersedia',
+                    body: `${event.movieTitle} - ${event.seats.join(', ')}. Tap untuk konfirmasi`,
+                    icon: 'waitlist'
+                };
+
+            case BookingEventType.MEMBERSHIP_UPGRADED:
+                return {
+                    title: '⭐ Naik Tier Member',
+                    body: `Selamat, Anda kini member ${event.additionalData?.newTier}!`,
+                    icon: 'membership'
+                };
+
+            case BookingEventType.MEMBERSHIP_GRACE_PERIOD:
+                return {
+                    title: '⚠️ Tier Member Akan Turun',
+                    body: `Pertahankan ${event.additionalData?.previousTier} sebelum masa tenggang berakhir`,
+                    icon: 'membership'
+                };
+
             default:
                 return {
                     title: 'Bioskop Notification',
@@ -461,7 +591,7 @@ export class AnalyticsObserver implements BookingObserver {
         console.log(`     Event: ${event.eventType}`);
         console.log(`     Movie: ${event.movieTitle}`);
         if (entry.revenue > 0) {
-            console.log(`     Revenue: Rp ${entry.revenue.toLocaleString('id-ID')}`);
+            console.log(`     Revenue: ${formatRupiah(entry.revenue)}`);
         }
     }
 
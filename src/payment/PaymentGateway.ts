@@ -12,6 +12,8 @@
 // - Adaptees: GoPayAPI, OVOAPI, BankTransferAPI
 // - Adapters: GoPayAdapter, OVOAdapter, BankTransferAdapter
 
+import { AuditTrail, AuditOutcome } from '../utils/AuditTrail';
+
 // TARGET INTERFACE
 // Interface standar yang diharapkan oleh sistem bioskop
 // Status transaksi terpadu
@@ -532,4 +534,21 @@ export class PaymentGatewayManager {
         console.log(`[PaymentGatewayManager] Menggunakan ${processor.getName()}`);
         return processor.processPayment(amount, orderId, customerInfo);
     }
+
+    // Memproses refund dan mencatatnya ke audit trail
+    refundPayment(method: PaymentMethod, transactionId: string, actor: string = 'SYSTEM', showtimeId?: string): PaymentResponse {
+        const processor = this.getProcessor(method);
+        console.log(`[PaymentGatewayManager] Refund ${transactionId} via ${processor.getName()}`);
+        const response = processor.refund(transactionId);
+
+        AuditTrail.record({
+            actor,
+            action: 'payment.refund',
+            resource: `transaction:${transactionId}`,
+            outcome: response.status === TransactionStatus.FAILED ? AuditOutcome.FAILURE : AuditOutcome.SUCCESS,
+            showtimeId,
+            details: { method, status: response.status, amount: response.amount, message: response.message }
+        });
+        return response;
+    }
 }
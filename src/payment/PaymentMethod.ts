@@ -1,14 +1,33 @@
+import { PaymentFeeSource, PriceBreakdown, PriceCalculator } from '../pricing/PriceBreakdown';
+import { IDR, Money, RoundingMode, formatRupiah } from '../pricing/Money';
+import { PromotionBenefit, PromotionResolution } from '../pricing/PromotionResolver';
+import { PaymentMethodType, PaymentProfile } from './PaymentTarget';
+
+// Promo yang dipakai pada pembayaran (dicatat di PaymentResult)
+export interface PaymentPromotionRecord {
+    id: string;
+    label: string;
+    amount: Money;
+    cashback: boolean;        // Cashback dikreditkan setelah pembayaran, tidak mengurangi tagihan
+}
+
 export interface PaymentResult {
     success: boolean;
     transactionId: string;
-    amount: number;
-    fee: number;
-    totalCharged: number;
+    amount: Money;
+    fee: Money;
+    totalCharged: Money;
     method: string;
     message: string;
     timestamp: Date;
     receiptNumber?: string;
     additionalInfo?: Record<string, any>;
+    promotions?: PaymentPromotionRecord[];
+}
+
+// Nominal pembayaran dari pemanggil bisa berpecahan (misalnya hasil persentase); dibulatkan ke rupiah utuh
+function toPayableAmount(amount: number): Money {
+    return Money.of(amount, IDR, RoundingMode.HALF_UP);
 }
 
 export interface ValidationResult {
@@ -25,7 +44,7 @@ export interface PaymentStrategy {
     getDescription(): string;
 
     // Menghitung biaya admin (fee)
-    calculateFee(amount: number): number;
+    calculateFee(amount: Money): Money;
 
     // Validasi data pembayaran
     validate(paymentData: PaymentData): ValidationResult;
@@ -35,6 +54,9 @@ export interface PaymentStrategy {
 
     // Mendapatkan icon untuk UI
     getIcon(): string;
+
+    // Identitas pembayaran untuk promo khusus metode, e-wallet, bank, atau BIN kartu
+    getPaymentProfile(paymentData?: PaymentData): PaymentProfile;
 }
 
 // Data pembayaran generik
@@ -78,9 +100,18 @@ export class CreditCardStrategy implements PaymentStrategy {
         return '[CC]';
     }
 
-    calculateFee(amount: number): number {
-        const fee = Math.round(amount * this.ADMIN_FEE_PERCENTAGE);
-        return Math.max(fee, this.MIN_FEE);
+    calculateFee(amount: Money): Money {
+        return amount
+            .multiply(this.ADMIN_FEE_PERCENTAGE, RoundingMode.HALF_UP)
+            .max(Money.of(this.MIN_FEE));
+    }
+
+    getPaymentProfile(paymentData: PaymentData = {}): PaymentProfile {
+        const cleaned = (paymentData.cardNumber || '').replace(/\s/g, '');
+        return {
+            method: PaymentMethodType.CREDIT_CARD,
+            cardBin: cleaned.length >= 6 ? cleaned.slice(0, 6) : undefined
+        };
     }
 
     validate(paymentData: PaymentData): ValidationResult {
@@ -121,7 +152,8 @@ export class CreditCardStrategy implements PaymentStrategy {
     }
 
     processPayment(amount: number, paymentData: PaymentData): PaymentResult {
-        console.log(`[CreditCard] Processing payment of Rp ${amount.toLocaleString()}`);
+        const payable = toPayableAmount(amount);
+        console.log(`[CreditCard] Processing payment of ${formatRupiah(payable)}`);
 
         // Validate first
         const validation = this.validate(paymentData);
@@ -129,9 +161,9 @@ export class CreditCardStrategy implements PaymentStrategy {
             return {
                 success: false,
                 transactionId: '',
-                amount,
-                fee: 0,
-                totalCharged: 0,
+                amount: payable,
+                fee: Money.zero(),
+                totalCharged: Money.zero(),
                 method: this.getName(),
                 message: `Validation failed: ${validation.errors.join(', ')}`,
                 timestamp: new Date()
@@ -139,19 +171,20 @@ export class CreditCardStrategy implements PaymentStrategy {
         }
 
         // Simulate payment processing
-        const fee = this.calculateFee(amount);
-        const totalCharged = amount + fee;
+        const charge = PriceCalculator.getDefault().calculateForAmount(payable, this);
+        const fee = charge.feeTotal;
+        const totalCharged = charge.total;
         const transactionId = this.generateTransactionId();
 
         // Simulate card verification (always success for demo)
         const lastFour = paymentData.cardNumber?.slice(-4) || '****';
 
-        console.log(`[CreditCard] Card ending in ${lastFour} charged Rp ${totalCharged.toLocaleString()}`);
+        console.log(`[CreditCard] Card ending in ${lastFour} charged ${formatRupiah(totalCharged)}`);
 
         return {
             success: true,
             transactionId,
-            amount,
+            amount: payable,
             fee,
             totalCharged,
             method: this.getName(),
@@ -214,8 +247,12 @@ export class EWalletStrategy implements PaymentStrategy {
         return icons[this.walletType];
     }
 
-    calculateFee(amount: number): number {
-        return this.FLAT_FEE;
+    calculateFee(amount: Money): Money {
+        return Money.of(this.FLAT_FEE);
+    }
+
+    getPaymentProfile(): PaymentProfile {
+        return { method: PaymentMethodType.E_WALLET, walletType: this.walletType };
     }
 
     validate(paymentData: PaymentData): ValidationResult {
@@ -231,16 +268,17 @@ export class EWalletStrategy implements PaymentStrategy {
     }
 
     processPayment(amount: number, paymentData: PaymentData): PaymentResult {
-        console.log(`[${this.walletType}] Processing payment of Rp ${amount.toLocaleString()}`);
+        const payable = toPayableAmount(amount);
+        console.log(`[${this.walletType}] Processing payment of ${formatRupiah(payable)}`);
 
         const validation = this.validate(paymentData);
         if (!validation.isValid) {
             return {
                 success: false,
                 transactionId: '',
-                amount,
-                fee: 0,
-                totalCharged: 0,
+                amount: payable,
+                fee: Money.zero(),
+                totalCharged: Money.zero(),
                 method: this.getName(),
                 message: `Validation failed: ${validation.errors.join(', ')}`,
                 timestamp: new Date()
@@ -248,8 +286,9 @@ export class EWalletStrategy implements PaymentStrategy {
         }
 
         // Simulate push notification to wallet app
-        const fee = this.calculateFee(amount);
-        const totalCharged = amount + fee;
+        const charge = PriceCalculator.getDefault().calculateForAmount(payable, this);
+        const fee = charge.feeTotal;
+        const totalCharged = charge.total;
         const transactionId = `TXN-${this.walletType.toUpperCase().replace(/\s/g, '')}-${Date.now().toString(36).toUpperCase()}`;
 
         console.log(`[${this.walletType}] Push notification sent to ${paymentData.phoneNumber}`);
@@ -258,7 +297,7 @@ export class EWalletStrategy implements PaymentStrategy {
         return {
             success: true,
             transactionId,
-            amount,
+            amount: payable,
             fee,
             totalCharged,
             method: this.getName(),
@@ -308,8 +347,12 @@ export class BankTransferStrategy implements PaymentStrategy {
         return '[Bank]';
     }
 
-    calculateFee(amount: number): number {
-        return this.ADMIN_FEE;
+    calculateFee(amount: Money): Money {
+        return Money.of(this.ADMIN_FEE);
+    }
+
+    getPaymentProfile(): PaymentProfile {
+        return { method: PaymentMethodType.BANK_TRANSFER, bankCode: this.bankCode };
     }
 
     validate(paymentData: PaymentData): ValidationResult {
@@ -327,6 +370,7 @@ export class BankTransferStrategy implements PaymentStrategy {
     }
 
     processPayment(amount: number, paymentData: PaymentData): PaymentResult {
+        const payable = toPayableAmount(amount);
         console.log(`[${this.bankCode}] Creating virtual account...`);
 
         const validation = this.validate(paymentData);
@@ -334,17 +378,18 @@ export class BankTransferStrategy implements PaymentStrategy {
             return {
                 success: false,
                 transactionId: '',
-                amount,
-                fee: 0,
-                totalCharged: 0,
+                amount: payable,
+                fee: Money.zero(),
+                totalCharged: Money.zero(),
                 method: this.getName(),
                 message: `Validation failed: ${validation.errors.join(', ')}`,
                 timestamp: new Date()
             };
         }
 
-        const fee = this.calculateFee(amount);
-        const totalCharged = amount + fee;
+        const charge = PriceCalculator.getDefault().calculateForAmount(payable, this);
+        const fee = charge.feeTotal;
+        const totalCharged = charge.total;
         const vaNumber = this.generateVANumber();
         const transactionId = `TXN-VA-${this.bankCode}-${Date.now().toString(36).toUpperCase()}`;
 
@@ -353,13 +398,13 @@ export class BankTransferStrategy implements PaymentStrategy {
         expiry.setHours(expiry.getHours() + 24);
 
         console.log(`[${this.bankCode}] Virtual Account: ${vaNumber}`);
-        console.log(`[${this.bankCode}] Amount: Rp ${totalCharged.toLocaleString()}`);
+        console.log(`[${this.bankCode}] Amount: ${formatRupiah(totalCharged)}`);
         console.log(`[${this.bankCode}] Expires: ${expiry.toLocaleString('id-ID')}`);
 
         return {
             success: true,
             transactionId,
-            amount,
+            amount: payable,
             fee,
             totalCharged,
             method: this.getName(),
@@ -389,12 +434,12 @@ export class BankTransferStrategy implements PaymentStrategy {
         return prefix + random;
     }
 
-    private getPaymentInstructions(vaNumber: string, amount: number): string[] {
+    private getPaymentInstructions(vaNumber: string, amount: Money): string[] {
         return [
             `1. Buka aplikasi ${this.bankCode} atau ATM ${this.bankCode}`,
             '2. Pilih menu Transfer > Virtual Account',
             `3. Masukkan nomor VA: ${vaNumber}`,
-            `4. Konfirmasi nominal: Rp ${amount.toLocaleString('id-ID')}`,
+            `4. Konfirmasi nominal: ${formatRupiah(amount)}`,
             '5. Selesaikan pembayaran',
             '6. Simpan bukti pembayaran'
         ];
@@ -417,8 +462,12 @@ export class QRISStrategy implements PaymentStrategy {
         return '[QRIS]';
     }
 
-    calculateFee(amount: number): number {
-        return Math.round(amount * this.MDR_FEE_PERCENTAGE);
+    calculateFee(amount: Money): Money {
+        return amount.multiply(this.MDR_FEE_PERCENTAGE, RoundingMode.HALF_UP);
+    }
+
+    getPaymentProfile(): PaymentProfile {
+        return { method: PaymentMethodType.QRIS };
     }
 
     validate(paymentData: PaymentData): ValidationResult {
@@ -427,10 +476,12 @@ export class QRISStrategy implements PaymentStrategy {
     }
 
     processPayment(amount: number, paymentData: PaymentData): PaymentResult {
+        const payable = toPayableAmount(amount);
         console.log('[QRIS] Generating QR code...');
 
-        const fee = this.calculateFee(amount);
-        const totalCharged = amount + fee;
+        const charge = PriceCalculator.getDefault().calculateForAmount(payable, this);
+        const fee = charge.feeTotal;
+        const totalCharged = charge.total;
         const qrCode = this.generateQRCode(totalCharged);
         const transactionId = `TXN-QRIS-${Date.now().toString(36).toUpperCase()}`;
 
@@ -444,7 +495,7 @@ export class QRISStrategy implements PaymentStrategy {
         return {
             success: true,
             transactionId,
-            amount,
+            amount: payable,
             fee,
             totalCharged,
             method: this.getName(),
@@ -460,26 +511,84 @@ export class QRISStrategy implements PaymentStrategy {
         };
     }
 
-    private generateQRCode(amount: number): string {
+    private generateQRCode(amount: Money): string {
         // Simulasi QR code data (dalam implementasi real, ini adalah QRIS string)
-        return `00020101021226650013ID.CO.BIOSKOP0108MERCHANT0215BIOSKOP_PAYMENT5204481253033605406${amount}5802ID5913BIOSKOP_CORP6013JAKARTA PUSAT63041234`;
+        return `00020101021226650013ID.CO.BIOSKOP0108MERCHANT0215BIOSKOP_PAYMENT5204481253033605406${amount.toNumber()}5802ID5913BIOSKOP_CORP6013JAKARTA PUSAT63041234`;
     }
 }
 
+// Pembelian yang harga dan promonya bergantung pada metode pembayaran (misalnya Booking)
+export interface PromotionAwarePurchase {
+    getPriceBreakdown(paymentFee?: PaymentFeeSource, payment?: PaymentProfile): PriceBreakdown;
+    getPromotionResolution(payment?: PaymentProfile): PromotionResolution;
+}
+
+// Tagihan pembelian untuk strategi pembayaran saat ini
+export interface PaymentQuote {
+    method: string;
+    subtotal: Money;
+    discount: Money;
+    cashback: Money;
+    amountDue: Money;         // Setelah diskon, sebelum biaya pembayaran
+    fee: Money;
+    total: Money;
+    promotions: PaymentPromotionRecord[];
+}
+
 // CONTEXT: PaymentProcessor
 export class PaymentProcessor {
     private strategy: PaymentStrategy;
     private transactionHistory: PaymentResult[] = [];
+    private purchase: PromotionAwarePurchase | null = null;
+    private purchaseData: PaymentData = {};
+    private quote: PaymentQuote | null = null;
 
     constructor(strategy: PaymentStrategy) {
         this.strategy = strategy;
         console.log(`[PaymentProcessor] Initialized with ${strategy.getName()}`);
     }
 
-    // Mengubah strategi pembayaran
+    // Mengubah strategi pembayaran; promo pembelian yang terpasang dievaluasi ulang
     setStrategy(strategy: PaymentStrategy): void {
         this.strategy = strategy;
         console.log(`[PaymentProcessor] Strategy changed to ${strategy.getName()}`);
+
+        if (this.purchase) {
+            const previous = this.quote;
+            this.quote = this.evaluateQuote();
+            console.log(`[PaymentProcessor] Promo dievaluasi ulang: diskon ${formatRupiah(previous?.discount ?? Money.zero())} -> ${formatRupiah(this.quote.discount)}`);
+        }
+    }
+
+    // Memasang pembelian yang akan dibayar; paymentData (misalnya nomor kartu) menentukan promo BIN
+    setPurchase(purchase: PromotionAwarePurchase | null, paymentData: PaymentData = {}): void {
+        this.purchase = purchase;
+        this.purchaseData = paymentData;
+        this.quote = purchase ? this.evaluateQuote() : null;
+        if (this.quote) {
+            console.log(`[PaymentProcessor] Tagihan ${this.quote.method}: ${formatRupiah(this.quote.total)} (diskon ${formatRupiah(this.quote.discount)})`);
+        }
+    }
+
+    // Tagihan pembelian terpasang untuk strategi saat ini
+    getQuote(): PaymentQuote | null {
+        return this.quote ? { ...this.quote, promotions: [...this.quote.promotions] } : null;
+    }
+
+    // Membayar pembelian terpasang sesuai tagihan; promo yang dipakai dicatat di PaymentResult
+    payPurchase(paymentData?: PaymentData): PaymentResult {
+        if (!this.purchase) {
+            throw new Error('Belum ada pembelian yang dipasang untuk dibayar');
+        }
+        if (paymentData) {
+            this.purchaseData = paymentData;
+            this.quote = this.evaluateQuote();
+        }
+        const quote = this.quote ?? this.evaluateQuote();
+
+        const result = this.processPayment(quote.amountDue.toNumber(), this.purchaseData);
+        result.promotions = quote.promotions;
+        return result;
     }
 
     // Mendapatkan strategi saat ini
@@ -493,8 +602,9 @@ export class PaymentProcessor {
         console.log(`PAYMENT PROCESSING`);
         console.log('═══════════════════════════════════════════════════════════════');
         console.log(`Method: ${this.strategy.getIcon()} ${this.strategy.getName()}`);
-        console.log(`Amount: Rp ${amount.toLocaleString('id-ID')}`);
-        console.log(`Fee: Rp ${this.strategy.calculateFee(amount).toLocaleString('id-ID')}`);
+        const preview = this.previewFee(amount);
+        console.log(`Amount: ${formatRupiah(preview.amount)}`);
+        console.log(`Fee: ${formatRupiah(preview.fee)}`);
         console.log('───────────────────────────────────────────────────────────────\n');
 
         const result = this.strategy.processPayment(amount, paymentData);
@@ -509,12 +619,12 @@ export class PaymentProcessor {
     }
 
     // Preview fee sebelum proses
-    previewFee(amount: number): { amount: number; fee: number; total: number; method: string } {
-        const fee = this.strategy.calculateFee(amount);
+    previewFee(amount: number): { amount: Money; fee: Money; total: Money; method: string } {
+        const breakdown = PriceCalculator.getDefault().calculateForAmount(toPayableAmount(amount), this.strategy);
         return {
-            amount,
-            fee,
-            total: amount + fee,
+            amount: breakdown.amountDue,
+            fee: breakdown.feeTotal,
+            total: breakdown.total,
             method: this.strategy.getName()
         };
     }
@@ -524,6 +634,29 @@ export class PaymentProcessor {
         return [...this.transactionHistory];
     }
 
+    private evaluateQuote(): PaymentQuote {
+        const purchase = this.purchase as PromotionAwarePurchase;
+        const payment = this.strategy.getPaymentProfile(this.purchaseData);
+        const breakdown = purchase.getPriceBreakdown(this.strategy, payment);
+        const resolution = purchase.getPromotionResolution(payment);
+
+        return {
+            method: this.strategy.getName(),
+            subtotal: breakdown.subtotal,
+            discount: breakdown.discountTotal.add(breakdown.membershipDiscount),
+            cashback: resolution.totalCashback,
+            amountDue: breakdown.amountDue,
+            fee: breakdown.feeTotal,
+            total: breakdown.total,
+            promotions: resolution.applied.map(entry => ({
+                id: entry.promotion.id,
+                label: entry.promotion.label,
+                amount: entry.amount,
+                cashback: entry.promotion.benefit === PromotionBenefit.CASHBACK
+            }))
+        };
+    }
+
     // Menampilkan daftar metode pembayaran
     static displayAvailableMethods(): string {
         const strategies: PaymentStrategy[] = [
@@ -0,0 +1,71 @@
+// Payment Target - Sasaran Promo Pembayaran
+//
+// Promo seperti "diskon 20% kartu kredit BCA" atau "cashback OVO" menyasar metode pembayaran,
+// jenis e-wallet, kode bank, atau rentang BIN kartu. Strategi pembayaran mendeskripsikan dirinya
+// sebagai PaymentProfile, dan promo mencocokkan profil tersebut dengan PaymentTarget.
+
+export enum PaymentMethodType {
+    CREDIT_CARD = 'CREDIT_CARD',
+    E_WALLET = 'E_WALLET',
+    BANK_TRANSFER = 'BANK_TRANSFER',
+    QRIS = 'QRIS'
+}
+
+export interface PaymentProfile {
+    method: PaymentMethodType;
+    walletType?: string;
+    bankCode?: string;
+    cardBin?: string;         // 6 digit pertama nomor kartu
+}
+
+// Rentang BIN kartu (6 digit, inklusif), misalnya kartu kredit bank tertentu
+export interface BinRange {
+    from: string;
+    to: string;
+}
+
+// Sasaran promo pembayaran; setiap kriteria yang diisi harus terpenuhi
+export interface PaymentTarget {
+    methods?: PaymentMethodType[];
+    walletTypes?: string[];
+    bankCodes?: string[];
+    binRanges?: BinRange[];
+}
+
+const PAYMENT_METHOD_LABELS: Record<PaymentMethodType, string> = {
+    [PaymentMethodType.CREDIT_CARD]: 'Kartu Kredit',
+    [PaymentMethodType.E_WALLET]: 'E-Wallet',
+    [PaymentMethodType.BANK_TRANSFER]: 'Transfer Bank',
+    [PaymentMethodType.QRIS]: 'QRIS'
+};
+
+// Contoh: "Kartu Kredit BIN 455633-455699", "OVO", "BCA"
+export function describePaymentTarget(target: PaymentTarget): string {
+    const parts = [
+        ...(target.methods || []).map(method => PAYMENT_METHOD_LABELS[method]),
+        ...(target.walletTypes || []),
+        ...(target.bankCodes || []),
+        ...(target.binRanges || []).map(range => `BIN ${range.from}-${range.to}`)
+    ];
+    return parts.length > 0 ? parts.join(' ') : 'semua metode';
+}
+
+// Mengembalikan alasan penolakan, atau null jika pembayaran memenuhi sasaran promo
+export function matchPaymentTarget(target: PaymentTarget, profile?: PaymentProfile | null): string | null {
+    const rejection = `Hanya untuk pembayaran ${describePaymentTarget(target)}`;
+    if (!profile) {
+        return rejection;
+    }
+    const includes = (values: string[], value?: string) =>
+        value !== undefined && values.some(candidate => candidate.toUpperCase() === value.toUpperCase());
+    if (target.methods && !target.methods.includes(profile.method)) return rejection;
+    if (target.walletTypes && !includes(target.walletTypes, profile.walletType)) return rejection;
+    if (target.bankCodes && !includes(target.bankCodes, profile.bankCode)) return rejection;
+    if (target.binRanges) {
+        const bin = profile.cardBin ? Number(profile.cardBin.slice(0, 6)) : NaN;
+        if (!target.binRanges.some(range => bin >= Number(range.from) && bin <= Number(range.to))) {
+            return rejection;
+        }
+    }
+    return null;
+}
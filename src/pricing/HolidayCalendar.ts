@@ -0,0 +1,295 @@
+// Holiday Calendar - Kalender Hari Libur dan Periode Ramai
+//
+// Definisi hari libur nasional, cuti bersama, dan periode ramai dimuat dari file JSON lokal
+// (default: holidays-id.json, di-bundle saat kompilasi). Tanggal MM-DD berlaku setiap tahun, sedangkan YYYY-MM-DD hanya
+// untuk tahun tersebut (misalnya hari libur berbasis kalender hijriah/imlek). Periode ramai
+// MM-DD boleh melewati pergantian tahun (contoh 12-20 s.d. 01-05). Kalender mengklasifikasikan
+// tanggal sebagai WEEKDAY/WEEKEND/HOLIDAY/PEAK untuk pricing engine dan daftar jadwal tayang.
+
+import * as fs from 'fs';
+import defaultHolidays from './holidays-id.json';
+import { PricingContext, PricingRule, toDateKey } from './PricingEngine';
+
+// Kategori hari (urut dari prioritas terendah)
+export enum DayCategory {
+    WEEKDAY = 'WEEKDAY',
+    WEEKEND = 'WEEKEND',
+    HOLIDAY = 'HOLIDAY',
+    PEAK = 'PEAK'
+}
+
+// Jenis hari libur
+export enum HolidayType {
+    NATIONAL = 'NATIONAL',
+    CUTI_BERSAMA = 'CUTI_BERSAMA'
+}
+
+export interface HolidayDefinition {
+    date: string;             // YYYY-MM-DD (sekali) atau MM-DD (setiap tahun)
+    name: string;
+    type: HolidayType;
+}
+
+export interface PeakPeriodDefinition {
+    name: string;
+    start: string;            // Inklusif, format sama dengan end
+    end: string;              // Inklusif
+}
+
+// Format file kalender
+export interface HolidayCalendarDefinition {
+    country?: string;
+    holidays: HolidayDefinition[];
+    peakPeriods?: PeakPeriodDefinition[];
+}
+
+// Hasil klasifikasi sebuah tanggal
+export interface DayInfo {
+    date: string;             // YYYY-MM-DD
+    category: DayCategory;
+    holiday?: HolidayDefinition;
+    peakPeriod?: PeakPeriodDefinition;
+}
+
+// Error ketika file kalender tidak valid
+export class HolidayCalendarValidationError extends Error {
+    constructor(public readonly errors: string[]) {
+        super(`Kalender libur tidak valid: ${errors.join('; ')}`);
+        this.name = 'HolidayCalendarValidationError';
+    }
+}
+
+// Definisi kalender default
+export const DEFAULT_HOLIDAY_DEFINITION = defaultHolidays as HolidayCalendarDefinition;
+
+const FULL_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const MONTH_DAY = /^(\d{2})-(\d{2})$/;
+
+// Memeriksa tanggal YYYY-MM-DD atau MM-DD benar-benar ada di kalender
+function isValidDate(value: string): boolean {
+    const full = FULL_DATE.exec(value);
+    const monthDay = MONTH_DAY.exec(value);
+    if (!full && !monthDay) return false;
+
+    // Tahun kabisat dipakai untuk MM-DD agar 02-29 tetap diterima
+    const [year, month, day] = full
+        ? [Number(full[1]), Number(full[2]), Number(full[3])]
+        : [2024, Number(monthDay![1]), Number(monthDay![2])];
+    const date = new Date(year, month - 1, day);
+    return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+}
+
+function isRecurring(value: string): boolean {
+    return MONTH_DAY.test(value);
+}
+
+export class HolidayCalendar {
+    private static defaultCalendar: HolidayCalendar | null = null;
+
+    private datedHolidays: Map<string, HolidayDefinition> = new Map();       // YYYY-MM-DD
+    private recurringHolidays: Map<string, HolidayDefinition> = new Map();   // MM-DD
+    private peakPeriods: PeakPeriodDefinition[];
+
+    private constructor(private definition: HolidayCalendarDefinition) {
+        for (const holiday of definition.holidays) {
+            const target = isRecurring(holiday.date) ? this.recurringHolidays : this.datedHolidays;
+            target.set(holiday.date, holiday);
+        }
+        this.peakPeriods = definition.peakPeriods || [];
+    }
+
+    // Kalender default dari DEFAULT_HOLIDAY_DEFINITION (divalidasi saat pertama kali dipakai)
+    static getDefault(): HolidayCalendar {
+        if (!this.defaultCalendar) {
+            this.defaultCalendar = HolidayCalendar.fromDefinition(DEFAULT_HOLIDAY_DEFINITION);
+        }
+        return this.defaultCalendar;
+    }
+
+    // Mengganti kalender default; null kembali ke definisi default saat dibutuhkan
+    static setDefault(calendar: HolidayCalendar | null): void {
+        this.defaultCalendar = calendar;
+    }
+
+    static fromFile(filePath: string): HolidayCalendar {
+        let raw: unknown;
+        try {
+            raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new HolidayCalendarValidationError([`File ${filePath} tidak dapat dibaca: ${reason}`]);
+        }
+        const calendar = HolidayCalendar.fromDefinition(raw as HolidayCalendarDefinition);
+        console.log(`[HolidayCalendar] Loaded ${calendar.definition.holidays.length} holidays from ${filePath}`);
+        return calendar;
+    }
+
+    static fromDefinition(definition: HolidayCalendarDefinition): HolidayCalendar {
+        const errors = HolidayCalendar.validate(definition);
+        if (errors.length > 0) {
+            throw new HolidayCalendarValidationError(errors);
+        }
+        return new HolidayCalendar(definition);
+    }
+
+    // Memvalidasi definisi dan mengembalikan daftar pesan error (kosong jika valid)
+    static validate(definition: HolidayCalendarDefinition): string[] {
+        const errors: string[] = [];
+        if (!definition || typeof definition !== 'object') {
+            return ['Kalender harus berupa objek JSON'];
+        }
+        if (!Array.isArray(definition.holidays)) {
+            errors.push('Field holidays harus berupa array');
+        } else {
+            const seen = new Set<string>();
+            definition.holidays.forEach((holiday, index) => {
+                const label = `holidays[${index}]`;
+                if (!holiday || typeof holiday !== 'object') {
+                    errors.push(`${label}: harus berupa objek`);
+                    return;
+                }
+                if (typeof holiday.date !== 'string' || !isValidDate(holiday.date)) {
+                    errors.push(`${label}: tanggal tidak valid "${holiday.date}" (gunakan YYYY-MM-DD atau MM-DD)`);
+                } else if (seen.has(holiday.date)) {
+                    errors.push(`${label}: tanggal duplikat ${holiday.date}`);
+                }
+                seen.add(holiday.date);
+                if (!holiday.name || typeof holiday.name !== 'string') {
+                    errors.push(`${label}: nama hari libur diperlukan`);
+                }
+                if (!Object.values(HolidayType).includes(holiday.type)) {
+                    errors.push(`${label}: tipe tidak dikenal "${holiday.type}"`);
+                }
+            });
+        }
+
+        if (definition.peakPeriods !== undefined && !Array.isArray(definition.peakPeriods)) {
+            errors.push('Field peakPeriods harus berupa array');
+        } else {
+            (definition.peakPeriods || []).forEach((period, index) => {
+                const label = `peakPeriods[${index}]`;
+                if (!period || typeof period !== 'object') {
+                    errors.push(`${label}: harus berupa objek`);
+                    return;
+                }
+                if (!period.name) {
+                    errors.push(`${label}: nama periode diperlukan`);
+                }
+                const startValid = typeof period.start === 'string' && isValidDate(period.start);
+                const endValid = typeof period.end === 'string' && isValidDate(period.end);
+                if (!startValid || !endValid) {
+                    errors.push(`${label}: start/end tidak valid (gunakan YYYY-MM-DD atau MM-DD)`);
+                    return;
+                }
+                if (isRecurring(period.start) !== isRecurring(period.end)) {
+                    errors.push(`${label}: start dan end harus memakai format yang sama`);
+                } else if (!isRecurring(period.start) && period.end < period.start) {
+                    errors.push(`${label}: end (${period.end}) sebelum start (${period.start})`);
+                }
+            });
+        }
+        return errors;
+    }
+
+    // Mengklasifikasikan tanggal; prioritas PEAK > HOLIDAY > WEEKEND > WEEKDAY
+    describe(date: Date): DayInfo {
+        const key = toDateKey(date);
+        const holiday = this.getHoliday(date) || undefined;
+        const peakPeriod = this.getPeakPeriod(date) || undefined;
+
+        let category = DayCategory.WEEKDAY;
+        if (peakPeriod) {
+            category = DayCategory.PEAK;
+        } else if (holiday) {
+            category = DayCategory.HOLIDAY;
+        } else if (date.getDay() === 0 || date.getDay() === 6) {
+            category = DayCategory.WEEKEND;
+        }
+        return { date: key, category, holiday, peakPeriod };
+    }
+
+    classify(date: Date): DayCategory {
+        return this.describe(date).category;
+    }
+
+    getHoliday(date: Date): HolidayDefinition | null {
+        const key = toDateKey(date);
+        return this.datedHolidays.get(key) || this.recurringHolidays.get(key.slice(5)) || null;
+    }
+
+    getPeakPeriod(date: Date): PeakPeriodDefinition | null {
+        const key = toDateKey(date);
+        const monthDay = key.slice(5);
+        return this.peakPeriods.find(period => {
+            if (!isRecurring(period.start)) {
+                return key >= period.start && key <= period.end;
+            }
+            // Periode MM-DD yang melewati pergantian tahun (start > end)
+            return period.start <= period.end
+                ? monthDay >= period.start && monthDay <= period.end
+                : monthDay >= period.start || monthDay <= period.end;
+        }) || null;
+    }
+
+    // Semua hari libur pada tahun tertentu (termasuk hari libur MM-DD), urut tanggal
+    getHolidays(year: number): HolidayDefinition[] {
+        const holidays = new Map<string, HolidayDefinition>();
+        for (const [monthDay, holiday] of this.recurringHolidays) {
+            const date = `${year}-${monthDay}`;
+            if (isValidDate(date)) holidays.set(date, { ...holiday, date });
+        }
+        for (const [date, holiday] of this.datedHolidays) {
+            if (date.startsWith(`${year}-`)) holidays.set(date, holiday);
+        }
+        return Array.from(holidays.values()).sort((a, b) => a.date.localeCompare(b.date));
+    }
+
+    // Tahun yang memiliki hari libur bertanggal; di luar tahun ini hanya hari libur MM-DD yang berlaku
+    getCoveredYears(): number[] {
+        const years = new Set(Array.from(this.datedHolidays.keys()).map(date => Number(date.slice(0, 4))));
+        return Array.from(years).sort((a, b) => a - b);
+    }
+
+    isYearCovered(year: number): boolean {
+        return this.getCoveredYears().includes(year);
+    }
+}
+
+// Multiplier default netral agar harga yang ada tidak berubah; operator mengaktifkan tarif
+// akhir pekan/libur dengan memasang DayCategoryRule bermultiplier sendiri
+export const DEFAULT_DAY_CATEGORY_MULTIPLIERS: Partial<Record<DayCategory, number>> = {
+    [DayCategory.WEEKDAY]: 1,
+    [DayCategory.WEEKEND]: 1,
+    [DayCategory.HOLIDAY]: 1,
+    [DayCategory.PEAK]: 1
+};
+
+// Aturan harga berdasarkan kategori hari tayang (terpasang di engine default)
+// Kategori yang tidak dikonfigurasi mengikuti kategori di bawahnya (PEAK -> HOLIDAY -> WEEKEND)
+// Tanpa calendar, kalender default dibaca saat menghitung agar HolidayCalendar.setDefault ikut berlaku
+export class DayCategoryRule implements PricingRule {
+    readonly name = 'dayCategory';
+
+    constructor(
+        private calendar: HolidayCalendar | null = null,
+        private multipliers: Partial<Record<DayCategory, number>> = DEFAULT_DAY_CATEGORY_MULTIPLIERS
+    ) { }
+
+    multiplierFor(context: PricingContext): number {
+        if (!context.showStartsAt) return 1;
+        const calendar = this.calendar ?? HolidayCalendar.getDefault();
+        return this.multiplierForCategory(calendar.classify(context.showStartsAt));
+    }
+
+    multiplierForCategory(category: DayCategory): number {
+        const fallbackChain = [DayCategory.PEAK, DayCategory.HOLIDAY, DayCategory.WEEKEND];
+        const start = fallbackChain.indexOf(category);
+        if (start === -1) return this.multipliers[DayCategory.WEEKDAY] ?? 1;
+
+        for (const candidate of fallbackChain.slice(start)) {
+            const multiplier = this.multipliers[candidate];
+            if (multiplier !== undefined) return multiplier;
+        }
+        return 1;
+    }
+}
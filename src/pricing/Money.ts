@@ -0,0 +1,198 @@
+// Money - Nilai Uang dengan Unit Minor Integer
+//
+// Semua nominal disimpan sebagai integer unit minor beserta mata uangnya sehingga penjumlahan
+// tidak pernah menghasilkan pecahan. Perkalian (multiplier harga, persentase asuransi/biaya)
+// selalu dibulatkan dengan mode pembulatan yang eksplisit, dan alokasi membagi nominal ke
+// beberapa bagian tanpa kehilangan satu rupiah pun. Format tampilan rupiah hanya ada di sini.
+
+export interface Currency {
+    code: string;
+    exponent: number;         // Jumlah digit unit minor
+    symbol: string;
+    groupSeparator: string;
+    decimalSeparator: string;
+}
+
+// Rupiah tanpa unit minor (sen tidak lagi dipakai dalam transaksi), format id-ID
+export const IDR: Currency = { code: 'IDR', exponent: 0, symbol: 'Rp', groupSeparator: '.', decimalSeparator: ',' };
+
+export enum RoundingMode {
+    HALF_UP = 'HALF_UP',      // .5 menjauhi nol
+    HALF_EVEN = 'HALF_EVEN',  // .5 ke bilangan genap (banker's rounding)
+    FLOOR = 'FLOOR',          // Ke bawah
+    CEILING = 'CEILING'       // Ke atas
+}
+
+// Membulatkan nilai unit minor; noise floating point (0.1 * 3) dibuang lebih dulu
+export function roundMinorUnits(value: number, mode: RoundingMode): number {
+    const normalized = Number(value.toPrecision(15));
+    switch (mode) {
+        case RoundingMode.FLOOR:
+            return Math.floor(normalized);
+        case RoundingMode.CEILING:
+            return Math.ceil(normalized);
+        case RoundingMode.HALF_EVEN: {
+            const floor = Math.floor(normalized);
+            const diff = normalized - floor;
+            if (diff > 0.5) return floor + 1;
+            if (diff < 0.5) return floor;
+            return floor % 2 === 0 ? floor : floor + 1;
+        }
+        case RoundingMode.HALF_UP:
+        default:
+            return Math.sign(normalized) * Math.round(Math.abs(normalized));
+    }
+}
+
+export class Money {
+    private constructor(
+        public readonly minorUnits: number,
+        public readonly currency: Currency
+    ) {
+        if (!Number.isSafeInteger(minorUnits)) {
+            throw new Error(`Nominal ${minorUnits} bukan unit minor integer yang valid`);
+        }
+    }
+
+    // Dari nominal utama (misalnya rupiah); pecahan unit minor harus dibulatkan secara eksplisit
+    static of(amount: number, currency: Currency = IDR, rounding?: RoundingMode): Money {
+        const minor = amount * Math.pow(10, currency.exponent);
+        if (rounding) {
+            return new Money(roundMinorUnits(minor, rounding), currency);
+        }
+        const normalized = Number(minor.toPrecision(15));
+        if (!Number.isInteger(normalized)) {
+            throw new Error(`Nominal ${amount} ${currency.code} memiliki pecahan; tentukan mode pembulatan`);
+        }
+        return new Money(normalized, currency);
+    }
+
+    static ofMinor(minorUnits: number, currency: Currency = IDR): Money {
+        return new Money(minorUnits, currency);
+    }
+
+    static zero(currency: Currency = IDR): Money {
+        return new Money(0, currency);
+    }
+
+    static sum(values: Money[], currency: Currency = IDR): Money {
+        return values.reduce((total, value) => total.add(value), Money.zero(currency));
+    }
+
+    add(other: Money): Money {
+        this.assertSameCurrency(other);
+        return new Money(this.minorUnits + other.minorUnits, this.currency);
+    }
+
+    subtract(other: Money): Money {
+        this.assertSameCurrency(other);
+        return new Money(this.minorUnits - other.minorUnits, this.currency);
+    }
+
+    // Perkalian dengan faktor (multiplier, persentase dalam 0..1)
+    multiply(factor: number, rounding: RoundingMode = RoundingMode.HALF_UP): Money {
+        return new Money(roundMinorUnits(this.minorUnits * factor, rounding), this.currency);
+    }
+
+    // Pembagian ke kelipatan unit tertentu, misalnya pembulatan ke Rp 100 terdekat
+    roundTo(unit: Money, rounding: RoundingMode = RoundingMode.HALF_UP): Money {
+        this.assertSameCurrency(unit);
+        if (unit.minorUnits <= 0) {
+            throw new Error('Satuan pembulatan harus lebih dari 0');
+        }
+        const steps = roundMinorUnits(this.minorUnits / unit.minorUnits, rounding);
+        return new Money(steps * unit.minorUnits, this.currency);
+    }
+
+    // Membagi nominal sesuai rasio; sisa unit minor diberikan ke bagian dengan pecahan terbesar
+    allocate(ratios: number[]): Money[] {
+        const totalRatio = ratios.reduce((sum, ratio) => sum + ratio, 0);
+        if (ratios.length === 0 || ratios.some(ratio => ratio < 0) || totalRatio <= 0) {
+            throw new Error('Rasio alokasi harus berisi nilai non-negatif dengan total lebih dari 0');
+        }
+
+        const sign = Math.sign(this.minorUnits) || 1;
+        const absolute = Math.abs(this.minorUnits);
+        const exact = ratios.map(ratio => absolute * ratio / totalRatio);
+        const shares = exact.map(value => Math.floor(value));
+        let remainder = absolute - shares.reduce((sum, share) => sum + share, 0);
+
+        const byFraction = exact
+            .map((value, index) => ({ index, fraction: value - shares[index] }))
+            .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+        for (const { index } of byFraction) {
+            if (remainder === 0) break;
+            shares[index] += 1;
+            remainder -= 1;
+        }
+        return shares.map(share => new Money(sign * share, this.currency));
+    }
+
+    // Membagi rata ke n bagian
+    split(parts: number): Money[] {
+        if (!Number.isInteger(parts) || parts <= 0) {
+            throw new Error('Jumlah bagian harus bilangan bulat positif');
+        }
+        return this.allocate(new Array(parts).fill(1));
+    }
+
+    negate(): Money {
+        return new Money(-this.minorUnits, this.currency);
+    }
+
+    min(other: Money): Money {
+        return this.compare(other) <= 0 ? this : other;
+    }
+
+    max(other: Money): Money {
+        return this.compare(other) >= 0 ? this : other;
+    }
+
+    compare(other: Money): number {
+        this.assertSameCurrency(other);
+        return Math.sign(this.minorUnits - other.minorUnits);
+    }
+
+    equals(other: Money): boolean {
+        return this.currency.code === other.currency.code && this.minorUnits === other.minorUnits;
+    }
+
+    isZero(): boolean {
+        return this.minorUnits === 0;
+    }
+
+    isNegative(): boolean {
+        return this.minorUnits < 0;
+    }
+
+    // Nominal utama sebagai number (untuk API yang masih memakai number)
+    toNumber(): number {
+        return this.minorUnits / Math.pow(10, this.currency.exponent);
+    }
+
+    // Contoh: "Rp 50.000", "-Rp 5.000"; tidak bergantung pada locale runtime agar deterministik
+    format(): string {
+        const { exponent, symbol, groupSeparator, decimalSeparator } = this.currency;
+        const digits = String(Math.abs(this.minorUnits)).padStart(exponent + 1, '0');
+        const major = digits.slice(0, digits.length - exponent)
+            .replace(/\B(?=(\d{3})+(?!\d))/g, groupSeparator);
+        const minor = exponent > 0 ? `${decimalSeparator}${digits.slice(-exponent)}` : '';
+        return `${this.isNegative() ? '-' : ''}${symbol} ${major}${minor}`;
+    }
+
+    toString(): string {
+        return this.format();
+    }
+
+    private assertSameCurrency(other: Money): void {
+        if (other.currency.code !== this.currency.code) {
+            throw new Error(`Mata uang berbeda: ${this.currency.code} dan ${other.currency.code}`);
+        }
+    }
+}
+
+// Format rupiah untuk tampilan; nominal number dibulatkan HALF_UP ke rupiah utuh
+export function formatRupiah(amount: number | Money): string {
+    const money = amount instanceof Money ? amount : Money.of(amount, IDR, RoundingMode.HALF_UP);
+    return money.format();
+}
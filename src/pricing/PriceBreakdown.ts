@@ -0,0 +1,273 @@
+// Price Breakdown - Rincian Harga Terpadu
+//
+// Satu kalkulator untuk semua total uang (booking, tiket dengan add-on, paket, dan preview biaya
+// pembayaran). Urutan operasi selalu sama:
+//   1. Item: tiket, add-on, asuransi (subtotal)
+//   2. Diskon (voucher/promo/paket) sesuai urutan input, termasuk diskon member hasil PromotionResolver
+//   3. Diskon member berbasis persentase (persentase dari subtotal)
+//   4. Pajak per kategori item (PBJT hiburan untuk tiket, PPN untuk add-on dan asuransi)
+//   5. Biaya pembayaran (dihitung dari jumlah setelah pajak)
+//   6. Pembulatan ke satuan rupiah yang dikonfigurasi
+// Harga default sudah termasuk pajak: pajak hanya dirinci dan tidak menambah total.
+// Semua nominal memakai Money sehingga pembulatan terjadi di satu tempat per langkah.
+
+import { Money, RoundingMode } from './Money';
+
+// Kategori baris rincian (urutan enum = urutan tampil)
+export enum PriceLineType {
+    TICKET = 'TICKET',
+    ADDON = 'ADDON',
+    INSURANCE = 'INSURANCE',
+    DISCOUNT = 'DISCOUNT',
+    MEMBERSHIP_DISCOUNT = 'MEMBERSHIP_DISCOUNT',
+    TAX = 'TAX',
+    FEE = 'FEE',
+    ROUNDING = 'ROUNDING'
+}
+
+// Satu baris rincian; diskon bernilai negatif
+export interface PriceLine {
+    type: PriceLineType;
+    label: string;
+    amount: Money;
+    quantity?: number;
+    unitPrice?: Money;
+    included?: boolean;       // Pajak yang sudah termasuk harga (tidak menambah total)
+}
+
+export interface PriceItem {
+    label: string;
+    unitPrice: Money;
+    quantity?: number;        // Default 1
+}
+
+// Diskon nominal (amount) atau persentase dari subtotal (rate 0..1)
+export interface PriceDiscount {
+    label: string;
+    amount?: Money;
+    rate?: number;
+    type?: PriceLineType.DISCOUNT | PriceLineType.MEMBERSHIP_DISCOUNT;   // Default DISCOUNT
+}
+
+// Biaya metode pembayaran (rupiah utuh), dihitung dari jumlah yang harus dibayar
+export interface PaymentFeeSource {
+    getName(): string;
+    calculateFee(amount: Money): Money;
+}
+
+export interface PriceBreakdownInput {
+    tickets?: PriceItem[];
+    addons?: PriceItem[];
+    insurance?: PriceItem[];
+    insuranceRate?: number;               // Asuransi sebagai persentase subtotal tiket (0..1)
+    discounts?: PriceDiscount[];
+    membershipDiscountPercentage?: number;
+    paymentFee?: PaymentFeeSource;
+}
+
+export interface PriceBreakdown {
+    lines: PriceLine[];
+    ticketsSubtotal: Money;
+    addonsSubtotal: Money;
+    insuranceTotal: Money;
+    subtotal: Money;
+    discountTotal: Money;                 // Voucher/paket, positif
+    membershipDiscount: Money;
+    taxTotal: Money;
+    taxIncluded: boolean;
+    amountDue: Money;                     // Setelah diskon dan pajak, sebelum biaya pembayaran
+    feeTotal: Money;
+    rounding: Money;
+    total: Money;
+}
+
+// Pajak untuk kategori item tertentu
+export interface TaxRule {
+    name: string;
+    rate: number;             // 0..1
+    appliesTo: PriceLineType[];
+}
+
+export interface PriceCalculatorOptions {
+    taxes?: TaxRule[];
+    pricesIncludeTax?: boolean;
+    roundingUnit?: number;    // Contoh 100 untuk pembulatan ke Rp 100 terdekat
+}
+
+export const DEFAULT_TAX_RULES: TaxRule[] = [
+    { name: 'PBJT Hiburan 10%', rate: 0.10, appliesTo: [PriceLineType.TICKET] },
+    { name: 'PPN 11%', rate: 0.11, appliesTo: [PriceLineType.ADDON, PriceLineType.INSURANCE] }
+];
+
+export class PriceCalculator {
+    private static defaultCalculator: PriceCalculator | null = null;
+    private taxes: TaxRule[];
+    private pricesIncludeTax: boolean;
+    private roundingUnit: Money;
+
+    constructor(options: PriceCalculatorOptions = {}) {
+        this.taxes = [...(options.taxes ?? DEFAULT_TAX_RULES)];
+        this.pricesIncludeTax = options.pricesIncludeTax ?? true;
+        this.roundingUnit = Money.of(options.roundingUnit ?? 1);
+        if (this.roundingUnit.minorUnits <= 0) {
+            throw new Error('Satuan pembulatan harus lebih dari 0');
+        }
+    }
+
+    // Kalkulator yang dipakai booking, tiket, paket, dan pembayaran
+    static getDefault(): PriceCalculator {
+        if (!this.defaultCalculator) {
+            this.defaultCalculator = new PriceCalculator();
+        }
+        return this.defaultCalculator;
+    }
+
+    // Mengganti kalkulator default; null mengembalikan konfigurasi bawaan
+    static setDefault(calculator: PriceCalculator | null): void {
+        this.defaultCalculator = calculator;
+    }
+
+    getTaxes(): TaxRule[] {
+        return [...this.taxes];
+    }
+
+    isTaxIncluded(): boolean {
+        return this.pricesIncludeTax;
+    }
+
+    calculate(input: PriceBreakdownInput): PriceBreakdown {
+        const lines: PriceLine[] = [];
+        const sumOf = (selected: PriceLine[]) => Money.sum(selected.map(line => line.amount));
+
+        // 1. Item
+        const addItems = (type: PriceLineType, items: PriceItem[] = []): Money => {
+            const added = items.map(item => {
+                const quantity = item.quantity ?? 1;
+                return { type, label: item.label, amount: item.unitPrice.multiply(quantity), quantity, unitPrice: item.unitPrice };
+            });
+            lines.push(...added);
+            return sumOf(added);
+        };
+        const ticketsSubtotal = addItems(PriceLineType.TICKET, input.tickets);
+        const addonsSubtotal = addItems(PriceLineType.ADDON, input.addons);
+        let insuranceTotal = addItems(PriceLineType.INSURANCE, input.insurance);
+        if (input.insuranceRate) {
+            const amount = ticketsSubtotal.multiply(input.insuranceRate, RoundingMode.HALF_UP);
+            lines.push({ type: PriceLineType.INSURANCE, label: 'Asuransi Tiket', amount });
+            insuranceTotal = insuranceTotal.add(amount);
+        }
+        const subtotal = ticketsSubtotal.add(addonsSubtotal).add(insuranceTotal);
+
+        // 2-3. Diskon tidak pernah membuat total negatif
+        let remaining = subtotal;
+        const applyDiscount = (type: PriceLineType, label: string, requested: Money): Money => {
+            const amount = requested.max(Money.zero()).min(remaining);
+            if (!amount.isZero()) {
+                lines.push({ type, label, amount: amount.negate() });
+                remaining = remaining.subtract(amount);
+            }
+            return amount;
+        };
+
+        let discountTotal = Money.zero();
+        let membershipDiscount = Money.zero();
+        for (const discount of input.discounts || []) {
+            const requested = discount.amount ?? subtotal.multiply(discount.rate ?? 0, RoundingMode.HALF_UP);
+            if (discount.type === PriceLineType.MEMBERSHIP_DISCOUNT) {
+                membershipDiscount = membershipDiscount.add(applyDiscount(discount.type, discount.label, requested));
+            } else {
+                discountTotal = discountTotal.add(applyDiscount(PriceLineType.DISCOUNT, discount.label, requested));
+            }
+        }
+        const membershipPercentage = input.membershipDiscountPercentage ?? 0;
+        membershipDiscount = membershipDiscount.add(applyDiscount(
+            PriceLineType.MEMBERSHIP_DISCOUNT,
+            'Diskon Member',
+            subtotal.multiply(membershipPercentage / 100, RoundingMode.HALF_UP)
+        ));
+
+        // 4. Pajak dari dasar pengenaan setelah diskon (dialokasikan proporsional ke item)
+        const netRatio = subtotal.isZero() ? 0 : remaining.minorUnits / subtotal.minorUnits;
+        let taxTotal = Money.zero();
+        for (const tax of this.taxes) {
+            const base = sumOf(lines.filter(line => tax.appliesTo.includes(line.type)));
+            const factor = this.pricesIncludeTax ? tax.rate / (1 + tax.rate) : tax.rate;
+            const amount = base.multiply(netRatio * factor, RoundingMode.HALF_UP);
+            if (amount.minorUnits > 0) {
+                lines.push({ type: PriceLineType.TAX, label: tax.name, amount, included: this.pricesIncludeTax });
+                taxTotal = taxTotal.add(amount);
+            }
+        }
+        const amountDue = this.pricesIncludeTax ? remaining : remaining.add(taxTotal);
+
+        return this.finalize({
+            lines,
+            ticketsSubtotal,
+            addonsSubtotal,
+            insuranceTotal,
+            subtotal,
+            discountTotal,
+            membershipDiscount,
+            taxTotal,
+            taxIncluded: this.pricesIncludeTax,
+            amountDue
+        }, input.paymentFee);
+    }
+
+    // Rincian untuk jumlah yang sudah dihitung (misalnya total booking): hanya biaya dan pembulatan
+    calculateForAmount(amountDue: Money, paymentFee?: PaymentFeeSource): PriceBreakdown {
+        return this.finalize({
+            lines: [],
+            ticketsSubtotal: Money.zero(),
+            addonsSubtotal: Money.zero(),
+            insuranceTotal: Money.zero(),
+            subtotal: amountDue,
+            discountTotal: Money.zero(),
+            membershipDiscount: Money.zero(),
+            taxTotal: Money.zero(),
+            taxIncluded: this.pricesIncludeTax,
+            amountDue
+        }, paymentFee);
+    }
+
+    // Langkah 5-6: biaya pembayaran lalu pembulatan
+    private finalize(
+        partial: Omit<PriceBreakdown, 'feeTotal' | 'rounding' | 'total'>,
+        paymentFee?: PaymentFeeSource
+    ): PriceBreakdown {
+        const lines = [...partial.lines];
+        let feeTotal = Money.zero();
+        if (paymentFee) {
+            feeTotal = paymentFee.calculateFee(partial.amountDue);
+            if (!feeTotal.isZero()) {
+                lines.push({ type: PriceLineType.FEE, label: `Biaya ${paymentFee.getName()}`, amount: feeTotal });
+            }
+        }
+
+        const beforeRounding = partial.amountDue.add(feeTotal);
+        const total = beforeRounding.roundTo(this.roundingUnit, RoundingMode.HALF_UP);
+        const rounding = total.subtract(beforeRounding);
+        if (!rounding.isZero()) {
+            lines.push({ type: PriceLineType.ROUNDING, label: 'Pembulatan', amount: rounding });
+        }
+
+        return { ...partial, lines, feeTotal, rounding, total };
+    }
+}
+
+// Membagi nominal ke tiket sesuai proporsi harga tiket tanpa kehilangan satu rupiah
+// (misalnya total setelah diskon untuk refund per kursi)
+export function allocateToTickets(amount: Money, breakdown: PriceBreakdown): Money[] {
+    const tickets = breakdown.lines.filter(line => line.type === PriceLineType.TICKET);
+    if (tickets.length === 0) return [];
+    const weights = tickets.map(line => line.amount.minorUnits);
+    return weights.some(weight => weight > 0)
+        ? amount.allocate(weights)
+        : amount.split(tickets.length);
+}
+
+// Format baris rincian untuk tampilan ringkasan; pajak yang sudah di dalam harga diberi tanda
+export function formatPriceLine(line: PriceLine): { label: string; value: string } {
+    const value = line.amount.format();
+    return { label: line.label, value: line.included ? `${value} (termasuk)` : value };
+}
@@ -0,0 +1,300 @@
+// Pricing Engine - Harga Kursi dari Aturan yang Dapat Dikomposisi
+//
+// Harga dihitung dari harga dasar dikalikan faktor setiap aturan (tipe studio, tipe kursi, zona,
+// tipe tiket, hari, jam tayang, hari libur, dan tingkat keterisian), lalu dibatasi floor dan cap.
+// Layout kursi, SeatManager, Showtime, dan tiket memakai engine default yang sama sehingga semua
+// jalur harga konsisten. Engine default memasang semua jenis aturan; aturan tanpa konfigurasi
+// bernilai netral (VIP 1.5x, couple 2x per pasangan, tiket VIP 1.5x, tiket IMAX 2x), termasuk
+// kategori hari dari kalender libur (DayCategoryRule) sampai operator mengatur multipliernya.
+// Tingkat keterisian dilaporkan layanan kursi lewat recordOccupancy.
+
+import { StudioType } from '../models/Cinema';
+import { Seat, SeatType, SeatStatus } from '../models/Seat';
+import { SeatZone } from '../models/SeatMapDefinition';
+import type { Showtime } from '../models/Showtime';
+import type { TicketType } from '../ticket/TicketFactory';
+import { DayCategoryRule, HolidayCalendar } from './HolidayCalendar';
+
+// Data yang tersedia saat menghitung harga; aturan yang datanya tidak ada diabaikan
+export interface PricingContext {
+    basePrice: number;
+    studioType?: StudioType;
+    seatType?: SeatType;
+    zone?: SeatZone;
+    ticketType?: TicketType;
+    showStartsAt?: Date;
+    occupancyRate?: number;   // 0..1, porsi kursi yang sudah terjual
+}
+
+// Faktor yang diterapkan satu aturan
+export interface PriceAdjustment {
+    rule: string;
+    multiplier: number;
+}
+
+// Rincian perhitungan harga
+export interface PriceQuote {
+    basePrice: number;
+    adjustments: PriceAdjustment[];   // Hanya aturan dengan faktor selain 1
+    unclampedPrice: number;
+    price: number;
+}
+
+// Interface aturan harga
+export interface PricingRule {
+    readonly name: string;
+    // Faktor pengali; 1 berarti tidak mengubah harga
+    multiplierFor(context: PricingContext): number;
+}
+
+// ATURAN BERBASIS TABEL (tipe studio, tipe kursi, zona, tipe tiket)
+
+export class StudioTypeRule implements PricingRule {
+    readonly name = 'studioType';
+
+    constructor(private multipliers: Partial<Record<StudioType, number>>) { }
+
+    multiplierFor(context: PricingContext): number {
+        return context.studioType ? this.multipliers[context.studioType] ?? 1 : 1;
+    }
+}
+
+// Harga couple adalah harga untuk satu pasangan (dibebankan sekali)
+export class SeatTypeRule implements PricingRule {
+    readonly name = 'seatType';
+
+    constructor(private multipliers: Partial<Record<SeatType, number>>) { }
+
+    multiplierFor(context: PricingContext): number {
+        return context.seatType ? this.multipliers[context.seatType] ?? 1 : 1;
+    }
+}
+
+export class ZoneRule implements PricingRule {
+    readonly name = 'zone';
+
+    constructor(private multipliers: Partial<Record<SeatZone, number>>) { }
+
+    multiplierFor(context: PricingContext): number {
+        return context.zone ? this.multipliers[context.zone] ?? 1 : 1;
+    }
+}
+
+export class TicketTypeRule implements PricingRule {
+    readonly name = 'ticketType';
+
+    constructor(private multipliers: Partial<Record<TicketType, number>>) { }
+
+    multiplierFor(context: PricingContext): number {
+        return context.ticketType ? this.multipliers[context.ticketType] ?? 1 : 1;
+    }
+}
+
+// ATURAN BERBASIS WAKTU TAYANG
+
+// Faktor per hari (0 = Minggu ... 6 = Sabtu)
+export class DayOfWeekRule implements PricingRule {
+    readonly name = 'dayOfWeek';
+
+    constructor(private multipliers: Partial<Record<number, number>>) { }
+
+    multiplierFor(context: PricingContext): number {
+        return context.showStartsAt ? this.multipliers[context.showStartsAt.getDay()] ?? 1 : 1;
+    }
+}
+
+// Rentang jam [fromHour, toHour)
+export interface TimeOfDayBand {
+    fromHour: number;
+    toHour: number;
+    multiplier: number;
+}
+
+export class TimeOfDayRule implements PricingRule {
+    readonly name = 'timeOfDay';
+
+    constructor(private bands: TimeOfDayBand[]) { }
+
+    multiplierFor(context: PricingContext): number {
+        if (!context.showStartsAt) return 1;
+        const hour = context.showStartsAt.getHours() + context.showStartsAt.getMinutes() / 60;
+        const band = this.bands.find(candidate => hour >= candidate.fromHour && hour < candidate.toHour);
+        return band ? band.multiplier : 1;
+    }
+}
+
+// Format tanggal lokal YYYY-MM-DD
+export function toDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Hari libur nasional dan cuti bersama dari HolidayCalendar (tanpa calendar memakai kalender default)
+export class HolidayRule implements PricingRule {
+    readonly name = 'holiday';
+
+    constructor(private multiplier: number, private calendar: HolidayCalendar | null = null) { }
+
+    isHoliday(date: Date): boolean {
+        return (this.calendar ?? HolidayCalendar.getDefault()).getHoliday(date) !== null;
+    }
+
+    multiplierFor(context: PricingContext): number {
+        return context.showStartsAt && this.isHoliday(context.showStartsAt) ? this.multiplier : 1;
+    }
+}
+
+// Tingkat surge berdasarkan keterisian; tingkat tertinggi yang tercapai yang berlaku
+export interface OccupancySurgeTier {
+    minOccupancy: number;     // 0..1
+    multiplier: number;
+}
+
+export class OccupancySurgeRule implements PricingRule {
+    readonly name = 'occupancySurge';
+
+    constructor(private tiers: OccupancySurgeTier[]) { }
+
+    multiplierFor(context: PricingContext): number {
+        if (context.occupancyRate === undefined) return 1;
+        const reached = this.tiers
+            .filter(tier => context.occupancyRate! >= tier.minOccupancy)
+            .sort((a, b) => b.minOccupancy - a.minOccupancy);
+        return reached.length > 0 ? reached[0].multiplier : 1;
+    }
+}
+
+// Batas harga akhir
+export interface PricingLimits {
+    floor?: number;
+    cap?: number;
+}
+
+// Multiplier default (harga sebelum pricing engine diperkenalkan)
+export const DEFAULT_SEAT_TYPE_MULTIPLIERS: Partial<Record<SeatType, number>> = {
+    [SeatType.VIP]: 1.5,
+    [SeatType.COUPLE]: 2
+};
+
+export const DEFAULT_TICKET_TYPE_MULTIPLIERS: Partial<Record<TicketType, number>> = {
+    VIP: 1.5,
+    IMAX: 2
+};
+
+// Porsi kursi yang sudah terjual (BOOKED) dari seluruh kursi
+export function occupancyRateOf(seats: Seat[]): number {
+    if (seats.length === 0) return 0;
+    return seats.filter(seat => seat.status === SeatStatus.BOOKED).length / seats.length;
+}
+
+// PRICING ENGINE
+export class PricingEngine {
+    private static defaultEngine: PricingEngine | null = null;
+    private rules: PricingRule[];
+    private occupancy: Map<string, number> = new Map(); // showtimeId -> tingkat keterisian
+
+    constructor(rules: PricingRule[] = [], private limits: PricingLimits = {}) {
+        this.rules = [...rules];
+    }
+
+    // Engine yang dipakai layout, showtime, dan tiket
+    static getDefault(): PricingEngine {
+        if (!this.defaultEngine) {
+            this.defaultEngine = PricingEngine.createDefault();
+        }
+        return this.defaultEngine;
+    }
+
+    // Mengganti engine default; null mengembalikan aturan bawaan
+    static setDefault(engine: PricingEngine | null): void {
+        this.defaultEngine = engine;
+    }
+
+    // Semua jenis aturan terpasang; yang belum dikonfigurasi netral sampai diganti lewat
+    // removeRule/addRule (misalnya tarif akhir pekan atau surge keterisian)
+    static createDefault(): PricingEngine {
+        return new PricingEngine([
+            new StudioTypeRule({}),
+            new SeatTypeRule(DEFAULT_SEAT_TYPE_MULTIPLIERS),
+            new ZoneRule({}),
+            new TicketTypeRule(DEFAULT_TICKET_TYPE_MULTIPLIERS),
+            new DayOfWeekRule({}),
+            new TimeOfDayRule([]),
+            new DayCategoryRule(),
+            new HolidayRule(1),
+            new OccupancySurgeRule([])
+        ]);
+    }
+
+    // Dipanggil layanan kursi setiap kali jumlah kursi terjual berubah
+    recordOccupancy(showtimeId: string, rate: number): void {
+        this.occupancy.set(showtimeId, rate);
+    }
+
+    // Tingkat keterisian terakhir (undefined jika belum pernah dilaporkan)
+    getOccupancy(showtimeId: string): number | undefined {
+        return this.occupancy.get(showtimeId);
+    }
+
+    addRule(rule: PricingRule): this {
+        this.rules.push(rule);
+        return this;
+    }
+
+    removeRule(name: string): boolean {
+        const before = this.rules.length;
+        this.rules = this.rules.filter(rule => rule.name !== name);
+        return this.rules.length < before;
+    }
+
+    getRule<T extends PricingRule>(name: string): T | undefined {
+        return this.rules.find(rule => rule.name === name) as T | undefined;
+    }
+
+    getRules(): PricingRule[] {
+        return [...this.rules];
+    }
+
+    setLimits(limits: PricingLimits): void {
+        this.limits = { ...limits };
+    }
+
+    getLimits(): PricingLimits {
+        return { ...this.limits };
+    }
+
+    quote(context: PricingContext): PriceQuote {
+        const adjustments: PriceAdjustment[] = [];
+        let price = context.basePrice;
+
+        for (const rule of this.rules) {
+            const multiplier = rule.multiplierFor(context);
+            if (multiplier !== 1) {
+                adjustments.push({ rule: rule.name, multiplier });
+                price *= multiplier;
+            }
+        }
+
+        const unclampedPrice = Math.round(price);
+        let clamped = unclampedPrice;
+        if (this.limits.floor !== undefined) clamped = Math.max(clamped, this.limits.floor);
+        if (this.limits.cap !== undefined) clamped = Math.min(clamped, this.limits.cap);
+
+        return { basePrice: context.basePrice, adjustments, unclampedPrice, price: clamped };
+    }
+
+    calculate(context: PricingContext): number {
+        return this.quote(context).price;
+    }
+}
+
+// Konteks harga tingkat showtime (harga daftar, studio, waktu tayang, dan keterisian)
+export function showtimePricingContext(showtime: Showtime): PricingContext {
+    return {
+        basePrice: showtime.listPrice,
+        studioType: showtime.studio.type,
+        showStartsAt: showtime.getStartDateTime(),
+        occupancyRate: PricingEngine.getDefault().getOccupancy(showtime.id)
+    };
+}
@@ -0,0 +1,403 @@
+// Promotion Resolver - Penggabungan Promo dengan Aturan Konflik dan Prioritas
+//
+// Promo bank/pembayaran, diskon member, dan voucher dievaluasi bersama untuk satu booking:
+//   1. Promo yang syaratnya tidak terpenuhi ditolak
+//   2. Dalam satu grup eksklusivitas hanya promo yang paling menguntungkan pelanggan dipakai
+//   3. Promo eksklusif (tidak dapat digabung) dibandingkan dengan gabungan promo lainnya;
+//      dipilih kombinasi dengan potongan terbesar setelah batas maksimum
+//   4. Promo diterapkan sesuai prioritas sampai batas maksimum diskon per booking (jika dikonfigurasi)
+// Setiap promo yang dipakai atau ditolak disertai alasan untuk ditampilkan di ringkasan booking.
+
+import { Money, RoundingMode, formatRupiah } from './Money';
+import { PaymentProfile, PaymentTarget, matchPaymentTarget } from '../payment/PaymentTarget';
+import type { PromoTemplate } from '../seat/SeatLayout';
+
+export enum PromotionSource {
+    VOUCHER = 'VOUCHER',
+    BANK = 'BANK',
+    PAYMENT = 'PAYMENT',
+    MEMBERSHIP = 'MEMBERSHIP'
+}
+
+// Diskon mengurangi tagihan; cashback dikreditkan setelah pembayaran
+export enum PromotionBenefit {
+    DISCOUNT = 'DISCOUNT',
+    CASHBACK = 'CASHBACK'
+}
+
+export enum PromotionRejectionReason {
+    NOT_ELIGIBLE = 'NOT_ELIGIBLE',
+    GROUP_CONFLICT = 'GROUP_CONFLICT',
+    EXCLUSIVE_CONFLICT = 'EXCLUSIVE_CONFLICT',
+    MAX_DISCOUNT_REACHED = 'MAX_DISCOUNT_REACHED'
+}
+
+// Data booking yang dipakai untuk mengevaluasi promo
+export interface PromotionContext {
+    subtotal: Money;
+    paymentBank?: string | null;
+    payment?: PaymentProfile | null;
+}
+
+// Promo bank dan promo metode pembayaran dibiayai alat bayar yang sama, sehingga tidak dapat digabung
+export const PAYMENT_PROMOTION_GROUP = 'PEMBAYARAN';
+
+export type PromotionEvaluation =
+    | { eligible: true; amount: Money }
+    | { eligible: false; reason: string };
+
+export interface Promotion {
+    readonly id: string;
+    readonly label: string;
+    readonly source: PromotionSource;
+    readonly benefit: PromotionBenefit;
+    readonly priority: number;             // Lebih besar diterapkan lebih dulu
+    readonly exclusivityGroup?: string;    // Hanya satu promo per grup yang dipakai
+    readonly exclusive: boolean;           // Tidak dapat digabung dengan promo lain
+    evaluate(context: PromotionContext): PromotionEvaluation;
+}
+
+export interface PromotionOptions {
+    priority?: number;
+    exclusivityGroup?: string;
+    exclusive?: boolean;
+}
+
+abstract class BasePromotion implements Promotion {
+    readonly benefit: PromotionBenefit = PromotionBenefit.DISCOUNT;
+    readonly priority: number;
+    readonly exclusivityGroup?: string;
+    readonly exclusive: boolean;
+
+    constructor(
+        readonly id: string,
+        readonly label: string,
+        readonly source: PromotionSource,
+        options: PromotionOptions,
+        defaults: PromotionOptions
+    ) {
+        this.priority = options.priority ?? defaults.priority ?? 0;
+        this.exclusivityGroup = options.exclusivityGroup ?? defaults.exclusivityGroup;
+        this.exclusive = options.exclusive ?? defaults.exclusive ?? false;
+    }
+
+    abstract evaluate(context: PromotionContext): PromotionEvaluation;
+}
+
+// Voucher yang sudah divalidasi dan dihitung VoucherService (nominal diskon tetap)
+export class VoucherPromotion extends BasePromotion {
+    constructor(code: string, private discount: Money, options: PromotionOptions = {}) {
+        super(`VOUCHER-${code}`, `Voucher ${code}`, PromotionSource.VOUCHER, options, { priority: 30 });
+    }
+
+    evaluate(): PromotionEvaluation {
+        return { eligible: true, amount: this.discount };
+    }
+}
+
+// Promo kartu/rekening bank: persentase subtotal dengan batas potongan dan minimal pembelian
+export interface BankPromotionOptions extends PromotionOptions {
+    maxDiscount?: number;
+    minimumPurchase?: number;
+}
+
+export class BankPromotion extends BasePromotion {
+    private maxDiscount?: Money;
+    private minimumPurchase: Money;
+
+    constructor(
+        id: string,
+        private bank: string,
+        private percentage: number,
+        options: BankPromotionOptions = {}
+    ) {
+        super(id, `Promo ${bank} ${percentage}%`, PromotionSource.BANK, options, { priority: 20, exclusivityGroup: PAYMENT_PROMOTION_GROUP });
+        this.maxDiscount = options.maxDiscount !== undefined ? Money.of(options.maxDiscount) : undefined;
+        this.minimumPurchase = Money.of(options.minimumPurchase ?? 0);
+    }
+
+    getBank(): string {
+        return this.bank;
+    }
+
+    evaluate(context: PromotionContext): PromotionEvaluation {
+        const bankCode = context.paymentBank ?? context.payment?.bankCode;
+        if (bankCode?.toUpperCase() !== this.bank.toUpperCase()) {
+            return { eligible: false, reason: `Hanya untuk pembayaran ${this.bank}` };
+        }
+        if (context.subtotal.compare(this.minimumPurchase) < 0) {
+            return { eligible: false, reason: `Minimal pembelian ${formatRupiah(this.minimumPurchase)}` };
+        }
+        const amount = context.subtotal.multiply(this.percentage / 100, RoundingMode.HALF_UP);
+        return { eligible: true, amount: this.maxDiscount ? amount.min(this.maxDiscount) : amount };
+    }
+}
+
+// Promo untuk metode pembayaran, e-wallet, bank, atau BIN kartu tertentu (diskon atau cashback)
+export interface PaymentPromotionOptions extends PromotionOptions {
+    percentage?: number;          // Persentase subtotal
+    amount?: number;              // Potongan nominal tetap (jika percentage kosong)
+    maxDiscount?: number;
+    minimumPurchase?: number;
+    cashback?: boolean;
+}
+
+export class PaymentPromotion extends BasePromotion {
+    readonly benefit: PromotionBenefit;
+    private maxDiscount?: Money;
+    private minimumPurchase: Money;
+
+    constructor(
+        id: string,
+        label: string,
+        private target: PaymentTarget,
+        private options: PaymentPromotionOptions
+    ) {
+        super(id, label, PromotionSource.PAYMENT, options, { priority: 20, exclusivityGroup: PAYMENT_PROMOTION_GROUP });
+        if (options.percentage === undefined && options.amount === undefined) {
+            throw new Error(`Promo ${id} harus memiliki persentase atau nominal potongan`);
+        }
+        this.benefit = options.cashback ? PromotionBenefit.CASHBACK : PromotionBenefit.DISCOUNT;
+        this.maxDiscount = options.maxDiscount !== undefined ? Money.of(options.maxDiscount) : undefined;
+        this.minimumPurchase = Money.of(options.minimumPurchase ?? 0);
+    }
+
+    // Promo dari PromoTemplate yang memiliki sasaran pembayaran (persentase, minimal, maks. diskon)
+    static fromTemplate(template: PromoTemplate, options: PromotionOptions & { cashback?: boolean } = {}): PaymentPromotion {
+        const target = template.getPaymentTarget();
+        if (!target) {
+            throw new Error(`Template ${template.getId()} tidak memiliki sasaran pembayaran`);
+        }
+        return new PaymentPromotion(template.getId(), template.getName(), target, {
+            ...options,
+            percentage: template.getDiscountPercentage(),
+            maxDiscount: template.getMaxDiscount(),
+            minimumPurchase: template.getMinimumPurchase()
+        });
+    }
+
+    getTarget(): PaymentTarget {
+        return { ...this.target };
+    }
+
+    evaluate(context: PromotionContext): PromotionEvaluation {
+        const mismatch = matchPaymentTarget(this.target, context.payment);
+        if (mismatch) {
+            return { eligible: false, reason: mismatch };
+        }
+        if (context.subtotal.compare(this.minimumPurchase) < 0) {
+            return { eligible: false, reason: `Minimal pembelian ${formatRupiah(this.minimumPurchase)}` };
+        }
+        const amount = this.options.percentage !== undefined
+            ? context.subtotal.multiply(this.options.percentage / 100, RoundingMode.HALF_UP)
+            : Money.of(this.options.amount ?? 0);
+        return { eligible: true, amount: this.maxDiscount ? amount.min(this.maxDiscount) : amount };
+    }
+}
+
+// Diskon membership (persentase dari subtotal)
+export class MembershipPromotion extends BasePromotion {
+    constructor(private membership: string, private percentage: number, options: PromotionOptions = {}) {
+        super(`MEMBER-${membership}`, 'Diskon Member', PromotionSource.MEMBERSHIP, options, { priority: 10 });
+    }
+
+    evaluate(context: PromotionContext): PromotionEvaluation {
+        if (this.percentage <= 0) {
+            return { eligible: false, reason: `Membership ${this.membership} tidak mendapat diskon` };
+        }
+        return { eligible: true, amount: context.subtotal.multiply(this.percentage / 100, RoundingMode.HALF_UP) };
+    }
+}
+
+export interface AppliedPromotion {
+    promotion: Promotion;
+    requested: Money;
+    amount: Money;
+    capped: boolean;          // Dipotong karena batas maksimum diskon per booking
+}
+
+export interface RejectedPromotion {
+    promotion: Promotion;
+    reason: PromotionRejectionReason;
+    message: string;
+}
+
+export interface PromotionResolution {
+    applied: AppliedPromotion[];          // Urut sesuai prioritas
+    rejected: RejectedPromotion[];
+    totalDiscount: Money;                 // Hanya promo diskon (mengurangi tagihan)
+    totalCashback: Money;
+    maxDiscount: Money;                   // Batas gabungan diskon dan cashback
+}
+
+export interface PromotionResolverOptions {
+    maxDiscountRate?: number;     // Batas diskon per booking sebagai porsi subtotal (0..1), default 1 (tanpa batas)
+    maxDiscountAmount?: number;   // Batas nominal diskon per booking (opsional)
+    promotions?: Promotion[];     // Promo kampanye yang sedang berjalan (misalnya promo bank)
+}
+
+interface Candidate {
+    promotion: Promotion;
+    amount: Money;
+}
+
+export class PromotionResolver {
+    private static defaultResolver: PromotionResolver | null = null;
+    private maxDiscountRate: number;
+    private maxDiscountAmount?: Money;
+    private promotions: Promotion[] = [];
+
+    constructor(options: PromotionResolverOptions = {}) {
+        this.maxDiscountRate = options.maxDiscountRate ?? 1;
+        if (this.maxDiscountRate < 0 || this.maxDiscountRate > 1) {
+            throw new Error('Batas diskon per booking harus di antara 0 dan 1');
+        }
+        this.maxDiscountAmount = options.maxDiscountAmount !== undefined ? Money.of(options.maxDiscountAmount) : undefined;
+        (options.promotions || []).forEach(promotion => this.register(promotion));
+    }
+
+    // Resolver yang dipakai booking
+    static getDefault(): PromotionResolver {
+        if (!this.defaultResolver) {
+            this.defaultResolver = new PromotionResolver();
+        }
+        return this.defaultResolver;
+    }
+
+    // Mengganti resolver default; null mengembalikan konfigurasi bawaan
+    static setDefault(resolver: PromotionResolver | null): void {
+        this.defaultResolver = resolver;
+    }
+
+    // Mendaftarkan promo kampanye yang dievaluasi untuk setiap booking
+    register(promotion: Promotion): void {
+        if (this.promotions.some(existing => existing.id === promotion.id)) {
+            throw new Error(`Promo ${promotion.id} sudah terdaftar`);
+        }
+        this.promotions.push(promotion);
+        console.log(`[PromotionResolver] Promo terdaftar: ${promotion.label}`);
+    }
+
+    getPromotions(): Promotion[] {
+        return [...this.promotions];
+    }
+
+    getMaxDiscount(subtotal: Money): Money {
+        const byRate = subtotal.max(Money.zero(subtotal.currency)).multiply(this.maxDiscountRate, RoundingMode.FLOOR);
+        return this.maxDiscountAmount ? byRate.min(this.maxDiscountAmount) : byRate;
+    }
+
+    // Mengevaluasi promo milik booking (voucher, member) bersama promo kampanye terdaftar
+    resolve(context: PromotionContext, promotions: Promotion[] = []): PromotionResolution {
+        const rejected: RejectedPromotion[] = [];
+        const reject = (promotion: Promotion, reason: PromotionRejectionReason, message: string) =>
+            rejected.push({ promotion, reason, message });
+
+        // 1. Syarat promo
+        const eligible: Candidate[] = [];
+        for (const promotion of [...promotions, ...this.promotions]) {
+            const evaluation = promotion.evaluate(context);
+            if (!evaluation.eligible) {
+                reject(promotion, PromotionRejectionReason.NOT_ELIGIBLE, evaluation.reason);
+            } else if (evaluation.amount.minorUnits <= 0) {
+                reject(promotion, PromotionRejectionReason.NOT_ELIGIBLE, 'Tidak ada potongan untuk booking ini');
+            } else {
+                eligible.push({ promotion, amount: evaluation.amount });
+            }
+        }
+
+        // 2. Satu promo per grup eksklusivitas: potongan terbesar, lalu prioritas tertinggi
+        const groupWinners = new Map<string, Candidate>();
+        for (const candidate of eligible) {
+            const group = candidate.promotion.exclusivityGroup;
+            if (!group) continue;
+            const winner = groupWinners.get(group);
+            if (!winner || PromotionResolver.isBetter(candidate, winner)) {
+                groupWinners.set(group, candidate);
+            }
+        }
+        const survivors = eligible.filter(candidate => {
+            const group = candidate.promotion.exclusivityGroup;
+            const winner = group ? groupWinners.get(group) : undefined;
+            if (winner && winner !== candidate) {
+                reject(candidate.promotion, PromotionRejectionReason.GROUP_CONFLICT,
+                    `Satu grup ${group} dengan ${winner.promotion.label} yang lebih hemat`);
+                return false;
+            }
+            return true;
+        });
+
+        // 3. Promo eksklusif dibandingkan dengan gabungan promo lain (terbaik untuk pelanggan)
+        const maxDiscount = this.getMaxDiscount(context.subtotal);
+        const cappedTotal = (selection: Candidate[]) =>
+            Money.sum(selection.map(candidate => candidate.amount), context.subtotal.currency).min(maxDiscount);
+        const selections = [
+            survivors.filter(candidate => !candidate.promotion.exclusive),
+            ...survivors.filter(candidate => candidate.promotion.exclusive).map(candidate => [candidate])
+        ].filter(selection => selection.length > 0);
+        const chosen = selections.reduce<Candidate[]>(
+            (best, selection) => cappedTotal(selection).compare(cappedTotal(best)) > 0 ? selection : best,
+            []
+        );
+        const exclusiveWinner = chosen.length === 1 && chosen[0].promotion.exclusive ? chosen[0] : null;
+        survivors
+            .filter(candidate => !chosen.includes(candidate))
+            .forEach(candidate => reject(
+                candidate.promotion,
+                PromotionRejectionReason.EXCLUSIVE_CONFLICT,
+                exclusiveWinner
+                    ? `Tidak dapat digabung dengan ${exclusiveWinner.promotion.label} yang lebih hemat`
+                    : `Promo eksklusif; gabungan promo lain lebih hemat (${formatRupiah(cappedTotal(chosen))})`
+            ));
+
+        // 4. Prioritas dan batas maksimum diskon per booking
+        const applied: AppliedPromotion[] = [];
+        let remaining = maxDiscount;
+        for (const candidate of [...chosen].sort((a, b) => b.promotion.priority - a.promotion.priority)) {
+            if (remaining.isZero()) {
+                reject(candidate.promotion, PromotionRejectionReason.MAX_DISCOUNT_REACHED,
+                    `Batas diskon per booking ${formatRupiah(maxDiscount)} sudah tercapai`);
+                continue;
+            }
+            const amount = candidate.amount.min(remaining);
+            applied.push({
+                promotion: candidate.promotion,
+                requested: candidate.amount,
+                amount,
+                capped: amount.compare(candidate.amount) < 0
+            });
+            remaining = remaining.subtract(amount);
+        }
+
+        const totalOf = (benefit: PromotionBenefit) => Money.sum(
+            applied.filter(entry => entry.promotion.benefit === benefit).map(entry => entry.amount),
+            context.subtotal.currency
+        );
+        return {
+            applied,
+            rejected,
+            totalDiscount: totalOf(PromotionBenefit.DISCOUNT),
+            totalCashback: totalOf(PromotionBenefit.CASHBACK),
+            maxDiscount
+        };
+    }
+
+    private static isBetter(candidate: Candidate, current: Candidate): boolean {
+        const byAmount = candidate.amount.compare(current.amount);
+        return byAmount > 0 || (byAmount === 0 && candidate.promotion.priority > current.promotion.priority);
+    }
+}
+
+// Penjelasan promo untuk ringkasan booking: promo dipakai (✓) dan ditolak (✗) beserta alasannya
+export function describePromotions(resolution: PromotionResolution): string[] {
+    return [
+        ...resolution.applied.map(entry => {
+            const note = entry.capped ? `, dibatasi maks. ${formatRupiah(resolution.maxDiscount)}` : '';
+            const value = entry.promotion.benefit === PromotionBenefit.CASHBACK
+                ? `cashback ${formatRupiah(entry.amount)}`
+                : `-${formatRupiah(entry.amount)}`;
+            return `✓ ${entry.promotion.label}: ${value}${note}`;
+        }),
+        ...resolution.rejected.map(entry => `✗ ${entry.promotion.label}: ${entry.message}`)
+    ];
+}
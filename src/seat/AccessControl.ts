@@ -0,0 +1,100 @@
+// Access Control - Peran dan Izin untuk Sistem Kursi
+//
+// Level akses lama hanya diturunkan dari MembershipType sehingga kasir atau manajer bioskop
+// tidak bisa direpresentasikan. Setiap operasi proxy kini membutuhkan Permission tertentu,
+// dan tabel policy memetakan peran (UserRole) ke izin yang dimilikinya. Membership masih
+// dapat memberi izin tambahan (misalnya PLATINUM boleh melihat kursi VIP lebih dulu).
+
+import { User, UserRole, MembershipType } from '../models/User';
+
+// Izin operasi kursi
+export enum Permission {
+    VIEW_SEATS = 'VIEW_SEATS',
+    SELECT_SEAT = 'SELECT_SEAT',
+    CONFIRM_BOOKING = 'CONFIRM_BOOKING',
+    CANCEL_BOOKING = 'CANCEL_BOOKING',
+    CANCEL_ANY_BOOKING = 'CANCEL_ANY_BOOKING',
+    PREVIEW_VIP_SEATS = 'PREVIEW_VIP_SEATS',
+    FORCE_RELEASE_SEAT = 'FORCE_RELEASE_SEAT',
+    BLOCK_SEAT = 'BLOCK_SEAT',
+    OVERRIDE_HOLD = 'OVERRIDE_HOLD',
+    CONFIGURE_SHOWTIME = 'CONFIGURE_SHOWTIME'
+}
+
+// Izin pengunjung yang belum login
+const GUEST_PERMISSIONS: Permission[] = [Permission.VIEW_SEATS];
+
+const CUSTOMER_PERMISSIONS: Permission[] = [
+    ...GUEST_PERMISSIONS,
+    Permission.SELECT_SEAT,
+    Permission.CONFIRM_BOOKING,
+    Permission.CANCEL_BOOKING
+];
+
+const CASHIER_PERMISSIONS: Permission[] = [
+    ...CUSTOMER_PERMISSIONS,
+    Permission.PREVIEW_VIP_SEATS,
+    Permission.FORCE_RELEASE_SEAT,
+    Permission.CANCEL_ANY_BOOKING
+];
+
+const SUPERVISOR_PERMISSIONS: Permission[] = [
+    ...CASHIER_PERMISSIONS,
+    Permission.BLOCK_SEAT,
+    Permission.OVERRIDE_HOLD
+];
+
+// Tabel policy default: peran -> izin
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+    [UserRole.CUSTOMER]: CUSTOMER_PERMISSIONS,
+    [UserRole.CASHIER]: CASHIER_PERMISSIONS,
+    [UserRole.SUPERVISOR]: SUPERVISOR_PERMISSIONS,
+    [UserRole.ADMIN]: Object.values(Permission)
+};
+
+// Izin tambahan dari membership
+export const DEFAULT_MEMBERSHIP_PERMISSIONS: Partial<Record<MembershipType, Permission[]>> = {
+    [MembershipType.PLATINUM]: [Permission.PREVIEW_VIP_SEATS]
+};
+
+// Error ketika user tidak memiliki izin untuk sebuah operasi
+export class AccessDeniedError extends Error {
+    constructor(
+        public readonly operation: string,
+        public readonly missingPermission: Permission,
+        public readonly role: UserRole | null
+    ) {
+        super(`Access denied: ${operation} requires ${missingPermission} permission`);
+        this.name = 'AccessDeniedError';
+    }
+}
+
+// Policy akses berbasis peran
+export class AccessPolicy {
+    constructor(
+        private rolePermissions: Record<UserRole, Permission[]> = DEFAULT_ROLE_PERMISSIONS,
+        private membershipPermissions: Partial<Record<MembershipType, Permission[]>> = DEFAULT_MEMBERSHIP_PERMISSIONS
+    ) { }
+
+    // Semua izin yang dimiliki user (null = pengunjung)
+    permissionsFor(user: User | null): Set<Permission> {
+        if (!user) return new Set(GUEST_PERMISSIONS);
+
+        const role = user.role || UserRole.CUSTOMER;
+        return new Set([
+            ...this.rolePermissions[role],
+            ...(this.membershipPermissions[user.membership] || [])
+        ]);
+    }
+
+    can(user: User | null, permission: Permission): boolean {
+        return this.permissionsFor(user).has(permission);
+    }
+
+    // Melempar AccessDeniedError jika user tidak memiliki izin
+    assert(user: User | null, permission: Permission, operation: string): void {
+        if (!this.can(user, permission)) {
+            throw new AccessDeniedError(operation, permission, user ? user.role || UserRole.CUSTOMER : null);
+        }
+    }
+}
@@ -0,0 +1,97 @@
+// Accessible Seating - Ruang Kursi Roda dan Kursi Pendamping
+//
+// Ruang kursi roda (SeatType.WHEELCHAIR) dan kursi pendamping di sebelahnya ditahan dari
+// penjualan umum sampai batas waktu tertentu sebelum film dimulai. Sebelum itu hanya pengguna
+// dengan flag requiresAccessibleSeating yang boleh memesannya. Ketika batas waktu tercapai,
+// kursi aksesibel yang belum terjual dilepas ke penjualan umum dan listener diberi tahu.
+
+import { User } from '../models/User';
+import { Clock, SystemClock } from '../utils/Clock';
+import { SeatMap } from './SeatMap';
+import { SeatSelectionCheck, allowedSelection } from './SeatSelectionPolicy';
+
+// Event ketika kursi aksesibel dilepas ke penjualan umum
+export interface AccessibleSeatsReleasedEvent {
+    showtimeId: string;
+    seatCodes: string[];      // Kursi aksesibel yang belum terjual saat dilepas
+    showStartsAt: Date;
+    releasedAt: Date;
+}
+
+export type AccessibleSeatsReleaseListener = (event: AccessibleSeatsReleasedEvent) => void;
+
+// Default: kursi aksesibel dilepas 60 menit sebelum film dimulai
+export const DEFAULT_ACCESSIBLE_RELEASE_WINDOW = 60 * 60 * 1000;
+
+export class AccessibleSeatingPolicy {
+    private showtimeStarts: Map<string, Date> = new Map();
+    private releasedShowtimes: Set<string> = new Set();
+    private listeners: AccessibleSeatsReleaseListener[] = [];
+
+    constructor(
+        private clock: Clock = new SystemClock(),
+        private releaseWindowMs: number = DEFAULT_ACCESSIBLE_RELEASE_WINDOW
+    ) { }
+
+    // Mendaftarkan jam mulai tayang (diperlukan untuk menghitung waktu pelepasan)
+    registerShowtime(showtimeId: string, startsAt: Date): void {
+        this.showtimeStarts.set(showtimeId, startsAt);
+    }
+
+    // Mendaftarkan listener pelepasan kursi aksesibel
+    onRelease(listener: AccessibleSeatsReleaseListener): void {
+        this.listeners.push(listener);
+    }
+
+    // Waktu kursi aksesibel dilepas ke penjualan umum (null jika jam tayang belum terdaftar)
+    getReleaseTime(showtimeId: string): Date | null {
+        const startsAt = this.showtimeStarts.get(showtimeId);
+        return startsAt ? new Date(startsAt.getTime() - this.releaseWindowMs) : null;
+    }
+
+    // Mengecek apakah kursi aksesibel sudah boleh dijual ke umum
+    isReleased(showtimeId: string): boolean {
+        if (this.releasedShowtimes.has(showtimeId)) return true;
+        const releaseTime = this.getReleaseTime(showtimeId);
+        return !!releaseTime && this.clock.now() >= releaseTime;
+    }
+
+    // Mengecek apakah user boleh memesan kursi tertentu
+    canBook(showtimeId: string, seatMap: SeatMap, seatCode: string, user: User | null): boolean {
+        return !seatMap.isAccessibleSeat(seatCode) ||
+            this.isReleased(showtimeId) ||
+            !!user?.requiresAccessibleSeating;
+    }
+
+    // Mengevaluasi pemesanan sekumpulan kursi
+    checkBooking(showtimeId: string, seatMap: SeatMap, seatCodes: string[], user: User | null): SeatSelectionCheck {
+        const restricted = seatCodes.filter(code => !this.canBook(showtimeId, seatMap, code, user));
+        if (restricted.length === 0) return allowedSelection();
+
+        const releaseTime = this.getReleaseTime(showtimeId);
+        const until = releaseTime ? ` sampai ${releaseTime.toLocaleTimeString('id-ID')}` : '';
+        return {
+            allowed: false,
+            reasons: [`Kursi ${restricted.join(', ')} khusus pengguna kursi roda dan pendamping${until}`],
+            warnings: [],
+            orphanSeats: []
+        };
+    }
+
+    // Melepas kursi aksesibel yang belum terjual jika sudah waktunya (event hanya dikirim sekali)
+    releaseIfDue(showtimeId: string, seatMap: SeatMap, isFree: (code: string) => boolean): AccessibleSeatsReleasedEvent | null {
+        if (this.releasedShowtimes.has(showtimeId) || !this.isReleased(showtimeId)) return null;
+        this.releasedShowtimes.add(showtimeId);
+
+        const event: AccessibleSeatsReleasedEvent = {
+            showtimeId,
+            seatCodes: seatMap.getAccessiblePositions().map(p => p.code).filter(isFree),
+            showStartsAt: this.showtimeStarts.get(showtimeId)!,
+            releasedAt: this.clock.now()
+        };
+
+        console.log(`[AccessibleSeating] ${event.seatCodes.length} kursi aksesibel dilepas ke penjualan umum untuk ${showtimeId}`);
+        this.listeners.forEach(listener => listener(event));
+        return event;
+    }
+}
@@ -0,0 +1,77 @@
+// Occupancy Policy - Mode Jaga Jarak / Kursi Diblokir per Showtime
+//
+// Untuk penayangan dengan kapasitas terbatas (misalnya saat berlaku aturan kesehatan),
+// kursi di sekitar setiap grup yang sudah terkonfirmasi diblokir sebagai buffer.
+// RealSeatAvailabilityService menerapkan policy ini setiap kali booking dikonfirmasi atau
+// dibatalkan, sehingga kursi buffer selalu dihitung ulang dari kursi yang benar-benar terisi.
+
+import { SeatMap } from './SeatMap';
+
+// Interface policy okupansi
+export interface OccupancyPolicy {
+    // Menghitung kursi yang harus diblokir; isBooked mengembalikan true untuk kursi yang sudah terkonfirmasi
+    computeBlockedSeats(seatMap: SeatMap, isBooked: (code: string) => boolean): Set<string>;
+}
+
+// Konfigurasi jaga jarak
+export interface DistancingOptions {
+    seatBuffer?: number;   // Jumlah kursi kosong di kiri-kanan setiap grup (default 1)
+    rowBuffer?: number;    // Jumlah baris di depan-belakang yang ikut diblokir (default 0)
+}
+
+// Policy: memblokir kursi di sekitar setiap grup yang sudah terkonfirmasi
+export class DistancingOccupancyPolicy implements OccupancyPolicy {
+    private seatBuffer: number;
+    private rowBuffer: number;
+
+    constructor(options: DistancingOptions = {}) {
+        this.seatBuffer = options.seatBuffer ?? 1;
+        this.rowBuffer = options.rowBuffer ?? 0;
+    }
+
+    computeBlockedSeats(seatMap: SeatMap, isBooked: (code: string) => boolean): Set<string> {
+        const blocked = new Set<string>();
+        const rowLabels = seatMap.getRowLabels();
+
+        for (const position of seatMap.getPositions()) {
+            if (!isBooked(position.code)) continue;
+
+            // Buffer di baris yang sama hanya berlaku untuk kursi yang bersebelahan (tidak melewati lorong)
+            const row = seatMap.getRow(position.row);
+            const index = row.findIndex(p => p.code === position.code);
+            for (const direction of [-1, 1]) {
+                for (let step = 1; step <= this.seatBuffer; step++) {
+                    const neighbour = row[index + direction * step];
+                    const previous = row[index + direction * (step - 1)];
+                    if (!neighbour || Math.abs(neighbour.column - previous.column) !== 1) break;
+                    if (isBooked(neighbour.code)) break;
+                    blocked.add(neighbour.code);
+                }
+            }
+
+            // Buffer depan-belakang: kursi pada kolom yang sama di baris sekitarnya
+            for (let offset = 1; offset <= this.rowBuffer; offset++) {
+                for (const rowIndex of [position.rowIndex - offset, position.rowIndex + offset]) {
+                    const label = rowLabels[rowIndex];
+                    if (!label) continue;
+                    const behind = seatMap.getRow(label).find(p => p.column === position.column);
+                    if (behind && !isBooked(behind.code)) {
+                        blocked.add(behind.code);
+                    }
+                }
+            }
+        }
+
+        return blocked;
+    }
+}
+
+// Ringkasan kapasitas showtime setelah policy okupansi diterapkan
+export interface OccupancyReport {
+    showtimeId: string;
+    totalCapacity: number;
+    bookedSeats: number;
+    blockedSeats: number;
+    effectiveCapacity: number;    // Kapasitas total dikurangi kursi yang diblokir
+    remainingSeats: number;       // Kursi yang masih bisa dijual
+}
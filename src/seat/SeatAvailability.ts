@@ -17,7 +17,19 @@
 // - Proxy: SeatAvailabilityProxy
 
 import { Seat, SeatImpl, SeatType, SeatStatus } from '../models/Seat';
-import { User, MembershipType } from '../models/User';
+import { User, MembershipType, UserRole } from '../models/User';
+import { SeatMapDefinition } from '../models/SeatMapDefinition';
+import { SeatHold, SeatHoldManager } from './SeatHold';
+import { SeatMap, SeatPosition } from './SeatMap';
+import { PricingEngine, occupancyRateOf } from '../pricing/PricingEngine';
+import { AccessibleSeatingPolicy } from './AccessibleSeating';
+import { OccupancyPolicy, OccupancyReport } from './OccupancyPolicy';
+import { HtmlSeatMapRenderer, SvgSeatMapRenderer } from './SeatMapRenderer';
+import { SeatChangeEventBus, SeatChangeType } from './SeatChangeEvents';
+import { AccessDeniedError, AccessPolicy, Permission } from './AccessControl';
+import { AuditTrail, AuditOutcome } from '../utils/AuditTrail';
+import { RateLimitExceededError, TokenBucketLimits, TokenBucketRateLimiter } from '../utils/RateLimiter';
+import { CacheCodec, CacheStore, CacheStoreStats, InMemoryLRUCacheStore } from '../utils/CacheStore';
 
 // SUBJECT INTERFACE
 // Interface yang didefinisikan baik untuk real service maupun proxy
@@ -31,26 +43,76 @@ export interface SeatAvailabilityService {
     // Mengecek apakah kursi tertentu tersedia
     isSeatAvailable(showtimeId: string, seatCode: string): boolean;
 
-    // Memesan kursi (mengubah status menjadi SELECTED)
-    selectSeat(showtimeId: string, seatCode: string): boolean;
+    // Memesan kursi (mengubah status menjadi SELECTED dan memasang hold milik holderId)
+    selectSeat(showtimeId: string, seatCode: string, holderId?: string): boolean;
 
-    // Membatalkan pemilihan kursi
-    deselectSeat(showtimeId: string, seatCode: string): boolean;
+    // Membatalkan pemilihan kursi (hanya oleh pemilik hold)
+    deselectSeat(showtimeId: string, seatCode: string, holderId?: string): boolean;
 
-    // Mengkonfirmasi booking (mengubah status menjadi BOOKED)
-    confirmBooking(showtimeId: string, seatCodes: string[]): boolean;
+    // Mengkonfirmasi booking (mengubah status menjadi BOOKED, hanya oleh pemilik hold)
+    confirmBooking(showtimeId: string, seatCodes: string[], holderId?: string): boolean;
+
+    // Membatalkan booking (kursi BOOKED dikembalikan menjadi AVAILABLE)
+    cancelBooking(showtimeId: string, seatCodes: string[]): boolean;
+
+    // Mendapatkan hold aktif untuk kursi tertentu
+    getSeatHold(showtimeId: string, seatCode: string): SeatHold | null;
+
+    // Mendapatkan seat map (posisi kolom, lorong, zona) untuk showtime
+    getSeatMap(showtimeId: string): SeatMap;
 }
 
+// Holder default ketika pemanggil tidak menyebutkan holder
+const DEFAULT_HOLDER_ID = 'GUEST';
+
 // REAL SUBJECT
 // Implementasi aktual yang melakukan operasi sebenarnya (simulasi akses ke database)
 export class RealSeatAvailabilityService implements SeatAvailabilityService {
     private seatData: Map<string, Seat[][]> = new Map();
+    private seatMaps: Map<string, SeatMap> = new Map();
+    private occupancyPolicies: Map<string, OccupancyPolicy> = new Map();
+    private blockedSeats: Map<string, Set<string>> = new Map();
+    private maintenanceBlocks: Map<string, Map<string, string>> = new Map(); // showtimeId -> seatCode -> alasan
+    private bookingHolders: Map<string, Map<string, string>> = new Map(); // showtimeId -> seatCode -> holderId
+    private showtimeStarts: Map<string, Date> = new Map();
+    private holdManager: SeatHoldManager;
+    private eventBus: SeatChangeEventBus;
     private readonly ARTIFICIAL_DELAY = 100; // Simulasi latency database
+    private static readonly BASE_PRICE = 50000;
 
-    constructor() {
+    constructor(holdManager: SeatHoldManager = new SeatHoldManager(), eventBus: SeatChangeEventBus = new SeatChangeEventBus()) {
+        this.holdManager = holdManager;
+        this.eventBus = eventBus;
+        this.holdManager.onExpire(hold => this.handleHoldExpired(hold));
         console.log('[RealService] Service initialized');
     }
 
+    // Kursi yang hold-nya kadaluarsa dikembalikan menjadi AVAILABLE
+    private handleHoldExpired(hold: SeatHold): void {
+        const seat = this.seatData.has(hold.showtimeId) ? this.findSeat(hold.showtimeId, hold.seatCode) : null;
+        if (seat && seat.status === SeatStatus.SELECTED) {
+            (seat as SeatImpl).status = SeatStatus.AVAILABLE;
+            console.log(`[RealService] Hold expired, seat ${hold.seatCode} released`);
+            // Kursi yang dilepas bisa jadi kursi buffer yang tadinya dilewati karena sedang di-hold
+            this.applyOccupancyPolicy(hold.showtimeId);
+            this.publishChange(SeatChangeType.HOLD_EXPIRED, hold.showtimeId, [hold.seatCode]);
+        }
+    }
+
+    // Event bus tempat perubahan kursi dipublikasikan
+    getEventBus(): SeatChangeEventBus {
+        return this.eventBus;
+    }
+
+    private publishChange(type: SeatChangeType, showtimeId: string, seatCodes: string[]): void {
+        this.eventBus.publish({ type, showtimeId, seatCodes, occurredAt: this.holdManager.getClock().now() });
+    }
+
+    // Melepas semua hold yang sudah kadaluarsa
+    releaseExpiredHolds(): SeatHold[] {
+        return this.holdManager.releaseExpired();
+    }
+
     // Simulasi delay akses database
     private simulateDatabaseAccess(): void {
         const start = Date.now();
@@ -66,40 +128,83 @@ export class RealSeatAvailabilityService implements SeatAvailabilityService {
         console.log(`[RealService] Initializing seat data for ${showtimeId} (expensive operation)`);
         this.simulateDatabaseAccess();
 
+        const seatMap = this.seatMaps.get(showtimeId) || this.createDefaultSeatMap(showtimeId);
+        this.seatMaps.set(showtimeId, seatMap);
+
+        const seatMatrix = seatMap.createSeats(
+            showtimeId,
+            position => this.calculateSeatPrice(showtimeId, position),
+            // Simulasi beberapa kursi sudah terisi
+            () => Math.random() < 0.2 ? SeatStatus.BOOKED : SeatStatus.AVAILABLE // 20% sudah terisi
+        );
+
+        this.seatData.set(showtimeId, seatMatrix);
+        this.updateOccupancy(showtimeId);
+        console.log(`[RealService] Seat data initialized with ${seatMap.getCapacity()} seats`);
+    }
+
+    // Harga kursi dari pricing engine (tipe kursi, zona, waktu tayang, dan keterisian)
+    private calculateSeatPrice(showtimeId: string, position: SeatPosition): number {
+        return PricingEngine.getDefault().calculate({
+            basePrice: RealSeatAvailabilityService.BASE_PRICE,
+            seatType: position.type,
+            zone: position.zone,
+            showStartsAt: this.showtimeStarts.get(showtimeId),
+            occupancyRate: PricingEngine.getDefault().getOccupancy(showtimeId)
+        });
+    }
+
+    // Melaporkan keterisian ke pricing engine lalu menghitung ulang harga kursi yang belum terjual
+    private updateOccupancy(showtimeId: string): void {
+        const seats = this.seatData.get(showtimeId)?.flat() || [];
+        PricingEngine.getDefault().recordOccupancy(showtimeId, occupancyRateOf(seats));
+        const seatMap = this.seatMaps.get(showtimeId)!;
+        for (const seat of seats) {
+            if (seat.status !== SeatStatus.BOOKED) {
+                (seat as SeatImpl).price = this.calculateSeatPrice(showtimeId, seatMap.getPosition(seat.getCode())!);
+            }
+        }
+    }
+
+    // Layout default: 10 baris x 15 kursi, 2 baris terakhir VIP
+    private createDefaultSeatMap(showtimeId: string): SeatMap {
         const rows = 10;
         const seatsPerRow = 15;
-        const rowLabels = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
-        const seatMatrix: Seat[][] = [];
-
-        for (let r = 0; r < rows; r++) {
-            const row: Seat[] = [];
-            for (let s = 1; s <= seatsPerRow; s++) {
-                const rowLabel = rowLabels[r];
-                const seatType = r >= rows - 2 ? SeatType.VIP : SeatType.REGULAR;
-                const price = seatType === SeatType.VIP ? 75000 : 50000;
-
-                // Simulasi beberapa kursi sudah terisi
-                const isRandomlyBooked = Math.random() < 0.2; // 20% sudah terisi
-
-                row.push(new SeatImpl(
-                    `${showtimeId}-${rowLabel}${s}`,
-                    rowLabel,
-                    s,
-                    seatType,
-                    isRandomlyBooked ? SeatStatus.BOOKED : SeatStatus.AVAILABLE,
-                    price
-                ));
-            }
-            seatMatrix.push(row);
+        return SeatMap.rectangular(
+            `${showtimeId}-MAP`,
+            `Layout ${showtimeId}`,
+            rows,
+            seatsPerRow,
+            r => r >= rows - 2 ? SeatType.VIP : SeatType.REGULAR
+        );
+    }
+
+    // Mendaftarkan seat map untuk showtime (harus sebelum data kursi diinisialisasi)
+    registerSeatMap(showtimeId: string, definition: SeatMapDefinition): void {
+        if (this.seatData.has(showtimeId)) {
+            throw new Error(`Data kursi untuk ${showtimeId} sudah diinisialisasi`);
+        }
+        this.seatMaps.set(showtimeId, SeatMap.fromDefinition(definition));
+    }
+
+    // Mendaftarkan jam mulai tayang agar harga kursi ikut aturan hari, jam, dan hari libur
+    registerShowtime(showtimeId: string, startsAt: Date): void {
+        this.showtimeStarts.set(showtimeId, startsAt);
+        if (this.seatData.has(showtimeId)) {
+            this.updateOccupancy(showtimeId);
         }
+    }
 
-        this.seatData.set(showtimeId, seatMatrix);
-        console.log(`[RealService] Seat data initialized with ${rows * seatsPerRow} seats`);
+    // Mendapatkan seat map yang dipakai showtime
+    getSeatMap(showtimeId: string): SeatMap {
+        this.initializeShowtime(showtimeId);
+        return this.seatMaps.get(showtimeId)!;
     }
 
     getSeats(showtimeId: string): Seat[] {
         console.log(`[RealService] Fetching all seats for ${showtimeId}`);
         this.simulateDatabaseAccess();
+        this.releaseExpiredHolds();
         this.initializeShowtime(showtimeId);
         return this.seatData.get(showtimeId)?.flat() || [];
     }
@@ -107,6 +212,7 @@ export class RealSeatAvailabilityService implements SeatAvailabilityService {
     getAvailableSeats(showtimeId: string): Seat[] {
         console.log(`[RealService] Fetching available seats for ${showtimeId}`);
         this.simulateDatabaseAccess();
+        this.releaseExpiredHolds();
         this.initializeShowtime(showtimeId);
         const allSeats = this.seatData.get(showtimeId)?.flat() || [];
         return allSeats.filter(seat => seat.status === SeatStatus.AVAILABLE);
@@ -115,57 +221,259 @@ export class RealSeatAvailabilityService implements SeatAvailabilityService {
     isSeatAvailable(showtimeId: string, seatCode: string): boolean {
         console.log(`[RealService] Checking availability: ${seatCode}`);
         this.simulateDatabaseAccess();
+        this.releaseExpiredHolds();
         const seat = this.findSeat(showtimeId, seatCode);
         return seat?.status === SeatStatus.AVAILABLE;
     }
 
-    selectSeat(showtimeId: string, seatCode: string): boolean {
-        console.log(`[RealService] Selecting seat: ${seatCode}`);
+    // holdDurationMs opsional, misalnya untuk penawaran waitlist dengan batas waktu sendiri
+    selectSeat(showtimeId: string, seatCode: string, holderId: string = DEFAULT_HOLDER_ID, holdDurationMs?: number): boolean {
+        console.log(`[RealService] Selecting seat: ${seatCode} for ${holderId}`);
         this.simulateDatabaseAccess();
+        this.releaseExpiredHolds();
         const seat = this.findSeat(showtimeId, seatCode);
         if (seat && seat.status === SeatStatus.AVAILABLE) {
+            if (!this.holdManager.placeHold(showtimeId, seatCode, holderId, holdDurationMs)) {
+                return false;
+            }
             (seat as SeatImpl).status = SeatStatus.SELECTED;
+            this.publishChange(SeatChangeType.SELECTED, showtimeId, [seatCode]);
             return true;
         }
         return false;
     }
 
-    deselectSeat(showtimeId: string, seatCode: string): boolean {
-        console.log(`[RealService] Deselecting seat: ${seatCode}`);
+    deselectSeat(showtimeId: string, seatCode: string, holderId: string = DEFAULT_HOLDER_ID): boolean {
+        console.log(`[RealService] Deselecting seat: ${seatCode} for ${holderId}`);
         this.simulateDatabaseAccess();
+        this.releaseExpiredHolds();
         const seat = this.findSeat(showtimeId, seatCode);
         if (seat && seat.status === SeatStatus.SELECTED) {
+            if (!this.holdManager.releaseHold(showtimeId, seatCode, holderId)) {
+                console.log(`[RealService] Seat ${seatCode} is held by another customer`);
+                return false;
+            }
             (seat as SeatImpl).status = SeatStatus.AVAILABLE;
+            this.applyOccupancyPolicy(showtimeId);
+            this.publishChange(SeatChangeType.RELEASED, showtimeId, [seatCode]);
             return true;
         }
         return false;
     }
 
-    confirmBooking(showtimeId: string, seatCodes: string[]): boolean {
+    confirmBooking(showtimeId: string, seatCodes: string[], holderId: string = DEFAULT_HOLDER_ID): boolean {
         console.log(`[RealService] Confirming booking for ${seatCodes.length} seats`);
         this.simulateDatabaseAccess();
+        this.releaseExpiredHolds();
 
-        // Verifikasi semua kursi dalam status SELECTED
+        // Verifikasi semua kursi dalam status SELECTED dan di-hold oleh holder yang sama
         for (const code of seatCodes) {
             const seat = this.findSeat(showtimeId, code);
             if (!seat || seat.status !== SeatStatus.SELECTED) {
                 console.log(`[RealService] Booking failed: seat ${code} not in SELECTED status`);
                 return false;
             }
+            if (!this.holdManager.isHeldBy(showtimeId, code, holderId)) {
+                console.log(`[RealService] Booking failed: seat ${code} is not held by ${holderId}`);
+                return false;
+            }
         }
 
-        // Ubah status semua kursi menjadi BOOKED
+        // Ubah status semua kursi menjadi BOOKED, catat pemiliknya, lalu lepas hold-nya
+        const holders = this.bookingHolders.get(showtimeId) || new Map<string, string>();
+        this.bookingHolders.set(showtimeId, holders);
         for (const code of seatCodes) {
             const seat = this.findSeat(showtimeId, code);
             if (seat) {
                 (seat as SeatImpl).status = SeatStatus.BOOKED;
             }
+            holders.set(code, holderId);
+            this.holdManager.releaseHold(showtimeId, code, holderId);
         }
 
         console.log(`[RealService] Booking confirmed for ${seatCodes.length} seats`);
+        this.updateOccupancy(showtimeId);
+        this.applyOccupancyPolicy(showtimeId);
+        this.publishChange(SeatChangeType.BOOKED, showtimeId, seatCodes);
+        return true;
+    }
+
+    cancelBooking(showtimeId: string, seatCodes: string[]): boolean {
+        console.log(`[RealService] Cancelling booking for ${seatCodes.length} seats`);
+        this.simulateDatabaseAccess();
+
+        for (const code of seatCodes) {
+            const seat = this.findSeat(showtimeId, code);
+            if (!seat || seat.status !== SeatStatus.BOOKED) {
+                console.log(`[RealService] Cancellation failed: seat ${code} not in BOOKED status`);
+                return false;
+            }
+        }
+
+        for (const code of seatCodes) {
+            (this.findSeat(showtimeId, code) as SeatImpl).status = SeatStatus.AVAILABLE;
+            this.bookingHolders.get(showtimeId)?.delete(code);
+        }
+
+        console.log(`[RealService] Booking cancelled for ${seatCodes.length} seats`);
+        this.updateOccupancy(showtimeId);
+        this.applyOccupancyPolicy(showtimeId);
+        this.publishChange(SeatChangeType.CANCELLED, showtimeId, seatCodes);
+        return true;
+    }
+
+    // Holder yang mengonfirmasi booking kursi (null jika kursi tidak dibooking lewat layanan ini)
+    getBookingHolder(showtimeId: string, seatCode: string): string | null {
+        return this.bookingHolders.get(showtimeId)?.get(seatCode) ?? null;
+    }
+
+    // Memasang policy okupansi untuk showtime (null untuk kembali ke kapasitas penuh)
+    setOccupancyPolicy(showtimeId: string, policy: OccupancyPolicy | null): void {
+        if (policy) {
+            this.occupancyPolicies.set(showtimeId, policy);
+        } else {
+            this.occupancyPolicies.delete(showtimeId);
+        }
+        this.applyOccupancyPolicy(showtimeId);
+    }
+
+    // Menghitung ulang kursi buffer: blokir lama dilepas, lalu policy dievaluasi dari kursi BOOKED
+    private applyOccupancyPolicy(showtimeId: string): void {
+        this.initializeShowtime(showtimeId);
+        const previous = this.blockedSeats.get(showtimeId) || new Set<string>();
+        const maintenance = this.maintenanceBlocks.get(showtimeId);
+        for (const code of previous) {
+            const seat = this.findSeat(showtimeId, code);
+            if (seat && seat.status === SeatStatus.UNAVAILABLE && !maintenance?.has(code)) {
+                (seat as SeatImpl).status = SeatStatus.AVAILABLE;
+            }
+        }
+
+        const policy = this.occupancyPolicies.get(showtimeId);
+        if (!policy) {
+            this.blockedSeats.delete(showtimeId);
+            return;
+        }
+
+        const booked = new Set(this.getAllSeats(showtimeId)
+            .filter(seat => seat.status === SeatStatus.BOOKED)
+            .map(seat => seat.getCode()));
+        const candidates = policy.computeBlockedSeats(this.seatMaps.get(showtimeId)!, code => booked.has(code));
+
+        // Kursi yang sedang di-hold pelanggan lain tidak diblokir agar hold-nya tetap berlaku
+        const blocked = new Set<string>();
+        for (const code of candidates) {
+            const seat = this.findSeat(showtimeId, code);
+            if (seat && seat.status === SeatStatus.AVAILABLE) {
+                (seat as SeatImpl).status = SeatStatus.UNAVAILABLE;
+                blocked.add(code);
+            }
+        }
+
+        this.blockedSeats.set(showtimeId, blocked);
+        console.log(`[RealService] Occupancy policy applied for ${showtimeId}: ${blocked.size} seats blocked`);
+    }
+
+    // Ringkasan kapasitas efektif setelah kursi buffer dan kursi perawatan diblokir
+    getOccupancyReport(showtimeId: string): OccupancyReport {
+        this.releaseExpiredHolds();
+        const seats = this.getAllSeats(showtimeId);
+        // Kursi yang diblokir policy okupansi maupun untuk perawatan sama-sama tidak bisa dijual
+        const blockedSeats = new Set([
+            ...(this.blockedSeats.get(showtimeId) || []),
+            ...(this.maintenanceBlocks.get(showtimeId)?.keys() || [])
+        ]).size;
+
+        return {
+            showtimeId,
+            totalCapacity: seats.length,
+            bookedSeats: seats.filter(seat => seat.status === SeatStatus.BOOKED).length,
+            blockedSeats,
+            effectiveCapacity: seats.length - blockedSeats,
+            remainingSeats: seats.filter(seat => seat.status === SeatStatus.AVAILABLE).length
+        };
+    }
+
+    // Kode kursi yang sedang diblokir oleh policy okupansi
+    getBlockedSeats(showtimeId: string): string[] {
+        return Array.from(this.blockedSeats.get(showtimeId) || []);
+    }
+
+    // ═══════════════════════════════════════════════════════════════
+    // OPERASI STAF
+    // ═══════════════════════════════════════════════════════════════
+
+    // Melepas kursi SELECTED tanpa memandang pemilik hold (misalnya checkout yang macet)
+    forceReleaseSeat(showtimeId: string, seatCode: string): boolean {
+        console.log(`[RealService] Force releasing seat: ${seatCode}`);
+        this.simulateDatabaseAccess();
+        const seat = this.findSeat(showtimeId, seatCode);
+        if (!seat || seat.status !== SeatStatus.SELECTED) return false;
+
+        this.holdManager.releaseHold(showtimeId, seatCode);
+        (seat as SeatImpl).status = SeatStatus.AVAILABLE;
+        this.applyOccupancyPolicy(showtimeId);
+        this.publishChange(SeatChangeType.RELEASED, showtimeId, [seatCode]);
+        return true;
+    }
+
+    // Memblokir kursi untuk perawatan (kursi kosong atau yang sedang diblokir policy okupansi)
+    blockSeat(showtimeId: string, seatCode: string, reason: string): boolean {
+        console.log(`[RealService] Blocking seat ${seatCode} for maintenance: ${reason}`);
+        this.simulateDatabaseAccess();
+        const seat = this.findSeat(showtimeId, seatCode);
+        const blockedByPolicy = this.blockedSeats.get(showtimeId)?.has(seatCode) ?? false;
+        if (!seat || (seat.status !== SeatStatus.AVAILABLE && !blockedByPolicy)) return false;
+
+        const blocks = this.maintenanceBlocks.get(showtimeId) || new Map<string, string>();
+        blocks.set(seatCode, reason);
+        this.maintenanceBlocks.set(showtimeId, blocks);
+        (seat as SeatImpl).status = SeatStatus.UNAVAILABLE;
+        this.publishChange(SeatChangeType.BLOCKED, showtimeId, [seatCode]);
+        return true;
+    }
+
+    // Membuka kembali kursi yang diblokir untuk perawatan
+    unblockSeat(showtimeId: string, seatCode: string): boolean {
+        const blocks = this.maintenanceBlocks.get(showtimeId);
+        if (!blocks?.delete(seatCode)) return false;
+
+        console.log(`[RealService] Unblocking seat ${seatCode}`);
+        (this.findSeat(showtimeId, seatCode) as SeatImpl).status = SeatStatus.AVAILABLE;
+        this.applyOccupancyPolicy(showtimeId);
+        this.publishChange(SeatChangeType.UNBLOCKED, showtimeId, [seatCode]);
+        return true;
+    }
+
+    // Kursi yang sedang diblokir untuk perawatan beserta alasannya
+    getMaintenanceBlocks(showtimeId: string): Map<string, string> {
+        return new Map(this.maintenanceBlocks.get(showtimeId) || []);
+    }
+
+    // Memindahkan hold kursi ke holder lain (misalnya kasir mengambil alih untuk pembeli di loket)
+    overrideHold(showtimeId: string, seatCode: string, newHolderId: string): boolean {
+        console.log(`[RealService] Overriding hold on ${seatCode} for ${newHolderId}`);
+        this.simulateDatabaseAccess();
+        this.releaseExpiredHolds();
+        const seat = this.findSeat(showtimeId, seatCode);
+        if (!seat || seat.status !== SeatStatus.SELECTED) return false;
+
+        this.holdManager.releaseHold(showtimeId, seatCode);
+        this.holdManager.placeHold(showtimeId, seatCode, newHolderId);
+        this.publishChange(SeatChangeType.HOLD_OVERRIDDEN, showtimeId, [seatCode]);
         return true;
     }
 
+    private getAllSeats(showtimeId: string): Seat[] {
+        this.initializeShowtime(showtimeId);
+        return this.seatData.get(showtimeId)?.flat() || [];
+    }
+
+    getSeatHold(showtimeId: string, seatCode: string): SeatHold | null {
+        this.releaseExpiredHolds();
+        return this.holdManager.getHold(showtimeId, seatCode);
+    }
+
     private findSeat(showtimeId: string, seatCode: string): Seat | null {
         this.initializeShowtime(showtimeId);
         const rows = this.seatData.get(showtimeId) || [];
@@ -183,14 +491,7 @@ export class RealSeatAvailabilityService implements SeatAvailabilityService {
 // PROXY
 // Proxy yang menambahkan caching, access control, dan logging
 
-// Cache entry dengan TTL
-interface CacheEntry<T> {
-    data: T;
-    timestamp: number;
-    ttl: number;
-}
-
-// Access level untuk proteksi
+// Level akses ringkas (log dan rate limit); otorisasi operasi memakai Permission dari AccessPolicy
 export enum AccessLevel {
     GUEST = 0,
     MEMBER = 1,
@@ -198,18 +499,90 @@ export enum AccessLevel {
     ADMIN = 3
 }
 
+// Batas rate limit default per level akses untuk operasi yang mengubah kursi
+export const DEFAULT_SEAT_RATE_LIMITS: Record<AccessLevel, TokenBucketLimits> = {
+    [AccessLevel.GUEST]: { capacity: 5, refillPerSecond: 0.5 },
+    [AccessLevel.MEMBER]: { capacity: 20, refillPerSecond: 2 },
+    [AccessLevel.VIP]: { capacity: 40, refillPerSecond: 4 },
+    [AccessLevel.ADMIN]: { capacity: 200, refillPerSecond: 20 }
+};
+
+// Konfigurasi proxy
+export interface SeatAvailabilityProxyOptions {
+    // Hold manager yang dibagi dengan real service (menentukan clock dan durasi hold)
+    holdManager?: SeatHoldManager;
+    // Policy kursi aksesibel (default memakai clock dari hold manager)
+    accessibilityPolicy?: AccessibleSeatingPolicy;
+    // Backend cache (default LRU in-memory dengan clock dari hold manager)
+    cacheStore?: CacheStore<Seat[]>;
+    // TTL per jenis data yang di-cache
+    cacheTtl?: Partial<SeatCacheTtl>;
+    // Event bus perubahan kursi; bagikan ke proxy lain agar cache-nya ikut ter-invalidate
+    eventBus?: SeatChangeEventBus;
+    // Tabel peran dan izin
+    accessPolicy?: AccessPolicy;
+    // Batas rate limit per level akses (default DEFAULT_SEAT_RATE_LIMITS)
+    rateLimits?: Partial<Record<AccessLevel, TokenBucketLimits>>;
+    // Rate limiter (default memakai clock dari hold manager)
+    rateLimiter?: TokenBucketRateLimiter;
+}
+
+// TTL cache per jenis data (milidetik)
+export interface SeatCacheTtl {
+    seats: number;
+    availableSeats: number;
+}
+
+export const DEFAULT_SEAT_CACHE_TTL: SeatCacheTtl = {
+    seats: 30000,           // 30 detik
+    availableSeats: 15000   // Lebih pendek untuk data ketersediaan
+};
+
+// Codec daftar kursi untuk store cache eksternal
+export const SEAT_LIST_CODEC: CacheCodec<Seat[]> = {
+    serialize: seats => JSON.stringify(seats.map(seat => ({
+        id: seat.id,
+        row: seat.row,
+        number: seat.number,
+        type: seat.type,
+        status: seat.status,
+        price: seat.price
+    }))),
+    deserialize: raw => (JSON.parse(raw) as Seat[]).map(seat =>
+        new SeatImpl(seat.id, seat.row, seat.number, seat.type, seat.status, seat.price))
+};
+
 export class SeatAvailabilityProxy implements SeatAvailabilityService {
     private realService: RealSeatAvailabilityService | null = null;
-    private cache: Map<string, CacheEntry<Seat[]>> = new Map();
+    private holdManager: SeatHoldManager;
+    private accessibilityPolicy: AccessibleSeatingPolicy;
+    private cache: CacheStore<Seat[]>;
+    private cacheTtl: SeatCacheTtl;
+    private eventBus: SeatChangeEventBus;
+    private accessPolicy: AccessPolicy;
+    private rateLimits: Record<AccessLevel, TokenBucketLimits>;
+    private rateLimiter: TokenBucketRateLimiter;
     private accessLog: AccessLogEntry[] = [];
     private currentUser: User | null = null;
     private accessLevel: AccessLevel = AccessLevel.GUEST;
 
     // Configuration
-    private readonly CACHE_TTL = 30000; // 30 detik
     private readonly MAX_LOG_ENTRIES = 1000;
 
-    constructor() {
+    constructor(options: SeatAvailabilityProxyOptions = {}) {
+        this.holdManager = options.holdManager || new SeatHoldManager();
+        this.cache = options.cacheStore || new InMemoryLRUCacheStore<Seat[]>({ clock: this.holdManager.getClock() });
+        this.cacheTtl = { ...DEFAULT_SEAT_CACHE_TTL, ...options.cacheTtl };
+
+        // Cache di-invalidate setiap kali status kursi berubah (booking, pembatalan, hold kadaluarsa)
+        this.eventBus = options.eventBus || new SeatChangeEventBus();
+        this.eventBus.subscribe(event => this.invalidateCache(event.showtimeId));
+
+        this.accessPolicy = options.accessPolicy || new AccessPolicy();
+        this.rateLimits = { ...DEFAULT_SEAT_RATE_LIMITS, ...options.rateLimits };
+        this.rateLimiter = options.rateLimiter || new TokenBucketRateLimiter(this.holdManager.getClock());
+        this.accessibilityPolicy = options.accessibilityPolicy || new AccessibleSeatingPolicy(this.holdManager.getClock());
+
         console.log('[Proxy] Proxy initialized');
     }
 
@@ -222,6 +595,7 @@ export class SeatAvailabilityProxy implements SeatAvailabilityService {
 
     private determineAccessLevel(user: User | null): AccessLevel {
         if (!user) return AccessLevel.GUEST;
+        if (user.role && user.role !== UserRole.CUSTOMER) return AccessLevel.ADMIN;
 
         switch (user.membership) {
             case MembershipType.PLATINUM:
@@ -238,22 +612,21 @@ export class SeatAvailabilityProxy implements SeatAvailabilityService {
     private getRealService(): RealSeatAvailabilityService {
         if (!this.realService) {
             console.log('[Proxy] Lazy loading real service...');
-            this.realService = new RealSeatAvailabilityService();
+            this.realService = new RealSeatAvailabilityService(this.holdManager, this.eventBus);
         }
         return this.realService;
     }
 
-    // Check cache validity
-    private isCacheValid(key: string): boolean {
-        const entry = this.cache.get(key);
-        if (!entry) return false;
+    // Holder id untuk hold kursi diambil dari user yang sedang login
+    private getHolderId(): string {
+        return this.currentUser?.id || 'GUEST';
+    }
 
-        const isValid = Date.now() - entry.timestamp < entry.ttl;
-        if (!isValid) {
-            this.cache.delete(key);
-            console.log(`[Proxy] Cache expired for: ${key}`);
-        }
-        return isValid;
+    // Ambil data dari cache (undefined jika tidak ada atau sudah kadaluarsa)
+    private getCached(key: string): Seat[] | undefined {
+        // Lepas hold kadaluarsa terlebih dahulu agar event-nya meng-invalidate cache yang basi
+        this.holdManager.releaseExpired();
+        return this.cache.get(key);
     }
 
     // Log access
@@ -268,7 +641,7 @@ export class SeatAvailabilityProxy implements SeatAvailabilityService {
 
         this.accessLog.push(entry);
 
-        // Limit log size
+        // Limit log size (jejak lengkap disimpan di AuditTrail)
         if (this.accessLog.length > this.MAX_LOG_ENTRIES) {
             this.accessLog.shift();
         }
@@ -276,102 +649,290 @@ export class SeatAvailabilityProxy implements SeatAvailabilityService {
         console.log(`[Proxy] LOG: ${method} - ${showtimeId} by ${entry.userId}`);
     }
 
-    // Check access permission
-    private checkAccess(requiredLevel: AccessLevel, operation: string): void {
-        if (this.accessLevel < requiredLevel) {
-            const message = `Access denied: ${operation} requires ${AccessLevel[requiredLevel]} level`;
-            console.log(`[Proxy] ${message}`);
-            throw new Error(message);
+    // Menjalankan operasi lalu mencatat hasil sebenarnya ke audit trail
+    // (false atau exception dicatat sebagai FAILURE)
+    private audited<T>(method: string, showtimeId: string, details: string | undefined, operation: () => T): T {
+        let result: T;
+        try {
+            result = operation();
+        } catch (error) {
+            this.recordAudit(method, showtimeId, AuditOutcome.FAILURE, details, { error: (error as Error).message });
+            throw error;
+        }
+        this.recordAudit(method, showtimeId, result === false ? AuditOutcome.FAILURE : AuditOutcome.SUCCESS, details);
+        return result;
+    }
+
+    private recordAudit(
+        method: string,
+        showtimeId: string,
+        outcome: AuditOutcome,
+        details?: string,
+        extra: Record<string, unknown> = {}
+    ): void {
+        const data = { ...(details ? { detail: details } : {}), ...extra };
+        AuditTrail.record({
+            actor: this.getHolderId(),
+            action: `seat.${method}`,
+            resource: `showtime:${showtimeId}`,
+            outcome,
+            showtimeId,
+            details: Object.keys(data).length > 0 ? data : undefined
+        });
+    }
+
+    // Check access permission (melempar AccessDeniedError beserta izin yang kurang)
+    private checkAccess(permission: Permission, operation: string, showtimeId: string): void {
+        try {
+            this.accessPolicy.assert(this.currentUser, permission, operation);
+        } catch (error) {
+            console.log(`[Proxy] ${(error as Error).message}`);
+            AuditTrail.record({
+                actor: this.currentUser?.id || 'GUEST',
+                action: 'seat.access',
+                resource: `showtime:${showtimeId}`,
+                outcome: AuditOutcome.DENIED,
+                showtimeId,
+                details: { operation, missingPermission: (error as AccessDeniedError).missingPermission }
+            });
+            throw error;
         }
     }
 
+    // Memakai token rate limit milik user (melempar RateLimitExceededError beserta retry-after)
+    private checkRateLimit(operation: string, showtimeId: string): void {
+        const key = this.getHolderId();
+        const decision = this.rateLimiter.tryConsume(key, this.rateLimits[this.accessLevel]);
+        if (decision.allowed) return;
+
+        const error = new RateLimitExceededError(key, operation, decision.retryAfterMs);
+        console.log(`[Proxy] ${error.message}`);
+        AuditTrail.record({
+            actor: key,
+            action: 'seat.rateLimit',
+            resource: `showtime:${showtimeId}`,
+            outcome: AuditOutcome.DENIED,
+            showtimeId,
+            details: { operation, retryAfterMs: decision.retryAfterMs }
+        });
+        throw error;
+    }
+
     // ═══════════════════════════════════════════════════════════════
     // INTERFACE IMPLEMENTATION (dengan caching dan access control)
     // ═══════════════════════════════════════════════════════════════
 
     getSeats(showtimeId: string): Seat[] {
-        this.checkAccess(AccessLevel.GUEST, 'view seats');
+        this.checkAccess(Permission.VIEW_SEATS, 'view seats', showtimeId);
         this.logAccess('getSeats', showtimeId);
 
-        const cacheKey = `seats-all-${showtimeId}`;
+        return this.audited('getSeats', showtimeId, undefined, () => {
+            const cacheKey = `seats-all-${showtimeId}`;
 
-        // Check cache
-        if (this.isCacheValid(cacheKey)) {
-            console.log(`[Proxy] Cache HIT for ${cacheKey}`);
-            return this.cache.get(cacheKey)!.data;
-        }
+            // Check cache
+            const cached = this.getCached(cacheKey);
+            if (cached) {
+                console.log(`[Proxy] Cache HIT for ${cacheKey}`);
+                return cached;
+            }
 
-        console.log(`[Proxy] Cache MISS for ${cacheKey}`);
-        const seats = this.getRealService().getSeats(showtimeId);
+            console.log(`[Proxy] Cache MISS for ${cacheKey}`);
+            const seats = this.getRealService().getSeats(showtimeId);
 
-        // Store in cache
-        this.cache.set(cacheKey, {
-            data: seats,
-            timestamp: Date.now(),
-            ttl: this.CACHE_TTL
-        });
+            // Store in cache
+            this.cache.set(cacheKey, seats, this.cacheTtl.seats);
 
-        return seats;
+            return seats;
+        });
     }
 
     getAvailableSeats(showtimeId: string): Seat[] {
-        this.checkAccess(AccessLevel.GUEST, 'view available seats');
+        this.checkAccess(Permission.VIEW_SEATS, 'view available seats', showtimeId);
         this.logAccess('getAvailableSeats', showtimeId);
 
-        const cacheKey = `seats-available-${showtimeId}`;
+        return this.audited('getAvailableSeats', showtimeId, undefined, () => {
+            const cacheKey = `seats-available-${showtimeId}`;
 
-        if (this.isCacheValid(cacheKey)) {
-            console.log(`[Proxy] Cache HIT for ${cacheKey}`);
-            return this.cache.get(cacheKey)!.data;
-        }
+            const cached = this.getCached(cacheKey);
+            if (cached) {
+                console.log(`[Proxy] Cache HIT for ${cacheKey}`);
+                return this.filterAccessibleSeats(showtimeId, cached);
+            }
 
-        console.log(`[Proxy] Cache MISS for ${cacheKey}`);
-        const seats = this.getRealService().getAvailableSeats(showtimeId);
+            console.log(`[Proxy] Cache MISS for ${cacheKey}`);
+            const seats = this.getRealService().getAvailableSeats(showtimeId);
 
-        this.cache.set(cacheKey, {
-            data: seats,
-            timestamp: Date.now(),
-            ttl: this.CACHE_TTL / 2 // Shorter TTL for availability data
+            this.cache.set(cacheKey, seats, this.cacheTtl.availableSeats);
+
+            return this.filterAccessibleSeats(showtimeId, seats);
         });
+    }
+
+    // Kursi aksesibel yang masih ditahan disembunyikan dari user tanpa kebutuhan aksesibilitas
+    // (cache tetap menyimpan data lengkap karena dipakai bersama oleh semua user)
+    private filterAccessibleSeats(showtimeId: string, seats: Seat[]): Seat[] {
+        const seatMap = this.getRealService().getSeatMap(showtimeId);
+        this.releaseAccessibleSeatsIfDue(showtimeId, seatMap);
 
-        return seats;
+        return seats.filter(seat =>
+            this.accessibilityPolicy.canBook(showtimeId, seatMap, seat.getCode(), this.currentUser)
+        );
     }
 
-    isSeatAvailable(showtimeId: string, seatCode: string): boolean {
-        this.checkAccess(AccessLevel.GUEST, 'check seat availability');
-        this.logAccess('isSeatAvailable', showtimeId, `seat: ${seatCode}`);
+    private releaseAccessibleSeatsIfDue(showtimeId: string, seatMap: SeatMap): void {
+        if (!this.accessibilityPolicy.isReleased(showtimeId)) return;
+
+        const available = new Set(this.getRealService().getAvailableSeats(showtimeId).map(seat => seat.getCode()));
+        this.accessibilityPolicy.releaseIfDue(showtimeId, seatMap, code => available.has(code));
+    }
 
-        // Tidak cache single seat check karena bisa berubah cepat
-        return this.getRealService().isSeatAvailable(showtimeId, seatCode);
+    // Mendapatkan policy kursi aksesibel (untuk mendaftarkan jam tayang dan listener)
+    getAccessibilityPolicy(): AccessibleSeatingPolicy {
+        return this.accessibilityPolicy;
+    }
+
+    isSeatAvailable(showtimeId: string, seatCode: string): boolean {
+        this.checkAccess(Permission.VIEW_SEATS, 'check seat availability', showtimeId);
+        const details = `seat: ${seatCode}`;
+        this.logAccess('isSeatAvailable', showtimeId, details);
+
+        // Tidak cache single seat check karena bisa berubah cepat; kursi tidak tersedia bukan kegagalan
+        const available = this.getRealService().isSeatAvailable(showtimeId, seatCode);
+        this.recordAudit('isSeatAvailable', showtimeId, AuditOutcome.SUCCESS, details, { available });
+        return available;
     }
 
     selectSeat(showtimeId: string, seatCode: string): boolean {
         // Harus login untuk memilih kursi
-        this.checkAccess(AccessLevel.MEMBER, 'select seat');
-        this.logAccess('selectSeat', showtimeId, `seat: ${seatCode}`);
+        this.checkAccess(Permission.SELECT_SEAT, 'select seat', showtimeId);
+        this.checkRateLimit('select seat', showtimeId);
+        const details = `seat: ${seatCode}`;
+        this.logAccess('selectSeat', showtimeId, details);
+
+        // Kursi aksesibel hanya untuk pengguna kursi roda sampai dilepas ke penjualan umum
+        const seatMap = this.getRealService().getSeatMap(showtimeId);
+        this.releaseAccessibleSeatsIfDue(showtimeId, seatMap);
+        const check = this.accessibilityPolicy.checkBooking(showtimeId, seatMap, [seatCode], this.currentUser);
+        if (!check.allowed) {
+            console.log(`[Proxy] ${check.reasons.join('; ')}`);
+            this.recordAudit('selectSeat', showtimeId, AuditOutcome.FAILURE, details, { reasons: check.reasons });
+            return false;
+        }
 
         // Invalidate cache karena data berubah
         this.invalidateCache(showtimeId);
 
-        return this.getRealService().selectSeat(showtimeId, seatCode);
+        return this.audited('selectSeat', showtimeId, details, () =>
+            this.getRealService().selectSeat(showtimeId, seatCode, this.getHolderId())
+        );
     }
 
     deselectSeat(showtimeId: string, seatCode: string): boolean {
-        this.checkAccess(AccessLevel.MEMBER, 'deselect seat');
-        this.logAccess('deselectSeat', showtimeId, `seat: ${seatCode}`);
+        this.checkAccess(Permission.SELECT_SEAT, 'deselect seat', showtimeId);
+        this.checkRateLimit('deselect seat', showtimeId);
+        const details = `seat: ${seatCode}`;
+        this.logAccess('deselectSeat', showtimeId, details);
 
         this.invalidateCache(showtimeId);
 
-        return this.getRealService().deselectSeat(showtimeId, seatCode);
+        return this.audited('deselectSeat', showtimeId, details, () =>
+            this.getRealService().deselectSeat(showtimeId, seatCode, this.getHolderId())
+        );
     }
 
     confirmBooking(showtimeId: string, seatCodes: string[]): boolean {
-        this.checkAccess(AccessLevel.MEMBER, 'confirm booking');
-        this.logAccess('confirmBooking', showtimeId, `seats: ${seatCodes.join(', ')}`);
+        this.checkAccess(Permission.CONFIRM_BOOKING, 'confirm booking', showtimeId);
+        this.checkRateLimit('confirm booking', showtimeId);
+        const details = `seats: ${seatCodes.join(', ')}`;
+        this.logAccess('confirmBooking', showtimeId, details);
+
+        this.invalidateCache(showtimeId);
+
+        return this.audited('confirmBooking', showtimeId, details, () =>
+            this.getRealService().confirmBooking(showtimeId, seatCodes, this.getHolderId())
+        );
+    }
+
+    cancelBooking(showtimeId: string, seatCodes: string[]): boolean {
+        this.checkAccess(Permission.CANCEL_BOOKING, 'cancel booking', showtimeId);
+        // Customer hanya boleh membatalkan kursi yang ia booking sendiri; staf boleh membatalkan milik siapa pun
+        const holderId = this.getHolderId();
+        if (seatCodes.some(code => this.getRealService().getBookingHolder(showtimeId, code) !== holderId)) {
+            this.checkAccess(Permission.CANCEL_ANY_BOOKING, 'cancel booking of another customer', showtimeId);
+        }
+        this.checkRateLimit('cancel booking', showtimeId);
+        const details = `seats: ${seatCodes.join(', ')}`;
+        this.logAccess('cancelBooking', showtimeId, details);
+
+        this.invalidateCache(showtimeId);
+
+        return this.audited('cancelBooking', showtimeId, details, () =>
+            this.getRealService().cancelBooking(showtimeId, seatCodes)
+        );
+    }
+
+    // Admin: mengaktifkan atau menonaktifkan mode jaga jarak untuk showtime
+    setOccupancyPolicy(showtimeId: string, policy: OccupancyPolicy | null): void {
+        this.checkAccess(Permission.CONFIGURE_SHOWTIME, 'set occupancy policy', showtimeId);
+        const details = policy ? 'enabled' : 'disabled';
+        this.logAccess('setOccupancyPolicy', showtimeId, details);
+
+        this.invalidateCache(showtimeId);
+        this.audited('setOccupancyPolicy', showtimeId, details, () =>
+            this.getRealService().setOccupancyPolicy(showtimeId, policy)
+        );
+    }
+
+    getOccupancyReport(showtimeId: string): OccupancyReport {
+        this.checkAccess(Permission.VIEW_SEATS, 'view occupancy', showtimeId);
+        this.logAccess('getOccupancyReport', showtimeId);
 
+        return this.audited('getOccupancyReport', showtimeId, undefined, () =>
+            this.getRealService().getOccupancyReport(showtimeId)
+        );
+    }
+
+    getSeatHold(showtimeId: string, seatCode: string): SeatHold | null {
+        this.checkAccess(Permission.VIEW_SEATS, 'view seat hold', showtimeId);
+        const details = `seat: ${seatCode}`;
+        this.logAccess('getSeatHold', showtimeId, details);
+
+        return this.audited('getSeatHold', showtimeId, details, () =>
+            this.getRealService().getSeatHold(showtimeId, seatCode)
+        );
+    }
+
+    // Mendaftarkan seat map studio untuk showtime (sebelum data kursi dimuat)
+    // startsAt opsional: sekaligus mendaftarkan jam mulai tayang (lihat registerShowtime)
+    registerSeatMap(showtimeId: string, definition: SeatMapDefinition, startsAt?: Date): void {
+        this.checkAccess(Permission.CONFIGURE_SHOWTIME, 'register seat map', showtimeId);
+        const details = `map: ${definition.id}`;
+        this.logAccess('registerSeatMap', showtimeId, details);
+        this.audited('registerSeatMap', showtimeId, details, () =>
+            this.getRealService().registerSeatMap(showtimeId, definition)
+        );
+        if (startsAt) {
+            this.registerShowtime(showtimeId, startsAt);
+        }
+    }
+
+    // Mendaftarkan jam mulai tayang showtime untuk harga kursi dan pelepasan kursi aksesibel
+    registerShowtime(showtimeId: string, startsAt: Date): void {
+        this.checkAccess(Permission.CONFIGURE_SHOWTIME, 'register showtime', showtimeId);
+        const details = `start: ${startsAt.toISOString()}`;
+        this.logAccess('registerShowtime', showtimeId, details);
+        this.audited('registerShowtime', showtimeId, details, () => {
+            this.getRealService().registerShowtime(showtimeId, startsAt);
+            this.accessibilityPolicy.registerShowtime(showtimeId, startsAt);
+        });
         this.invalidateCache(showtimeId);
+    }
+
+    getSeatMap(showtimeId: string): SeatMap {
+        this.checkAccess(Permission.VIEW_SEATS, 'view seat map', showtimeId);
+        this.logAccess('getSeatMap', showtimeId);
 
-        return this.getRealService().confirmBooking(showtimeId, seatCodes);
+        return this.audited('getSeatMap', showtimeId, undefined, () => this.getRealService().getSeatMap(showtimeId));
     }
 
     // ═══════════════════════════════════════════════════════════════
@@ -396,12 +957,9 @@ export class SeatAvailabilityProxy implements SeatAvailabilityService {
         console.log('[Proxy] All cache cleared');
     }
 
-    // Get cache statistics
-    getCacheStats(): CacheStats {
-        return {
-            entries: this.cache.size,
-            keys: Array.from(this.cache.keys())
-        };
+    // Get cache statistics (hit ratio, eviction, perkiraan memori)
+    getCacheStats(): CacheStoreStats {
+        return this.cache.getStats();
     }
 
     // Get access log
@@ -409,13 +967,62 @@ export class SeatAvailabilityProxy implements SeatAvailabilityService {
         return this.accessLog.slice(-limit);
     }
 
-    // VIP-only: Preview premium seats
+    // Staf: melepas kursi yang tertahan tanpa memandang pemilik hold
+    forceReleaseSeat(showtimeId: string, seatCode: string): boolean {
+        this.checkAccess(Permission.FORCE_RELEASE_SEAT, 'force release seat', showtimeId);
+        const details = `seat: ${seatCode}`;
+        this.logAccess('forceReleaseSeat', showtimeId, details);
+
+        return this.audited('forceReleaseSeat', showtimeId, details, () =>
+            this.getRealService().forceReleaseSeat(showtimeId, seatCode)
+        );
+    }
+
+    // Staf: memblokir kursi untuk perawatan
+    blockSeat(showtimeId: string, seatCode: string, reason: string): boolean {
+        this.checkAccess(Permission.BLOCK_SEAT, 'block seat', showtimeId);
+        const details = `seat: ${seatCode}, reason: ${reason}`;
+        this.logAccess('blockSeat', showtimeId, details);
+
+        return this.audited('blockSeat', showtimeId, details, () =>
+            this.getRealService().blockSeat(showtimeId, seatCode, reason)
+        );
+    }
+
+    unblockSeat(showtimeId: string, seatCode: string): boolean {
+        this.checkAccess(Permission.BLOCK_SEAT, 'unblock seat', showtimeId);
+        const details = `seat: ${seatCode}`;
+        this.logAccess('unblockSeat', showtimeId, details);
+
+        return this.audited('unblockSeat', showtimeId, details, () =>
+            this.getRealService().unblockSeat(showtimeId, seatCode)
+        );
+    }
+
+    // Staf: mengambil alih hold kursi (default untuk staf yang sedang login)
+    overrideHold(showtimeId: string, seatCode: string, newHolderId: string = this.getHolderId()): boolean {
+        this.checkAccess(Permission.OVERRIDE_HOLD, 'override hold', showtimeId);
+        const details = `seat: ${seatCode}, holder: ${newHolderId}`;
+        this.logAccess('overrideHold', showtimeId, details);
+
+        return this.audited('overrideHold', showtimeId, details, () =>
+            this.getRealService().overrideHold(showtimeId, seatCode, newHolderId)
+        );
+    }
+
+    // Izin yang dimiliki user saat ini
+    getPermissions(): Permission[] {
+        return Array.from(this.accessPolicy.permissionsFor(this.currentUser));
+    }
+
+    // Preview premium seats (membutuhkan izin PREVIEW_VIP_SEATS)
     getVIPSeats(showtimeId: string): Seat[] {
-        this.checkAccess(AccessLevel.VIP, 'preview VIP seats');
+        this.checkAccess(Permission.PREVIEW_VIP_SEATS, 'preview VIP seats', showtimeId);
         this.logAccess('getVIPSeats', showtimeId);
 
-        const allSeats = this.getSeats(showtimeId);
-        return allSeats.filter(seat => seat.type === SeatType.VIP);
+        return this.audited('getVIPSeats', showtimeId, undefined, () =>
+            this.getSeats(showtimeId).filter(seat => seat.type === SeatType.VIP)
+        );
     }
 }
 
@@ -428,12 +1035,6 @@ interface AccessLogEntry {
     details?: string;
 }
 
-// Interface untuk cache statistics
-interface CacheStats {
-    entries: number;
-    keys: string[];
-}
-
 // SEAT DISPLAY HELPER
 export class SeatDisplayHelper {
     static displayLayout(seats: Seat[], seatsPerRow: number): string {
@@ -470,6 +1071,9 @@ export class SeatDisplayHelper {
                     case SeatStatus.BOOKED:
                         symbol = '✕';
                         break;
+                    case SeatStatus.UNAVAILABLE:
+                        symbol = '▫';
+                        break;
                     default:
                         symbol = '─';
                 }
@@ -478,8 +1082,18 @@ export class SeatDisplayHelper {
             output += `  ${rowLabel}\n`;
         }
 
-        output += '\n  ○ Available  ◆ VIP  ● Selected  ✕ Booked\n';
+        output += '\n  ○ Available  ◆ VIP  ● Selected  ✕ Booked  ▫ Blocked\n';
 
         return output;
     }
+
+    // Seat map sebagai SVG mandiri untuk web kiosk
+    static renderSvg(seatMap: SeatMap, seats: Seat[]): string {
+        return new SvgSeatMapRenderer().render(seatMap, seats);
+    }
+
+    // Seat map sebagai tabel HTML yang aksesibel
+    static renderHtml(seatMap: SeatMap, seats: Seat[]): string {
+        return new HtmlSeatMapRenderer().render(seatMap, seats);
+    }
 }
@@ -0,0 +1,45 @@
+// Seat Change Events - Notifikasi Perubahan Status Kursi
+//
+// RealSeatAvailabilityService mempublikasikan setiap perubahan status kursi (pilih, lepas,
+// booking, pembatalan, hold kadaluarsa, operasi staf) ke SeatChangeEventBus. Proxy (termasuk
+// proxy di proses lain yang memakai bus yang sama) meng-invalidate cache berdasarkan event ini,
+// bukan hanya TTL.
+
+// Jenis perubahan kursi
+export enum SeatChangeType {
+    SELECTED = 'SELECTED',
+    RELEASED = 'RELEASED',
+    BOOKED = 'BOOKED',
+    CANCELLED = 'CANCELLED',
+    HOLD_EXPIRED = 'HOLD_EXPIRED',
+    HOLD_OVERRIDDEN = 'HOLD_OVERRIDDEN',
+    BLOCKED = 'BLOCKED',
+    UNBLOCKED = 'UNBLOCKED'
+}
+
+// Event perubahan kursi
+export interface SeatChangeEvent {
+    type: SeatChangeType;
+    showtimeId: string;
+    seatCodes: string[];
+    occurredAt: Date;
+}
+
+export type SeatChangeListener = (event: SeatChangeEvent) => void;
+
+// Event bus sederhana; subscribe mengembalikan fungsi untuk berhenti berlangganan
+export class SeatChangeEventBus {
+    private listeners: SeatChangeListener[] = [];
+
+    subscribe(listener: SeatChangeListener): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    publish(event: SeatChangeEvent): void {
+        console.log(`[SeatEvents] ${event.type} ${event.seatCodes.join(', ')} (${event.showtimeId})`);
+        this.listeners.forEach(listener => listener(event));
+    }
+}
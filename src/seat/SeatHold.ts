@@ -0,0 +1,132 @@
+// Sistem Hold Kursi dengan Batas Waktu
+//
+// Setiap pemilihan kursi dicatat sebagai hold milik seorang holder dengan waktu kadaluarsa.
+// Hold yang sudah kadaluarsa dilepas berdasarkan Clock yang di-inject, sehingga checkout
+// yang ditinggalkan tidak mengunci kursi selamanya.
+
+import { Clock, SystemClock } from '../utils/Clock';
+
+// Data hold sebuah kursi
+export interface SeatHold {
+    showtimeId: string;
+    seatCode: string;
+    holderId: string;
+    createdAt: Date;
+    expiresAt: Date;
+}
+
+// Listener yang dipanggil ketika hold kadaluarsa
+export type SeatHoldListener = (hold: SeatHold) => void;
+
+// Mengelola hold kursi per showtime
+export class SeatHoldManager {
+    static readonly DEFAULT_HOLD_DURATION = 10 * 60 * 1000; // 10 menit
+
+    private holds: Map<string, Map<string, SeatHold>> = new Map(); // showtimeId -> seatCode -> hold
+    private expiryListeners: SeatHoldListener[] = [];
+    private clock: Clock;
+    private holdDurationMs: number;
+
+    constructor(clock: Clock = new SystemClock(), holdDurationMs: number = SeatHoldManager.DEFAULT_HOLD_DURATION) {
+        this.clock = clock;
+        this.holdDurationMs = holdDurationMs;
+    }
+
+    // Memasang hold untuk holder tertentu
+    // Mengembalikan null jika kursi sedang di-hold oleh holder lain
+    placeHold(showtimeId: string, seatCode: string, holderId: string, durationMs: number = this.holdDurationMs): SeatHold | null {
+        const existing = this.getHold(showtimeId, seatCode);
+        if (existing && existing.holderId !== holderId) {
+            return null;
+        }
+
+        const now = this.clock.now();
+        const hold: SeatHold = {
+            showtimeId,
+            seatCode,
+            holderId,
+            createdAt: existing ? existing.createdAt : now,
+            expiresAt: new Date(now.getTime() + durationMs)
+        };
+
+        const showtimeHolds = this.holds.get(showtimeId) || new Map<string, SeatHold>();
+        showtimeHolds.set(seatCode, hold);
+        this.holds.set(showtimeId, showtimeHolds);
+        return hold;
+    }
+
+    // Melepas hold (tanpa memicu event kadaluarsa)
+    // Jika holderId diberikan, hanya pemilik hold yang dapat melepasnya
+    releaseHold(showtimeId: string, seatCode: string, holderId?: string): boolean {
+        const hold = this.getHold(showtimeId, seatCode);
+        if (!hold) return false;
+        if (holderId !== undefined && hold.holderId !== holderId) return false;
+
+        this.holds.get(showtimeId)?.delete(seatCode);
+        return true;
+    }
+
+    // Mendapatkan hold aktif untuk kursi tertentu
+    getHold(showtimeId: string, seatCode: string): SeatHold | null {
+        const hold = this.holds.get(showtimeId)?.get(seatCode);
+        if (!hold || this.isExpired(hold)) return null;
+        return hold;
+    }
+
+    // Mengecek apakah kursi di-hold oleh holder tertentu
+    isHeldBy(showtimeId: string, seatCode: string, holderId: string): boolean {
+        return this.getHold(showtimeId, seatCode)?.holderId === holderId;
+    }
+
+    // Mendapatkan semua hold aktif untuk showtime
+    getHolds(showtimeId: string): SeatHold[] {
+        const showtimeHolds = this.holds.get(showtimeId);
+        if (!showtimeHolds) return [];
+        return Array.from(showtimeHolds.values()).filter(hold => !this.isExpired(hold));
+    }
+
+    // Sisa waktu hold dalam milidetik (0 jika tidak ada hold)
+    getRemainingTime(showtimeId: string, seatCode: string): number {
+        const hold = this.getHold(showtimeId, seatCode);
+        if (!hold) return 0;
+        return hold.expiresAt.getTime() - this.clock.now().getTime();
+    }
+
+    // Melepas semua hold yang sudah kadaluarsa dan memberitahu listener
+    releaseExpired(): SeatHold[] {
+        const expired: SeatHold[] = [];
+
+        for (const showtimeHolds of this.holds.values()) {
+            for (const [seatCode, hold] of showtimeHolds) {
+                if (this.isExpired(hold)) {
+                    showtimeHolds.delete(seatCode);
+                    expired.push(hold);
+                }
+            }
+        }
+
+        for (const hold of expired) {
+            console.log(`[SeatHoldManager] Hold expired: ${hold.showtimeId}/${hold.seatCode} (${hold.holderId})`);
+            this.expiryListeners.forEach(listener => listener(hold));
+        }
+
+        return expired;
+    }
+
+    // Mendaftarkan listener untuk hold yang kadaluarsa
+    onExpire(listener: SeatHoldListener): void {
+        this.expiryListeners.push(listener);
+    }
+
+    getClock(): Clock {
+        return this.clock;
+    }
+
+    getHoldDuration(): number {
+        return this.holdDurationMs;
+    }
+
+    private isExpired(hold: SeatHold): boolean {
+        return this.clock.now().getTime() >= hold.expiresAt.getTime();
+    }
+}
@@ -14,6 +14,12 @@
 
 import { Seat, SeatImpl, SeatType, SeatStatus } from '../models/Seat';
 import { StudioType } from '../models/Cinema';
+import { SeatMapDefinition } from '../models/SeatMapDefinition';
+import { SeatMap, SeatPosition } from './SeatMap';
+import { PricingEngine } from '../pricing/PricingEngine';
+import { IDR, Money, RoundingMode, formatRupiah } from '../pricing/Money';
+import { SeatMapRenderer, SvgSeatMapRenderer } from './SeatMapRenderer';
+import { PaymentTarget, describePaymentTarget } from '../payment/PaymentTarget';
 
 // Interface Prototype
 // Mendefinisikan method clone yang harus diimplementasikan
@@ -31,49 +37,39 @@ export class SeatLayout implements Clonable<SeatLayout> {
     private seatsPerRow: number;
     private seats: Seat[][];
     private basePrice: number;
+    private seatMap: SeatMap;
+    private showStartsAt?: Date;
 
+    // seatMap opsional: jika diberikan, rows dan seatsPerRow dihitung dari definisi tersebut
+    // showStartsAt opsional: layout untuk showtime tertentu ikut aturan hari, jam, dan hari libur
     constructor(
         id: string,
         name: string,
         studioType: StudioType,
         rows: number,
         seatsPerRow: number,
-        basePrice: number
+        basePrice: number,
+        seatMap?: SeatMapDefinition,
+        showStartsAt?: Date
     ) {
         this.id = id;
         this.name = name;
         this.studioType = studioType;
+        this.basePrice = basePrice;
+        this.showStartsAt = showStartsAt;
         this.rows = rows;
         this.seatsPerRow = seatsPerRow;
-        this.basePrice = basePrice;
+        this.seatMap = seatMap
+            ? SeatMap.fromDefinition(seatMap)
+            : SeatMap.rectangular(`${id}-MAP`, name, rows, seatsPerRow, (r, s) => this.determineSeatType(r, s));
+        this.rows = this.seatMap.getRowCount();
+        this.seatsPerRow = this.seatMap.getMaxSeatsPerRow();
         this.seats = this.initializeSeats();
     }
 
-    // Inisialisasi kursi-kursi dalam layout
+    // Inisialisasi kursi-kursi dalam layout berdasarkan seat map
     private initializeSeats(): Seat[][] {
-        const seatMatrix: Seat[][] = [];
-        const rowLabels = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
-
-        for (let r = 0; r < this.rows; r++) {
-            const row: Seat[] = [];
-            for (let s = 1; s <= this.seatsPerRow; s++) {
-                const rowLabel = rowLabels[r];
-                const seatType = this.determineSeatType(r, s);
-                const seatPrice = this.calculateSeatPrice(seatType);
-
-                row.push(new SeatImpl(
-                    `${this.id}-${rowLabel}${s}`,
-                    rowLabel,
-                    s,
-                    seatType,
-                    SeatStatus.AVAILABLE,
-                    seatPrice
-                ));
-            }
-            seatMatrix.push(row);
-        }
-
-        return seatMatrix;
+        return this.seatMap.createSeats(this.id, position => this.calculateSeatPrice(position));
     }
 
     // Menentukan tipe kursi berdasarkan posisi
@@ -98,18 +94,16 @@ export class SeatLayout implements Clonable<SeatLayout> {
         return SeatType.REGULAR;
     }
 
-    // Menghitung harga kursi berdasarkan tipe
-    private calculateSeatPrice(seatType: SeatType): number {
-        switch (seatType) {
-            case SeatType.VIP:
-                return Math.round(this.basePrice * 1.5);
-            case SeatType.COUPLE:
-                return Math.round(this.basePrice * 2); // Untuk 2 orang
-            case SeatType.WHEELCHAIR:
-                return this.basePrice; // Harga sama dengan regular
-            default:
-                return this.basePrice;
-        }
+    // Menghitung harga kursi dari pricing engine (tipe kursi, zona, tipe studio, waktu tayang)
+    // Harga couple adalah harga per pasangan (2 orang), dibebankan sekali
+    private calculateSeatPrice(position: SeatPosition): number {
+        return PricingEngine.getDefault().calculate({
+            basePrice: this.basePrice,
+            studioType: this.studioType,
+            seatType: position.type,
+            zone: position.zone,
+            showStartsAt: this.showStartsAt
+        });
     }
 
     // Implementasi Clone Method (Deep Copy)
@@ -122,7 +116,9 @@ export class SeatLayout implements Clonable<SeatLayout> {
             this.studioType,
             this.rows,
             this.seatsPerRow,
-            this.basePrice
+            this.basePrice,
+            this.seatMap.getDefinition(),
+            this.showStartsAt
         );
 
         // Deep clone seats (reset status ke AVAILABLE)
@@ -154,20 +150,40 @@ export class SeatLayout implements Clonable<SeatLayout> {
     getSeatsPerRow(): number { return this.seatsPerRow; }
     getBasePrice(): number { return this.basePrice; }
     getSeats(): Seat[][] { return this.seats; }
+    getSeatMap(): SeatMap { return this.seatMap; }
 
-    // Mendapatkan kursi berdasarkan kode (contoh: A1, B5)
+    // Mendapatkan kursi berdasarkan kode (contoh: A1, B5, AA12)
     getSeat(code: string): Seat | null {
-        const rowLabel = code.charAt(0).toUpperCase();
-        const seatNumber = parseInt(code.substring(1));
-        const rowIndex = rowLabel.charCodeAt(0) - 'A'.charCodeAt(0);
-
-        if (rowIndex >= 0 && rowIndex < this.rows &&
-            seatNumber >= 1 && seatNumber <= this.seatsPerRow) {
-            return this.seats[rowIndex][seatNumber - 1];
+        const normalized = code.toUpperCase();
+        for (const row of this.seats) {
+            const seat = row.find(s => s.getCode() === normalized);
+            if (seat) return seat;
         }
         return null;
     }
 
+    // Mendapatkan pasangan kursi couple (null jika bukan kursi couple)
+    getCouplePartner(code: string): Seat | null {
+        const partner = this.seatMap.getCouplePartner(code.toUpperCase());
+        return partner ? this.getSeat(partner.code) : null;
+    }
+
+    // Menghitung total harga sekumpulan kursi (pasangan couple hanya dihitung sekali)
+    calculateTotalPrice(codes: string[]): number {
+        const counted = new Set<string>();
+        let total = 0;
+        for (const code of codes) {
+            const seat = this.getSeat(code);
+            if (!seat || counted.has(seat.getCode())) continue;
+
+            counted.add(seat.getCode());
+            const partner = this.getCouplePartner(seat.getCode());
+            if (partner) counted.add(partner.getCode());
+            total += seat.price;
+        }
+        return total;
+    }
+
     // Mendapatkan kursi yang tersedia
     getAvailableSeats(): Seat[] {
         return this.seats.flat().filter(seat => seat.status === SeatStatus.AVAILABLE);
@@ -175,7 +191,12 @@ export class SeatLayout implements Clonable<SeatLayout> {
 
     // Menghitung total kapasitas
     getTotalCapacity(): number {
-        return this.rows * this.seatsPerRow;
+        return this.seatMap.getCapacity();
+    }
+
+    // Me-render layout untuk web kiosk (default SVG)
+    render(renderer: SeatMapRenderer = new SvgSeatMapRenderer()): string {
+        return renderer.render(this.seatMap, this.seats.flat());
     }
 
     // Menampilkan layout dalam format visual
@@ -191,16 +212,26 @@ export class SeatLayout implements Clonable<SeatLayout> {
 `;
 
         // Header nomor kursi
+        const columnCount = this.seatMap.getColumnCount();
         output += '║    ';
-        for (let s = 1; s <= this.seatsPerRow; s++) {
-            output += s.toString().padStart(3);
+        for (let c = 1; c <= columnCount; c++) {
+            output += c.toString().padStart(3);
         }
         output += '     ║\n';
 
-        // Baris kursi
-        for (const row of this.seats) {
-            output += `║ ${row[0].row}  `;
-            for (const seat of row) {
+        // Baris kursi (kolom tanpa kursi ditampilkan sebagai lorong/celah)
+        this.seatMap.getRowLabels().forEach((label, rowIndex) => {
+            const seatsByColumn = new Map<number, Seat>();
+            const row = this.seats[rowIndex];
+            this.seatMap.getRow(label).forEach((position, i) => seatsByColumn.set(position.column, row[i]));
+
+            output += `║ ${label.padEnd(3)}`;
+            for (let c = 0; c < columnCount; c++) {
+                const seat = seatsByColumn.get(c);
+                if (!seat) {
+                    output += '   ';
+                    continue;
+                }
                 let symbol: string;
                 switch (seat.status) {
                     case SeatStatus.AVAILABLE:
@@ -218,8 +249,8 @@ export class SeatLayout implements Clonable<SeatLayout> {
                 }
                 output += symbol;
             }
-            output += `  ${row[0].row} ║\n`;
-        }
+            output += `  ${label.padEnd(2)}║\n`;
+        });
 
         output += `╠══════════════════════════════════════════════════════════════╣
 ║ Keterangan: [O] Regular  [V] VIP  [C] Couple  [X] Terisi     ║
@@ -239,7 +270,7 @@ export class SeatLayout implements Clonable<SeatLayout> {
         // Update semua harga kursi
         for (const row of this.seats) {
             for (const seat of row) {
-                (seat as SeatImpl).price = this.calculateSeatPrice(seat.type);
+                (seat as SeatImpl).price = this.calculateSeatPrice(this.seatMap.getPosition(seat.getCode())!);
             }
         }
     }
@@ -257,6 +288,7 @@ export class PromoTemplate implements Clonable<PromoTemplate> {
     private validFrom: Date;
     private validUntil: Date;
     private termsAndConditions: string[];
+    private paymentTarget: PaymentTarget | null = null;   // Promo khusus metode pembayaran/bank
 
     constructor(
         id: string,
@@ -291,6 +323,7 @@ export class PromoTemplate implements Clonable<PromoTemplate> {
             this.getRemainingDays()
         );
         cloned.termsAndConditions = [...this.termsAndConditions];
+        cloned.paymentTarget = this.paymentTarget ? { ...this.paymentTarget } : null;
         return cloned;
     }
 
@@ -310,14 +343,22 @@ export class PromoTemplate implements Clonable<PromoTemplate> {
     getName(): string { return this.name; }
     getDescription(): string { return this.description; }
     getDiscountPercentage(): number { return this.discountPercentage; }
+    getMinimumPurchase(): number { return this.minimumPurchase; }
+    getMaxDiscount(): number { return this.maxDiscount; }
+    getValidFrom(): Date { return new Date(this.validFrom.getTime()); }
+    getValidUntil(): Date { return new Date(this.validUntil.getTime()); }
+    getTermsAndConditions(): string[] { return [...this.termsAndConditions]; }
+    getPaymentTarget(): PaymentTarget | null { return this.paymentTarget ? { ...this.paymentTarget } : null; }
 
     // Menghitung diskon berdasarkan jumlah pembelian
     calculateDiscount(purchaseAmount: number): number {
         if (purchaseAmount < this.minimumPurchase) {
             return 0;
         }
-        const discount = Math.round(purchaseAmount * this.discountPercentage / 100);
-        return Math.min(discount, this.maxDiscount);
+        return Money.of(purchaseAmount, IDR, RoundingMode.HALF_UP)
+            .multiply(this.discountPercentage / 100, RoundingMode.HALF_UP)
+            .min(Money.of(this.maxDiscount))
+            .toNumber();
     }
 
     // Menambahkan syarat dan ketentuan
@@ -335,8 +376,16 @@ export class PromoTemplate implements Clonable<PromoTemplate> {
         this.description = description;
     }
 
+    // Membatasi promo ke metode pembayaran, e-wallet, bank, atau BIN kartu tertentu
+    setPaymentTarget(target: PaymentTarget | null): void {
+        this.paymentTarget = target;
+    }
+
     // Menampilkan detail promo
     displayPromo(): string {
+        const payment = this.paymentTarget
+            ? `\n║ Pembayaran     : ${describePaymentTarget(this.paymentTarget).substring(0, 42).padEnd(42)}║`
+            : '';
         return `
 ╔══════════════════════════════════════════════════════════════╗
 ║ PROMO: ${this.name.toUpperCase().padEnd(52)}║
@@ -344,9 +393,9 @@ export class PromoTemplate implements Clonable<PromoTemplate> {
 ║ ${this.description.padEnd(60)}║
 ║                                                              ║
 ║ Diskon         : ${(this.discountPercentage + '%').padEnd(42)}║
-║ Min. Pembelian : Rp ${this.minimumPurchase.toLocaleString('id-ID').padEnd(39)}║
-║ Maks. Diskon   : Rp ${this.maxDiscount.toLocaleString('id-ID').padEnd(39)}║
-║ Berlaku        : ${this.validFrom.toLocaleDateString('id-ID')} - ${this.validUntil.toLocaleDateString('id-ID').padEnd(26)}║
+║ Min. Pembelian : ${formatRupiah(this.minimumPurchase).padEnd(42)}║
+║ Maks. Diskon   : ${formatRupiah(this.maxDiscount).padEnd(42)}║
+║ Berlaku        : ${this.validFrom.toLocaleDateString('id-ID')} - ${this.validUntil.toLocaleDateString('id-ID').padEnd(26)}║${payment}
 ╚══════════════════════════════════════════════════════════════╝
     `.trim();
     }
@@ -435,6 +484,11 @@ export class PromoRegistry {
         return null;
     }
 
+    // Prototype asli (tanpa clone), dipakai untuk menerbitkan kode voucher
+    static getPrototype(key: string): PromoTemplate | null {
+        return this.prototypes.get(key) || null;
+    }
+
     static initializeDefaults(): void {
         // Weekend Promo
         const weekendPromo = new PromoTemplate(
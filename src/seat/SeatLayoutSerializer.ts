@@ -0,0 +1,534 @@
+// Serializer Layout Kursi - Import/Export JSON dan CSV
+//
+// Tim operasional mendesain layout studio di spreadsheet. Serializer ini mengekspor SeatLayout
+// (termasuk tipe, harga, dan status kursi) ke JSON atau CSV, lalu mengimpornya kembali menjadi
+// SeatLayout yang dapat didaftarkan sebagai prototype di SeatLayoutRegistry.
+
+import { SeatImpl, SeatStatus, SeatType } from '../models/Seat';
+import { StudioType } from '../models/Cinema';
+import { SeatMapDefinition, SeatMapRowDefinition, SeatZone } from '../models/SeatMapDefinition';
+import { SeatLayout } from './SeatLayout';
+import { SeatMapValidationError } from './SeatMap';
+
+// Satu masalah yang ditemukan saat import (line di file sumber, path tambahan untuk JSON)
+export interface SeatLayoutImportIssue {
+    line?: number;
+    path?: string;
+    message: string;
+}
+
+// Error import layout berisi daftar masalah per baris
+export class SeatLayoutImportError extends Error {
+    constructor(public readonly issues: SeatLayoutImportIssue[]) {
+        super(`Import layout gagal:\n${issues.map(formatIssue).join('\n')}`);
+        this.name = 'SeatLayoutImportError';
+    }
+}
+
+function formatIssue(issue: SeatLayoutImportIssue): string {
+    if (issue.line !== undefined && issue.path) return `Baris ${issue.line} (${issue.path}): ${issue.message}`;
+    if (issue.line !== undefined) return `Baris ${issue.line}: ${issue.message}`;
+    if (issue.path) return `${issue.path}: ${issue.message}`;
+    return issue.message;
+}
+
+// Format JSON hasil export
+export interface SerializedSeat {
+    number: number;
+    column: number;
+    type: SeatType;
+    zone: SeatZone;
+    price: number;
+    status: SeatStatus;
+    companion: boolean;
+}
+
+export interface SerializedSeatRow {
+    label: string;
+    seats: SerializedSeat[];
+}
+
+export interface SerializedSeatLayout {
+    id: string;
+    name: string;
+    studioType: StudioType;
+    basePrice: number;
+    columns: number;
+    rows: SerializedSeatRow[];
+}
+
+// Kolom CSV (metadata layout diulang di setiap baris agar mudah diedit di spreadsheet)
+export const SEAT_LAYOUT_CSV_HEADER = [
+    'layout_id', 'layout_name', 'studio_type', 'base_price', 'columns',
+    'row', 'number', 'column', 'type', 'zone', 'price', 'status', 'companion'
+];
+
+// Kursi hasil parsing beserta lokasinya di file sumber
+interface ParsedSeat extends SerializedSeat {
+    row: string;
+    line?: number;
+    path?: string;
+}
+
+export class SeatLayoutSerializer {
+
+    // Mengubah layout menjadi struktur serializable
+    static serialize(layout: SeatLayout): SerializedSeatLayout {
+        const seatMap = layout.getSeatMap();
+        const seats = layout.getSeats();
+
+        return {
+            id: layout.getId(),
+            name: layout.getName(),
+            studioType: layout.getStudioType(),
+            basePrice: layout.getBasePrice(),
+            columns: seatMap.getColumnCount(),
+            rows: seatMap.getRowLabels().map((label, rowIndex) => ({
+                label,
+                seats: seatMap.getRow(label).map((position, i) => ({
+                    number: position.number,
+                    column: position.column,
+                    type: seats[rowIndex][i].type,
+                    zone: position.zone,
+                    price: seats[rowIndex][i].price,
+                    status: seats[rowIndex][i].status,
+                    companion: position.companion
+                }))
+            }))
+        };
+    }
+
+    // Export ke JSON
+    static toJSON(layout: SeatLayout): string {
+        return JSON.stringify(SeatLayoutSerializer.serialize(layout), null, 2);
+    }
+
+    // Export ke CSV
+    static toCSV(layout: SeatLayout): string {
+        const data = SeatLayoutSerializer.serialize(layout);
+        const lines = [SEAT_LAYOUT_CSV_HEADER.join(',')];
+
+        for (const row of data.rows) {
+            for (const seat of row.seats) {
+                lines.push([
+                    data.id, data.name, data.studioType, data.basePrice, data.columns,
+                    row.label, seat.number, seat.column, seat.type, seat.zone, seat.price, seat.status, seat.companion
+                ].map(value => escapeCsv(String(value))).join(','));
+            }
+        }
+
+        return lines.join('\n');
+    }
+
+    // Import dari JSON
+    static fromJSON(text: string): SeatLayout {
+        let raw: unknown;
+        try {
+            raw = JSON.parse(text);
+        } catch (error) {
+            const message = (error as Error).message;
+            const position = /position (\d+)/.exec(message);
+            const line = position ? text.slice(0, parseInt(position[1])).split('\n').length : undefined;
+            throw new SeatLayoutImportError([{ line, message: `JSON tidak valid (${message})` }]);
+        }
+
+        const issues: SeatLayoutImportIssue[] = [];
+        const data = (raw ?? {}) as Record<string, unknown>;
+        const seats: ParsedSeat[] = [];
+        const rowLabels: string[] = [];
+        const lines = mapJsonLines(text);
+        const at = (path: string) => jsonLocation(lines, path);
+
+        const id = requireString(data.id, at('id'), issues);
+        const name = requireString(data.name, at('name'), issues);
+        const studioType = parseEnum(StudioType, data.studioType, at('studioType'), 'tipe studio', issues);
+        const basePrice = parsePrice(data.basePrice, at('basePrice'), issues);
+        const columns = data.columns === undefined ? undefined : parseNonNegativeInt(data.columns, at('columns'), 'jumlah kolom', issues);
+
+        if (!Array.isArray(data.rows)) {
+            issues.push({ ...at('rows'), message: 'rows harus berupa array' });
+        } else {
+            data.rows.forEach((rawRow: Record<string, unknown>, r: number) => {
+                const rowPath = `rows[${r}]`;
+                const label = parseRowLabel(rawRow?.label, at(`${rowPath}.label`), issues);
+                if (label) rowLabels.push(label);
+                if (!Array.isArray(rawRow?.seats)) {
+                    issues.push({ ...at(`${rowPath}.seats`), message: 'seats harus berupa array' });
+                    return;
+                }
+                rawRow.seats.forEach((rawSeat: Record<string, unknown>, s: number) => {
+                    const location = at(`${rowPath}.seats[${s}]`);
+                    const seat = parseSeat(label, rawSeat ?? {}, location, issues);
+                    if (seat) seats.push({ ...seat, ...location });
+                });
+            });
+        }
+
+        return SeatLayoutSerializer.build(id, name, studioType, basePrice, columns, rowLabels, seats, issues);
+    }
+
+    // Import dari CSV
+    static fromCSV(text: string): SeatLayout {
+        const issues: SeatLayoutImportIssue[] = [];
+        const [{ fields: header }, ...records] = parseCsvRecords(text);
+
+        if (header.join(',') !== SEAT_LAYOUT_CSV_HEADER.join(',')) {
+            throw new SeatLayoutImportError([{
+                line: 1,
+                message: `Header tidak sesuai, diharapkan: ${SEAT_LAYOUT_CSV_HEADER.join(',')}`
+            }]);
+        }
+
+        let meta: { id: string; name: string; studioType: string; basePrice: string; columns: string } | null = null;
+        let id = '', name = '', basePrice = 0;
+        let studioType: StudioType | undefined;
+        let columns: number | undefined;
+        const seats: ParsedSeat[] = [];
+        const rowLabels: string[] = [];
+
+        for (const { line: lineNumber, fields } of records) {
+            if (fields.length === 1 && fields[0].trim() === '') continue;
+
+            if (fields.length !== SEAT_LAYOUT_CSV_HEADER.length) {
+                issues.push({
+                    line: lineNumber,
+                    message: `Jumlah kolom ${fields.length}, diharapkan ${SEAT_LAYOUT_CSV_HEADER.length}`
+                });
+                continue;
+            }
+
+            const record: Record<string, string> = {};
+            SEAT_LAYOUT_CSV_HEADER.forEach((key, index) => record[key] = fields[index].trim());
+            const location = { line: lineNumber };
+
+            // Metadata layout diambil dari baris data pertama dan harus konsisten di baris berikutnya
+            if (!meta) {
+                meta = {
+                    id: record.layout_id,
+                    name: record.layout_name,
+                    studioType: record.studio_type,
+                    basePrice: record.base_price,
+                    columns: record.columns
+                };
+                id = requireString(record.layout_id, location, issues);
+                name = requireString(record.layout_name, location, issues);
+                studioType = parseEnum(StudioType, record.studio_type, location, 'tipe studio', issues);
+                basePrice = parsePrice(record.base_price, location, issues);
+                columns = record.columns === '' ? undefined : parseNonNegativeInt(record.columns, location, 'jumlah kolom', issues);
+            } else if (
+                record.layout_id !== meta.id || record.layout_name !== meta.name ||
+                record.studio_type !== meta.studioType || record.base_price !== meta.basePrice ||
+                record.columns !== meta.columns
+            ) {
+                issues.push({ ...location, message: 'Metadata layout berbeda dengan baris data pertama' });
+            }
+
+            const label = parseRowLabel(record.row, location, issues);
+            if (label && !rowLabels.includes(label)) rowLabels.push(label);
+
+            const seat = parseSeat(label, record, location, issues);
+            if (seat) seats.push({ ...seat, line: lineNumber });
+        }
+
+        if (!meta) {
+            issues.push({ line: 2, message: 'File tidak berisi data kursi' });
+        }
+
+        return SeatLayoutSerializer.build(id, name, studioType, basePrice, columns, rowLabels, seats, issues);
+    }
+
+    // Validasi antar kursi lalu membangun SeatLayout dengan harga dan status hasil import
+    private static build(
+        id: string,
+        name: string,
+        studioType: StudioType | undefined,
+        basePrice: number,
+        columns: number | undefined,
+        rowLabels: string[],
+        seats: ParsedSeat[],
+        issues: SeatLayoutImportIssue[]
+    ): SeatLayout {
+        const seenCodes = new Map<string, ParsedSeat>();
+        const seenPositions = new Map<string, ParsedSeat>();
+
+        for (const seat of seats) {
+            const location = { line: seat.line, path: seat.path };
+            const code = `${seat.row}${seat.number}`;
+            const positionKey = `${seat.row}:${seat.column}`;
+
+            const duplicate = seenCodes.get(code);
+            if (duplicate) {
+                issues.push({ ...location, message: `Kode kursi ${code} duplikat (${describeLocation(duplicate)})` });
+            }
+            const overlap = seenPositions.get(positionKey);
+            if (overlap) {
+                issues.push({
+                    ...location,
+                    message: `Kursi ${code} tumpang tindih dengan ${overlap.row}${overlap.number} di kolom ${seat.column}`
+                });
+            }
+            if (columns !== undefined && seat.column >= columns) {
+                issues.push({ ...location, message: `Kursi ${code} berada di luar grid (kolom ${seat.column})` });
+            }
+            seenCodes.set(code, seat);
+            seenPositions.set(positionKey, seat);
+        }
+
+        if (issues.length > 0 || !studioType) {
+            throw new SeatLayoutImportError(issues);
+        }
+
+        const definition: SeatMapDefinition = {
+            id: `${id}-MAP`,
+            name,
+            columns,
+            rows: rowLabels.map((label): SeatMapRowDefinition => ({
+                label,
+                seats: seats
+                    .filter(seat => seat.row === label)
+                    .map(seat => ({ number: seat.number, column: seat.column, type: seat.type, zone: seat.zone, companion: seat.companion }))
+            }))
+        };
+
+        let layout: SeatLayout;
+        try {
+            layout = new SeatLayout(id, name, studioType, 0, 0, basePrice, definition);
+        } catch (error) {
+            if (error instanceof SeatMapValidationError) {
+                throw new SeatLayoutImportError(error.errors.map(message => ({ message })));
+            }
+            throw error;
+        }
+
+        // Terapkan harga dan status dari file (bukan hasil perhitungan ulang)
+        const imported = new Map(seats.map(seat => [`${seat.row}${seat.number}`, seat]));
+        for (const seat of layout.getSeats().flat()) {
+            const source = imported.get(seat.getCode())!;
+            (seat as SeatImpl).price = source.price;
+            (seat as SeatImpl).status = source.status;
+        }
+
+        return layout;
+    }
+}
+
+// =============================================================================
+// Helper parsing
+// =============================================================================
+
+type IssueLocation = { line?: number; path?: string };
+
+function describeLocation(seat: ParsedSeat): string {
+    return seat.line !== undefined ? `lihat baris ${seat.line}` : `lihat ${seat.path}`;
+}
+
+function requireString(value: unknown, location: IssueLocation, issues: SeatLayoutImportIssue[]): string {
+    if (typeof value !== 'string' || value.trim() === '') {
+        issues.push({ ...location, message: 'Nilai wajib diisi' });
+        return '';
+    }
+    return value;
+}
+
+function parseEnum<T extends Record<string, string>>(
+    enumType: T,
+    value: unknown,
+    location: IssueLocation,
+    label: string,
+    issues: SeatLayoutImportIssue[]
+): T[keyof T] | undefined {
+    const values = Object.values(enumType);
+    if (typeof value !== 'string' || !values.includes(value)) {
+        issues.push({ ...location, message: `${label} tidak dikenal '${value}' (pilihan: ${values.join(', ')})` });
+        return undefined;
+    }
+    return value as T[keyof T];
+}
+
+function parseNumber(value: unknown): number {
+    if (typeof value === 'number') return value;
+    if (typeof value === 'string' && value.trim() !== '') return Number(value);
+    return NaN;
+}
+
+function parseNonNegativeInt(value: unknown, location: IssueLocation, label: string, issues: SeatLayoutImportIssue[]): number {
+    const parsed = parseNumber(value);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+        issues.push({ ...location, message: `${label} tidak valid '${value}'` });
+        return 0;
+    }
+    return parsed;
+}
+
+function parsePrice(value: unknown, location: IssueLocation, issues: SeatLayoutImportIssue[]): number {
+    const parsed = parseNumber(value);
+    if (!Number.isFinite(parsed) || parsed < 0) {
+        issues.push({ ...location, message: `harga tidak valid '${value}'` });
+        return 0;
+    }
+    return parsed;
+}
+
+function parseRowLabel(value: unknown, location: IssueLocation, issues: SeatLayoutImportIssue[]): string {
+    if (typeof value !== 'string' || !/^[A-Z]+$/.test(value)) {
+        issues.push({ ...location, message: `label baris harus berupa huruf kapital '${value}'` });
+        return '';
+    }
+    return value;
+}
+
+// Flag boolean (kosong/tidak ada dianggap false)
+function parseBoolean(value: unknown, location: IssueLocation, issues: SeatLayoutImportIssue[]): boolean {
+    if (value === undefined || value === '' || value === false || value === 'false') return false;
+    if (value === true || value === 'true') return true;
+    issues.push({ ...location, message: `nilai boolean tidak valid '${value}'` });
+    return false;
+}
+
+// Parsing satu kursi (dipakai oleh JSON maupun CSV)
+function parseSeat(
+    row: string,
+    raw: Record<string, unknown>,
+    location: IssueLocation,
+    issues: SeatLayoutImportIssue[]
+): ParsedSeat | null {
+    const before = issues.length;
+    const number = parseNonNegativeInt(raw.number, location, 'nomor kursi', issues);
+    if (issues.length === before && number === 0) {
+        issues.push({ ...location, message: 'nomor kursi harus lebih dari 0' });
+    }
+    const column = parseNonNegativeInt(raw.column, location, 'kolom kursi', issues);
+    const type = parseEnum(SeatType, raw.type, location, 'tipe kursi', issues);
+    const zone = parseEnum(SeatZone, raw.zone, location, 'zona kursi', issues);
+    const price = parsePrice(raw.price, location, issues);
+    const status = parseEnum(SeatStatus, raw.status, location, 'status kursi', issues);
+    const companion = parseBoolean(raw.companion, location, issues);
+
+    if (issues.length > before || !row || !type || !zone || !status) return null;
+    return { row, number, column, type, zone, price, status, companion };
+}
+
+// Escape nilai CSV (dibungkus tanda kutip jika mengandung koma, kutip, atau baris baru)
+function escapeCsv(value: string): string {
+    if (/[",\r\n]/.test(value)) {
+        return `"${value.replace(/"/g, '""')}"`;
+    }
+    return value;
+}
+
+// Record CSV beserta nomor baris awalnya di file sumber
+interface CsvRecord {
+    line: number;
+    fields: string[];
+}
+
+// Memecah teks CSV menjadi record; field bertanda kutip boleh memuat koma, kutip, dan baris baru
+function parseCsvRecords(text: string): CsvRecord[] {
+    const records: CsvRecord[] = [];
+    let fields: string[] = [];
+    let current = '';
+    let quoted = false;
+    let line = 1;
+    let recordLine = 1;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') {
+                current += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                if (ch === '\n') line++;
+                current += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ',') {
+            fields.push(current);
+            current = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            fields.push(current);
+            records.push({ line: recordLine, fields });
+            fields = [];
+            current = '';
+            line++;
+            recordLine = line;
+        } else {
+            current += ch;
+        }
+    }
+    fields.push(current);
+    records.push({ line: recordLine, fields });
+    return records;
+}
+
+// Memetakan path JSON (contoh: rows[0].seats[1]) ke nomor baris tempat nilainya dimulai.
+// Dipanggil setelah JSON.parse berhasil sehingga teks dapat diasumsikan valid.
+function mapJsonLines(text: string): Map<string, number> {
+    const lines = new Map<string, number>();
+    let index = 0;
+    let line = 1;
+
+    const skipWhitespace = (): void => {
+        while (index < text.length && /\s/.test(text[index])) {
+            if (text[index] === '\n') line++;
+            index++;
+        }
+    };
+    const skipSeparator = (): void => {
+        skipWhitespace();
+        if (text[index] === ',') index++;
+        skipWhitespace();
+    };
+    const readString = (): string => {
+        const start = index++;
+        while (text[index] !== '"') index += text[index] === '\\' ? 2 : 1;
+        index++;
+        return JSON.parse(text.slice(start, index));
+    };
+    const readValue = (path: string): void => {
+        skipWhitespace();
+        lines.set(path, line);
+        const ch = text[index];
+        if (ch === '{') {
+            index++;
+            skipWhitespace();
+            while (text[index] !== '}') {
+                const key = readString();
+                skipWhitespace();
+                index++; // titik dua
+                readValue(path ? `${path}.${key}` : key);
+                skipSeparator();
+            }
+            index++;
+        } else if (ch === '[') {
+            index++;
+            skipWhitespace();
+            for (let i = 0; text[index] !== ']'; i++) {
+                readValue(`${path}[${i}]`);
+                skipSeparator();
+            }
+            index++;
+        } else if (ch === '"') {
+            readString();
+        } else {
+            while (index < text.length && !/[\s,\]}]/.test(text[index])) index++;
+        }
+    };
+
+    readValue('');
+    return lines;
+}
+
+// Lokasi issue JSON; field yang tidak ada memakai baris objek induk terdekat
+function jsonLocation(lines: Map<string, number>, path: string): IssueLocation {
+    let current = path;
+    while (current !== '' && !lines.has(current)) {
+        const parent = current.replace(/(\.[^.[\]]+|\[\d+\])$/, '');
+        current = parent === current ? '' : parent;
+    }
+    return { line: lines.get(current), path };
+}
@@ -0,0 +1,319 @@
+// Seat Map - Tata Letak Kursi Deklaratif
+//
+// Studio nyata memiliki lorong, baris yang bergeser, kursi yang hilang, dan bisa lebih dari 26 baris.
+// SeatMap memvalidasi SeatMapDefinition lalu menyediakan posisi setiap kursi, sehingga SeatLayout,
+// SeatService, SeatManager dan RealSeatAvailabilityService membangun kursi dari sumber yang sama.
+
+import { Seat, SeatImpl, SeatType, SeatStatus } from '../models/Seat';
+import {
+    SeatMapDefinition,
+    SeatMapRowDefinition,
+    SeatMapSeatDefinition,
+    SeatZone
+} from '../models/SeatMapDefinition';
+
+// Posisi kursi yang sudah di-resolve dari definisi
+export interface SeatPosition {
+    code: string;
+    row: string;
+    rowIndex: number;
+    number: number;
+    column: number;
+    type: SeatType;
+    zone: SeatZone;
+    companion: boolean;   // Kursi pendamping untuk ruang kursi roda
+}
+
+// Error ketika definisi seat map tidak valid
+export class SeatMapValidationError extends Error {
+    constructor(public readonly errors: string[]) {
+        super(`Seat map tidak valid: ${errors.join('; ')}`);
+        this.name = 'SeatMapValidationError';
+    }
+}
+
+// Pemetaan karakter pattern ke tipe kursi
+const PATTERN_SEAT_TYPES: Record<string, SeatType> = {
+    'R': SeatType.REGULAR,
+    'V': SeatType.VIP,
+    'C': SeatType.COUPLE,
+    'W': SeatType.WHEELCHAIR,
+    'P': SeatType.REGULAR
+};
+const PATTERN_COMPANION = 'P';
+const PATTERN_GAP = '_';
+
+export class SeatMap {
+    private definition: SeatMapDefinition;
+    private positions: SeatPosition[];
+    private positionsByCode: Map<string, SeatPosition> = new Map();
+    private rowLabels: string[];
+    private columnCount: number;
+
+    private constructor(definition: SeatMapDefinition, positions: SeatPosition[]) {
+        this.definition = definition;
+        this.positions = positions;
+        this.rowLabels = definition.rows.map(row => row.label);
+        positions.forEach(position => this.positionsByCode.set(position.code, position));
+
+        const maxColumn = positions.reduce((max, position) => Math.max(max, position.column), -1);
+        this.columnCount = definition.columns ?? maxColumn + 1;
+    }
+
+    // Membuat seat map dari definisi (melempar SeatMapValidationError jika tidak valid)
+    static fromDefinition(definition: SeatMapDefinition): SeatMap {
+        const errors = SeatMap.validate(definition);
+        if (errors.length > 0) {
+            throw new SeatMapValidationError(errors);
+        }
+        return new SeatMap(definition, SeatMap.resolvePositions(definition));
+    }
+
+    // Membuat seat map persegi panjang (rows x seatsPerRow) tanpa lorong
+    static rectangular(
+        id: string,
+        name: string,
+        rows: number,
+        seatsPerRow: number,
+        typeResolver: (rowIndex: number, seatNumber: number) => SeatType = () => SeatType.REGULAR
+    ): SeatMap {
+        const rowDefinitions: SeatMapRowDefinition[] = [];
+        for (let r = 0; r < rows; r++) {
+            const seats: SeatMapSeatDefinition[] = [];
+            for (let s = 1; s <= seatsPerRow; s++) {
+                seats.push({ number: s, column: s - 1, type: typeResolver(r, s) });
+            }
+            rowDefinitions.push({ label: SeatMap.rowLabel(r), seats });
+        }
+        return SeatMap.fromDefinition({ id, name, columns: seatsPerRow, rows: rowDefinitions });
+    }
+
+    // Label baris: A..Z, lalu AA, AB, ... (tidak dibatasi 26 baris)
+    static rowLabel(index: number): string {
+        let label = '';
+        let n = index;
+        do {
+            label = String.fromCharCode('A'.charCodeAt(0) + (n % 26)) + label;
+            n = Math.floor(n / 26) - 1;
+        } while (n >= 0);
+        return label;
+    }
+
+    // Memvalidasi definisi dan mengembalikan daftar pesan error (kosong jika valid)
+    static validate(definition: SeatMapDefinition): string[] {
+        const errors: string[] = [];
+
+        if (!definition.id) errors.push('ID seat map diperlukan');
+        if (!definition.name) errors.push('Nama seat map diperlukan');
+        if (!definition.rows || definition.rows.length === 0) {
+            errors.push('Seat map harus memiliki minimal 1 baris');
+            return errors;
+        }
+        if (definition.columns !== undefined && (!Number.isInteger(definition.columns) || definition.columns <= 0)) {
+            errors.push(`Jumlah kolom tidak valid: ${definition.columns}`);
+        }
+
+        const seenRows = new Set<string>();
+        const seenCodes = new Set<string>();
+
+        definition.rows.forEach((row, rowIndex) => {
+            const rowName = row.label ? `Baris ${row.label}` : `Baris ke-${rowIndex + 1}`;
+
+            if (!row.label || !/^[A-Z]+$/.test(row.label)) {
+                errors.push(`${rowName}: label baris harus berupa huruf kapital`);
+            } else if (seenRows.has(row.label)) {
+                errors.push(`${rowName}: label baris duplikat`);
+            }
+            seenRows.add(row.label);
+
+            if (row.seats && row.pattern !== undefined) {
+                errors.push(`${rowName}: gunakan salah satu dari seats atau pattern`);
+                return;
+            }
+            if (!row.seats && row.pattern === undefined) {
+                errors.push(`${rowName}: seats atau pattern diperlukan`);
+                return;
+            }
+            if (row.pattern !== undefined) {
+                const invalid = row.pattern.split('').filter(ch => ch !== PATTERN_GAP && !PATTERN_SEAT_TYPES[ch]);
+                if (invalid.length > 0) {
+                    errors.push(`${rowName}: karakter pattern tidak dikenal '${Array.from(new Set(invalid)).join('')}'`);
+                    return;
+                }
+            }
+
+            const occupiedColumns = new Map<number, string>();
+            for (const seat of SeatMap.expandRow(row)) {
+                const code = `${row.label}${seat.number}`;
+
+                if (!Number.isInteger(seat.number) || seat.number <= 0) {
+                    errors.push(`${rowName}: nomor kursi tidak valid (${seat.number})`);
+                    continue;
+                }
+                if (!Number.isInteger(seat.column) || seat.column < 0) {
+                    errors.push(`${rowName}: kolom kursi ${code} tidak valid (${seat.column})`);
+                    continue;
+                }
+                if (definition.columns !== undefined && seat.column >= definition.columns) {
+                    errors.push(`${rowName}: kursi ${code} berada di luar grid (kolom ${seat.column})`);
+                }
+                if (seenCodes.has(code)) {
+                    errors.push(`${rowName}: kode kursi ${code} duplikat`);
+                }
+                seenCodes.add(code);
+
+                const occupant = occupiedColumns.get(seat.column);
+                if (occupant) {
+                    errors.push(`${rowName}: kursi ${code} tumpang tindih dengan ${occupant} di kolom ${seat.column}`);
+                }
+                occupiedColumns.set(seat.column, code);
+            }
+
+            // Kursi pendamping harus bersebelahan dengan ruang kursi roda
+            const seats = SeatMap.expandRow(row);
+            for (const seat of seats.filter(s => s.companion)) {
+                const nextToWheelchair = seats.some(other =>
+                    other.type === SeatType.WHEELCHAIR && Math.abs(other.column - seat.column) === 1
+                );
+                if (!nextToWheelchair) {
+                    errors.push(`${rowName}: kursi pendamping ${row.label}${seat.number} tidak bersebelahan dengan ruang kursi roda`);
+                }
+                if (seat.type === SeatType.WHEELCHAIR) {
+                    errors.push(`${rowName}: ruang kursi roda ${row.label}${seat.number} tidak dapat menjadi kursi pendamping`);
+                }
+            }
+        });
+
+        return errors;
+    }
+
+    // Mengubah baris (eksplisit maupun pattern) menjadi daftar kursi
+    private static expandRow(row: SeatMapRowDefinition): SeatMapSeatDefinition[] {
+        if (row.seats) return row.seats;
+
+        const seats: SeatMapSeatDefinition[] = [];
+        const offset = row.offset ?? 0;
+        let number = row.startNumber ?? 1;
+        (row.pattern || '').split('').forEach((ch, index) => {
+            if (ch === PATTERN_GAP) return;
+            seats.push({
+                number: number++,
+                column: offset + index,
+                type: PATTERN_SEAT_TYPES[ch],
+                companion: ch === PATTERN_COMPANION || undefined
+            });
+        });
+        return seats;
+    }
+
+    private static resolvePositions(definition: SeatMapDefinition): SeatPosition[] {
+        const rowCount = definition.rows.length;
+        const positions: SeatPosition[] = [];
+
+        definition.rows.forEach((row, rowIndex) => {
+            const seats = [...SeatMap.expandRow(row)].sort((a, b) => a.column - b.column);
+            for (const seat of seats) {
+                positions.push({
+                    code: `${row.label}${seat.number}`,
+                    row: row.label,
+                    rowIndex,
+                    number: seat.number,
+                    column: seat.column,
+                    type: seat.type ?? SeatType.REGULAR,
+                    zone: seat.zone ?? row.zone ?? SeatMap.defaultZone(rowIndex, rowCount),
+                    companion: seat.companion ?? false
+                });
+            }
+        });
+
+        return positions;
+    }
+
+    // Zona default: sepertiga depan, tengah, dan belakang
+    private static defaultZone(rowIndex: number, rowCount: number): SeatZone {
+        const ratio = rowIndex / rowCount;
+        if (ratio < 1 / 3) return SeatZone.FRONT;
+        if (ratio < 2 / 3) return SeatZone.MIDDLE;
+        return SeatZone.BACK;
+    }
+
+    // Getters
+    getId(): string { return this.definition.id; }
+    getName(): string { return this.definition.name; }
+    getDefinition(): SeatMapDefinition { return this.definition; }
+    getRowLabels(): string[] { return [...this.rowLabels]; }
+    getRowCount(): number { return this.rowLabels.length; }
+    getColumnCount(): number { return this.columnCount; }
+    getCapacity(): number { return this.positions.length; }
+    getPositions(): SeatPosition[] { return [...this.positions]; }
+
+    // Mendapatkan posisi kursi berdasarkan kode
+    getPosition(code: string): SeatPosition | null {
+        return this.positionsByCode.get(code) || null;
+    }
+
+    // Mendapatkan posisi kursi dalam satu baris (urut berdasarkan kolom)
+    getRow(label: string): SeatPosition[] {
+        return this.positions.filter(position => position.row === label);
+    }
+
+    // Mendapatkan pasangan kursi couple
+    // Kursi COUPLE yang bersebelahan (tanpa celah) dipasangkan dari kiri ke kanan: (1,2), (3,4), ...
+    getCouplePartner(code: string): SeatPosition | null {
+        const position = this.getPosition(code);
+        if (!position || position.type !== SeatType.COUPLE) return null;
+
+        const row = this.getRow(position.row);
+        const index = row.indexOf(position);
+
+        // Cari awal rangkaian kursi couple yang bersambung
+        let start = index;
+        while (start > 0 &&
+            row[start - 1].type === SeatType.COUPLE &&
+            row[start - 1].column === row[start].column - 1) {
+            start--;
+        }
+
+        const partnerIndex = (index - start) % 2 === 0 ? index + 1 : index - 1;
+        const partner = row[partnerIndex];
+        if (!partner || partner.type !== SeatType.COUPLE ||
+            Math.abs(partner.column - position.column) !== 1) {
+            return null;
+        }
+        return partner;
+    }
+
+    // Kursi aksesibel: ruang kursi roda dan kursi pendampingnya
+    isAccessibleSeat(code: string): boolean {
+        const position = this.getPosition(code);
+        return !!position && (position.type === SeatType.WHEELCHAIR || position.companion);
+    }
+
+    // Mendapatkan semua kursi aksesibel
+    getAccessiblePositions(): SeatPosition[] {
+        return this.positions.filter(position => this.isAccessibleSeat(position.code));
+    }
+
+    // Jumlah kursi terbanyak dalam satu baris
+    getMaxSeatsPerRow(): number {
+        return this.rowLabels.reduce((max, label) => Math.max(max, this.getRow(label).length), 0);
+    }
+
+    // Membuat objek kursi (dikelompokkan per baris) berdasarkan seat map
+    createSeats(
+        idPrefix: string,
+        priceResolver: (position: SeatPosition) => number,
+        statusResolver: (position: SeatPosition) => SeatStatus = () => SeatStatus.AVAILABLE
+    ): Seat[][] {
+        return this.rowLabels.map(label =>
+            this.getRow(label).map(position => new SeatImpl(
+                `${idPrefix}-${position.code}`,
+                position.row,
+                position.number,
+                position.type,
+                statusResolver(position),
+                priceResolver(position)
+            ))
+        );
+    }
+}
@@ -0,0 +1,235 @@
+// Seat Map Renderer - Tampilan Seat Map untuk Web Kiosk
+//
+// Tampilan ASCII di console tidak bisa dipakai kiosk web. Renderer di sini menghasilkan SVG
+// mandiri dan varian tabel HTML yang aksesibel dari SeatMap + status kursi: layar, lorong,
+// tipe kursi, status, harga, dan legenda. Output deterministik (urutan tetap, tanpa waktu
+// atau nilai acak) sehingga bisa diuji dengan snapshot.
+
+import { Seat, SeatStatus, SeatType } from '../models/Seat';
+import { SeatMap, SeatPosition } from './SeatMap';
+import { formatRupiah } from '../pricing/Money';
+
+// Interface renderer seat map
+export interface SeatMapRenderer {
+    render(seatMap: SeatMap, seats: Seat[]): string;
+}
+
+// Label yang ditampilkan untuk setiap tipe dan status kursi
+const SEAT_TYPE_LABELS: Record<SeatType, string> = {
+    [SeatType.REGULAR]: 'Regular',
+    [SeatType.VIP]: 'VIP',
+    [SeatType.COUPLE]: 'Couple',
+    [SeatType.WHEELCHAIR]: 'Kursi Roda'
+};
+
+const SEAT_STATUS_LABELS: Record<SeatStatus, string> = {
+    [SeatStatus.AVAILABLE]: 'Tersedia',
+    [SeatStatus.SELECTED]: 'Dipilih',
+    [SeatStatus.BOOKED]: 'Terisi',
+    [SeatStatus.UNAVAILABLE]: 'Diblokir'
+};
+
+// Warna kursi tersedia per tipe; status lain memakai warna status
+const SEAT_TYPE_COLORS: Record<SeatType, string> = {
+    [SeatType.REGULAR]: '#4caf50',
+    [SeatType.VIP]: '#ffb300',
+    [SeatType.COUPLE]: '#e91e63',
+    [SeatType.WHEELCHAIR]: '#1e88e5'
+};
+
+const SEAT_STATUS_COLORS: Record<SeatStatus, string> = {
+    [SeatStatus.AVAILABLE]: '#ffffff',
+    [SeatStatus.SELECTED]: '#3949ab',
+    [SeatStatus.BOOKED]: '#9e9e9e',
+    [SeatStatus.UNAVAILABLE]: '#e0e0e0'
+};
+
+function escapeMarkup(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function kebab(value: string): string {
+    return value.toLowerCase().replace(/_/g, '-');
+}
+
+// Deskripsi kursi untuk tooltip SVG dan aria-label HTML
+function describeSeat(position: SeatPosition, seat: Seat): string {
+    const type = position.companion ? `${SEAT_TYPE_LABELS[seat.type]} (Pendamping)` : SEAT_TYPE_LABELS[seat.type];
+    return `Kursi ${position.code}, ${type}, ${SEAT_STATUS_LABELS[seat.status]}, ${formatRupiah(seat.price)}`;
+}
+
+function seatClasses(position: SeatPosition, seat: Seat): string {
+    const classes = ['seat', `seat-${kebab(seat.type)}`, `seat-${kebab(seat.status)}`];
+    if (position.companion) classes.push('seat-companion');
+    return classes.join(' ');
+}
+
+// Kolom yang kosong di semua baris dianggap lorong
+function findAisleColumns(seatMap: SeatMap): number[] {
+    const used = new Set(seatMap.getPositions().map(position => position.column));
+    const aisles: number[] = [];
+    for (let column = 0; column < seatMap.getColumnCount(); column++) {
+        if (!used.has(column)) aisles.push(column);
+    }
+    return aisles;
+}
+
+// Harga per tipe kursi (harga terendah jika ada beberapa), urut sesuai enum SeatType
+function collectTypePrices(seats: Seat[]): Array<{ type: SeatType; price: number }> {
+    return Object.values(SeatType)
+        .map(type => {
+            const prices = seats.filter(seat => seat.type === type).map(seat => seat.price);
+            return { type, price: prices.length > 0 ? Math.min(...prices) : -1 };
+        })
+        .filter(entry => entry.price >= 0);
+}
+
+function indexSeats(seats: Seat[]): Map<string, Seat> {
+    return new Map(seats.map(seat => [seat.getCode(), seat]));
+}
+
+// RENDERER SVG
+export class SvgSeatMapRenderer implements SeatMapRenderer {
+    private static readonly SEAT_SIZE = 28;
+    private static readonly SEAT_GAP = 6;
+    private static readonly MARGIN = 20;
+    private static readonly LABEL_WIDTH = 24;
+    private static readonly SCREEN_HEIGHT = 50;
+    private static readonly LEGEND_LINE = 20;
+
+    render(seatMap: SeatMap, seats: Seat[]): string {
+        const { SEAT_SIZE, SEAT_GAP, MARGIN, LABEL_WIDTH, SCREEN_HEIGHT, LEGEND_LINE } = SvgSeatMapRenderer;
+        const pitch = SEAT_SIZE + SEAT_GAP;
+        const seatsByCode = indexSeats(seats);
+        const rowLabels = seatMap.getRowLabels();
+        const typePrices = collectTypePrices(seats);
+
+        const gridLeft = MARGIN + LABEL_WIDTH;
+        const gridTop = MARGIN + SCREEN_HEIGHT;
+        const gridWidth = seatMap.getColumnCount() * pitch - SEAT_GAP;
+        const gridHeight = rowLabels.length * pitch - SEAT_GAP;
+        const legendTop = gridTop + gridHeight + MARGIN;
+        const legendLines = typePrices.length + Object.values(SeatStatus).length - 1;
+        const width = gridLeft + gridWidth + LABEL_WIDTH + MARGIN;
+        const height = legendTop + legendLines * LEGEND_LINE + MARGIN;
+
+        const lines: string[] = [];
+        lines.push(`<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img" aria-labelledby="seat-map-title">`);
+        lines.push(`  <title id="seat-map-title">${escapeMarkup(seatMap.getName())}</title>`);
+        lines.push(`  <rect class="background" x="0" y="0" width="${width}" height="${height}" fill="#fafafa"/>`);
+
+        // Layar
+        lines.push(`  <rect class="screen" x="${gridLeft}" y="${MARGIN}" width="${gridWidth}" height="8" rx="4" fill="#424242"/>`);
+        lines.push(`  <text class="screen-label" x="${gridLeft + gridWidth / 2}" y="${MARGIN + 26}" text-anchor="middle" font-size="12">LAYAR</text>`);
+
+        // Lorong
+        for (const column of findAisleColumns(seatMap)) {
+            lines.push(`  <rect class="aisle" x="${gridLeft + column * pitch}" y="${gridTop}" width="${SEAT_SIZE}" height="${gridHeight}" fill="#eeeeee"/>`);
+        }
+
+        // Baris dan kursi
+        rowLabels.forEach((label, rowIndex) => {
+            const y = gridTop + rowIndex * pitch;
+            const textY = y + SEAT_SIZE / 2 + 4;
+            lines.push(`  <g class="row" data-row="${escapeMarkup(label)}">`);
+            lines.push(`    <text class="row-label" x="${MARGIN}" y="${textY}" font-size="12">${escapeMarkup(label)}</text>`);
+
+            for (const position of seatMap.getRow(label)) {
+                const seat = seatsByCode.get(position.code);
+                if (!seat) continue;
+
+                const x = gridLeft + position.column * pitch;
+                const fill = seat.status === SeatStatus.AVAILABLE ? SEAT_TYPE_COLORS[seat.type] : SEAT_STATUS_COLORS[seat.status];
+                lines.push(`    <g class="${seatClasses(position, seat)}" data-code="${position.code}" data-price="${seat.price}">`);
+                lines.push(`      <title>${escapeMarkup(describeSeat(position, seat))}</title>`);
+                lines.push(`      <rect x="${x}" y="${y}" width="${SEAT_SIZE}" height="${SEAT_SIZE}" rx="4" fill="${fill}" stroke="${SEAT_TYPE_COLORS[seat.type]}" stroke-width="2"/>`);
+                lines.push(`      <text x="${x + SEAT_SIZE / 2}" y="${textY}" text-anchor="middle" font-size="10">${position.number}</text>`);
+                lines.push('    </g>');
+            }
+
+            lines.push(`    <text class="row-label" x="${gridLeft + gridWidth + SEAT_GAP}" y="${textY}" font-size="12">${escapeMarkup(label)}</text>`);
+            lines.push('  </g>');
+        });
+
+        // Legenda: tipe kursi beserta harga, lalu status
+        lines.push('  <g class="legend">');
+        let legendY = legendTop;
+        for (const { type, price } of typePrices) {
+            lines.push(this.legendEntry(MARGIN, legendY, SEAT_TYPE_COLORS[type], SEAT_TYPE_COLORS[type], `${SEAT_TYPE_LABELS[type]} - ${formatRupiah(price)}`));
+            legendY += LEGEND_LINE;
+        }
+        for (const status of Object.values(SeatStatus)) {
+            if (status === SeatStatus.AVAILABLE) continue;
+            lines.push(this.legendEntry(MARGIN, legendY, SEAT_STATUS_COLORS[status], '#757575', SEAT_STATUS_LABELS[status]));
+            legendY += LEGEND_LINE;
+        }
+        lines.push('  </g>');
+        lines.push('</svg>');
+
+        return lines.join('\n');
+    }
+
+    private legendEntry(x: number, y: number, fill: string, stroke: string, label: string): string {
+        return `    <g class="legend-entry"><rect x="${x}" y="${y}" width="14" height="14" rx="3" fill="${fill}" stroke="${stroke}"/>` +
+            `<text x="${x + 22}" y="${y + 11}" font-size="12">${escapeMarkup(label)}</text></g>`;
+    }
+}
+
+// RENDERER TABEL HTML
+// Setiap baris kursi menjadi <tr> dengan header baris, kursi memiliki aria-label lengkap
+// dan lorong ditandai aria-hidden agar pembaca layar hanya membacakan kursi.
+export class HtmlSeatMapRenderer implements SeatMapRenderer {
+    render(seatMap: SeatMap, seats: Seat[]): string {
+        const seatsByCode = indexSeats(seats);
+        const columnCount = seatMap.getColumnCount();
+
+        const lines: string[] = [];
+        lines.push(`<figure class="seat-map" data-seat-map="${escapeMarkup(seatMap.getId())}">`);
+        lines.push('  <table>');
+        lines.push(`    <caption>${escapeMarkup(seatMap.getName())}</caption>`);
+        lines.push('    <thead>');
+        lines.push(`      <tr><td></td><th class="screen" colspan="${columnCount}" scope="colgroup">LAYAR</th></tr>`);
+        lines.push('    </thead>');
+        lines.push('    <tbody>');
+
+        for (const label of seatMap.getRowLabels()) {
+            const byColumn = new Map(seatMap.getRow(label).map(position => [position.column, position]));
+            const cells: string[] = [`<th scope="row">${escapeMarkup(label)}</th>`];
+
+            for (let column = 0; column < columnCount; column++) {
+                const position = byColumn.get(column);
+                const seat = position ? seatsByCode.get(position.code) : undefined;
+                if (!position || !seat) {
+                    cells.push('<td class="aisle" aria-hidden="true"></td>');
+                    continue;
+                }
+                const disabled = seat.status === SeatStatus.AVAILABLE ? '' : ' aria-disabled="true"';
+                cells.push(`<td class="${seatClasses(position, seat)}" data-code="${position.code}" data-price="${seat.price}" aria-label="${escapeMarkup(describeSeat(position, seat))}"${disabled}>${position.code}</td>`);
+            }
+
+            lines.push(`      <tr>${cells.join('')}</tr>`);
+        }
+
+        lines.push('    </tbody>');
+        lines.push('  </table>');
+
+        // Legenda
+        lines.push('  <figcaption>');
+        lines.push('    <ul class="seat-map-legend">');
+        for (const { type, price } of collectTypePrices(seats)) {
+            lines.push(`      <li class="seat-${kebab(type)}">${SEAT_TYPE_LABELS[type]}: ${formatRupiah(price)}</li>`);
+        }
+        for (const status of Object.values(SeatStatus)) {
+            lines.push(`      <li class="seat-${kebab(status)}">${SEAT_STATUS_LABELS[status]}</li>`);
+        }
+        lines.push('    </ul>');
+        lines.push('  </figcaption>');
+        lines.push('</figure>');
+
+        return lines.join('\n');
+    }
+}
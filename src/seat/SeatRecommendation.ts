@@ -0,0 +1,267 @@
+// Seat Recommendation - Pencari Kursi Terbaik
+//
+// Pelanggan sering meminta "4 kursi terbaik yang berdampingan". Engine ini bekerja di atas
+// SeatAvailabilityService: setiap kursi diberi skor berdasarkan jarak ke garis tengah layar,
+// preferensi baris dan tipe kursi, lalu dicari blok N kursi bersebelahan dalam satu baris.
+// Jika tidak ada, blok dipecah ke dua baris yang berdekatan.
+// Pasangan kursi COUPLE tidak pernah dipisah dan blok yang menyisakan satu kursi kosong
+// terisolasi (orphan) hanya dipilih jika tidak ada alternatif lain.
+
+import { Seat, SeatType, SeatStatus } from '../models/Seat';
+import { SeatAvailabilityService } from './SeatAvailability';
+import { SeatMap, SeatPosition } from './SeatMap';
+
+// Opsi penilaian kursi
+export interface SeatRecommendationOptions {
+    preferredRowRatio?: number;   // 0 = paling depan, 1 = paling belakang (default 0.66)
+    centerWeight?: number;        // Bobot jarak ke garis tengah layar (default 1)
+    rowWeight?: number;           // Bobot jarak ke baris favorit (default 1)
+    seatTypePenalty?: Partial<Record<SeatType, number>>; // Penalti tambahan per tipe kursi
+    allowSplit?: boolean;         // Boleh dipecah ke dua baris berdekatan (default true)
+}
+
+// Hasil rekomendasi
+export interface SeatRecommendation {
+    seats: Seat[];
+    rows: string[];
+    contiguous: boolean;      // true jika semua kursi berada dalam satu blok di satu baris
+    leavesOrphan: boolean;    // true jika blok menyisakan kursi kosong tunggal
+    score: number;            // Semakin kecil semakin baik
+}
+
+// Kandidat blok kursi dalam satu baris
+interface SeatBlock {
+    row: string;
+    rowIndex: number;
+    positions: SeatPosition[];
+    score: number;
+    leavesOrphan: boolean;
+}
+
+const DEFAULT_SEAT_TYPE_PENALTY: Record<SeatType, number> = {
+    [SeatType.REGULAR]: 0,
+    [SeatType.VIP]: 0,
+    [SeatType.COUPLE]: 0.5,
+    [SeatType.WHEELCHAIR]: 5      // Ruang kursi roda hanya direkomendasikan jika tidak ada pilihan lain
+};
+
+// Penalti untuk rekomendasi yang dipecah ke dua baris
+const SPLIT_PENALTY = 1;
+// Penalti untuk blok yang menyisakan kursi orphan (lebih besar dari selisih skor wajar)
+const ORPHAN_PENALTY = 100;
+
+export class SeatRecommendationEngine {
+    private options: Required<Omit<SeatRecommendationOptions, 'seatTypePenalty'>> & {
+        seatTypePenalty: Record<SeatType, number>;
+    };
+
+    constructor(private service: SeatAvailabilityService, options: SeatRecommendationOptions = {}) {
+        this.options = {
+            preferredRowRatio: options.preferredRowRatio ?? 0.66,
+            centerWeight: options.centerWeight ?? 1,
+            rowWeight: options.rowWeight ?? 1,
+            allowSplit: options.allowSplit ?? true,
+            seatTypePenalty: { ...DEFAULT_SEAT_TYPE_PENALTY, ...options.seatTypePenalty }
+        };
+    }
+
+    // Mencari N kursi terbaik (null jika tidak ada kombinasi yang memenuhi)
+    recommend(showtimeId: string, count: number): SeatRecommendation | null {
+        if (!Number.isInteger(count) || count <= 0) {
+            throw new Error(`Jumlah kursi tidak valid: ${count}`);
+        }
+
+        const seatMap = this.service.getSeatMap(showtimeId);
+        const seatsByCode = new Map<string, Seat>();
+        for (const seat of this.service.getSeats(showtimeId)) {
+            seatsByCode.set(seat.getCode(), seat);
+        }
+
+        const isAvailable = (position: SeatPosition) =>
+            seatsByCode.get(position.code)?.status === SeatStatus.AVAILABLE;
+
+        // 1. Blok bersebelahan dalam satu baris
+        const single = this.bestBlock(this.findBlocks(seatMap, count, isAvailable));
+        if (single && !single.leavesOrphan) {
+            console.log(`[SeatRecommendation] ${count} kursi bersebelahan di baris ${single.row}`);
+            return this.toRecommendation([single], seatsByCode);
+        }
+
+        // 2. Dipecah ke dua baris berdekatan
+        const split = this.options.allowSplit && count > 1
+            ? this.bestSplit(seatMap, count, isAvailable)
+            : null;
+
+        const singleScore = single ? single.score + (single.leavesOrphan ? ORPHAN_PENALTY : 0) : Infinity;
+        const splitScore = split ? this.splitScore(split) : Infinity;
+
+        if (!single && !split) {
+            console.log(`[SeatRecommendation] Tidak ada ${count} kursi yang memenuhi`);
+            return null;
+        }
+
+        const chosen = splitScore < singleScore ? split! : [single!];
+        console.log(`[SeatRecommendation] ${count} kursi di baris ${chosen.map(block => block.row).join(' & ')}`);
+        return this.toRecommendation(chosen, seatsByCode);
+    }
+
+    // Skor satu kursi: jarak ke tengah + jarak ke baris favorit + penalti tipe
+    private scoreSeat(seatMap: SeatMap, position: SeatPosition): number {
+        const centerColumn = (seatMap.getColumnCount() - 1) / 2;
+        const halfWidth = Math.max(centerColumn, 1);
+        const centerDistance = Math.abs(position.column - centerColumn) / halfWidth;
+
+        const lastRow = Math.max(seatMap.getRowCount() - 1, 1);
+        const rowDistance = Math.abs(position.rowIndex / lastRow - this.options.preferredRowRatio);
+
+        return this.options.centerWeight * centerDistance +
+            this.options.rowWeight * rowDistance +
+            this.options.seatTypePenalty[position.type];
+    }
+
+    // Mencari semua blok N kursi tersedia yang bersebelahan (tanpa lorong) di setiap baris
+    private findBlocks(
+        seatMap: SeatMap,
+        count: number,
+        isAvailable: (position: SeatPosition) => boolean
+    ): SeatBlock[] {
+        const blocks: SeatBlock[] = [];
+
+        for (const label of seatMap.getRowLabels()) {
+            for (const segment of this.splitSegments(seatMap.getRow(label))) {
+                for (let start = 0; start + count <= segment.length; start++) {
+                    const positions = segment.slice(start, start + count);
+                    if (!positions.every(isAvailable)) continue;
+                    if (!this.keepsCouplesTogether(seatMap, positions)) continue;
+
+                    const score = positions.reduce((sum, p) => sum + this.scoreSeat(seatMap, p), 0) / count;
+                    blocks.push({
+                        row: label,
+                        rowIndex: positions[0].rowIndex,
+                        positions,
+                        score,
+                        leavesOrphan: this.leavesOrphan(segment, start, start + count - 1, isAvailable)
+                    });
+                }
+            }
+        }
+
+        return blocks;
+    }
+
+    // Memecah baris menjadi segmen kursi yang bersambung (dipisahkan lorong/celah)
+    private splitSegments(row: SeatPosition[]): SeatPosition[][] {
+        const segments: SeatPosition[][] = [];
+        for (const position of row) {
+            const current = segments[segments.length - 1];
+            if (current && current[current.length - 1].column === position.column - 1) {
+                current.push(position);
+            } else {
+                segments.push([position]);
+            }
+        }
+        return segments;
+    }
+
+    // Setiap kursi couple dalam blok harus ikut membawa pasangannya
+    private keepsCouplesTogether(seatMap: SeatMap, positions: SeatPosition[]): boolean {
+        const codes = new Set(positions.map(p => p.code));
+        return positions.every(position => {
+            const partner = seatMap.getCouplePartner(position.code);
+            return !partner || codes.has(partner.code);
+        });
+    }
+
+    // Mengecek apakah blok menyisakan tepat satu kursi kosong di kiri atau kanannya
+    private leavesOrphan(
+        segment: SeatPosition[],
+        first: number,
+        last: number,
+        isAvailable: (position: SeatPosition) => boolean
+    ): boolean {
+        let left = 0;
+        for (let i = first - 1; i >= 0 && isAvailable(segment[i]); i--) left++;
+        let right = 0;
+        for (let i = last + 1; i < segment.length && isAvailable(segment[i]); i++) right++;
+        return left === 1 || right === 1;
+    }
+
+    // Blok dengan skor terbaik (blok tanpa orphan diutamakan)
+    private bestBlock(blocks: SeatBlock[]): SeatBlock | null {
+        let best: SeatBlock | null = null;
+        for (const block of blocks) {
+            if (!best || this.compareBlocks(block, best) < 0) {
+                best = block;
+            }
+        }
+        return best;
+    }
+
+    private compareBlocks(a: SeatBlock, b: SeatBlock): number {
+        if (a.leavesOrphan !== b.leavesOrphan) return a.leavesOrphan ? 1 : -1;
+        return a.score - b.score;
+    }
+
+    // Mencari kombinasi dua blok di baris berdekatan dengan total N kursi
+    private bestSplit(
+        seatMap: SeatMap,
+        count: number,
+        isAvailable: (position: SeatPosition) => boolean
+    ): SeatBlock[] | null {
+        const blocksBySize = new Map<number, SeatBlock[]>();
+        const blocksOfSize = (size: number) => {
+            if (!blocksBySize.has(size)) {
+                blocksBySize.set(size, this.findBlocks(seatMap, size, isAvailable));
+            }
+            return blocksBySize.get(size)!;
+        };
+
+        let best: SeatBlock[] | null = null;
+        let bestScore = Infinity;
+
+        for (let frontSize = 1; frontSize < count; frontSize++) {
+            const backSize = count - frontSize;
+            for (const front of blocksOfSize(frontSize)) {
+                for (const back of blocksOfSize(backSize)) {
+                    if (back.rowIndex !== front.rowIndex + 1) continue;
+
+                    const score = this.splitScore([front, back]);
+                    if (score < bestScore) {
+                        best = [front, back];
+                        bestScore = score;
+                    }
+                }
+            }
+        }
+
+        return best;
+    }
+
+    // Skor kombinasi: rata-rata skor kursi + penalti pecah + selisih posisi horizontal + penalti orphan
+    private splitScore(blocks: SeatBlock[]): number {
+        const total = blocks.reduce((sum, block) => sum + block.positions.length, 0);
+        const average = blocks.reduce((sum, block) => sum + block.score * block.positions.length, 0) / total;
+        const centers = blocks.map(block =>
+            block.positions.reduce((sum, p) => sum + p.column, 0) / block.positions.length
+        );
+        const misalignment = Math.abs(centers[0] - centers[1]) / total;
+        const orphans = blocks.filter(block => block.leavesOrphan).length;
+
+        return average + SPLIT_PENALTY + misalignment + orphans * ORPHAN_PENALTY;
+    }
+
+    private toRecommendation(blocks: SeatBlock[], seatsByCode: Map<string, Seat>): SeatRecommendation {
+        const orphan = blocks.some(block => block.leavesOrphan);
+        const score = blocks.length === 1
+            ? blocks[0].score + (orphan ? ORPHAN_PENALTY : 0)
+            : this.splitScore(blocks);
+
+        return {
+            seats: blocks.flatMap(block => block.positions.map(p => seatsByCode.get(p.code)!)),
+            rows: blocks.map(block => block.row),
+            contiguous: blocks.length === 1,
+            leavesOrphan: orphan,
+            score
+        };
+    }
+}
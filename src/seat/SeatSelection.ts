@@ -15,6 +15,18 @@
 // - Invoker: SeatSelectionInvoker
 
 import { Seat, SeatImpl, SeatType, SeatStatus } from '../models/Seat';
+import { SeatMapDefinition } from '../models/SeatMapDefinition';
+import { StudioType } from '../models/Cinema';
+import { SeatMap, SeatPosition } from './SeatMap';
+import { PricingContext, PricingEngine, occupancyRateOf } from '../pricing/PricingEngine';
+import { formatRupiah } from '../pricing/Money';
+import { SeatMapRenderer, SvgSeatMapRenderer } from './SeatMapRenderer';
+import {
+    SeatSelectionCheck,
+    SeatSelectionPolicy,
+    SeatSelectionPolicyRegistry,
+    allowedSelection
+} from './SeatSelectionPolicy';
 
 // COMMAND INTERFACE
 export interface SeatCommand {
@@ -36,38 +48,80 @@ export interface SeatCommand {
 export class SeatManager {
     private seats: Map<string, Seat> = new Map();
     private selectedSeats: Set<string> = new Set();
+    private seatMap: SeatMap | null = null;
+    private showtimeId: string | null = null;
+    private pricingContext: Omit<PricingContext, 'seatType' | 'zone' | 'occupancyRate'> | null = null;
+    private selectionPolicy: SeatSelectionPolicy | null = null;
+    private lastSelectionCheck: SeatSelectionCheck | null = null;
 
     constructor() {
         console.log('[SeatManager] Initialized');
     }
 
-    // Inisialisasi kursi untuk showtime tertentu
-    initializeSeats(showtimeId: string, rows: number, seatsPerRow: number, basePrice: number, allowRandomBooking: boolean = true): void {
-        const rowLabels = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
-
-        for (let r = 0; r < rows; r++) {
-            for (let s = 1; s <= seatsPerRow; s++) {
-                const rowLabel = rowLabels[r];
-                const seatCode = `${rowLabel}${s}`;
-                const seatId = `${showtimeId}-${seatCode}`;
-                const seatType = r >= rows - 2 ? SeatType.VIP : SeatType.REGULAR;
-                const price = seatType === SeatType.VIP ? basePrice * 1.5 : basePrice;
-
-                // Simulasi kursi sudah terisi random
-                const isBooked = allowRandomBooking && Math.random() < 0.15; // 15% already booked
-
-                this.seats.set(seatCode, new SeatImpl(
-                    seatId,
-                    rowLabel,
-                    s,
-                    seatType,
-                    isBooked ? SeatStatus.BOOKED : SeatStatus.AVAILABLE,
-                    price
-                ));
+    // Inisialisasi kursi untuk showtime tertentu (layout persegi panjang)
+    // showStartsAt opsional: harga kursi ikut aturan hari, jam, dan hari libur
+    initializeSeats(showtimeId: string, rows: number, seatsPerRow: number, basePrice: number, allowRandomBooking: boolean = true, studioType?: StudioType, showStartsAt?: Date): void {
+        const seatMap = SeatMap.rectangular(
+            `${showtimeId}-MAP`,
+            `Layout ${showtimeId}`,
+            rows,
+            seatsPerRow,
+            r => r >= rows - 2 ? SeatType.VIP : SeatType.REGULAR
+        );
+        this.initializeFromSeatMap(showtimeId, seatMap.getDefinition(), basePrice, allowRandomBooking, studioType, showStartsAt);
+    }
+
+    // Inisialisasi kursi berdasarkan seat map (mendukung lorong, celah, dan label baris kustom)
+    // Jika studioType diberikan, policy pemilihan kursi mengikuti konfigurasi tipe studio tersebut
+    initializeFromSeatMap(showtimeId: string, definition: SeatMapDefinition, basePrice: number, allowRandomBooking: boolean = true, studioType?: StudioType, showStartsAt?: Date): void {
+        this.seatMap = SeatMap.fromDefinition(definition);
+        this.showtimeId = showtimeId;
+        this.pricingContext = { basePrice, studioType, showStartsAt };
+        this.seats.clear();
+        this.selectedSeats.clear();
+        this.lastSelectionCheck = null;
+        if (studioType) {
+            this.selectionPolicy = SeatSelectionPolicyRegistry.forStudioType(studioType);
+        }
+
+        const rows = this.seatMap.createSeats(
+            showtimeId,
+            position => this.calculateSeatPrice(position),
+            // Simulasi kursi sudah terisi random
+            () => allowRandomBooking && Math.random() < 0.15 ? SeatStatus.BOOKED : SeatStatus.AVAILABLE // 15% already booked
+        );
+        for (const seat of rows.flat()) {
+            this.seats.set(seat.getCode(), seat);
+        }
+        this.updateOccupancy();
+
+        console.log(`[SeatManager] Initialized ${this.seatMap.getCapacity()} seats`);
+    }
+
+    // Melaporkan keterisian ke pricing engine lalu menghitung ulang harga kursi yang masih dijual
+    private updateOccupancy(): void {
+        if (!this.showtimeId) return;
+        PricingEngine.getDefault().recordOccupancy(this.showtimeId, occupancyRateOf(this.getAllSeats()));
+        for (const seat of this.seats.values()) {
+            if (seat.status !== SeatStatus.BOOKED) {
+                (seat as SeatImpl).price = this.calculateSeatPrice(this.seatMap!.getPosition(seat.getCode())!);
             }
         }
+    }
+
+    // Harga kursi dari pricing engine (harga couple adalah harga untuk satu pasangan)
+    private calculateSeatPrice(position: SeatPosition): number {
+        return PricingEngine.getDefault().calculate({
+            ...this.pricingContext!,
+            seatType: position.type,
+            zone: position.zone,
+            occupancyRate: PricingEngine.getDefault().getOccupancy(this.showtimeId!)
+        });
+    }
 
-        console.log(`[SeatManager] Initialized ${rows * seatsPerRow} seats`);
+    // Mendapatkan seat map yang sedang digunakan
+    getSeatMap(): SeatMap | null {
+        return this.seatMap;
     }
 
     // Mendapatkan kursi berdasarkan kode
@@ -75,41 +129,122 @@ export class SeatManager {
         return this.seats.get(seatCode);
     }
 
-    // Memilih kursi
-    selectSeat(seatCode: string): boolean {
+    // Mengatur policy pemilihan kursi (null = tanpa aturan)
+    setSelectionPolicy(policy: SeatSelectionPolicy | null): void {
+        this.selectionPolicy = policy;
+    }
+
+    // Hasil evaluasi pemilihan kursi terakhir (berisi alasan jika ditolak)
+    getLastSelectionCheck(): SeatSelectionCheck | null {
+        return this.lastSelectionCheck;
+    }
+
+    // Mengevaluasi pilihan kursi terhadap policy tanpa mengubah status kursi
+    checkSelection(seatCodes: string[]): SeatSelectionCheck {
+        if (!this.selectionPolicy || !this.seatMap) return allowedSelection();
+
+        return this.selectionPolicy.evaluate(
+            this.seatMap,
+            code => this.seats.get(code)?.status === SeatStatus.AVAILABLE,
+            seatCodes
+        );
+    }
+
+    // Mendapatkan unit kursi: kursi couple selalu bersama pasangannya
+    getSeatUnit(seatCode: string): Seat[] {
         const seat = this.seats.get(seatCode);
-        if (!seat) {
+        if (!seat) return [];
+
+        const partner = this.seatMap?.getCouplePartner(seatCode);
+        const partnerSeat = partner ? this.seats.get(partner.code) : undefined;
+        return partnerSeat ? [seat, partnerSeat] : [seat];
+    }
+
+    // Memilih kursi (kursi couple dipilih bersama pasangannya)
+    selectSeat(seatCode: string): boolean {
+        const unit = this.getSeatUnit(seatCode);
+        if (unit.length === 0) {
             console.log(`[SeatManager] Seat ${seatCode} not found`);
+            this.lastSelectionCheck = this.rejected(`Kursi ${seatCode} tidak ditemukan`);
             return false;
         }
 
-        if (seat.status !== SeatStatus.AVAILABLE) {
-            console.log(`[SeatManager] Seat ${seatCode} is not available (status: ${seat.status})`);
+        const unavailable = unit.find(seat => seat.status !== SeatStatus.AVAILABLE);
+        if (unavailable) {
+            console.log(`[SeatManager] Seat ${unavailable.getCode()} is not available (status: ${unavailable.status})`);
+            this.lastSelectionCheck = this.rejected(`Kursi ${unavailable.getCode()} tidak tersedia (status: ${unavailable.status})`);
             return false;
         }
 
-        (seat as SeatImpl).status = SeatStatus.SELECTED;
-        this.selectedSeats.add(seatCode);
-        console.log(`[SeatManager] Seat ${seatCode} SELECTED`);
+        const codes = unit.map(seat => seat.getCode());
+        const check = this.checkSelection(codes);
+        this.lastSelectionCheck = check;
+        if (!check.allowed) {
+            console.log(`[SeatManager] Seat ${codes.join(' & ')} REJECTED: ${check.reasons.join('; ')}`);
+            return false;
+        }
+        check.warnings.forEach(warning => console.log(`[SeatManager] WARNING: ${warning}`));
+
+        unit.forEach(seat => this.markSelected(seat));
         return true;
     }
 
-    // Membatalkan pilihan kursi
+    // Memilih beberapa kursi sekaligus; policy dievaluasi untuk seluruh pilihan
+    // Mengembalikan kode kursi yang berhasil dipilih (termasuk pasangan kursi couple)
+    selectSeats(seatCodes: string[]): string[] {
+        const unavailable: string[] = [];
+        const candidates: Seat[] = [];
+
+        for (const code of seatCodes) {
+            const unit = this.getSeatUnit(code);
+            if (unit.length === 0 || unit.some(seat => seat.status !== SeatStatus.AVAILABLE)) {
+                console.log(`[SeatManager] Seat ${code} is not available`);
+                unavailable.push(`Kursi ${code} tidak tersedia`);
+                continue;
+            }
+            unit.filter(seat => !candidates.includes(seat)).forEach(seat => candidates.push(seat));
+        }
+
+        const check = this.checkSelection(candidates.map(seat => seat.getCode()));
+        this.lastSelectionCheck = { ...check, warnings: [...unavailable, ...check.warnings] };
+        if (!check.allowed) {
+            console.log(`[SeatManager] Selection REJECTED: ${check.reasons.join('; ')}`);
+            return [];
+        }
+        check.warnings.forEach(warning => console.log(`[SeatManager] WARNING: ${warning}`));
+
+        candidates.forEach(seat => this.markSelected(seat));
+        return candidates.map(seat => seat.getCode());
+    }
+
+    private markSelected(seat: Seat): void {
+        (seat as SeatImpl).status = SeatStatus.SELECTED;
+        this.selectedSeats.add(seat.getCode());
+        console.log(`[SeatManager] Seat ${seat.getCode()} SELECTED`);
+    }
+
+    private rejected(reason: string): SeatSelectionCheck {
+        return { allowed: false, reasons: [reason], warnings: [], orphanSeats: [] };
+    }
+
+    // Membatalkan pilihan kursi (kursi couple dibatalkan bersama pasangannya)
     deselectSeat(seatCode: string): boolean {
-        const seat = this.seats.get(seatCode);
-        if (!seat) {
+        const unit = this.getSeatUnit(seatCode);
+        if (unit.length === 0) {
             console.log(`[SeatManager] Seat ${seatCode} not found`);
             return false;
         }
 
-        if (seat.status !== SeatStatus.SELECTED) {
+        if (unit[0].status !== SeatStatus.SELECTED) {
             console.log(`[SeatManager] Seat ${seatCode} is not selected`);
             return false;
         }
 
-        (seat as SeatImpl).status = SeatStatus.AVAILABLE;
-        this.selectedSeats.delete(seatCode);
-        console.log(`[SeatManager] Seat ${seatCode} DESELECTED`);
+        for (const seat of unit.filter(s => s.status === SeatStatus.SELECTED)) {
+            (seat as SeatImpl).status = SeatStatus.AVAILABLE;
+            this.selectedSeats.delete(seat.getCode());
+            console.log(`[SeatManager] Seat ${seat.getCode()} DESELECTED`);
+        }
         return true;
     }
 
@@ -124,8 +259,16 @@ export class SeatManager {
     }
 
     // Mendapatkan total harga kursi yang dipilih
+    // Harga kursi couple adalah harga per pasangan sehingga hanya dihitung sekali
     getSelectedSeatsTotal(): number {
-        return this.getSelectedSeats().reduce((sum, seat) => sum + seat.price, 0);
+        const counted = new Set<string>();
+        let total = 0;
+        for (const seat of this.getSelectedSeats()) {
+            if (counted.has(seat.getCode())) continue;
+            this.getSeatUnit(seat.getCode()).forEach(s => counted.add(s.getCode()));
+            total += seat.price;
+        }
+        return total;
     }
 
     // Mendapatkan semua kursi
@@ -154,10 +297,17 @@ export class SeatManager {
 
         const count = this.selectedSeats.size;
         this.selectedSeats.clear();
+        this.updateOccupancy();
         console.log(`[SeatManager] ${count} seats BOOKED`);
         return true;
     }
 
+    // Me-render layout untuk web kiosk (default SVG)
+    render(renderer: SeatMapRenderer = new SvgSeatMapRenderer()): string {
+        if (!this.seatMap) return 'No seats initialized';
+        return renderer.render(this.seatMap, this.getAllSeats());
+    }
+
     // Menampilkan layout kursi
     displayLayout(): string {
         if (this.seats.size === 0) return 'No seats initialized';
@@ -175,8 +325,12 @@ export class SeatManager {
 ╠══════════════════════════════════════════════════════════════╣
 `;
 
+        // Urutan baris mengikuti seat map (label seperti AA tidak selalu urut secara alfabet)
+        const rowOrder = this.seatMap ? this.seatMap.getRowLabels() : [];
         const sortedRows = Array.from(seatsByRow.entries())
-            .sort((a, b) => a[0].localeCompare(b[0]));
+            .sort((a, b) => rowOrder.length > 0
+                ? rowOrder.indexOf(a[0]) - rowOrder.indexOf(b[0])
+                : a[0].localeCompare(b[0]));
 
         for (const [rowLabel, rowSeats] of sortedRows) {
             rowSeats.sort((a, b) => a.number - b.number);
@@ -194,6 +348,9 @@ export class SeatManager {
                     case SeatStatus.BOOKED:
                         symbol = '✕';
                         break;
+                    case SeatStatus.UNAVAILABLE:
+                        symbol = '▫';
+                        break;
                     default:
                         symbol = '─';
                 }
@@ -206,9 +363,9 @@ export class SeatManager {
         const total = this.getSelectedSeatsTotal();
 
         output += `╠══════════════════════════════════════════════════════════════╣
-║  ○ Available  ◇ VIP  ● Selected  ✕ Booked                    ║
+║  ○ Available  ◇ VIP  ● Selected  ✕ Booked  ▫ Blocked         ║
 ╠══════════════════════════════════════════════════════════════╣
-║  Selected: ${selectedCount.toString().padEnd(3)} seats    Total: Rp ${total.toLocaleString('id-ID').padEnd(20)}║
+║  Selected: ${selectedCount.toString().padEnd(3)} seats    Total: ${formatRupiah(total).padEnd(23)}║
 ╚══════════════════════════════════════════════════════════════╝`;
 
         return output;
@@ -333,12 +490,8 @@ export class SelectMultipleSeatsCommand implements SeatCommand {
 
         console.log(`[SelectMultipleSeatsCommand] Selecting ${this.seatCodes.length} seats...`);
 
-        this.successfullyCodes = [];
-        for (const code of this.seatCodes) {
-            if (this.seatManager.selectSeat(code)) {
-                this.successfullyCodes.push(code);
-            }
-        }
+        // Policy dievaluasi untuk seluruh kursi sekaligus agar kursi yang berdampingan tidak ditolak satu per satu
+        this.successfullyCodes = this.seatManager.selectSeats(this.seatCodes);
 
         this.executed = true;
         this.timestamp = new Date();
@@ -504,8 +657,14 @@ export class SeatSelectionController {
     }
 
     // Inisialisasi untuk showtime
-    initializeForShowtime(showtimeId: string, rows: number = 10, seatsPerRow: number = 15, basePrice: number = 50000, allowRandomBooking: boolean = true): void {
-        this.seatManager.initializeSeats(showtimeId, rows, seatsPerRow, basePrice, allowRandomBooking);
+    initializeForShowtime(showtimeId: string, rows: number = 10, seatsPerRow: number = 15, basePrice: number = 50000, allowRandomBooking: boolean = true, studioType?: StudioType, showStartsAt?: Date): void {
+        this.seatManager.initializeSeats(showtimeId, rows, seatsPerRow, basePrice, allowRandomBooking, studioType, showStartsAt);
+        this.invoker.clearHistory();
+    }
+
+    // Inisialisasi untuk showtime berdasarkan seat map studio
+    initializeFromSeatMap(showtimeId: string, seatMap: SeatMapDefinition, basePrice: number = 50000, allowRandomBooking: boolean = true, studioType?: StudioType, showStartsAt?: Date): void {
+        this.seatManager.initializeFromSeatMap(showtimeId, seatMap, basePrice, allowRandomBooking, studioType, showStartsAt);
         this.invoker.clearHistory();
     }
 
@@ -527,6 +686,11 @@ export class SeatSelectionController {
         return this.invoker.executeCommand(command);
     }
 
+    // Alasan/peringatan dari pemilihan kursi terakhir
+    getLastSelectionCheck(): SeatSelectionCheck | null {
+        return this.seatManager.getLastSelectionCheck();
+    }
+
     // Undo
     undo(): boolean {
         return this.invoker.undo();
@@ -557,6 +721,11 @@ export class SeatSelectionController {
         return this.seatManager.displayLayout();
     }
 
+    // Render layout untuk web kiosk
+    render(renderer?: SeatMapRenderer): string {
+        return this.seatManager.render(renderer);
+    }
+
     // Tampilkan status undo/redo
     displayHistory(): string {
         return this.invoker.displayStatus();
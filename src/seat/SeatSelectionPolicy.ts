@@ -0,0 +1,135 @@
+// Seat Selection Policy - Aturan Pemilihan Kursi
+//
+// Bioskop kehilangan pendapatan ketika pilihan kursi menyisakan satu kursi kosong yang
+// terisolasi di antara kursi terisi (orphan seat). Policy ini dievaluasi oleh SeatManager
+// sebelum kursi dipilih dan dapat menolak atau sekadar memberi peringatan.
+// Mode aturan dapat diatur per tipe studio melalui SeatSelectionPolicyRegistry.
+
+import { StudioType } from '../models/Cinema';
+import { SeatMap, SeatPosition } from './SeatMap';
+
+// Mode aturan kursi orphan
+export enum OrphanSeatRuleMode {
+    OFF = 'OFF',         // Tidak dicek
+    WARN = 'WARN',       // Diizinkan dengan peringatan
+    REJECT = 'REJECT'    // Ditolak
+}
+
+// Hasil evaluasi pemilihan kursi
+export interface SeatSelectionCheck {
+    allowed: boolean;
+    reasons: string[];       // Alasan penolakan
+    warnings: string[];      // Peringatan (pilihan tetap diizinkan)
+    orphanSeats: string[];   // Kursi yang menjadi orphan akibat pilihan ini
+}
+
+// Interface policy pemilihan kursi
+export interface SeatSelectionPolicy {
+    // Mengevaluasi pilihan kursi; isFree mengembalikan true untuk kursi yang masih kosong
+    evaluate(seatMap: SeatMap, isFree: (code: string) => boolean, seatCodes: string[]): SeatSelectionCheck;
+}
+
+// Hasil evaluasi yang selalu mengizinkan
+export function allowedSelection(): SeatSelectionCheck {
+    return { allowed: true, reasons: [], warnings: [], orphanSeats: [] };
+}
+
+// Policy: mencegah kursi kosong tunggal yang terisolasi dalam satu baris
+export class OrphanSeatPolicy implements SeatSelectionPolicy {
+    constructor(private mode: OrphanSeatRuleMode = OrphanSeatRuleMode.REJECT) { }
+
+    getMode(): OrphanSeatRuleMode {
+        return this.mode;
+    }
+
+    evaluate(seatMap: SeatMap, isFree: (code: string) => boolean, seatCodes: string[]): SeatSelectionCheck {
+        if (this.mode === OrphanSeatRuleMode.OFF) return allowedSelection();
+
+        const selecting = new Set(seatCodes);
+        const before = this.findOrphans(seatMap, isFree);
+        const after = this.findOrphans(seatMap, code => isFree(code) && !selecting.has(code));
+
+        // Hanya orphan baru yang disebabkan oleh pilihan ini yang dihitung
+        const orphanSeats = Array.from(after).filter(code => !before.has(code));
+        if (orphanSeats.length === 0) return allowedSelection();
+
+        const message = `Pilihan kursi ${seatCodes.join(', ')} menyisakan kursi kosong terisolasi: ${orphanSeats.join(', ')}`;
+        if (this.mode === OrphanSeatRuleMode.WARN) {
+            return { allowed: true, reasons: [], warnings: [message], orphanSeats };
+        }
+        return { allowed: false, reasons: [message], warnings: [], orphanSeats };
+    }
+
+    // Mencari kursi kosong tunggal yang diapit kursi terisi, lorong, atau ujung baris
+    private findOrphans(seatMap: SeatMap, isFree: (code: string) => boolean): Set<string> {
+        const orphans = new Set<string>();
+
+        for (const label of seatMap.getRowLabels()) {
+            const row = seatMap.getRow(label);
+            let run: SeatPosition[] = [];
+
+            row.forEach((position, index) => {
+                const previous = row[index - 1];
+                const adjacent = previous && previous.column === position.column - 1;
+
+                if (!adjacent || !isFree(position.code)) {
+                    // Segmen atau rangkaian kursi kosong terputus
+                    if (run.length === 1 && this.hasOccupiedNeighbour(row, run[0], isFree)) {
+                        orphans.add(run[0].code);
+                    }
+                    run = [];
+                }
+                if (isFree(position.code)) run.push(position);
+            });
+
+            if (run.length === 1 && this.hasOccupiedNeighbour(row, run[0], isFree)) {
+                orphans.add(run[0].code);
+            }
+        }
+
+        return orphans;
+    }
+
+    // Kursi yang berdiri sendiri di segmennya (mis. di antara dua lorong) bukan orphan
+    private hasOccupiedNeighbour(row: SeatPosition[], position: SeatPosition, isFree: (code: string) => boolean): boolean {
+        return row.some(other =>
+            Math.abs(other.column - position.column) === 1 && !isFree(other.code)
+        );
+    }
+}
+
+// Registry mode aturan orphan per tipe studio
+export class SeatSelectionPolicyRegistry {
+    // Default sudah terisi sejak awal agar setOrphanRuleMode tidak menghapus mode tipe studio lain
+    private static modes: Map<StudioType, OrphanSeatRuleMode> = SeatSelectionPolicyRegistry.createDefaultModes();
+
+    // Mengatur mode aturan orphan untuk tipe studio
+    static setOrphanRuleMode(studioType: StudioType, mode: OrphanSeatRuleMode): void {
+        this.modes.set(studioType, mode);
+    }
+
+    // Mendapatkan mode aturan orphan untuk tipe studio
+    static getOrphanRuleMode(studioType: StudioType): OrphanSeatRuleMode {
+        return this.modes.get(studioType) ?? OrphanSeatRuleMode.OFF;
+    }
+
+    // Mendapatkan policy untuk tipe studio
+    static forStudioType(studioType: StudioType): SeatSelectionPolicy {
+        return new OrphanSeatPolicy(this.getOrphanRuleMode(studioType));
+    }
+
+    // Mengembalikan semua tipe studio ke mode default
+    static initializeDefaults(): void {
+        this.modes = this.createDefaultModes();
+    }
+
+    private static createDefaultModes(): Map<StudioType, OrphanSeatRuleMode> {
+        return new Map([
+            [StudioType.REGULAR, OrphanSeatRuleMode.REJECT],
+            [StudioType.IMAX, OrphanSeatRuleMode.REJECT],
+            [StudioType.DOLBY_ATMOS, OrphanSeatRuleMode.REJECT],
+            // Studio VIP kapasitasnya kecil, cukup diberi peringatan
+            [StudioType.VIP, OrphanSeatRuleMode.WARN]
+        ]);
+    }
+}
@@ -0,0 +1,393 @@
+// Waitlist - Antrian untuk Showtime yang Sudah Penuh
+//
+// Pengguna bergabung ke waitlist showtime dengan jumlah dan tipe kursi yang diinginkan.
+// Ketika kursi dilepas (pembatalan, hold kadaluarsa, atau pelepasan lain), entry pertama yang
+// cocok mendapat penawaran eksklusif: kursi di-hold atas nama pengguna selama durasi penawaran.
+// Penawaran, penerimaan, dan kadaluarsa dipublikasikan sebagai BookingEvent sehingga observer
+// notifikasi yang sudah ada dapat memberi tahu pengguna. Kursi aksesibel yang masih ditahan hanya
+// ditawarkan ke pengguna kursi roda, dan kursi couple selalu ditawarkan bersama pasangannya.
+
+import { User } from '../models/User';
+import { Seat, SeatType } from '../models/Seat';
+import { Showtime } from '../models/Showtime';
+import { BookingEventType, BookingSubject } from '../notification/NotificationService';
+import { Clock, SystemClock } from '../utils/Clock';
+import { AccessibleSeatingPolicy } from './AccessibleSeating';
+import { RealSeatAvailabilityService } from './SeatAvailability';
+import { SeatMap } from './SeatMap';
+import { SeatChangeEvent, SeatChangeType } from './SeatChangeEvents';
+
+// Status entry waitlist
+export enum WaitlistStatus {
+    WAITING = 'WAITING',
+    OFFERED = 'OFFERED',
+    ACCEPTED = 'ACCEPTED',
+    EXPIRED = 'EXPIRED',
+    CANCELLED = 'CANCELLED'
+}
+
+// Entry waitlist
+export interface WaitlistEntry {
+    id: string;
+    user: User;
+    showtime: Showtime;
+    seatCount: number;
+    seatType: SeatType;
+    joinedAt: Date;
+    status: WaitlistStatus;
+}
+
+// Penawaran kursi eksklusif untuk satu entry
+export interface WaitlistOffer {
+    id: string;
+    entryId: string;
+    showtimeId: string;
+    holderId: string;
+    seatCodes: string[];
+    offeredAt: Date;
+    expiresAt: Date;
+    status: WaitlistStatus;   // OFFERED, ACCEPTED, EXPIRED, atau CANCELLED
+}
+
+export interface WaitlistOptions {
+    clock?: Clock;            // Harus sama dengan clock SeatHoldManager milik service
+    offerDurationMs?: number;
+    accessibilityPolicy?: AccessibleSeatingPolicy;   // Sebaiknya policy yang sama dengan proxy kursi
+}
+
+// Default: penawaran berlaku 15 menit
+export const DEFAULT_WAITLIST_OFFER_DURATION = 15 * 60 * 1000;
+
+// Jenis perubahan kursi yang dapat membuka kursi untuk waitlist
+const RELEASE_EVENTS = [
+    SeatChangeType.CANCELLED,
+    SeatChangeType.HOLD_EXPIRED,
+    SeatChangeType.RELEASED,
+    SeatChangeType.UNBLOCKED
+];
+
+export class WaitlistManager {
+    private entries: Map<string, WaitlistEntry[]> = new Map(); // showtimeId -> entry (urut FIFO)
+    private offers: Map<string, WaitlistOffer> = new Map();
+    private pendingShowtimes: Set<string> = new Set();
+    private processing: boolean = false;
+    private sequence: number = 0;
+    private clock: Clock;
+    private offerDurationMs: number;
+    private accessibilityPolicy: AccessibleSeatingPolicy;
+    private unsubscribe: () => void;
+
+    constructor(
+        private service: RealSeatAvailabilityService,
+        private notifier: BookingSubject,
+        options: WaitlistOptions = {}
+    ) {
+        this.clock = options.clock || new SystemClock();
+        this.offerDurationMs = options.offerDurationMs ?? DEFAULT_WAITLIST_OFFER_DURATION;
+        this.accessibilityPolicy = options.accessibilityPolicy || new AccessibleSeatingPolicy(this.clock);
+        this.unsubscribe = service.getEventBus().subscribe(event => this.handleSeatChange(event));
+    }
+
+    // Bergabung ke waitlist showtime
+    join(user: User, showtime: Showtime, seatCount: number, seatType: SeatType = SeatType.REGULAR): WaitlistEntry {
+        if (seatCount < 1) {
+            throw new Error('Jumlah kursi waitlist minimal 1');
+        }
+        if (seatType === SeatType.COUPLE && seatCount % 2 !== 0) {
+            throw new Error('Kursi couple dipesan per pasangan; jumlah kursi waitlist harus genap');
+        }
+        const existing = this.getEntries(showtime.id)
+            .find(entry => entry.user.id === user.id && this.isActive(entry));
+        if (existing) {
+            throw new Error(`${user.name} sudah berada di waitlist ${showtime.id}`);
+        }
+
+        const entry: WaitlistEntry = {
+            id: this.nextId('WL'),
+            user,
+            showtime,
+            seatCount,
+            seatType,
+            joinedAt: this.clock.now(),
+            status: WaitlistStatus.WAITING
+        };
+        this.entries.set(showtime.id, [...this.getEntries(showtime.id), entry]);
+        // Jam tayang diperlukan untuk menentukan kapan kursi aksesibel dilepas ke umum
+        if (!this.accessibilityPolicy.getReleaseTime(showtime.id)) {
+            this.accessibilityPolicy.registerShowtime(showtime.id, showtime.getStartDateTime());
+        }
+        console.log(`[Waitlist] ${user.name} joined ${showtime.id} for ${seatCount} ${seatType} seat(s)`);
+
+        // Kursi mungkin sudah tersedia saat bergabung
+        this.schedule(showtime.id);
+        return entry;
+    }
+
+    // Keluar dari waitlist; penawaran yang sedang berjalan dilepas ke entry berikutnya
+    leave(entryId: string): boolean {
+        const entry = this.findEntry(entryId);
+        if (!entry || !this.isActive(entry)) return false;
+
+        const offer = this.findOfferForEntry(entry.id);
+        entry.status = WaitlistStatus.CANCELLED;
+        if (offer) {
+            offer.status = WaitlistStatus.CANCELLED;
+            this.releaseOfferSeats(offer);
+        }
+        console.log(`[Waitlist] ${entry.user.name} left ${entry.showtime.id}`);
+        this.schedule(entry.showtime.id);
+        return true;
+    }
+
+    // Menerima penawaran: kursi yang di-hold dikonfirmasi atas nama pengguna
+    acceptOffer(offerId: string): WaitlistOffer {
+        // Penawaran yang sudah lewat waktunya ditandai kadaluarsa lebih dulu
+        this.service.releaseExpiredHolds();
+
+        const offer = this.offers.get(offerId);
+        if (!offer) {
+            throw new Error(`Penawaran waitlist ${offerId} tidak ditemukan`);
+        }
+        if (offer.status !== WaitlistStatus.OFFERED) {
+            throw new Error(`Penawaran waitlist ${offerId} tidak aktif (${offer.status})`);
+        }
+        if (!this.service.confirmBooking(offer.showtimeId, offer.seatCodes, offer.holderId)) {
+            throw new Error(`Kursi penawaran ${offerId} tidak dapat dikonfirmasi`);
+        }
+
+        const entry = this.findEntry(offer.entryId)!;
+        offer.status = WaitlistStatus.ACCEPTED;
+        entry.status = WaitlistStatus.ACCEPTED;
+        console.log(`[Waitlist] ${entry.user.name} accepted ${offer.seatCodes.join(', ')}`);
+        this.publish(BookingEventType.WAITLIST_ACCEPTED, entry, offer);
+        return offer;
+    }
+
+    // Memicu pelepasan hold yang kadaluarsa (misalnya dari scheduler)
+    expireOffers(): WaitlistOffer[] {
+        const before = new Set(this.getOffers(WaitlistStatus.EXPIRED).map(offer => offer.id));
+        this.service.releaseExpiredHolds();
+        return this.getOffers(WaitlistStatus.EXPIRED).filter(offer => !before.has(offer.id));
+    }
+
+    // Entry waitlist sebuah showtime (urut FIFO)
+    getEntries(showtimeId: string): WaitlistEntry[] {
+        return this.entries.get(showtimeId) || [];
+    }
+
+    // Posisi entry di antara entry yang masih menunggu (mulai dari 1), 0 jika tidak menunggu
+    getPosition(entryId: string): number {
+        const entry = this.findEntry(entryId);
+        if (!entry || entry.status !== WaitlistStatus.WAITING) return 0;
+        return this.getEntries(entry.showtime.id)
+            .filter(candidate => candidate.status === WaitlistStatus.WAITING)
+            .indexOf(entry) + 1;
+    }
+
+    getOffer(offerId: string): WaitlistOffer | null {
+        return this.offers.get(offerId) || null;
+    }
+
+    getOffers(status?: WaitlistStatus): WaitlistOffer[] {
+        const offers = Array.from(this.offers.values());
+        return status ? offers.filter(offer => offer.status === status) : offers;
+    }
+
+    // Berhenti mendengarkan perubahan kursi
+    dispose(): void {
+        this.unsubscribe();
+    }
+
+    private handleSeatChange(event: SeatChangeEvent): void {
+        if (event.type === SeatChangeType.HOLD_EXPIRED) {
+            this.expireOffersHolding(event.showtimeId, event.seatCodes);
+        }
+        if (RELEASE_EVENTS.includes(event.type)) {
+            this.schedule(event.showtimeId);
+        }
+    }
+
+    // Hold kursi penawaran kadaluarsa berarti waktu penawaran sudah habis
+    private expireOffersHolding(showtimeId: string, seatCodes: string[]): void {
+        for (const offer of this.getOffers(WaitlistStatus.OFFERED)) {
+            if (offer.showtimeId !== showtimeId) continue;
+            if (!offer.seatCodes.some(code => seatCodes.includes(code))) continue;
+
+            const entry = this.findEntry(offer.entryId)!;
+            offer.status = WaitlistStatus.EXPIRED;
+            entry.status = WaitlistStatus.EXPIRED;
+            console.log(`[Waitlist] Offer ${offer.id} for ${entry.user.name} expired`);
+            this.publish(BookingEventType.WAITLIST_EXPIRED, entry, offer);
+            this.releaseOfferSeats(offer);
+        }
+    }
+
+    // Event kursi dapat muncul saat penawaran sedang dibuat; showtime diproses setelahnya
+    private schedule(showtimeId: string): void {
+        this.pendingShowtimes.add(showtimeId);
+        if (this.processing) return;
+
+        this.processing = true;
+        try {
+            while (this.pendingShowtimes.size > 0) {
+                const next = this.pendingShowtimes.values().next().value as string;
+                this.pendingShowtimes.delete(next);
+                this.offerAvailableSeats(next);
+            }
+        } finally {
+            this.processing = false;
+        }
+    }
+
+    // Menawarkan kursi tersedia ke entry menunggu pertama yang kebutuhannya dapat dipenuhi
+    private offerAvailableSeats(showtimeId: string): void {
+        const waiting = this.getEntries(showtimeId).filter(entry => entry.status === WaitlistStatus.WAITING);
+        if (waiting.length === 0) return;
+
+        let available = this.service.getAvailableSeats(showtimeId);
+        for (const entry of waiting) {
+            const seats = this.pickSeats(available, entry);
+            if (!seats) continue;
+
+            const offer = this.createOffer(entry, seats);
+            if (offer) {
+                available = available.filter(seat => !offer.seatCodes.includes(seat.getCode()));
+            }
+        }
+    }
+
+    // Mengutamakan kursi berdampingan dalam satu baris; kursi aksesibel yang masih ditahan
+    // dilewati dan kursi couple hanya diambil bersama pasangannya
+    private pickSeats(available: Seat[], entry: WaitlistEntry): Seat[] | null {
+        const showtimeId = entry.showtime.id;
+        const seatMap = this.service.getSeatMap(showtimeId);
+        const candidates = available
+            .filter(seat => seat.type === entry.seatType)
+            .filter(seat => this.accessibilityPolicy.canBook(showtimeId, seatMap, seat.getCode(), entry.user))
+            .sort((a, b) => a.row.localeCompare(b.row) || a.number - b.number);
+        const units = this.toSeatUnits(candidates, seatMap);
+
+        for (let start = 0; start < units.length; start++) {
+            const run = this.takeUnits(units.slice(start), entry.seatCount);
+            if (!run) break;
+            const contiguous = run.every((seat, index) =>
+                seat.row === run[0].row && seat.number === run[0].number + index);
+            if (contiguous) return run;
+        }
+        return this.takeUnits(units, entry.seatCount);
+    }
+
+    // Mengelompokkan kursi menjadi unit pemesanan; kursi couple tanpa pasangan tersedia dibuang
+    private toSeatUnits(seats: Seat[], seatMap: SeatMap): Seat[][] {
+        const byCode = new Map(seats.map(seat => [seat.getCode(), seat]));
+        const units: Seat[][] = [];
+        const used = new Set<string>();
+
+        for (const seat of seats) {
+            if (used.has(seat.getCode())) continue;
+            const partner = seatMap.getCouplePartner(seat.getCode());
+            if (!partner) {
+                units.push([seat]);
+                continue;
+            }
+            const partnerSeat = byCode.get(partner.code);
+            if (!partnerSeat) continue;
+            used.add(partner.code);
+            units.push([seat, partnerSeat]);
+        }
+        return units;
+    }
+
+    // Mengambil unit berurutan sampai jumlah kursi tepat terpenuhi (null jika tidak bisa)
+    private takeUnits(units: Seat[][], seatCount: number): Seat[] | null {
+        const picked: Seat[] = [];
+        for (const unit of units) {
+            if (picked.length + unit.length > seatCount) continue;
+            picked.push(...unit);
+            if (picked.length === seatCount) return picked;
+        }
+        return null;
+    }
+
+    private createOffer(entry: WaitlistEntry, seats: Seat[]): WaitlistOffer | null {
+        const showtimeId = entry.showtime.id;
+        const held: string[] = [];
+
+        for (const seat of seats) {
+            if (!this.service.selectSeat(showtimeId, seat.getCode(), entry.user.id, this.offerDurationMs)) {
+                held.forEach(code => this.service.deselectSeat(showtimeId, code, entry.user.id));
+                return null;
+            }
+            held.push(seat.getCode());
+        }
+
+        const offeredAt = this.clock.now();
+        const offer: WaitlistOffer = {
+            id: this.nextId('WLO'),
+            entryId: entry.id,
+            showtimeId,
+            holderId: entry.user.id,
+            seatCodes: held,
+            offeredAt,
+            expiresAt: new Date(offeredAt.getTime() + this.offerDurationMs),
+            status: WaitlistStatus.OFFERED
+        };
+        this.offers.set(offer.id, offer);
+        entry.status = WaitlistStatus.OFFERED;
+
+        console.log(`[Waitlist] Offering ${held.join(', ')} to ${entry.user.name} until ${offer.expiresAt.toISOString()}`);
+        this.publish(BookingEventType.WAITLIST_OFFERED, entry, offer);
+        return offer;
+    }
+
+    // Melepas hold kursi penawaran yang masih ada (hold lain dari penawaran yang sama)
+    private releaseOfferSeats(offer: WaitlistOffer): void {
+        offer.seatCodes.forEach(code => this.service.deselectSeat(offer.showtimeId, code, offer.holderId));
+    }
+
+    private publish(eventType: BookingEventType, entry: WaitlistEntry, offer: WaitlistOffer): void {
+        const showtime = entry.showtime;
+        this.notifier.notify({
+            eventType,
+            bookingId: offer.id,
+            customerName: entry.user.name,
+            customerEmail: entry.user.email,
+            customerPhone: entry.user.phone,
+            movieTitle: showtime.movie.title,
+            cinemaName: showtime.cinema.name,
+            showtime: `${showtime.startTime}, ${showtime.date.toLocaleDateString('id-ID', {
+                day: 'numeric',
+                month: 'short',
+                year: 'numeric'
+            })}`,
+            seats: offer.seatCodes,
+            totalAmount: 0,
+            timestamp: this.clock.now(),
+            additionalData: {
+                waitlistEntryId: entry.id,
+                expiresAt: offer.expiresAt.toISOString()
+            }
+        });
+    }
+
+    private isActive(entry: WaitlistEntry): boolean {
+        return entry.status === WaitlistStatus.WAITING || entry.status === WaitlistStatus.OFFERED;
+    }
+
+    private findEntry(entryId: string): WaitlistEntry | undefined {
+        for (const entries of this.entries.values()) {
+            const entry = entries.find(candidate => candidate.id === entryId);
+            if (entry) return entry;
+        }
+        return undefined;
+    }
+
+    private findOfferForEntry(entryId: string): WaitlistOffer | undefined {
+        return this.getOffers(WaitlistStatus.OFFERED).find(offer => offer.entryId === entryId);
+    }
+
+    private nextId(prefix: string): string {
+        this.sequence++;
+        return `${prefix}-${String(this.sequence).padStart(4, '0')}`;
+    }
+}
@@ -17,13 +17,36 @@ import { Cinema, Studio, StudioType, CinemaImpl, StudioImpl } from '../models/Ci
 import { Showtime, ShowtimeImpl } from '../models/Showtime';
 import { Seat, SeatImpl, SeatType, SeatStatus } from '../models/Seat';
 import { User, UserImpl, MembershipType } from '../models/User';
+import { SeatMapDefinition } from '../models/SeatMapDefinition';
 import { Booking, ConcreteBookingBuilder, BookingStatus as BookingStatusEnum } from '../booking/BookingBuilder';
+import { VoucherError, VoucherService } from '../booking/Voucher';
+import { InsufficientPointsError, LoyaltyLedger } from '../booking/LoyaltyPoints';
+import { MembershipTierEngine } from '../booking/MembershipTier';
+import { BaseBookingRepository } from '../booking/BookingRepository';
+import { BookingContext } from '../booking/BookingStatus';
 import { TicketType } from '../ticket/TicketFactory';
+import { SeatMap } from '../seat/SeatMap';
+import { AccessibleSeatingPolicy } from '../seat/AccessibleSeating';
+import { SeatChangeEventBus, SeatChangeType } from '../seat/SeatChangeEvents';
+import { DayInfo, HolidayCalendar } from '../pricing/HolidayCalendar';
+import { PricingEngine, occupancyRateOf, showtimePricingContext } from '../pricing/PricingEngine';
+import { Money, formatRupiah } from '../pricing/Money';
+import { AuditOutcome, AuditTrail } from '../utils/AuditTrail';
+import { PaymentMethod } from '../payment/PaymentGateway';
+import { BankCode, EWalletType } from '../payment/PaymentMethod';
+import { PaymentMethodType, PaymentProfile } from '../payment/PaymentTarget';
 
 // =============================================================================
 // SUBSYSTEM 1: MovieService
 // =============================================================================
 
+// Jadwal tayang beserta kategori hari (weekday/weekend/holiday/peak) dan harga
+export interface ShowtimeListing {
+    showtime: Showtime;
+    day: DayInfo;
+    price: number;
+}
+
 // Subsystem: MovieService
 // Mengelola data film dan jadwal tayang
 export class MovieService {
@@ -73,6 +96,27 @@ export class MovieService {
         return this.showtimes.get(movieId) || [];
     }
 
+    // Jadwal tayang film beserta klasifikasi hari dari kalender libur, urut waktu tayang
+    // Harga dihitung pricing engine default (termasuk tarif kategori hari)
+    getShowtimeListings(movieId: string, calendar: HolidayCalendar = HolidayCalendar.getDefault()): ShowtimeListing[] {
+        const showtimes = this.getShowtimes(movieId);
+        const years = new Set(showtimes.map(showtime => showtime.getStartDateTime().getFullYear()));
+        for (const year of years) {
+            if (!calendar.isYearCovered(year)) {
+                this.log(`PERINGATAN: kalender libur belum memuat tahun ${year}, hanya hari libur tahunan (MM-DD) yang dikenali`);
+            }
+        }
+
+        const engine = PricingEngine.getDefault();
+        return showtimes
+            .map(showtime => ({
+                showtime,
+                day: calendar.describe(showtime.getStartDateTime()),
+                price: engine.calculate(showtimePricingContext(showtime))
+            }))
+            .sort((a, b) => a.showtime.getStartDateTime().getTime() - b.showtime.getStartDateTime().getTime());
+    }
+
     // Menambahkan jadwal tayang
     addShowtime(showtime: Showtime): void {
         const movieId = showtime.movie.id;
@@ -91,36 +135,81 @@ export class MovieService {
 // SUBSYSTEM 2: SeatService
 // =============================================================================
 
+// Alasan konflik reservasi kursi
+export enum ReservationConflictReason {
+    STALE_VERSION = 'STALE_VERSION',
+    SEAT_UNAVAILABLE = 'SEAT_UNAVAILABLE'
+}
+
+// Error ketika reservasi kursi ditolak karena bentrok dengan pembeli lain
+export class SeatReservationConflictError extends Error {
+    constructor(
+        public readonly showtimeId: string,
+        public readonly reason: ReservationConflictReason,
+        public readonly expectedVersion: number,
+        public readonly actualVersion: number,
+        public readonly conflictingSeats: string[] = []
+    ) {
+        super(reason === ReservationConflictReason.STALE_VERSION
+            ? `Versi kursi ${showtimeId} sudah berubah (diharapkan ${expectedVersion}, sekarang ${actualVersion})`
+            : `Kursi ${conflictingSeats.join(', ')} tidak tersedia`);
+        this.name = 'SeatReservationConflictError';
+    }
+}
+
+// Reservasi kursi all-or-nothing untuk satu showtime
+export interface SeatReservation {
+    id: string;
+    showtimeId: string;
+    seatCodes: string[];
+    version: number; // Versi showtime setelah reservasi dibuat
+}
+
 // Subsystem: SeatService
-// Mengelola ketersediaan dan pemilihan kursi
+// Mengelola ketersediaan dan pemilihan kursi; kursi yang dilepas dipublikasikan ke event bus
+// (misalnya agar waitlist dapat menawarkannya)
 export class SeatService {
     private seatLayouts: Map<string, Seat[][]> = new Map();
     private selectedSeats: Map<string, Set<string>> = new Map(); // showtimeId -> set of seat codes
+    private versions: Map<string, number> = new Map(); // showtimeId -> versi data kursi
+    private reservations: Map<string, SeatReservation> = new Map();
+    private seatMaps: Map<string, SeatMap> = new Map();
+
+    constructor(private eventBus: SeatChangeEventBus = new SeatChangeEventBus()) { }
+
+    getEventBus(): SeatChangeEventBus {
+        return this.eventBus;
+    }
 
     // Inisialisasi layout kursi untuk showtime
-    initializeSeatLayout(showtimeId: string, rows: number, seatsPerRow: number): void {
+    // Jika seatMap diberikan, kursi dibangun dari definisi tersebut (lorong, celah, label baris kustom)
+    initializeSeatLayout(showtimeId: string, rows: number, seatsPerRow: number, seatMap?: SeatMapDefinition): void {
         if (this.seatLayouts.has(showtimeId)) return;
-        const layout: Seat[][] = [];
-        const rowLabels = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
-
-        for (let r = 0; r < rows; r++) {
-            const row: Seat[] = [];
-            for (let s = 1; s <= seatsPerRow; s++) {
-                const rowLabel = rowLabels[r];
-                row.push(new SeatImpl(
-                    `${showtimeId}-${rowLabel}${s}`,
-                    rowLabel,
-                    s,
-                    SeatType.REGULAR,
-                    SeatStatus.AVAILABLE,
-                    50000
-                ));
-            }
-            layout.push(row);
-        }
+        const map = seatMap
+            ? SeatMap.fromDefinition(seatMap)
+            : SeatMap.rectangular(`${showtimeId}-MAP`, `Layout ${showtimeId}`, rows, seatsPerRow);
+        const layout = map.createSeats(showtimeId, () => 50000);
 
         this.seatLayouts.set(showtimeId, layout);
+        this.seatMaps.set(showtimeId, map);
         this.selectedSeats.set(showtimeId, new Set());
+        this.versions.set(showtimeId, 0);
+    }
+
+    // Mendapatkan seat map yang dipakai showtime
+    getSeatMap(showtimeId: string): SeatMap | null {
+        return this.seatMaps.get(showtimeId) || null;
+    }
+
+    // Mendapatkan versi data kursi (naik setiap kali ada perubahan status kursi)
+    getVersion(showtimeId: string): number {
+        return this.versions.get(showtimeId) || 0;
+    }
+
+    private bumpVersion(showtimeId: string): number {
+        const next = this.getVersion(showtimeId) + 1;
+        this.versions.set(showtimeId, next);
+        return next;
     }
 
     // Mendapatkan semua kursi untuk showtime
@@ -147,25 +236,40 @@ export class SeatService {
         return null;
     }
 
-    // Memilih kursi
+    // Mendapatkan kode kursi beserta pasangan couple-nya
+    getSeatUnitCodes(showtimeId: string, seatCode: string): string[] {
+        const partner = this.seatMaps.get(showtimeId)?.getCouplePartner(seatCode);
+        return partner ? [seatCode, partner.code] : [seatCode];
+    }
+
+    // Memilih kursi (kursi couple dipilih bersama pasangannya)
     selectSeat(showtimeId: string, seatCode: string): boolean {
-        const seat = this.getSeat(showtimeId, seatCode);
-        if (seat && seat.isAvailable()) {
-            (seat as SeatImpl).select();
-            this.selectedSeats.get(showtimeId)?.add(seatCode);
-            this.log(`Kursi ${seatCode} dipilih`);
+        const seats = this.getSeatUnitCodes(showtimeId, seatCode).map(code => this.getSeat(showtimeId, code));
+        if (seats.every(seat => seat && seat.isAvailable())) {
+            for (const seat of seats as Seat[]) {
+                (seat as SeatImpl).select();
+                this.selectedSeats.get(showtimeId)?.add(seat.getCode());
+            }
+            this.bumpVersion(showtimeId);
+            this.log(`Kursi ${seats.map(seat => seat!.getCode()).join(' & ')} dipilih`);
             return true;
         }
         this.log(`Gagal memilih kursi ${seatCode}`);
         return false;
     }
 
-    // Membatalkan pilihan kursi
+    // Membatalkan pilihan kursi (kursi couple dibatalkan bersama pasangannya)
     deselectSeat(showtimeId: string, seatCode: string): boolean {
         const seat = this.getSeat(showtimeId, seatCode);
         if (seat && seat.status === SeatStatus.SELECTED) {
-            (seat as SeatImpl).deselect();
-            this.selectedSeats.get(showtimeId)?.delete(seatCode);
+            for (const code of this.getSeatUnitCodes(showtimeId, seatCode)) {
+                const unitSeat = this.getSeat(showtimeId, code);
+                if (unitSeat && unitSeat.status === SeatStatus.SELECTED) {
+                    (unitSeat as SeatImpl).deselect();
+                    this.selectedSeats.get(showtimeId)?.delete(code);
+                }
+            }
+            this.bumpVersion(showtimeId);
             this.log(`Kursi ${seatCode} dibatalkan`);
             return true;
         }
@@ -186,10 +290,124 @@ export class SeatService {
         }
 
         this.selectedSeats.set(showtimeId, new Set());
+        if (bookedSeats.length > 0) {
+            this.bumpVersion(showtimeId);
+            this.recordOccupancy(showtimeId);
+        }
         this.log(`${bookedSeats.length} kursi berhasil di-booking`);
         return bookedSeats;
     }
 
+    // Mereservasi sekumpulan kursi secara atomik (all-or-nothing)
+    // Jika expectedVersion diberikan dan tidak sama dengan versi sekarang, reservasi ditolak
+    // sehingga penulis dengan data basi tidak dapat menimpa perubahan pembeli lain.
+    reserveSeats(showtimeId: string, seatCodes: string[], expectedVersion?: number): SeatReservation {
+        const currentVersion = this.getVersion(showtimeId);
+        if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+            this.log(`Reservasi ditolak: versi ${expectedVersion} sudah basi (sekarang ${currentVersion})`);
+            throw new SeatReservationConflictError(
+                showtimeId, ReservationConflictReason.STALE_VERSION, expectedVersion, currentVersion
+            );
+        }
+
+        // Validasi seluruh kursi sebelum mengubah apa pun (kursi couple selalu bersama pasangannya)
+        const codes = Array.from(new Set(seatCodes.flatMap(code => this.getSeatUnitCodes(showtimeId, code))));
+        const unavailable = codes.filter(code => !this.getSeat(showtimeId, code)?.isAvailable());
+        if (codes.length === 0 || unavailable.length > 0) {
+            this.log(`Reservasi ditolak: kursi ${unavailable.join(', ')} tidak tersedia`);
+            throw new SeatReservationConflictError(
+                showtimeId, ReservationConflictReason.SEAT_UNAVAILABLE,
+                expectedVersion ?? currentVersion, currentVersion, unavailable
+            );
+        }
+
+        for (const code of codes) {
+            (this.getSeat(showtimeId, code) as SeatImpl).select();
+        }
+
+        const reservation: SeatReservation = {
+            id: this.generateReservationId(),
+            showtimeId,
+            seatCodes: codes,
+            version: this.bumpVersion(showtimeId)
+        };
+        this.reservations.set(reservation.id, reservation);
+        this.log(`Reservasi ${reservation.id}: ${codes.join(', ')} (versi ${reservation.version})`);
+        return reservation;
+    }
+
+    // Mem-booking kursi dari reservasi
+    commitReservation(reservationId: string): Seat[] {
+        const reservation = this.reservations.get(reservationId);
+        if (!reservation) {
+            throw new Error(`Reservasi ${reservationId} tidak ditemukan`);
+        }
+
+        const bookedSeats = reservation.seatCodes
+            .map(code => this.getSeat(reservation.showtimeId, code))
+            .filter((seat): seat is Seat => seat !== null);
+        bookedSeats.forEach(seat => (seat as SeatImpl).book());
+
+        this.reservations.delete(reservationId);
+        this.bumpVersion(reservation.showtimeId);
+        this.recordOccupancy(reservation.showtimeId);
+        this.log(`Reservasi ${reservationId}: ${bookedSeats.length} kursi berhasil di-booking`);
+        return bookedSeats;
+    }
+
+    // Keterisian dipakai aturan surge pada harga tiket berikutnya
+    private recordOccupancy(showtimeId: string): void {
+        PricingEngine.getDefault().recordOccupancy(showtimeId, occupancyRateOf(this.getSeats(showtimeId).flat()));
+    }
+
+    // Melepas reservasi, seluruh kursi kembali AVAILABLE
+    releaseReservation(reservationId: string): boolean {
+        const reservation = this.reservations.get(reservationId);
+        if (!reservation) return false;
+
+        for (const code of reservation.seatCodes) {
+            const seat = this.getSeat(reservation.showtimeId, code);
+            if (seat) (seat as SeatImpl).deselect();
+        }
+
+        this.reservations.delete(reservationId);
+        this.bumpVersion(reservation.showtimeId);
+        this.log(`Reservasi ${reservationId} dilepas`);
+        return true;
+    }
+
+    // Melepas kursi yang sudah di-booking (misalnya booking dibatalkan); kursi couple ikut pasangannya
+    releaseBookedSeats(showtimeId: string, seatCodes: string[]): Seat[] {
+        const codes = Array.from(new Set(seatCodes.flatMap(code => this.getSeatUnitCodes(showtimeId, code))));
+        const released = codes
+            .map(code => this.getSeat(showtimeId, code))
+            .filter((seat): seat is Seat => seat !== null && seat.status === SeatStatus.BOOKED);
+        if (released.length === 0) return [];
+
+        released.forEach(seat => (seat as SeatImpl).status = SeatStatus.AVAILABLE);
+        this.bumpVersion(showtimeId);
+        this.recordOccupancy(showtimeId);
+        this.log(`Kursi ${released.map(seat => seat.getCode()).join(', ')} dilepas`);
+        this.eventBus.publish({
+            type: SeatChangeType.RELEASED,
+            showtimeId,
+            seatCodes: released.map(seat => seat.getCode()),
+            occurredAt: new Date()
+        });
+        return released;
+    }
+
+    // Mendapatkan reservasi aktif
+    getReservation(reservationId: string): SeatReservation | null {
+        return this.reservations.get(reservationId) || null;
+    }
+
+    private generateReservationId(): string {
+        const timestamp = Date.now().toString(36);
+        const random = Math.random().toString(36).substring(2, 8);
+        return `RSV-${timestamp}-${random}`.toUpperCase();
+    }
+
     // Log aktivitas
     log(message: string): void {
         console.log(`[SeatService] ${message}`);
@@ -213,7 +431,7 @@ export enum PaymentStatus {
 export interface PaymentResult {
     transactionId: string;
     status: PaymentStatus;
-    amount: number;
+    amount: Money;
     paidAt?: Date;
     message: string;
 }
@@ -224,8 +442,8 @@ export class PaymentService {
     private transactions: Map<string, PaymentResult> = new Map();
 
     // Memproses pembayaran
-    processPayment(bookingId: string, amount: number, paymentMethod: string): PaymentResult {
-        this.log(`Memproses pembayaran ${bookingId} sebesar Rp ${amount.toLocaleString('id-ID')}`);
+    processPayment(bookingId: string, amount: Money, paymentMethod: string): PaymentResult {
+        this.log(`Memproses pembayaran ${bookingId} sebesar ${formatRupiah(amount)}`);
 
         // Simulasi proses pembayaran
         const transactionId = this.generateTransactionId();
@@ -254,16 +472,25 @@ export class PaymentService {
         return this.transactions.get(transactionId) || null;
     }
 
-    // Memproses refund
-    refund(transactionId: string): PaymentResult | null {
+    // Memproses refund dan mencatatnya ke audit trail
+    refund(transactionId: string, actor: string = 'SYSTEM', showtimeId?: string): PaymentResult | null {
         const original = this.transactions.get(transactionId);
-        if (original && original.status === PaymentStatus.SUCCESS) {
+        const refunded = original !== undefined && original.status === PaymentStatus.SUCCESS;
+        if (refunded) {
             original.status = PaymentStatus.REFUNDED;
             original.message = 'Pembayaran telah di-refund';
             this.log(`Transaksi ${transactionId} di-refund`);
-            return original;
         }
-        return null;
+
+        AuditTrail.record({
+            actor,
+            action: 'payment.refund',
+            resource: `transaction:${transactionId}`,
+            outcome: refunded ? AuditOutcome.SUCCESS : AuditOutcome.FAILURE,
+            showtimeId,
+            details: { status: original?.status ?? null, amount: original?.amount.toNumber() ?? null }
+        });
+        return refunded ? original : null;
     }
 
     private generateTransactionId(): string {
@@ -311,7 +538,7 @@ export class NotificationService {
     - Tanggal: ${booking.showtime?.date.toLocaleDateString('id-ID')}
     - Jam: ${booking.showtime?.startTime}
     - Jumlah Tiket: ${booking.tickets.length}
-    - Total: Rp ${booking.getTotalPrice().toLocaleString('id-ID')}
+    - Total: ${formatRupiah(booking.getTotalPrice())}
     
     Silakan tunjukkan e-ticket saat masuk studio.
     
@@ -345,7 +572,7 @@ export class NotificationService {
     ══════════════════════════════════════════════════════════════
     ID Transaksi: ${transactionId}
     Booking: ${booking.id}
-    Total: Rp ${booking.getTotalPrice().toLocaleString('id-ID')}
+    Total: ${formatRupiah(booking.getTotalPrice())}
     ══════════════════════════════════════════════════════════════
     `);
     }
@@ -370,8 +597,29 @@ export interface BookingResult {
     booking?: Booking;
     paymentResult?: PaymentResult;
     message: string;
+    pointsRedeemed?: number;      // Poin loyalty yang dipakai sebagai bagian pembayaran
+    pointsEarned?: number;
+    warnings?: string[];          // Pembukuan setelah pembayaran yang gagal (booking tetap berhasil)
+}
+
+// Opsi tambahan completeBooking
+export interface CompleteBookingOptions {
+    // Versi kursi yang dilihat pengguna saat memilih; reservasi ditolak jika sudah berubah
+    expectedVersion?: number;
+    // Profil alat bayar untuk promo pembayaran (default diturunkan dari paymentMethod)
+    paymentProfile?: PaymentProfile | null;
 }
 
+// Profil pembayaran untuk metode payment gateway yang diterima facade
+const GATEWAY_PAYMENT_PROFILES: Record<string, PaymentProfile> = {
+    [PaymentMethod.GOPAY]: { method: PaymentMethodType.E_WALLET, walletType: EWalletType.GOPAY },
+    [PaymentMethod.OVO]: { method: PaymentMethodType.E_WALLET, walletType: EWalletType.OVO },
+    [PaymentMethod.BANK_BCA]: { method: PaymentMethodType.BANK_TRANSFER, bankCode: BankCode.BCA },
+    [PaymentMethod.BANK_BNI]: { method: PaymentMethodType.BANK_TRANSFER, bankCode: BankCode.BNI },
+    [PaymentMethod.BANK_BRI]: { method: PaymentMethodType.BANK_TRANSFER, bankCode: BankCode.BRI },
+    [PaymentMethod.BANK_MANDIRI]: { method: PaymentMethodType.BANK_TRANSFER, bankCode: BankCode.MANDIRI }
+};
+
 // FACADE: CinemaBookingService
 // Menyediakan interface sederhana untuk keseluruhan proses booking
 export class CinemaBookingService {
@@ -379,13 +627,18 @@ export class CinemaBookingService {
     private seatService: SeatService;
     private paymentService: PaymentService;
     private notificationService: NotificationService;
+    private accessibilityPolicy: AccessibleSeatingPolicy;
 
-    constructor() {
+    constructor(
+        accessibilityPolicy: AccessibleSeatingPolicy = new AccessibleSeatingPolicy(),
+        seatEvents: SeatChangeEventBus = new SeatChangeEventBus()
+    ) {
         // Inisialisasi semua subsystem
         this.movieService = new MovieService();
-        this.seatService = new SeatService();
+        this.seatService = new SeatService(seatEvents);
         this.paymentService = new PaymentService();
         this.notificationService = new NotificationService();
+        this.accessibilityPolicy = accessibilityPolicy;
 
         console.log('[CinemaBookingService] Facade siap digunakan');
     }
@@ -398,7 +651,7 @@ export class CinemaBookingService {
     // 2. Cek ketersediaan kursi
     // 3. Pilih kursi
     // 4. Buat booking
-    // 5. Proses pembayaran
+    // 5. Proses pembayaran (opsional sebagian dengan poin loyalty)
     // 6. Kirim notifikasi
     completeBooking(
         user: User,
@@ -406,12 +659,18 @@ export class CinemaBookingService {
         showtime: Showtime,
         seatCodes: string[],
         ticketType: TicketType,
-        paymentMethod: string
+        paymentMethod: string,
+        voucherCode?: string,
+        pointsToRedeem?: number,
+        options: CompleteBookingOptions = {}
     ): BookingResult {
         console.log('\n═══════════════════════════════════════════════════════════════');
         console.log('  PROSES BOOKING DIMULAI');
         console.log('═══════════════════════════════════════════════════════════════\n');
 
+        // Reservasi aktif, voucher, dan poin yang sudah dipakai dikembalikan jika proses gagal di tengah jalan
+        let reservation: SeatReservation | null = null;
+        let booking: Booking | null = null;
         try {
             // Step 1: Validasi film
             this.movieService.log(`Memvalidasi film: ${showtime.movie.title}`);
@@ -426,26 +685,45 @@ export class CinemaBookingService {
             this.seatService.initializeSeatLayout(
                 showtimeId,
                 showtime.studio.rowCount,
-                showtime.studio.seatsPerRow
+                showtime.studio.seatsPerRow,
+                showtime.studio.seatMap
             );
 
             const availableSeats = this.seatService.getAvailableSeats(showtimeId);
             this.seatService.log(`Kursi tersedia: ${availableSeats.length}`);
 
-            // Step 3: Pilih kursi
-            const selectedSeats: Seat[] = [];
-            for (const code of seatCodes) {
-                if (this.seatService.selectSeat(showtimeId, code)) {
-                    const seat = this.seatService.getSeat(showtimeId, code);
-                    if (seat) selectedSeats.push(seat);
-                } else {
+            // Kursi aksesibel ditahan untuk pengguna kursi roda sampai dilepas ke penjualan umum
+            const seatMap = this.seatService.getSeatMap(showtimeId)!;
+            this.accessibilityPolicy.registerShowtime(showtimeId, showtime.getStartDateTime());
+            this.accessibilityPolicy.releaseIfDue(showtimeId, seatMap, code =>
+                availableSeats.some(seat => seat.getCode() === code)
+            );
+            const requestedCodes = seatCodes.flatMap(code => this.seatService.getSeatUnitCodes(showtimeId, code));
+            const accessibilityCheck = this.accessibilityPolicy.checkBooking(showtimeId, seatMap, requestedCodes, user);
+            if (!accessibilityCheck.allowed) {
+                return {
+                    success: false,
+                    message: accessibilityCheck.reasons.join('; ')
+                };
+            }
+
+            // Step 3: Reservasi kursi secara atomik, ditolak jika versi yang dilihat pengguna sudah basi
+            try {
+                reservation = this.seatService.reserveSeats(showtimeId, seatCodes, options.expectedVersion);
+            } catch (error) {
+                if (error instanceof SeatReservationConflictError) {
                     return {
                         success: false,
-                        message: `Kursi ${code} tidak tersedia`
+                        message: error.message
                     };
                 }
+                throw error;
             }
 
+            const selectedSeats = reservation.seatCodes
+                .map(code => this.seatService.getSeat(showtimeId, code))
+                .filter((seat): seat is Seat => seat !== null);
+
             // Step 4: Buat booking menggunakan Builder
             const builder = new ConcreteBookingBuilder();
             let builderChain = builder
@@ -453,25 +731,79 @@ export class CinemaBookingService {
                 .setUser(user)
                 .setShowtime(showtime);
 
+            // Kursi couple menghasilkan dua tiket (kedua penghuni) dengan harga pasangan dibebankan sekali
+            const ticketed = new Set<string>();
             for (const seat of selectedSeats) {
-                builderChain = builderChain.addSeat(seat, ticketType);
+                if (ticketed.has(seat.getCode())) continue;
+                ticketed.add(seat.getCode());
+
+                const [, partnerCode] = this.seatService.getSeatUnitCodes(showtimeId, seat.getCode());
+                const partner = partnerCode ? selectedSeats.find(s => s.getCode() === partnerCode) : undefined;
+                if (partner) {
+                    ticketed.add(partner.getCode());
+                    builderChain = builderChain.addCoupleSeats(seat, partner, ticketType);
+                } else {
+                    builderChain = builderChain.addSeat(seat, ticketType);
+                }
             }
 
-            const booking = builderChain.build();
+            if (voucherCode) {
+                builderChain = builderChain.applyVoucher(voucherCode);
+            }
+
+            try {
+                booking = builderChain.build();
+                // Promo dievaluasi dengan alat bayar yang dipakai; kuota voucher dipakai saat checkout
+                const paymentProfile = options.paymentProfile !== undefined
+                    ? options.paymentProfile
+                    : GATEWAY_PAYMENT_PROFILES[paymentMethod] ?? null;
+                booking.checkout(paymentProfile);
+            } catch (error) {
+                if (error instanceof VoucherError) {
+                    this.seatService.releaseReservation(reservation.id);
+                    return {
+                        success: false,
+                        message: error.message
+                    };
+                }
+                throw error;
+            }
             console.log(`[CinemaBookingService] Booking ${booking.id} dibuat`);
 
-            // Step 5: Proses pembayaran
+            // Step 5: Tukar poin loyalty (maksimal senilai total), sisanya dibayar dengan metode pembayaran
+            const loyalty = LoyaltyLedger.getDefault();
+            const total = booking.getTotalPrice();
+            let pointsRedeemed = 0;
+            let pointsPayment = Money.zero();
+            if (pointsToRedeem && pointsToRedeem > 0) {
+                pointsRedeemed = Math.min(pointsToRedeem, loyalty.pointsFor(total));
+                try {
+                    pointsPayment = loyalty.redeem(user.id, pointsRedeemed, booking.id).amount.min(total);
+                } catch (error) {
+                    if (error instanceof InsufficientPointsError) {
+                        this.seatService.releaseReservation(reservation.id);
+                        VoucherService.getDefault().reverse(booking.id);
+                        return {
+                            success: false,
+                            message: error.message
+                        };
+                    }
+                    throw error;
+                }
+            }
+            const cashAmount = total.subtract(pointsPayment);
+
             const paymentResult = this.paymentService.processPayment(
                 booking.id,
-                booking.getTotalPrice(),
+                cashAmount,
                 paymentMethod
             );
 
             if (paymentResult.status !== PaymentStatus.SUCCESS) {
-                // Rollback: kembalikan kursi
-                for (const code of seatCodes) {
-                    this.seatService.deselectSeat(showtimeId, code);
-                }
+                // Rollback: kembalikan seluruh kursi dalam reservasi, kuota voucher, dan poin
+                this.seatService.releaseReservation(reservation.id);
+                VoucherService.getDefault().reverse(booking.id);
+                loyalty.reverseRedemption(booking.id);
                 return {
                     success: false,
                     paymentResult,
@@ -479,13 +811,49 @@ export class CinemaBookingService {
                 };
             }
 
-            // Step 6: Finalisasi booking
-            this.seatService.bookSelectedSeats(showtimeId);
+            // Step 6: Finalisasi booking. Pembayaran sudah diterima, sehingga kegagalan pembukuan di
+            // bawah ini tidak membatalkan booking dan hanya dicatat sebagai peringatan.
+            this.seatService.commitReservation(reservation.id);
             booking.status = BookingStatusEnum.PAID;
+            const paidBooking = booking;
+            const warnings: string[] = [];
+            const settle = <T>(step: string, action: () => T): T | null => {
+                try {
+                    return action();
+                } catch (error) {
+                    const reason = error instanceof Error ? error.message : String(error);
+                    console.error(`[CinemaBookingService] ${step} gagal untuk booking ${paidBooking.id}: ${reason}`);
+                    warnings.push(`${step}: ${reason}`);
+                    return null;
+                }
+            };
+
+            // Nominal yang ditagih disimpan bersama booking agar tidak dihitung ulang
+            paidBooking.charges = {
+                breakdown: paidBooking.getPriceBreakdown(),
+                pointsRedeemed,
+                pointsAmount: pointsPayment,
+                cashAmount,
+                paymentMethod,
+                transactionId: paymentResult.transactionId,
+                paidAt: new Date()
+            };
+            const lifecycle = settle('Lifecycle booking', () => this.createPaidLifecycle(paidBooking, user, showtime));
+
+            // Poin didapat dari nominal yang dibayar (tanpa bagian yang dibayar dengan poin)
+            const accrual = settle('Akrual poin', () => loyalty.accrue(user.id, user.membership, paidBooking.id, cashAmount));
+            // Belanja dihitung untuk evaluasi tier berkala; evaluasi berjalan jika jadwalnya sudah tiba
+            const tiers = MembershipTierEngine.getDefault();
+            settle('Aktivitas tier', () => tiers.recordActivity(user, paidBooking.id, cashAmount));
+            settle('Evaluasi tier', () => tiers.runDue());
+            // Booking disimpan agar tetap tersedia setelah checkout selesai
+            settle('Penyimpanan booking', () => BaseBookingRepository.getDefault().save(paidBooking, lifecycle ?? undefined));
 
             // Step 7: Kirim notifikasi
-            this.notificationService.sendBookingConfirmation(user, booking);
-            this.notificationService.sendPaymentSuccess(user, booking, paymentResult.transactionId);
+            settle('Notifikasi', () => {
+                this.notificationService.sendBookingConfirmation(user, paidBooking);
+                this.notificationService.sendPaymentSuccess(user, paidBooking, paymentResult.transactionId);
+            });
 
             console.log('\n═══════════════════════════════════════════════════════════════');
             console.log('  BOOKING BERHASIL!');
@@ -495,11 +863,22 @@ export class CinemaBookingService {
                 success: true,
                 booking,
                 paymentResult,
-                message: 'Booking berhasil! E-ticket telah dikirim ke email Anda.'
+                message: 'Booking berhasil! E-ticket telah dikirim ke email Anda.',
+                pointsRedeemed,
+                pointsEarned: accrual?.points ?? 0,
+                ...(warnings.length > 0 ? { warnings } : {})
             };
 
         } catch (error) {
             console.error('[CinemaBookingService] Error:', error);
+            if (reservation) {
+                // Tidak berpengaruh jika reservasi sudah di-commit
+                this.seatService.releaseReservation(reservation.id);
+            }
+            if (booking) {
+                VoucherService.getDefault().reverse(booking.id);
+                LoyaltyLedger.getDefault().reverseRedemption(booking.id);
+            }
             return {
                 success: false,
                 message: error instanceof Error ? error.message : 'Terjadi kesalahan'
@@ -507,6 +886,29 @@ export class CinemaBookingService {
         }
     }
 
+    // Membalik pemakaian voucher, poin loyalty, dan aktivitas tier sebuah booking (idempoten)
+    private reverseBookingBenefits(bookingId: string): void {
+        VoucherService.getDefault().reverse(bookingId);
+        LoyaltyLedger.getDefault().reverseRedemption(bookingId);
+        LoyaltyLedger.getDefault().reverseAccrual(bookingId);
+        MembershipTierEngine.getDefault().reverseActivity(bookingId);
+    }
+
+    // Lifecycle booking yang sudah dibayar: total dibagi per kursi, transaksi dari payment gateway
+    private createPaidLifecycle(booking: Booking, user: User, showtime: Showtime): BookingContext {
+        const lifecycle = new BookingContext(user.name, showtime.movie.title, booking.id, {
+            userId: user.id,
+            showtimeId: showtime.id
+        });
+        booking.getTicketAllocations().forEach(({ ticket, amount }) =>
+            lifecycle.addSeat(ticket.seat.getCode(), amount.toNumber())
+        );
+        lifecycle.proceedToPayment();
+        lifecycle.pay(booking.charges!.breakdown.total.toNumber());
+        lifecycle.setTransactionId(booking.charges!.transactionId);
+        return lifecycle;
+    }
+
     // Method tambahan untuk operasi sederhana
 
     getAvailableMovies(): Movie[] {
@@ -521,17 +923,64 @@ export class CinemaBookingService {
         return this.movieService.getShowtimes(movieId);
     }
 
+    getShowtimeListingsForMovie(movieId: string, calendar?: HolidayCalendar): ShowtimeListing[] {
+        return this.movieService.getShowtimeListings(movieId, calendar);
+    }
+
+    addShowtime(showtime: Showtime): void {
+        this.movieService.addShowtime(showtime);
+    }
+
     getAvailableSeatsForShowtime(showtimeId: string): Seat[] {
         return this.seatService.getAvailableSeats(showtimeId);
     }
 
+    // Event perubahan kursi facade (misalnya kursi yang dilepas saat booking dibatalkan)
+    getSeatEventBus(): SeatChangeEventBus {
+        return this.seatService.getEventBus();
+    }
+
+    // Versi kursi saat pengguna melihat denah; diteruskan sebagai options.expectedVersion
+    getSeatVersion(showtimeId: string): number {
+        return this.seatService.getVersion(showtimeId);
+    }
+
+    // Riwayat booking pengguna dari repository default
+    getBookingsForUser(userId: string): Booking[] {
+        return BaseBookingRepository.getDefault().findByUser(userId).map(record => record.booking);
+    }
+
+    // Scheduler evaluasi tier member agar naik/turun tier berjalan walau tidak ada checkout baru
+    startMembershipScheduler(pollIntervalMs?: number): void {
+        MembershipTierEngine.getDefault().start(pollIntervalMs);
+    }
+
+    stopMembershipScheduler(): void {
+        MembershipTierEngine.getDefault().stop();
+    }
+
     // Membatalkan booking
     cancelBooking(booking: Booking, transactionId: string): boolean {
         if (booking.user) {
             // Refund pembayaran
-            const refundResult = this.paymentService.refund(transactionId);
+            const refundResult = this.paymentService.refund(transactionId, booking.user.id, booking.showtime?.id);
             if (refundResult) {
                 booking.status = BookingStatusEnum.CANCELLED;
+                if (booking.showtime) {
+                    this.seatService.releaseBookedSeats(
+                        booking.showtime.id,
+                        booking.tickets.map(ticket => ticket.seat.getCode())
+                    );
+                }
+                // Lifecycle tersimpan ikut di-refund (status dan audit), lalu voucher, poin, dan
+                // aktivitas tier booking ini dibalik sekali di sini
+                const repository = BaseBookingRepository.getDefault();
+                const lifecycle = repository.findById(booking.id)?.lifecycle ?? null;
+                if (lifecycle?.getState().canRefund()) {
+                    lifecycle.refund();
+                }
+                this.reverseBookingBenefits(booking.id);
+                repository.save(booking, lifecycle ?? undefined);
                 this.notificationService.sendCancellation(booking.user, booking);
                 console.log(`[CinemaBookingService] Booking ${booking.id} dibatalkan`);
                 return true;
@@ -1,7 +1,9 @@
+import { PriceBreakdown, PriceCalculator, PriceLineType, formatPriceLine } from '../pricing/PriceBreakdown';
+import { IDR, Money, RoundingMode, formatRupiah } from '../pricing/Money';
 
 export interface TicketComponent {
     getDescription(): string;
-    getPrice(): number;
+    getPrice(): Money;
     getDetails(): TicketDetails;
 }
 
@@ -9,14 +11,26 @@ export interface TicketComponent {
 export interface TicketDetails {
     baseDescription: string;
     addons: AddonDetail[];
-    basePrice: number;
-    totalPrice: number;
+    basePrice: Money;
+    totalPrice: Money;
 }
 
 export interface AddonDetail {
     name: string;
-    price: number;
+    price: Money;
     description: string;
+    category?: PriceLineType;     // Default ADDON; asuransi memakai INSURANCE (kategori pajak berbeda)
+}
+
+// Rincian harga tiket beserta add-on dari kalkulator harga terpadu
+export function getTicketPriceBreakdown(details: Pick<TicketDetails, 'baseDescription' | 'basePrice' | 'addons'>): PriceBreakdown {
+    const item = (addon: AddonDetail) => ({ label: addon.name, unitPrice: addon.price });
+    const isInsurance = (addon: AddonDetail) => addon.category === PriceLineType.INSURANCE;
+    return PriceCalculator.getDefault().calculate({
+        tickets: [{ label: details.baseDescription, unitPrice: details.basePrice }],
+        addons: details.addons.filter(addon => !isInsurance(addon)).map(item),
+        insurance: details.addons.filter(isInsurance).map(item)
+    });
 }
 
 // CONCRETE COMPONENT
@@ -25,7 +39,7 @@ export class BasicTicket implements TicketComponent {
     private movieTitle: string;
     private showtime: string;
     private seatCode: string;
-    private basePrice: number;
+    private basePrice: Money;
 
     constructor(
         movieTitle: string,
@@ -36,14 +50,15 @@ export class BasicTicket implements TicketComponent {
         this.movieTitle = movieTitle;
         this.showtime = showtime;
         this.seatCode = seatCode;
-        this.basePrice = basePrice;
+        // Harga dasar boleh berpecahan (misalnya hasil diskon), dibulatkan ke rupiah utuh
+        this.basePrice = Money.of(basePrice, IDR, RoundingMode.HALF_UP);
     }
 
     getDescription(): string {
         return `Tiket ${this.movieTitle} - ${this.showtime} - Kursi ${this.seatCode}`;
     }
 
-    getPrice(): number {
+    getPrice(): Money {
         return this.basePrice;
     }
 
@@ -52,7 +67,11 @@ export class BasicTicket implements TicketComponent {
             baseDescription: this.getDescription(),
             addons: [],
             basePrice: this.basePrice,
-            totalPrice: this.basePrice
+            totalPrice: getTicketPriceBreakdown({
+                baseDescription: this.getDescription(),
+                basePrice: this.basePrice,
+                addons: []
+            }).total
         };
     }
 }
@@ -71,7 +90,7 @@ export abstract class TicketDecorator implements TicketComponent {
         return this.wrappedTicket.getDescription();
     }
 
-    getPrice(): number {
+    getPrice(): Money {
         return this.wrappedTicket.getPrice();
     }
 
@@ -84,10 +103,11 @@ export abstract class TicketDecorator implements TicketComponent {
         details: TicketDetails,
         addon: AddonDetail
     ): TicketDetails {
+        const addons = [...details.addons, addon];
         return {
             ...details,
-            addons: [...details.addons, addon],
-            totalPrice: details.totalPrice + addon.price
+            addons,
+            totalPrice: getTicketPriceBreakdown({ ...details, addons }).total
         };
     }
 }
@@ -102,10 +122,10 @@ export enum SnackSize {
 
 export class SnackComboDecorator extends TicketDecorator {
     private size: SnackSize;
-    private prices: Record<SnackSize, number> = {
-        [SnackSize.REGULAR]: 35000,
-        [SnackSize.MEDIUM]: 50000,
-        [SnackSize.LARGE]: 65000
+    private prices: Record<SnackSize, Money> = {
+        [SnackSize.REGULAR]: Money.of(35000),
+        [SnackSize.MEDIUM]: Money.of(50000),
+        [SnackSize.LARGE]: Money.of(65000)
     };
 
     constructor(ticket: TicketComponent, size: SnackSize = SnackSize.REGULAR) {
@@ -117,8 +137,8 @@ export class SnackComboDecorator extends TicketDecorator {
         return `${this.wrappedTicket.getDescription()} + Snack Combo (${this.size})`;
     }
 
-    getPrice(): number {
-        return this.wrappedTicket.getPrice() + this.prices[this.size];
+    getPrice(): Money {
+        return this.wrappedTicket.getPrice().add(this.prices[this.size]);
     }
 
     getDetails(): TicketDetails {
@@ -157,8 +177,8 @@ export class InsuranceDecorator extends TicketDecorator {
         return `${this.wrappedTicket.getDescription()} + Asuransi Tiket`;
     }
 
-    getPrice(): number {
-        return this.wrappedTicket.getPrice() + this.getInsurancePrice();
+    getPrice(): Money {
+        return this.wrappedTicket.getPrice().add(this.getInsurancePrice());
     }
 
     getDetails(): TicketDetails {
@@ -166,16 +186,16 @@ export class InsuranceDecorator extends TicketDecorator {
         return this.addAddonToDetails(details, {
             name: 'Asuransi Tiket',
             price: this.getInsurancePrice(),
-            description: 'Refund 100% jika tidak dapat hadir (max 2 jam sebelum tayang)'
+            description: 'Refund 100% jika tidak dapat hadir (max 2 jam sebelum tayang)',
+            category: PriceLineType.INSURANCE
         });
     }
 
-    private getInsurancePrice(): number {
-        const basePrice = this.wrappedTicket.getDetails().basePrice;
-        let insurance = Math.round(basePrice * InsuranceDecorator.INSURANCE_RATE);
-        insurance = Math.max(insurance, InsuranceDecorator.MIN_INSURANCE);
-        insurance = Math.min(insurance, InsuranceDecorator.MAX_INSURANCE);
-        return insurance;
+    private getInsurancePrice(): Money {
+        return this.wrappedTicket.getDetails().basePrice
+            .multiply(InsuranceDecorator.INSURANCE_RATE, RoundingMode.HALF_UP)
+            .max(Money.of(InsuranceDecorator.MIN_INSURANCE))
+            .min(Money.of(InsuranceDecorator.MAX_INSURANCE));
     }
 }
 
@@ -189,9 +209,9 @@ export enum ParkingType {
 export class ParkingDecorator extends TicketDecorator {
     private parkingType: ParkingType;
     private duration: number; // dalam jam
-    private prices: Record<ParkingType, number> = {
-        [ParkingType.CAR]: 15000,
-        [ParkingType.MOTORCYCLE]: 5000
+    private prices: Record<ParkingType, Money> = {
+        [ParkingType.CAR]: Money.of(15000),
+        [ParkingType.MOTORCYCLE]: Money.of(5000)
     };
 
     constructor(
@@ -209,8 +229,8 @@ export class ParkingDecorator extends TicketDecorator {
         return `${this.wrappedTicket.getDescription()} + Voucher Parkir ${vehicleType}`;
     }
 
-    getPrice(): number {
-        return this.wrappedTicket.getPrice() + this.prices[this.parkingType];
+    getPrice(): Money {
+        return this.wrappedTicket.getPrice().add(this.prices[this.parkingType]);
     }
 
     getDetails(): TicketDetails {
@@ -235,11 +255,11 @@ export enum SouvenirType {
 
 export class SouvenirDecorator extends TicketDecorator {
     private souvenirType: SouvenirType;
-    private prices: Record<SouvenirType, number> = {
-        [SouvenirType.KEYCHAIN]: 25000,
-        [SouvenirType.POSTER]: 35000,
-        [SouvenirType.TSHIRT]: 150000,
-        [SouvenirType.FIGURINE]: 250000
+    private prices: Record<SouvenirType, Money> = {
+        [SouvenirType.KEYCHAIN]: Money.of(25000),
+        [SouvenirType.POSTER]: Money.of(35000),
+        [SouvenirType.TSHIRT]: Money.of(150000),
+        [SouvenirType.FIGURINE]: Money.of(250000)
     };
 
     constructor(ticket: TicketComponent, souvenirType: SouvenirType) {
@@ -251,8 +271,8 @@ export class SouvenirDecorator extends TicketDecorator {
         return `${this.wrappedTicket.getDescription()} + ${this.getSouvenirName()}`;
     }
 
-    getPrice(): number {
-        return this.wrappedTicket.getPrice() + this.prices[this.souvenirType];
+    getPrice(): Money {
+        return this.wrappedTicket.getPrice().add(this.prices[this.souvenirType]);
     }
 
     getDetails(): TicketDetails {
@@ -288,7 +308,7 @@ export class SouvenirDecorator extends TicketDecorator {
 // CONCRETE DECORATOR 5: PremiumSeatDecorator
 // Upgrade kursi ke premium (recliner, blanket, etc)
 export class PremiumSeatDecorator extends TicketDecorator {
-    private static readonly UPGRADE_FEE = 50000;
+    private static readonly UPGRADE_FEE = Money.of(50000);
 
     constructor(ticket: TicketComponent) {
         super(ticket);
@@ -298,8 +318,8 @@ export class PremiumSeatDecorator extends TicketDecorator {
         return `${this.wrappedTicket.getDescription()} [PREMIUM SEAT]`;
     }
 
-    getPrice(): number {
-        return this.wrappedTicket.getPrice() + PremiumSeatDecorator.UPGRADE_FEE;
+    getPrice(): Money {
+        return this.wrappedTicket.getPrice().add(PremiumSeatDecorator.UPGRADE_FEE);
     }
 
     getDetails(): TicketDetails {
@@ -325,7 +345,7 @@ export class TicketDisplay {
 ║ ${details.baseDescription.padEnd(60)}║
 ╠══════════════════════════════════════════════════════════════╣
 ║ HARGA DASAR                                                  ║
-║   Tiket: Rp ${details.basePrice.toLocaleString('id-ID').padEnd(48)}║`;
+║   Tiket: ${formatRupiah(details.basePrice).padEnd(51)}║`;
 
         if (details.addons.length > 0) {
             output += `
@@ -334,14 +354,27 @@ export class TicketDisplay {
 
             for (const addon of details.addons) {
                 output += `
-║   ${addon.name.padEnd(39)} Rp ${addon.price.toLocaleString('id-ID').padEnd(12)}║
+║   ${addon.name.padEnd(39)} ${formatRupiah(addon.price).padEnd(15)}║
 ║     └─ ${addon.description.substring(0, 50).padEnd(52)}║`;
             }
         }
 
+        // Pajak, biaya, dan pembulatan dari rincian harga
+        const extraLines = getTicketPriceBreakdown(details).lines
+            .filter(line => line.type === PriceLineType.TAX || line.type === PriceLineType.ROUNDING);
+        if (extraLines.length > 0) {
+            output += `
+╠══════════════════════════════════════════════════════════════╣`;
+            for (const line of extraLines) {
+                const { label, value } = formatPriceLine(line);
+                output += `
+║   ${label.padEnd(31)} ${value.padEnd(23)}║`;
+            }
+        }
+
         output += `
 ╠══════════════════════════════════════════════════════════════╣
-║ TOTAL: Rp ${details.totalPrice.toLocaleString('id-ID').padEnd(50)}║
+║ TOTAL: ${formatRupiah(details.totalPrice).padEnd(53)}║
 ╚══════════════════════════════════════════════════════════════╝`;
 
         return output;
@@ -2,6 +2,10 @@
 
 import { Showtime } from '../models/Showtime';
 import { Seat, SeatType } from '../models/Seat';
+import { SeatZone } from '../models/SeatMapDefinition';
+import { PricingEngine, showtimePricingContext } from '../pricing/PricingEngine';
+import { Money, formatRupiah } from '../pricing/Money';
+import { SeatMap } from '../seat/SeatMap';
 
 // Tipe tiket yang tersedia di bioskop
 export enum TicketType {
@@ -17,14 +21,34 @@ export interface Ticket {
     type: TicketType;
     showtime: Showtime;
     seat: Seat;
-    price: number;
+    price: Money;
 
-    getPrice(): number;
+    getPrice(): Money;
     getDescription(): string;
     getSeatType(): SeatType;
     printTicket(): string;
 }
 
+// Zona kursi dari seat map studio (studio tanpa seat map memakai layout persegi panjang)
+function seatZone(showtime: Showtime, seat: Seat): SeatZone | undefined {
+    const studio = showtime.studio;
+    const seatMap = studio.seatMap
+        ? SeatMap.fromDefinition(studio.seatMap)
+        : SeatMap.rectangular(`${studio.id}-MAP`, studio.name, studio.rowCount, studio.seatsPerRow);
+    return seatMap.getPosition(seat.getCode())?.zone;
+}
+
+// Harga tiket dari pricing engine default: konteks yang sama dengan harga kursi ditambah tipe tiket
+// Tiket kursi couple sudah berharga satu pasangan (aturan tipe kursi)
+function calculateTicketPrice(showtime: Showtime, seat: Seat, ticketType: TicketType): Money {
+    return Money.of(PricingEngine.getDefault().calculate({
+        ...showtimePricingContext(showtime),
+        seatType: seat.type,
+        zone: seatZone(showtime, seat),
+        ticketType
+    }));
+}
+
 // Base class untuk semua tiket
 // Menyediakan implementasi umum yang dapat di-override oleh subclass
 abstract class BaseTicket implements Ticket {
@@ -33,10 +57,10 @@ abstract class BaseTicket implements Ticket {
         public type: TicketType,
         public showtime: Showtime,
         public seat: Seat,
-        public price: number
+        public price: Money
     ) { }
 
-    abstract getPrice(): number;
+    abstract getPrice(): Money;
     abstract getDescription(): string;
     abstract getSeatType(): SeatType;
 
@@ -54,7 +78,7 @@ abstract class BaseTicket implements Ticket {
 ║ Tanggal      : ${this.showtime.date.toLocaleDateString('id-ID').padEnd(44)}║
 ║ Jam          : ${this.showtime.startTime.padEnd(44)}║
 ║ Kursi        : ${this.seat.getCode().padEnd(44)}║
-║ Harga        : Rp ${this.getPrice().toLocaleString('id-ID').padEnd(41)}║
+║ Harga        : ${formatRupiah(this.getPrice()).padEnd(44)}║
 ╚══════════════════════════════════════════════════════════════╝
     `.trim();
     }
@@ -64,10 +88,10 @@ abstract class BaseTicket implements Ticket {
 // Tiket biasa dengan harga standar
 export class RegularTicket extends BaseTicket {
     constructor(id: string, showtime: Showtime, seat: Seat) {
-        super(id, TicketType.REGULAR, showtime, seat, showtime.basePrice);
+        super(id, TicketType.REGULAR, showtime, seat, calculateTicketPrice(showtime, seat, TicketType.REGULAR));
     }
 
-    getPrice(): number {
+    getPrice(): Money {
         return this.price;
     }
 
@@ -83,14 +107,12 @@ export class RegularTicket extends BaseTicket {
 // Concrete Product: VIPTicket
 // Tiket VIP dengan harga premium dan kursi khusus
 export class VIPTicket extends BaseTicket {
-    private readonly VIP_MULTIPLIER = 1.5;
-
     constructor(id: string, showtime: Showtime, seat: Seat) {
-        super(id, TicketType.VIP, showtime, seat, showtime.basePrice);
+        super(id, TicketType.VIP, showtime, seat, calculateTicketPrice(showtime, seat, TicketType.VIP));
     }
 
-    getPrice(): number {
-        return Math.round(this.price * this.VIP_MULTIPLIER);
+    getPrice(): Money {
+        return this.price;
     }
 
     getDescription(): string {
@@ -105,14 +127,12 @@ export class VIPTicket extends BaseTicket {
 // Concrete Product: IMAXTicket
 // Tiket IMAX dengan pengalaman premium dan harga tertinggi
 export class IMAXTicket extends BaseTicket {
-    private readonly IMAX_MULTIPLIER = 2.0;
-
     constructor(id: string, showtime: Showtime, seat: Seat) {
-        super(id, TicketType.IMAX, showtime, seat, showtime.basePrice);
+        super(id, TicketType.IMAX, showtime, seat, calculateTicketPrice(showtime, seat, TicketType.IMAX));
     }
 
-    getPrice(): number {
-        return Math.round(this.price * this.IMAX_MULTIPLIER);
+    getPrice(): Money {
+        return this.price;
     }
 
     getDescription(): string {
@@ -124,6 +144,49 @@ export class IMAXTicket extends BaseTicket {
     }
 }
 
+// Tiket utama kursi couple: membungkus tiket biasa dan membebankan harga satu pasangan
+export class CoupleTicket extends BaseTicket {
+    constructor(private ticket: Ticket, public partnerSeat: Seat) {
+        super(ticket.id, ticket.type, ticket.showtime, ticket.seat, ticket.price);
+    }
+
+    // Harga satu pasangan (2 orang), dibebankan sekali pada tiket utama
+    getPrice(): Money {
+        return this.ticket.getPrice();
+    }
+
+    getDescription(): string {
+        return `${this.ticket.getDescription()} (Couple ${this.seat.getCode()} & ${this.partnerSeat.getCode()})`;
+    }
+
+    getSeatType(): SeatType {
+        return SeatType.COUPLE;
+    }
+}
+
+// Tiket pendamping kursi couple: diterbitkan untuk penghuni kedua, harga sudah termasuk di tiket utama
+export class CoupleCompanionTicket extends BaseTicket {
+    constructor(id: string, seat: Seat, private primary: CoupleTicket) {
+        super(id, primary.type, primary.showtime, seat, Money.zero());
+    }
+
+    getPrice(): Money {
+        return Money.zero();
+    }
+
+    getDescription(): string {
+        return `Pendamping Couple (tiket utama ${this.primary.id})`;
+    }
+
+    getSeatType(): SeatType {
+        return SeatType.COUPLE;
+    }
+
+    getPrimaryTicket(): CoupleTicket {
+        return this.primary;
+    }
+}
+
 // Abstract Factory: TicketFactory (Creator)
 // Mendefinisikan interface untuk pembuatan tiket, subclass akan menentukan jenis tiket yang dibuat
 export abstract class TicketFactory {
@@ -139,11 +202,19 @@ export abstract class TicketFactory {
         // Operasi tambahan setelah pembuatan tiket
         console.log(`[INFO] Tiket ${ticket.id} berhasil dibuat`);
         console.log(`[INFO] Tipe: ${ticket.getDescription()}`);
-        console.log(`[INFO] Harga: Rp ${ticket.getPrice().toLocaleString('id-ID')}`);
+        console.log(`[INFO] Harga: ${formatRupiah(ticket.getPrice())}`);
 
         return ticket;
     }
 
+    // Membuat tiket untuk sepasang kursi couple: satu tiket utama (harga pasangan)
+    // dan satu tiket pendamping agar kedua penghuni memiliki tiket
+    createCoupleTickets(showtime: Showtime, seat: Seat, partnerSeat: Seat): [CoupleTicket, CoupleCompanionTicket] {
+        const primary = new CoupleTicket(this.createTicket(showtime, seat), partnerSeat);
+        const companion = new CoupleCompanionTicket(this.generateTicketId(), partnerSeat, primary);
+        return [primary, companion];
+    }
+
     // Generate unique ticket ID
     protected generateTicketId(): string {
         const timestamp = Date.now().toString(36);
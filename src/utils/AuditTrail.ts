@@ -0,0 +1,214 @@
+// Audit Trail - Jejak Audit Bersama
+//
+// Proxy kursi, transisi state booking, dan refund pembayaran menulis record terstruktur
+// (aktor, aksi, resource, hasil, waktu) ke satu audit trail. Sink default adalah JsonlFileAuditSink
+// di direktori AUDIT_LOG_DIR (default ./logs/audit): file JSONL dirotasi berdasarkan ukuran sehingga
+// jejak tetap tersimpan setelah proses berhenti dan dapat diekspor untuk review kepatuhan.
+// InMemoryAuditSink (dibatasi jumlah entry) hanya dipakai test melalui AuditTrail.reset().
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Clock, SystemClock } from './Clock';
+
+// Hasil aksi yang diaudit
+export enum AuditOutcome {
+    SUCCESS = 'SUCCESS',
+    DENIED = 'DENIED',
+    FAILURE = 'FAILURE'
+}
+
+// Record audit
+export interface AuditRecord {
+    timestamp: Date;
+    actor: string;            // User id, 'GUEST', atau 'SYSTEM'
+    action: string;           // Contoh: seat.select, booking.transition, payment.refund
+    resource: string;         // Contoh: showtime:SHOW-1/seat:A1, booking:BKG-1
+    outcome: AuditOutcome;
+    showtimeId?: string;
+    details?: Record<string, unknown>;
+}
+
+// Data yang diisi pemanggil (timestamp diisi oleh AuditTrail)
+export type AuditEntry = Omit<AuditRecord, 'timestamp'>;
+
+// Filter query audit
+export interface AuditQuery {
+    actor?: string;
+    showtimeId?: string;
+    action?: string;
+    outcome?: AuditOutcome;
+    from?: Date;              // Inklusif
+    to?: Date;                // Eksklusif
+    limit?: number;           // Ambil N record terakhir
+}
+
+// Interface penyimpanan audit
+export interface AuditSink {
+    append(record: AuditRecord): void;
+    // Semua record, urut dari yang paling lama
+    readAll(): AuditRecord[];
+}
+
+// Menerapkan filter query pada daftar record
+export function filterAuditRecords(records: AuditRecord[], query: AuditQuery = {}): AuditRecord[] {
+    const matches = records.filter(record =>
+        (!query.actor || record.actor === query.actor) &&
+        (!query.showtimeId || record.showtimeId === query.showtimeId) &&
+        (!query.action || record.action === query.action) &&
+        (!query.outcome || record.outcome === query.outcome) &&
+        (!query.from || record.timestamp >= query.from) &&
+        (!query.to || record.timestamp < query.to)
+    );
+    if (query.limit === undefined) return matches;
+    return query.limit > 0 ? matches.slice(-query.limit) : [];
+}
+
+function toJsonLine(record: AuditRecord): string {
+    return JSON.stringify({ ...record, timestamp: record.timestamp.toISOString() });
+}
+
+function fromJsonLine(line: string): AuditRecord {
+    const raw = JSON.parse(line);
+    return { ...raw, timestamp: new Date(raw.timestamp) };
+}
+
+// Direktori sink file default
+const DEFAULT_AUDIT_DIRECTORY = path.join('logs', 'audit');
+
+// SINK IN-MEMORY (untuk test, dibatasi jumlah entry)
+export class InMemoryAuditSink implements AuditSink {
+    private records: AuditRecord[] = [];
+
+    constructor(private maxEntries: number = 1000) { }
+
+    append(record: AuditRecord): void {
+        this.records.push(record);
+        if (this.records.length > this.maxEntries) {
+            this.records.shift();
+        }
+    }
+
+    readAll(): AuditRecord[] {
+        return [...this.records];
+    }
+}
+
+// Konfigurasi sink file JSONL
+export interface JsonlFileAuditSinkOptions {
+    directory: string;
+    baseName?: string;        // Default 'audit' -> audit.jsonl, audit.1.jsonl, ...
+    maxFileBytes?: number;    // Default 1 MB
+    maxFiles?: number;        // Jumlah file rotasi yang disimpan (default 5)
+}
+
+// SINK FILE JSONL DENGAN ROTASI
+// File aktif selalu <baseName>.jsonl; ketika penuh, file digeser menjadi .1, .2, dst.
+// dan file yang melebihi maxFiles dihapus.
+export class JsonlFileAuditSink implements AuditSink {
+    private directory: string;
+    private baseName: string;
+    private maxFileBytes: number;
+    private maxFiles: number;
+
+    constructor(options: JsonlFileAuditSinkOptions) {
+        this.directory = options.directory;
+        this.baseName = options.baseName || 'audit';
+        this.maxFileBytes = options.maxFileBytes ?? 1024 * 1024;
+        this.maxFiles = options.maxFiles ?? 5;
+        fs.mkdirSync(this.directory, { recursive: true });
+    }
+
+    append(record: AuditRecord): void {
+        const line = toJsonLine(record) + '\n';
+        const active = this.filePath(0);
+
+        if (fs.existsSync(active) && fs.statSync(active).size + Buffer.byteLength(line) > this.maxFileBytes) {
+            this.rotate();
+        }
+        fs.appendFileSync(active, line, 'utf8');
+    }
+
+    readAll(): AuditRecord[] {
+        const records: AuditRecord[] = [];
+        // File rotasi tertua dibaca lebih dulu
+        for (let index = this.maxFiles - 1; index >= 0; index--) {
+            const file = this.filePath(index);
+            if (!fs.existsSync(file)) continue;
+            fs.readFileSync(file, 'utf8').split('\n').forEach((line, index) => {
+                if (line.trim().length === 0) return;
+                try {
+                    records.push(fromJsonLine(line));
+                } catch (error) {
+                    // Baris terpotong (misalnya proses berhenti saat menulis) dilewati agar sisa jejak tetap terbaca
+                    console.log(`[AuditTrail] Baris rusak dilewati: ${file}:${index + 1} (${(error as Error).message})`);
+                }
+            });
+        }
+        return records;
+    }
+
+    // Daftar file audit yang ada, dari yang aktif ke yang paling lama
+    getFiles(): string[] {
+        const files: string[] = [];
+        for (let index = 0; index < this.maxFiles; index++) {
+            if (fs.existsSync(this.filePath(index))) files.push(this.filePath(index));
+        }
+        return files;
+    }
+
+    private filePath(index: number): string {
+        const suffix = index === 0 ? '' : `.${index}`;
+        return path.join(this.directory, `${this.baseName}${suffix}.jsonl`);
+    }
+
+    private rotate(): void {
+        const oldest = this.filePath(this.maxFiles - 1);
+        if (fs.existsSync(oldest)) fs.unlinkSync(oldest);
+
+        for (let index = this.maxFiles - 2; index >= 0; index--) {
+            const source = this.filePath(index);
+            if (fs.existsSync(source)) fs.renameSync(source, this.filePath(index + 1));
+        }
+        console.log(`[AuditTrail] Rotated ${this.baseName}.jsonl`);
+    }
+}
+
+// AUDIT TRAIL (titik akses bersama)
+export class AuditTrail {
+    private static sink: AuditSink | null = null;
+    private static clock: Clock = new SystemClock();
+
+    // Mengganti penyimpanan audit (misalnya ke JsonlFileAuditSink)
+    static configure(sink: AuditSink, clock: Clock = new SystemClock()): void {
+        this.sink = sink;
+        this.clock = clock;
+    }
+
+    // Khusus test: kembali ke sink in-memory kosong agar test tidak menulis file
+    static reset(): void {
+        this.configure(new InMemoryAuditSink());
+    }
+
+    // Sink aktif; sink file default dibuat saat pertama dipakai
+    static getSink(): AuditSink {
+        if (!this.sink) {
+            this.sink = new JsonlFileAuditSink({ directory: process.env.AUDIT_LOG_DIR || DEFAULT_AUDIT_DIRECTORY });
+        }
+        return this.sink;
+    }
+
+    static record(entry: AuditEntry): AuditRecord {
+        const record: AuditRecord = { timestamp: this.clock.now(), ...entry };
+        this.getSink().append(record);
+        return record;
+    }
+
+    static query(query: AuditQuery = {}): AuditRecord[] {
+        return filterAuditRecords(this.getSink().readAll(), query);
+    }
+
+    // Ekspor hasil query dalam format JSONL untuk review kepatuhan
+    static export(query: AuditQuery = {}): string {
+        return this.query(query).map(toJsonLine).join('\n');
+    }
+}
@@ -0,0 +1,241 @@
+// Abstraksi Cache (CacheStore)
+// Proxy tidak lagi terikat pada Map privat: backend cache bisa berupa LRU in-memory atau
+// store eksternal (misalnya Redis) yang dipakai bersama oleh beberapa proses. Setiap entry
+// memiliki TTL sendiri dan waktu kadaluarsa dihitung dari Clock yang di-inject.
+
+import { Clock, SystemClock } from './Clock';
+
+// Statistik cache
+export interface CacheStoreStats {
+    entries: number;
+    keys: string[];
+    hits: number;
+    misses: number;
+    hitRatio: number;       // hits / (hits + misses), 0 jika belum ada akses
+    evictions: number;      // Entry yang dibuang karena batas ukuran
+    memoryBytes: number;    // Perkiraan memori yang dipakai entry
+}
+
+// Interface backend cache
+export interface CacheStore<T> {
+    get(key: string): T | undefined;
+    set(key: string, value: T, ttlMs: number): void;
+    delete(key: string): boolean;
+    keys(): string[];
+    clear(): void;
+    getStats(): CacheStoreStats;
+}
+
+// Perkiraan ukuran nilai dalam byte (2 byte per karakter JSON)
+export function estimateSize(value: unknown): number {
+    return (JSON.stringify(value) ?? '').length * 2;
+}
+
+function buildStats(keys: string[], hits: number, misses: number, evictions: number, memoryBytes: number): CacheStoreStats {
+    const total = hits + misses;
+    return {
+        entries: keys.length,
+        keys,
+        hits,
+        misses,
+        hitRatio: total === 0 ? 0 : hits / total,
+        evictions,
+        memoryBytes
+    };
+}
+
+// Konfigurasi LRU in-memory
+export interface InMemoryCacheOptions {
+    maxEntries?: number;        // Default 500
+    maxMemoryBytes?: number;    // Default tanpa batas
+    clock?: Clock;
+}
+
+interface LRUEntry<T> {
+    value: T;
+    expiresAt: number;
+    size: number;
+}
+
+// CACHE LRU IN-MEMORY
+// Map menjaga urutan penyisipan, sehingga entry yang baru diakses dipindah ke akhir
+// dan entry paling lama tidak dipakai selalu berada di awal.
+export class InMemoryLRUCacheStore<T> implements CacheStore<T> {
+    private entries: Map<string, LRUEntry<T>> = new Map();
+    private maxEntries: number;
+    private maxMemoryBytes: number;
+    private clock: Clock;
+    private memoryBytes = 0;
+    private hits = 0;
+    private misses = 0;
+    private evictions = 0;
+
+    constructor(options: InMemoryCacheOptions = {}) {
+        this.maxEntries = options.maxEntries ?? 500;
+        this.maxMemoryBytes = options.maxMemoryBytes ?? Infinity;
+        this.clock = options.clock || new SystemClock();
+    }
+
+    get(key: string): T | undefined {
+        const entry = this.entries.get(key);
+        if (!entry || this.isExpired(entry)) {
+            if (entry) this.remove(key, entry);
+            this.misses++;
+            return undefined;
+        }
+
+        // Tandai sebagai paling baru dipakai
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        this.hits++;
+        return entry.value;
+    }
+
+    set(key: string, value: T, ttlMs: number): void {
+        const existing = this.entries.get(key);
+        if (existing) this.remove(key, existing);
+
+        const entry: LRUEntry<T> = {
+            value,
+            expiresAt: this.clock.now().getTime() + ttlMs,
+            size: estimateSize(value)
+        };
+        this.entries.set(key, entry);
+        this.memoryBytes += entry.size;
+        this.evictIfNeeded();
+    }
+
+    delete(key: string): boolean {
+        const entry = this.entries.get(key);
+        if (!entry) return false;
+        this.remove(key, entry);
+        return true;
+    }
+
+    keys(): string[] {
+        this.purgeExpired();
+        return Array.from(this.entries.keys());
+    }
+
+    clear(): void {
+        this.entries.clear();
+        this.memoryBytes = 0;
+    }
+
+    getStats(): CacheStoreStats {
+        return buildStats(this.keys(), this.hits, this.misses, this.evictions, this.memoryBytes);
+    }
+
+    private isExpired(entry: LRUEntry<T>): boolean {
+        return this.clock.now().getTime() >= entry.expiresAt;
+    }
+
+    private remove(key: string, entry: LRUEntry<T>): void {
+        this.entries.delete(key);
+        this.memoryBytes -= entry.size;
+    }
+
+    private purgeExpired(): void {
+        for (const [key, entry] of Array.from(this.entries.entries())) {
+            if (this.isExpired(entry)) this.remove(key, entry);
+        }
+    }
+
+    // Buang entry paling lama tidak dipakai sampai batas jumlah dan memori terpenuhi
+    private evictIfNeeded(): void {
+        while (this.entries.size > this.maxEntries || (this.memoryBytes > this.maxMemoryBytes && this.entries.size > 1)) {
+            const [oldestKey, oldest] = this.entries.entries().next().value as [string, LRUEntry<T>];
+            this.remove(oldestKey, oldest);
+            this.evictions++;
+            console.log(`[Cache] Evicted ${oldestKey}`);
+        }
+    }
+}
+
+// Client store eksternal (kontrak minimal ala Redis: string key-value dengan TTL)
+export interface ExternalCacheClient {
+    get(key: string): string | null;
+    set(key: string, value: string, ttlMs: number): void;
+    del(key: string): void;
+    keys(): string[];
+}
+
+// Serialisasi nilai untuk store eksternal
+export interface CacheCodec<T> {
+    serialize(value: T): string;
+    deserialize(raw: string): T;
+}
+
+// ADAPTER STORE EKSTERNAL
+// Nilai disimpan sebagai string sehingga proses lain yang memakai client yang sama
+// melihat dan meng-invalidate entry yang sama.
+export class ExternalCacheStore<T> implements CacheStore<T> {
+    private hits = 0;
+    private misses = 0;
+
+    constructor(private client: ExternalCacheClient, private codec: CacheCodec<T>) { }
+
+    get(key: string): T | undefined {
+        const raw = this.client.get(key);
+        if (raw === null) {
+            this.misses++;
+            return undefined;
+        }
+        this.hits++;
+        return this.codec.deserialize(raw);
+    }
+
+    set(key: string, value: T, ttlMs: number): void {
+        this.client.set(key, this.codec.serialize(value), ttlMs);
+    }
+
+    delete(key: string): boolean {
+        const existed = this.client.get(key) !== null;
+        this.client.del(key);
+        return existed;
+    }
+
+    keys(): string[] {
+        return this.client.keys();
+    }
+
+    clear(): void {
+        this.client.keys().forEach(key => this.client.del(key));
+    }
+
+    // Eviction dikelola oleh store eksternal sehingga tidak terlihat dari sini
+    getStats(): CacheStoreStats {
+        const keys = this.keys();
+        const memoryBytes = keys.reduce((total, key) => total + (this.client.get(key)?.length ?? 0) * 2, 0);
+        return buildStats(keys, this.hits, this.misses, 0, memoryBytes);
+    }
+}
+
+// Stand-in lokal untuk client eksternal (dipakai untuk development dan pengujian)
+export class LocalCacheClient implements ExternalCacheClient {
+    private data: Map<string, { value: string; expiresAt: number }> = new Map();
+
+    constructor(private clock: Clock = new SystemClock()) { }
+
+    get(key: string): string | null {
+        const entry = this.data.get(key);
+        if (!entry) return null;
+        if (this.clock.now().getTime() >= entry.expiresAt) {
+            this.data.delete(key);
+            return null;
+        }
+        return entry.value;
+    }
+
+    set(key: string, value: string, ttlMs: number): void {
+        this.data.set(key, { value, expiresAt: this.clock.now().getTime() + ttlMs });
+    }
+
+    del(key: string): void {
+        this.data.delete(key);
+    }
+
+    keys(): string[] {
+        return Array.from(this.data.keys()).filter(key => this.get(key) !== null);
+    }
+}
@@ -0,0 +1,44 @@
+// Abstraksi Waktu (Clock)
+// Logika yang bergantung pada waktu (hold kursi, kadaluarsa, dll) mengambil waktu dari Clock
+// yang di-inject, sehingga perilakunya dapat disimulasikan dan diuji secara deterministik.
+
+// Interface Clock
+export interface Clock {
+    // Mendapatkan waktu saat ini
+    now(): Date;
+}
+
+// Clock default yang menggunakan waktu sistem
+export class SystemClock implements Clock {
+    now(): Date {
+        return new Date();
+    }
+}
+
+// Clock manual yang hanya bergerak ketika dimajukan secara eksplisit
+export class ManualClock implements Clock {
+    private current: Date;
+
+    constructor(start: Date = new Date()) {
+        this.current = new Date(start.getTime());
+    }
+
+    now(): Date {
+        return new Date(this.current.getTime());
+    }
+
+    // Memajukan waktu sebanyak milidetik tertentu
+    advance(ms: number): void {
+        this.current = new Date(this.current.getTime() + ms);
+    }
+
+    // Memajukan waktu sebanyak menit tertentu
+    advanceMinutes(minutes: number): void {
+        this.advance(minutes * 60 * 1000);
+    }
+
+    // Mengatur waktu ke tanggal tertentu
+    set(date: Date): void {
+        this.current = new Date(date.getTime());
+    }
+}
@@ -0,0 +1,111 @@
+// Rate Limiter - Token Bucket
+// Setiap key (misalnya user id) memiliki bucket berisi token yang terisi ulang secara konstan.
+// Setiap operasi memakai satu token; jika bucket kosong operasi ditolak dengan petunjuk
+// kapan bisa dicoba lagi. Waktu diambil dari Clock yang di-inject agar dapat diuji.
+// Bucket yang sudah terisi penuh kembali sama dengan bucket baru, sehingga dibuang secara berkala
+// agar Map tidak terus bertambah untuk key yang tidak aktif lagi.
+
+import { Clock, SystemClock } from './Clock';
+
+// Konfigurasi bucket
+export interface TokenBucketLimits {
+    capacity: number;          // Jumlah maksimum token (burst)
+    refillPerSecond: number;   // Token yang ditambahkan per detik
+}
+
+// Hasil pengecekan rate limit
+export interface RateLimitDecision {
+    allowed: boolean;
+    remaining: number;         // Sisa token (dibulatkan ke bawah)
+    retryAfterMs: number;      // 0 jika diizinkan
+}
+
+// Error ketika rate limit terlampaui
+export class RateLimitExceededError extends Error {
+    constructor(
+        public readonly key: string,
+        public readonly operation: string,
+        public readonly retryAfterMs: number
+    ) {
+        super(`Rate limit exceeded: ${operation} for ${key}, retry after ${retryAfterMs} ms`);
+        this.name = 'RateLimitExceededError';
+    }
+}
+
+interface Bucket {
+    tokens: number;
+    lastRefill: number;
+    fullAt: number;            // Waktu bucket terisi penuh kembali (Infinity jika tidak ada refill)
+}
+
+// Interval default pembersihan bucket idle
+const DEFAULT_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export class TokenBucketRateLimiter {
+    private buckets: Map<string, Bucket> = new Map();
+    private lastSweep: number;
+
+    constructor(
+        private clock: Clock = new SystemClock(),
+        private sweepIntervalMs: number = DEFAULT_SWEEP_INTERVAL_MS
+    ) {
+        this.lastSweep = clock.now().getTime();
+    }
+
+    // Memakai token untuk key tertentu
+    tryConsume(key: string, limits: TokenBucketLimits, cost: number = 1): RateLimitDecision {
+        const now = this.clock.now().getTime();
+        this.sweepIdle(now);
+        const bucket = this.buckets.get(key) || { tokens: limits.capacity, lastRefill: now, fullAt: now };
+
+        // Isi ulang token sesuai waktu yang berlalu
+        const elapsedSeconds = Math.max(0, now - bucket.lastRefill) / 1000;
+        bucket.tokens = Math.min(limits.capacity, bucket.tokens + elapsedSeconds * limits.refillPerSecond);
+        bucket.lastRefill = now;
+        this.buckets.set(key, bucket);
+
+        if (bucket.tokens >= cost) {
+            bucket.tokens -= cost;
+            bucket.fullAt = this.calculateFullAt(bucket, limits, now);
+            return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfterMs: 0 };
+        }
+        bucket.fullAt = this.calculateFullAt(bucket, limits, now);
+
+        const missing = cost - bucket.tokens;
+        const retryAfterMs = limits.refillPerSecond > 0
+            ? Math.ceil((missing / limits.refillPerSecond) * 1000)
+            : Infinity;
+        return { allowed: false, remaining: Math.floor(bucket.tokens), retryAfterMs };
+    }
+
+    // Jumlah bucket yang sedang disimpan
+    getBucketCount(): number {
+        return this.buckets.size;
+    }
+
+    // Membuang bucket yang sudah penuh kembali; key tersebut akan mendapat bucket baru yang setara
+    private sweepIdle(now: number): void {
+        if (now - this.lastSweep < this.sweepIntervalMs) return;
+        this.lastSweep = now;
+        for (const [key, bucket] of this.buckets) {
+            if (bucket.fullAt <= now) {
+                this.buckets.delete(key);
+            }
+        }
+    }
+
+    private calculateFullAt(bucket: Bucket, limits: TokenBucketLimits, now: number): number {
+        const missing = limits.capacity - bucket.tokens;
+        if (missing <= 0) return now;
+        return limits.refillPerSecond > 0 ? now + (missing / limits.refillPerSecond) * 1000 : Infinity;
+    }
+
+    // Menghapus bucket (misalnya setelah logout)
+    reset(key?: string): void {
+        if (key === undefined) {
+            this.buckets.clear();
+        } else {
+            this.buckets.delete(key);
+        }
+    }
+}
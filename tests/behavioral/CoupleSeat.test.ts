@@ -0,0 +1,97 @@
+import { SeatSelectionController } from '../../src/seat/SeatSelection';
+import { SeatLayout } from '../../src/seat/SeatLayout';
+import { ConcreteBookingBuilder } from '../../src/booking/BookingBuilder';
+import { SeatService } from '../../src/services/CinemaBookingService';
+import { CoupleCompanionTicket, TicketType } from '../../src/ticket/TicketFactory';
+import { UserImpl, MembershipType } from '../../src/models/User';
+import { ShowtimeImpl } from '../../src/models/Showtime';
+import { MovieImpl } from '../../src/models/Movie';
+import { CinemaImpl, StudioImpl, StudioType } from '../../src/models/Cinema';
+import { SeatStatus } from '../../src/models/Seat';
+import { SeatMapDefinition } from '../../src/models/SeatMapDefinition';
+
+const coupleStudio: SeatMapDefinition = {
+    id: 'MAP-COUPLE',
+    name: 'Studio Couple',
+    rows: [
+        { label: 'A', pattern: 'RRRRRR' },
+        { label: 'B', pattern: 'CC_RR_CC' }
+    ]
+};
+
+describe('Command Pattern - Couple Seat Pairing', () => {
+    let controller: SeatSelectionController;
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+        controller = new SeatSelectionController();
+        controller.initializeFromSeatMap('SHW-COUPLE', coupleStudio, 50000, false);
+    });
+
+    test('should select and price a couple pair as one unit', () => {
+        expect(controller.selectSeat('B2')).toBe(true);
+
+        const codes = controller.getSelectedSeats().map(seat => seat.getCode()).sort();
+        expect(codes).toEqual(['B1', 'B2']);
+        expect(controller.getTotal()).toBe(100000);
+    });
+
+    test('should revert the pair atomically on undo and redo', () => {
+        controller.selectSeat('B5');
+        expect(controller.getSelectedSeats()).toHaveLength(2);
+
+        controller.undo();
+        expect(controller.getSelectedSeats()).toHaveLength(0);
+
+        controller.redo();
+        expect(controller.getSelectedSeats()).toHaveLength(2);
+
+        controller.deselectSeat('B6');
+        expect(controller.getSelectedSeats()).toHaveLength(0);
+        controller.undo();
+        expect(controller.getSelectedSeats().map(seat => seat.getCode()).sort()).toEqual(['B5', 'B6']);
+    });
+
+    test('should charge couple pairs once in layout totals', () => {
+        const layout = new SeatLayout('LAYOUT-COUPLE', 'Couple', StudioType.IMAX, 0, 0, 50000, coupleStudio);
+
+        expect(layout.getCouplePartner('B1')?.getCode()).toBe('B2');
+        expect(layout.getCouplePartner('A1')).toBeNull();
+        expect(layout.calculateTotalPrice(['B1', 'B2', 'A1'])).toBe(100000 + 50000);
+    });
+
+    test('should issue tickets for both occupants with a single charge', () => {
+        const movie = new MovieImpl('MOV-1', 'Test Movie', 'Action', 120, 'PG-13', 'Desc', 'poster.jpg', new Date());
+        const cinema = new CinemaImpl('CIN-1', 'Test Cinema', 'Loc', 'Addr', 'City');
+        const studio = new StudioImpl('STD-1', 'Studio 1', StudioType.REGULAR, 12, 2, 6, coupleStudio);
+        const showtime = new ShowtimeImpl('SHW-1', movie, cinema, studio, new Date(), '10:00', '12:00', 50000);
+        const user = new UserImpl('USR-1', 'John', 'john@example.com', '081', MembershipType.REGULAR);
+
+        const seatService = new SeatService();
+        seatService.initializeSeatLayout('SHW-1', 0, 0, coupleStudio);
+        const reservation = seatService.reserveSeats('SHW-1', ['B5']);
+        expect(reservation.seatCodes).toEqual(['B5', 'B6']);
+
+        const [seat, partner] = seatService.commitReservation(reservation.id);
+        expect(partner.status).toBe(SeatStatus.BOOKED);
+
+        const booking = new ConcreteBookingBuilder()
+            .reset()
+            .setUser(user)
+            .setShowtime(showtime)
+            .addCoupleSeats(seat, partner, TicketType.REGULAR)
+            .build();
+
+        expect(booking.tickets).toHaveLength(2);
+        expect(booking.tickets.map(ticket => ticket.seat.getCode())).toEqual(['B5', 'B6']);
+        expect(booking.tickets[1]).toBeInstanceOf(CoupleCompanionTicket);
+        expect(booking.getTicketsSubtotal()).toBe(100000);
+    });
+});
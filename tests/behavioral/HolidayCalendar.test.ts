@@ -0,0 +1,158 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    DayCategory,
+    DayCategoryRule,
+    HolidayCalendar,
+    HolidayCalendarDefinition,
+    HolidayCalendarValidationError,
+    HolidayType
+} from '../../src/pricing/HolidayCalendar';
+import { PricingEngine } from '../../src/pricing/PricingEngine';
+import { CinemaBookingService } from '../../src/services/CinemaBookingService';
+import { ShowtimeImpl } from '../../src/models/Showtime';
+import { MovieImpl } from '../../src/models/Movie';
+import { CinemaImpl, StudioImpl, StudioType } from '../../src/models/Cinema';
+
+describe('Strategy Pattern - Holiday Pricing Calendar', () => {
+    let calendar: HolidayCalendar;
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+        calendar = HolidayCalendar.getDefault();
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    afterEach(() => {
+        PricingEngine.setDefault(null);
+    });
+
+    test('should classify dates from the bundled Indonesian calendar', () => {
+        expect(calendar.classify(new Date(2025, 8, 9))).toBe(DayCategory.WEEKDAY);
+        expect(calendar.classify(new Date(2025, 8, 6))).toBe(DayCategory.WEEKEND);
+        expect(calendar.classify(new Date(2025, 8, 5))).toBe(DayCategory.HOLIDAY);
+        expect(calendar.classify(new Date(2025, 4, 13))).toBe(DayCategory.HOLIDAY);
+
+        const lebaran = calendar.describe(new Date(2025, 3, 3));
+        expect(lebaran.category).toBe(DayCategory.PEAK);
+        expect(lebaran.holiday?.type).toBe(HolidayType.CUTI_BERSAMA);
+        expect(lebaran.peakPeriod?.name).toBe('Libur Lebaran 2025');
+    });
+
+    test('should roll recurring holidays and peak periods over into new years', () => {
+        expect(calendar.isYearCovered(2026)).toBe(true);
+        expect(calendar.isYearCovered(2027)).toBe(false);
+
+        expect(calendar.describe(new Date(2027, 7, 17)).holiday?.name).toBe('Hari Kemerdekaan Republik Indonesia');
+        expect(calendar.classify(new Date(2026, 11, 31))).toBe(DayCategory.PEAK);
+        expect(calendar.classify(new Date(2027, 0, 3))).toBe(DayCategory.PEAK);
+        expect(calendar.classify(new Date(2027, 0, 6))).toBe(DayCategory.WEEKDAY);
+
+        expect(calendar.getHolidays(2027).map(holiday => holiday.date))
+            .toEqual(['2027-01-01', '2027-05-01', '2027-06-01', '2027-08-17', '2027-12-25']);
+        expect(calendar.getHolidays(2026).map(holiday => holiday.date)).toContain('2026-03-20');
+    });
+
+    test('should validate the calendar file format', () => {
+        const invalid = {
+            holidays: [
+                { date: '2025-02-30', name: 'Tanggal salah', type: HolidayType.NATIONAL },
+                { date: '08-17', name: '', type: 'REGIONAL' },
+                { date: '08-17', name: 'Duplikat', type: HolidayType.NATIONAL }
+            ],
+            peakPeriods: [
+                { name: 'Campuran', start: '12-20', end: '2026-01-05' },
+                { name: 'Terbalik', start: '2026-01-05', end: '2025-12-20' }
+            ]
+        } as unknown as HolidayCalendarDefinition;
+
+        expect(HolidayCalendar.validate(invalid)).toEqual([
+            'holidays[0]: tanggal tidak valid "2025-02-30" (gunakan YYYY-MM-DD atau MM-DD)',
+            'holidays[1]: nama hari libur diperlukan',
+            'holidays[1]: tipe tidak dikenal "REGIONAL"',
+            'holidays[2]: tanggal duplikat 08-17',
+            'peakPeriods[0]: start dan end harus memakai format yang sama',
+            'peakPeriods[1]: end (2025-12-20) sebelum start (2026-01-05)'
+        ]);
+        expect(() => HolidayCalendar.fromDefinition(invalid)).toThrow(HolidayCalendarValidationError);
+        expect(HolidayCalendar.validate({ holidays: [null], peakPeriods: [null] } as unknown as HolidayCalendarDefinition)).toEqual([
+            'holidays[0]: harus berupa objek',
+            'peakPeriods[0]: harus berupa objek'
+        ]);
+
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'holidays-'));
+        try {
+            const file = path.join(directory, 'holidays.json');
+            fs.writeFileSync(file, '{ "holidays": [', 'utf8');
+            expect(() => HolidayCalendar.fromFile(file)).toThrow(/tidak dapat dibaca/);
+
+            fs.writeFileSync(file, JSON.stringify({ holidays: [{ date: '03-08', name: 'Hari Bioskop', type: 'NATIONAL' }] }), 'utf8');
+            expect(HolidayCalendar.fromFile(file).classify(new Date(2028, 2, 8))).toBe(DayCategory.HOLIDAY);
+        } finally {
+            fs.rmSync(directory, { recursive: true, force: true });
+        }
+    });
+
+    test('should charge weekend prices on holidays and cuti bersama', () => {
+        const rule = new DayCategoryRule(calendar, { [DayCategory.WEEKEND]: 1.2, [DayCategory.PEAK]: 1.5 });
+        const engine = new PricingEngine([rule]);
+        const priceOn = (date: Date) => engine.calculate({ basePrice: 50000, showStartsAt: date });
+
+        expect(priceOn(new Date(2025, 8, 9, 19))).toBe(50000);
+        expect(priceOn(new Date(2025, 8, 6, 19))).toBe(60000);
+        expect(priceOn(new Date(2025, 8, 5, 19))).toBe(60000);
+        expect(priceOn(new Date(2025, 4, 13, 19))).toBe(60000);
+        expect(priceOn(new Date(2025, 3, 3, 19))).toBe(75000);
+    });
+
+    test('should keep default prices neutral until weekend rates are configured', () => {
+        const showStartsAt = new Date(2025, 8, 6, 19);
+        expect(PricingEngine.getDefault().calculate({ basePrice: 50000, showStartsAt })).toBe(50000);
+
+        const engine = PricingEngine.createDefault();
+        engine.removeRule('dayCategory');
+        PricingEngine.setDefault(engine.addRule(new DayCategoryRule(null, { [DayCategory.WEEKEND]: 1.2 })));
+
+        expect(PricingEngine.getDefault().calculate({ basePrice: 50000, showStartsAt })).toBe(60000);
+    });
+
+    test('should expose day categories and prices in showtime listings', () => {
+        const engine = PricingEngine.createDefault();
+        engine.removeRule('dayCategory');
+        PricingEngine.setDefault(engine.addRule(new DayCategoryRule(null, { [DayCategory.WEEKEND]: 1.2 })));
+        const movie = new MovieImpl('MOV-CAL', 'Film Libur', 'Drama', 120, 'SU', 'Desc', 'poster.jpg', new Date());
+        const cinema = new CinemaImpl('CIN-1', 'Bioskop', 'Loc', 'Addr', 'City');
+        const studio = new StudioImpl('STD-1', 'Studio 1', StudioType.REGULAR, 100, 10, 10);
+        const service = new CinemaBookingService();
+        service.addShowtime(new ShowtimeImpl('SHW-PEAK', movie, cinema, studio, new Date(2025, 11, 25), '19:00', '21:00', 50000));
+        service.addShowtime(new ShowtimeImpl('SHW-HOL', movie, cinema, studio, new Date(2025, 7, 17), '19:00', '21:00', 50000));
+        service.addShowtime(new ShowtimeImpl('SHW-WKD', movie, cinema, studio, new Date(2025, 7, 19), '19:00', '21:00', 50000));
+
+        expect(service.getShowtimeListingsForMovie('MOV-CAL').map(listing =>
+            [listing.showtime.id, listing.day.category, listing.price]
+        )).toEqual([
+            ['SHW-HOL', DayCategory.HOLIDAY, 60000],
+            ['SHW-WKD', DayCategory.WEEKDAY, 50000],
+            ['SHW-PEAK', DayCategory.PEAK, 60000]
+        ]);
+    });
+
+    test('should warn when the calendar has no dated holidays for a listed year', () => {
+        const log = console.log as jest.Mock;
+        log.mockClear();
+        const movie = new MovieImpl('MOV-FAR', 'Film Masa Depan', 'Drama', 120, 'SU', 'Desc', 'poster.jpg', new Date());
+        const cinema = new CinemaImpl('CIN-1', 'Bioskop', 'Loc', 'Addr', 'City');
+        const studio = new StudioImpl('STD-1', 'Studio 1', StudioType.REGULAR, 100, 10, 10);
+        const service = new CinemaBookingService();
+        service.addShowtime(new ShowtimeImpl('SHW-2025', movie, cinema, studio, new Date(2025, 8, 9), '19:00', '21:00', 50000));
+        service.addShowtime(new ShowtimeImpl('SHW-2099', movie, cinema, studio, new Date(2099, 0, 5), '19:00', '21:00', 50000));
+
+        service.getShowtimeListingsForMovie('MOV-FAR');
+        const warnings = log.mock.calls.map(call => String(call[0])).filter(line => line.includes('PERINGATAN'));
+        expect(warnings).toEqual([expect.stringContaining('tahun 2099')]);
+    });
+});
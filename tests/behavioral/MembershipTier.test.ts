@@ -0,0 +1,259 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    MembershipTierDefinition,
+    MembershipTierEngine,
+    MembershipTierValidationError,
+    TierChangeType
+} from '../../src/booking/MembershipTier';
+import { BookingContext } from '../../src/booking/BookingStatus';
+import {
+    BookingEvent,
+    BookingEventType,
+    BookingNotifier,
+    BookingObserver
+} from '../../src/notification/NotificationService';
+import { Money } from '../../src/pricing/Money';
+import { UserImpl, MembershipType } from '../../src/models/User';
+import { ManualClock } from '../../src/utils/Clock';
+import { CinemaBookingService } from '../../src/services/CinemaBookingService';
+import { ShowtimeImpl } from '../../src/models/Showtime';
+import { MovieImpl } from '../../src/models/Movie';
+import { CinemaImpl, StudioImpl, StudioType } from '../../src/models/Cinema';
+import { TicketType } from '../../src/ticket/TicketFactory';
+import { PaymentMethod } from '../../src/payment/PaymentGateway';
+
+class RecordingObserver implements BookingObserver {
+    events: BookingEvent[] = [];
+
+    getName(): string {
+        return 'Recorder';
+    }
+
+    getSubscribedEvents(): BookingEventType[] {
+        return [
+            BookingEventType.MEMBERSHIP_UPGRADED,
+            BookingEventType.MEMBERSHIP_GRACE_PERIOD,
+            BookingEventType.MEMBERSHIP_DOWNGRADED
+        ];
+    }
+
+    update(event: BookingEvent): void {
+        this.events.push(event);
+    }
+}
+
+describe('Observer Pattern - Membership Tier Evaluation', () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    const definition: MembershipTierDefinition = {
+        windowMonths: 12,
+        gracePeriodDays: 30,
+        tiers: [
+            { tier: MembershipType.REGULAR, minSpend: 0, minVisits: 0 },
+            { tier: MembershipType.SILVER, minSpend: 200000, minVisits: 2 },
+            { tier: MembershipType.GOLD, minSpend: 500000, minVisits: 4 }
+        ]
+    };
+
+    let clock: ManualClock;
+    let recorder: RecordingObserver;
+    let engine: MembershipTierEngine;
+
+    const spend = (user: UserImpl, count: number, amount: number = 150000) => {
+        for (let i = 0; i < count; i++) {
+            engine.recordActivity(user, `BKG-${user.id}-${clock.now().getTime()}-${i}`, Money.of(amount));
+        }
+    };
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+        clock = new ManualClock(new Date('2026-01-10T10:00:00'));
+        const notifier = new BookingNotifier();
+        recorder = new RecordingObserver();
+        notifier.attach(recorder);
+        engine = new MembershipTierEngine({ definition, clock, notifier, evaluationIntervalMs: DAY });
+    });
+
+    afterEach(() => {
+        MembershipTierEngine.setDefault(null);
+    });
+
+    test('should upgrade on the next scheduled run once spend and visits qualify', () => {
+        const andi = new UserImpl('USER-1', 'Andi', 'andi@example.com', '0811');
+        engine.register(andi);
+        expect(engine.runDue()).toEqual([]);
+
+        spend(andi, 2);
+        expect(engine.qualify(Money.of(300000), 1)).toBe(MembershipType.REGULAR);
+        expect(engine.getStanding(andi.id)).toMatchObject({ qualifiedTier: MembershipType.SILVER, visits: 2 });
+        expect(engine.runDue()).toEqual([]);
+        expect(andi.membership).toBe(MembershipType.REGULAR);
+
+        clock.advance(DAY);
+        const changes = engine.runDue();
+        expect(changes.map(change => [change.type, change.from, change.to])).toEqual([
+            [TierChangeType.UPGRADE, MembershipType.REGULAR, MembershipType.SILVER]
+        ]);
+        expect(andi.membership).toBe(MembershipType.SILVER);
+        expect(recorder.events).toEqual([expect.objectContaining({
+            eventType: BookingEventType.MEMBERSHIP_UPGRADED,
+            customerEmail: 'andi@example.com',
+            totalAmount: 300000,
+            additionalData: expect.objectContaining({ previousTier: 'REGULAR', newTier: 'SILVER', visits: 2 })
+        })]);
+        expect(engine.getNextRunAt()).toEqual(new Date(clock.now().getTime() + DAY));
+    });
+
+    test('should downgrade only after the grace period when the rolling window lapses', () => {
+        const budi = new UserImpl('USER-2', 'Budi', 'budi@example.com', '0812', MembershipType.GOLD);
+        spend(budi, 4);
+        expect(engine.runDue()).toEqual([]);
+
+        // Belanja tahun lalu keluar dari jendela 12 bulan
+        clock.set(new Date('2027-01-11T10:00:00'));
+        const [grace] = engine.runDue();
+        expect(grace).toMatchObject({ type: TierChangeType.GRACE_STARTED, from: MembershipType.GOLD, to: MembershipType.REGULAR });
+        expect(grace.graceUntil).toEqual(new Date(clock.now().getTime() + 30 * DAY));
+        expect(budi.membership).toBe(MembershipType.GOLD);
+
+        clock.advance(10 * DAY);
+        spend(budi, 2);
+        expect(engine.runDue()).toEqual([]);
+        expect(budi.membership).toBe(MembershipType.GOLD);
+
+        clock.advance(21 * DAY);
+        expect(engine.runDue().map(change => [change.type, change.to])).toEqual([
+            [TierChangeType.DOWNGRADE, MembershipType.SILVER]
+        ]);
+        expect(budi.membership).toBe(MembershipType.SILVER);
+        expect(engine.getStanding(budi.id).graceUntil).toBeNull();
+        expect(recorder.events.map(event => event.eventType)).toEqual([
+            BookingEventType.MEMBERSHIP_GRACE_PERIOD,
+            BookingEventType.MEMBERSHIP_DOWNGRADED
+        ]);
+    });
+
+    test('should downgrade from the scheduler without any new booking activity', () => {
+        jest.useFakeTimers();
+        const poll = 60 * 1000;
+        try {
+            const eka = new UserImpl('USER-6', 'Eka', 'eka@example.com', '0816', MembershipType.GOLD);
+            spend(eka, 4);
+            MembershipTierEngine.setDefault(engine);
+            const service = new CinemaBookingService();
+            service.startMembershipScheduler(poll);
+            expect(engine.isRunning()).toBe(true);
+
+            jest.advanceTimersByTime(poll);
+            expect(engine.getHistory(eka.id)).toEqual([]);
+
+            clock.set(new Date('2027-01-11T10:00:00'));
+            jest.advanceTimersByTime(poll);
+            clock.advance(31 * DAY);
+            jest.advanceTimersByTime(poll);
+
+            expect(eka.membership).toBe(MembershipType.REGULAR);
+            expect(engine.getHistory(eka.id).map(change => change.type)).toEqual([
+                TierChangeType.GRACE_STARTED,
+                TierChangeType.DOWNGRADE
+            ]);
+
+            service.stopMembershipScheduler();
+            expect(engine.isRunning()).toBe(false);
+        } finally {
+            engine.stop();
+            jest.useRealTimers();
+        }
+    });
+
+    test('should cancel the grace period when the member qualifies again', () => {
+        const citra = new UserImpl('USER-3', 'Citra', 'citra@example.com', '0813', MembershipType.SILVER);
+        engine.register(citra);
+        expect(engine.evaluate(citra.id)?.type).toBe(TierChangeType.GRACE_STARTED);
+
+        clock.advance(5 * DAY);
+        spend(citra, 2);
+        expect(engine.evaluate(citra.id)?.type).toBe(TierChangeType.GRACE_CANCELLED);
+        expect(citra.membership).toBe(MembershipType.SILVER);
+        expect(engine.getHistory(citra.id)).toHaveLength(2);
+        expect(recorder.events.map(event => event.eventType)).toEqual([BookingEventType.MEMBERSHIP_GRACE_PERIOD]);
+        expect(() => engine.evaluate('USER-X')).toThrow(/belum terdaftar/);
+    });
+
+    test('should load validated thresholds from data and drop refunded bookings', () => {
+        expect(new MembershipTierEngine({ clock }).getDefinition().tiers.map(tier => tier.tier)).toEqual([
+            MembershipType.REGULAR, MembershipType.SILVER, MembershipType.GOLD, MembershipType.PLATINUM
+        ]);
+        expect(MembershipTierEngine.validate({
+            windowMonths: 0,
+            gracePeriodDays: 30,
+            tiers: [
+                { tier: MembershipType.SILVER, minSpend: 500000, minVisits: 2 },
+                { tier: MembershipType.GOLD, minSpend: 200000, minVisits: 4 },
+                { tier: 'DIAMOND' as MembershipType, minSpend: 0, minVisits: 0 }
+            ]
+        })).toEqual([
+            'windowMonths harus bilangan bulat minimal 1',
+            'tiers[2]: tier tidak dikenal "DIAMOND"',
+            'Tier REGULAR harus ada dengan minSpend dan minVisits 0',
+            'Ambang GOLD lebih rendah dari SILVER'
+        ]);
+
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'tiers-'));
+        try {
+            const file = path.join(directory, 'tiers.json');
+            fs.writeFileSync(file, JSON.stringify({ ...definition, gracePeriodDays: -1 }), 'utf8');
+            expect(() => MembershipTierEngine.fromFile(file)).toThrow(MembershipTierValidationError);
+            fs.writeFileSync(file, JSON.stringify({ ...definition, windowMonths: 3 }), 'utf8');
+            expect(MembershipTierEngine.fromFile(file, { clock }).getDefinition().windowMonths).toBe(3);
+        } finally {
+            fs.rmSync(directory, { recursive: true, force: true });
+        }
+
+        MembershipTierEngine.setDefault(engine);
+        const dewi = new UserImpl('USER-4', 'Dewi', 'dewi@example.com', '0814');
+        engine.recordActivity(dewi, 'BKG-1', Money.of(150000));
+        engine.recordActivity(dewi, 'BKG-2', Money.of(150000));
+        engine.recordActivity(dewi, 'BKG-2', Money.of(150000));
+
+        const context = new BookingContext('Dewi', 'Film', 'BKG-2');
+        context.addSeat('A1', 150000);
+        context.proceedToPayment();
+        context.pay(150000);
+        context.onRefund(({ bookingId }) => engine.reverseActivity(bookingId));
+        context.refund();
+
+        expect(engine.getStanding(dewi.id)).toMatchObject({ visits: 1, qualifiedTier: MembershipType.REGULAR });
+        expect(engine.reverseActivity('BKG-2')).toBeNull();
+    });
+
+    test('should publish through the default notifier and evaluate due members on checkout', () => {
+        expect(MembershipTierEngine.getDefault().getNotifier()).toBeInstanceOf(BookingNotifier);
+
+        jest.spyOn(Math, 'random').mockReturnValue(0.5);
+        MembershipTierEngine.setDefault(engine);
+        const eka = new UserImpl('USER-5', 'Eka', 'eka@example.com', '0815');
+        engine.recordActivity(eka, 'BKG-LAMA', Money.of(150000));
+
+        const movie = new MovieImpl('MOV-1', 'Film', 'Drama', 120, 'SU', 'Desc', 'poster.jpg', new Date());
+        const cinema = new CinemaImpl('CIN-1', 'Bioskop', 'Loc', 'Addr', 'City');
+        const studio = new StudioImpl('STD-1', 'Studio 1', StudioType.REGULAR, 100, 10, 10);
+        const showtime = new ShowtimeImpl('SHW-TIER', movie, cinema, studio, new Date(Date.now() + DAY), '19:00', '21:00', 50000);
+        const result = new CinemaBookingService().completeBooking(
+            eka, 'SHW-TIER', showtime, ['A1', 'A2'], TicketType.REGULAR, PaymentMethod.GOPAY
+        );
+
+        expect(result.success).toBe(true);
+        expect(eka.membership).toBe(MembershipType.SILVER);
+        expect(recorder.events.map(event => event.eventType)).toEqual([BookingEventType.MEMBERSHIP_UPGRADED]);
+        expect(engine.getNextRunAt()).toEqual(new Date(clock.now().getTime() + DAY));
+    });
+});
@@ -0,0 +1,95 @@
+import { IDR, Money, RoundingMode, formatRupiah } from '../../src/pricing/Money';
+import { ConcreteBookingBuilder } from '../../src/booking/BookingBuilder';
+import { PaymentProcessor, CreditCardStrategy, QRISStrategy } from '../../src/payment/PaymentMethod';
+import { UserImpl, MembershipType } from '../../src/models/User';
+import { ShowtimeImpl } from '../../src/models/Showtime';
+import { SeatImpl, SeatType, SeatStatus } from '../../src/models/Seat';
+import { MovieImpl } from '../../src/models/Movie';
+import { CinemaImpl, StudioImpl, StudioType } from '../../src/models/Cinema';
+import { TicketType } from '../../src/ticket/TicketFactory';
+import { BasicTicket } from '../../src/ticket/TicketAddons';
+
+describe('Strategy Pattern - Money Rounding and Allocation', () => {
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('should keep integer minor units and reject implicit fractions', () => {
+        const price = Money.of(50000);
+
+        expect(price.currency).toBe(IDR);
+        expect(price.add(Money.of(25000)).subtract(Money.of(5000)).toNumber()).toBe(70000);
+        expect(() => Money.of(1250.5)).toThrow(/tentukan mode pembulatan/);
+        expect(Money.of(1250.5, IDR, RoundingMode.HALF_UP).toNumber()).toBe(1251);
+        expect(() => price.add(Money.of(10, { ...IDR, code: 'USD', exponent: 2 }))).toThrow(/Mata uang berbeda/);
+    });
+
+    test('should round multiplications with the requested mode', () => {
+        const amount = Money.of(12345);
+
+        expect(amount.multiply(0.1, RoundingMode.HALF_UP).toNumber()).toBe(1235);
+        expect(amount.multiply(0.1, RoundingMode.HALF_EVEN).toNumber()).toBe(1234);
+        expect(amount.multiply(0.1, RoundingMode.FLOOR).toNumber()).toBe(1234);
+        expect(Money.of(12341).multiply(0.1, RoundingMode.CEILING).toNumber()).toBe(1235);
+        expect(Money.of(100000).multiply(0.025).toNumber()).toBe(2500);
+        expect(Money.of(123456).roundTo(Money.of(1000)).toNumber()).toBe(123000);
+    });
+
+    test('should allocate amounts without losing a rupiah', () => {
+        expect(Money.of(100000).split(3).map(share => share.toNumber())).toEqual([33334, 33333, 33333]);
+        expect(Money.of(-100).split(3).map(share => share.toNumber())).toEqual([-34, -33, -33]);
+        expect(Money.of(110700).allocate([50000, 75000]).map(share => share.toNumber())).toEqual([44280, 66420]);
+        expect(() => Money.of(100).allocate([0, 0])).toThrow(/Rasio alokasi/);
+
+        const movie = new MovieImpl('MOV-1', 'Film', 'Drama', 120, 'SU', 'Desc', 'poster.jpg', new Date());
+        const cinema = new CinemaImpl('CIN-1', 'Bioskop', 'Loc', 'Addr', 'City');
+        const studio = new StudioImpl('STD-1', 'Studio 1', StudioType.REGULAR, 100, 10, 10);
+        const showtime = new ShowtimeImpl('SHW-1', movie, cinema, studio, new Date(), '19:00', '21:00', 50000);
+        const booking = new ConcreteBookingBuilder()
+            .reset()
+            .setUser(new UserImpl('USR-1', 'Budi', 'budi@example.com', '081', MembershipType.REGULAR))
+            .setShowtime(showtime)
+            .addSeat(new SeatImpl('SEAT-A1', 'A', 1, SeatType.REGULAR, SeatStatus.AVAILABLE, 50000), TicketType.REGULAR)
+            .addSeat(new SeatImpl('SEAT-A2', 'A', 2, SeatType.REGULAR, SeatStatus.AVAILABLE, 50000), TicketType.REGULAR)
+            .addSeat(new SeatImpl('SEAT-A3', 'A', 3, SeatType.REGULAR, SeatStatus.AVAILABLE, 50000), TicketType.VIP)
+            .addAddon('Popcorn', 10001, 1)
+            .build();
+
+        const allocations = booking.getTicketAllocations().map(allocation => allocation.amount.toNumber());
+        expect(allocations).toEqual([52858, 52857, 79286]);
+        expect(allocations.reduce((sum, amount) => sum + amount, 0)).toBe(booking.getTotalPrice().toNumber());
+    });
+
+    test('should format rupiah in one place and charge payments consistently', () => {
+        expect(formatRupiah(1250000)).toBe('Rp 1.250.000');
+        expect(Money.of(-5000).format()).toBe('-Rp 5.000');
+        expect(Money.ofMinor(123456, { ...IDR, code: 'XTS', exponent: 2 }).format()).toBe('Rp 1.234,56');
+
+        const processor = new PaymentProcessor(new CreditCardStrategy());
+        const result = processor.processPayment(123455, {
+            cardNumber: '4111111111111111',
+            cardHolder: 'Budi Santoso',
+            expiryDate: '12/30',
+            cvv: '123'
+        });
+
+        expect(result.fee.toNumber()).toBe(5000);
+        expect(result.totalCharged.equals(processor.previewFee(123455).total)).toBe(true);
+        expect(new CreditCardStrategy().calculateFee(Money.of(300020)).toNumber()).toBe(7501);
+    });
+
+    test('should round fractional amounts passed to payment strategies instead of throwing', () => {
+        const processor = new PaymentProcessor(new QRISStrategy());
+        const result = processor.processPayment(99999.5, {});
+
+        expect(result.amount.toNumber()).toBe(100000);
+        expect(result.fee.toNumber()).toBe(700);
+        expect(result.totalCharged.toNumber()).toBe(100700);
+        expect(processor.previewFee(99999.5).total.toNumber()).toBe(100700);
+        expect(new BasicTicket('Film', '19:00', 'A1', 45000.4).getPrice().toNumber()).toBe(45000);
+    });
+});
@@ -0,0 +1,181 @@
+import {
+    BankCode,
+    BankTransferStrategy,
+    CreditCardStrategy,
+    EWalletStrategy,
+    EWalletType,
+    PaymentProcessor,
+    QRISStrategy
+} from '../../src/payment/PaymentMethod';
+import { PaymentMethodType, PaymentTarget, matchPaymentTarget } from '../../src/payment/PaymentTarget';
+import {
+    BankPromotion,
+    PaymentPromotion,
+    PromotionRejectionReason,
+    PromotionResolver
+} from '../../src/pricing/PromotionResolver';
+import { Money } from '../../src/pricing/Money';
+import { CinemaBookingService } from '../../src/services/CinemaBookingService';
+import { PaymentMethod } from '../../src/payment/PaymentGateway';
+import { ConcreteBookingBuilder } from '../../src/booking/BookingBuilder';
+import { PromoTemplate } from '../../src/seat/SeatLayout';
+import { UserImpl, MembershipType } from '../../src/models/User';
+import { ShowtimeImpl } from '../../src/models/Showtime';
+import { SeatImpl, SeatType, SeatStatus } from '../../src/models/Seat';
+import { MovieImpl } from '../../src/models/Movie';
+import { CinemaImpl, StudioImpl, StudioType } from '../../src/models/Cinema';
+import { TicketType } from '../../src/ticket/TicketFactory';
+
+describe('Strategy Pattern - Payment-Specific Promotions', () => {
+    const bcaCreditCard: PaymentTarget = {
+        methods: [PaymentMethodType.CREDIT_CARD],
+        binRanges: [{ from: '455600', to: '455699' }]
+    };
+    const cardData = {
+        cardNumber: '4556 3312 3456 7890',
+        cardHolder: 'Budi Santoso',
+        expiryDate: '12/30',
+        cvv: '123'
+    };
+
+    const buildBooking = () => {
+        const movie = new MovieImpl('MOV-1', 'Film', 'Drama', 120, 'SU', 'Desc', 'poster.jpg', new Date());
+        const cinema = new CinemaImpl('CIN-1', 'Bioskop', 'Loc', 'Addr', 'City');
+        const studio = new StudioImpl('STD-1', 'Studio 1', StudioType.REGULAR, 100, 10, 10);
+        const showtime = new ShowtimeImpl('SHW-1', movie, cinema, studio, new Date(), '19:00', '21:00', 50000);
+        return new ConcreteBookingBuilder()
+            .reset()
+            .setUser(new UserImpl('USR-1', 'Budi', 'budi@example.com', '081234567890', MembershipType.REGULAR))
+            .setShowtime(showtime)
+            .addSeat(new SeatImpl('SEAT-A1', 'A', 1, SeatType.REGULAR, SeatStatus.AVAILABLE, 50000), TicketType.REGULAR)
+            .addSeat(new SeatImpl('SEAT-A2', 'A', 2, SeatType.REGULAR, SeatStatus.AVAILABLE, 50000), TicketType.REGULAR)
+            .build();
+    };
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+        const template = new PromoTemplate('PROMO-BCA-CC', 'Diskon Kartu Kredit BCA', 'Diskon 20% kartu kredit BCA', 20, 50000, 50000, 30);
+        template.setPaymentTarget(bcaCreditCard);
+        PromotionResolver.setDefault(new PromotionResolver({
+            promotions: [
+                PaymentPromotion.fromTemplate(template),
+                new PaymentPromotion('PROMO-OVO', 'Cashback OVO 10%', { walletTypes: [EWalletType.OVO] }, { percentage: 10, cashback: true })
+            ]
+        }));
+    });
+
+    afterEach(() => {
+        PromotionResolver.setDefault(null);
+    });
+
+    test('should describe each strategy as a payment profile matched against targets', () => {
+        const card = new CreditCardStrategy().getPaymentProfile(cardData);
+        expect(card).toEqual({ method: PaymentMethodType.CREDIT_CARD, cardBin: '455633' });
+        expect(matchPaymentTarget(bcaCreditCard, card)).toBeNull();
+        expect(matchPaymentTarget(bcaCreditCard, new CreditCardStrategy().getPaymentProfile({ ...cardData, cardNumber: '4111111111111111' })))
+            .toBe('Hanya untuk pembayaran Kartu Kredit BIN 455600-455699');
+
+        expect(matchPaymentTarget({ walletTypes: ['ovo'] }, new EWalletStrategy(EWalletType.OVO).getPaymentProfile())).toBeNull();
+        expect(matchPaymentTarget({ bankCodes: [BankCode.BCA] }, new BankTransferStrategy(BankCode.BNI).getPaymentProfile())).not.toBeNull();
+        expect(matchPaymentTarget({ methods: [PaymentMethodType.QRIS] }, new QRISStrategy().getPaymentProfile())).toBeNull();
+        expect(matchPaymentTarget({ methods: [PaymentMethodType.QRIS] }, null)).toBe('Hanya untuk pembayaran QRIS');
+    });
+
+    test('should carry the payment target on promo templates and their clones', () => {
+        const template = new PromoTemplate('PROMO-OVO', 'OVO Hemat', 'Diskon OVO', 15, 0, 20000, 7);
+        template.setPaymentTarget({ walletTypes: [EWalletType.OVO] });
+
+        const cloned = template.clone();
+        expect(cloned.getPaymentTarget()).toEqual({ walletTypes: ['OVO'] });
+        expect(cloned.displayPromo()).toContain('Pembayaran     : OVO');
+        expect(() => PaymentPromotion.fromTemplate(new PromoTemplate('PROMO-X', 'X', 'X', 5, 0, 1000, 1)))
+            .toThrow(/tidak memiliki sasaran pembayaran/);
+    });
+
+    test('should re-evaluate the promotion when the payment strategy changes', () => {
+        const processor = new PaymentProcessor(new QRISStrategy());
+        processor.setPurchase(buildBooking(), cardData);
+        expect(processor.getQuote()).toMatchObject({ discount: Money.of(0), cashback: Money.of(0), amountDue: Money.of(100000), fee: Money.of(700), total: Money.of(100700) });
+
+        processor.setStrategy(new CreditCardStrategy());
+        expect(processor.getQuote()).toMatchObject({ discount: Money.of(20000), amountDue: Money.of(80000), fee: Money.of(5000), total: Money.of(85000) });
+
+        processor.setStrategy(new EWalletStrategy(EWalletType.OVO));
+        expect(processor.getQuote()).toMatchObject({ discount: Money.of(0), cashback: Money.of(10000), amountDue: Money.of(100000), total: Money.of(101500) });
+    });
+
+    test('should record the applied promotions on the payment result', () => {
+        const processor = new PaymentProcessor(new CreditCardStrategy());
+        expect(() => processor.payPurchase(cardData)).toThrow(/Belum ada pembelian/);
+
+        processor.setPurchase(buildBooking());
+        const result = processor.payPurchase(cardData);
+        expect(result).toMatchObject({ success: true, amount: Money.of(80000), fee: Money.of(5000), totalCharged: Money.of(85000) });
+        expect(result.promotions).toEqual([
+            { id: 'PROMO-BCA-CC', label: 'Diskon Kartu Kredit BCA', amount: Money.of(20000), cashback: false }
+        ]);
+
+        processor.setStrategy(new EWalletStrategy(EWalletType.OVO));
+        const cashback = processor.payPurchase({ phoneNumber: '081234567890' });
+        expect(cashback.totalCharged.toNumber()).toBe(101500);
+        expect(cashback.promotions).toEqual([
+            { id: 'PROMO-OVO', label: 'Cashback OVO 10%', amount: Money.of(10000), cashback: true }
+        ]);
+        expect(processor.getTransactionHistory().map(entry => entry.promotions?.length)).toEqual([1, 1]);
+    });
+
+    test('should not stack a bank promotion with a payment promotion for the same bank', () => {
+        const resolver = new PromotionResolver({
+            promotions: [
+                new BankPromotion('BCA-10', 'BCA', 10),
+                new PaymentPromotion('BCA-VA', 'Transfer BCA 15%', { bankCodes: [BankCode.BCA] }, { percentage: 15 })
+            ]
+        });
+
+        const transfer = resolver.resolve({ subtotal: Money.of(100000), payment: new BankTransferStrategy(BankCode.BCA).getPaymentProfile() });
+        expect(transfer.applied.map(entry => entry.promotion.id)).toEqual(['BCA-VA']);
+        expect(transfer.totalDiscount.toNumber()).toBe(15000);
+        expect(transfer.rejected.map(entry => [entry.promotion.id, entry.reason]))
+            .toEqual([['BCA-10', PromotionRejectionReason.GROUP_CONFLICT]]);
+    });
+
+    test('should apply payment promotions to bookings made through the facade', () => {
+        jest.spyOn(Math, 'random').mockReturnValue(0.5);
+        PromotionResolver.setDefault(new PromotionResolver({
+            promotions: [new PaymentPromotion('PROMO-GOPAY', 'GoPay Hemat 10%', { walletTypes: [EWalletType.GOPAY] }, { percentage: 10 })]
+        }));
+        const movie = new MovieImpl('MOV-1', 'Film', 'Drama', 120, 'SU', 'Desc', 'poster.jpg', new Date());
+        const cinema = new CinemaImpl('CIN-1', 'Bioskop', 'Loc', 'Addr', 'City');
+        const studio = new StudioImpl('STD-1', 'Studio 1', StudioType.REGULAR, 100, 10, 10);
+        const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+        const showtime = new ShowtimeImpl('SHW-PROMO', movie, cinema, studio, tomorrow, '20:00', '22:00', 50000);
+        const user = new UserImpl('USR-1', 'Budi', 'budi@example.com', '081234567890', MembershipType.REGULAR);
+        const service = new CinemaBookingService();
+
+        const gopay = service.completeBooking(user, 'SHW-PROMO', showtime, ['A1'], TicketType.REGULAR, PaymentMethod.GOPAY);
+        const ovo = service.completeBooking(user, 'SHW-PROMO', showtime, ['A2'], TicketType.REGULAR, PaymentMethod.OVO);
+
+        expect(gopay.success && ovo.success).toBe(true);
+        expect(gopay.booking!.getPromotionResolution().applied.map(entry => entry.promotion.id)).toEqual(['PROMO-GOPAY']);
+        expect(gopay.paymentResult!.amount.equals(ovo.paymentResult!.amount.multiply(0.9))).toBe(true);
+    });
+
+    test('should charge the promotions resolved at checkout', () => {
+        const booking = buildBooking();
+        const checkout = booking.checkout(new CreditCardStrategy().getPaymentProfile(cardData));
+        expect(checkout.applied.map(entry => entry.promotion.id)).toEqual(['PROMO-BCA-CC']);
+        expect(booking.getTotalPrice().toNumber()).toBe(80000);
+
+        const processor = new PaymentProcessor(new CreditCardStrategy());
+        processor.setPurchase(booking, cardData);
+        expect(processor.getQuote()).toMatchObject({ discount: Money.of(20000), amountDue: Money.of(80000) });
+        expect(processor.payPurchase().promotions?.map(entry => entry.id)).toEqual(['PROMO-BCA-CC']);
+    });
+});
@@ -0,0 +1,148 @@
+import { PriceCalculator, PriceLineType } from '../../src/pricing/PriceBreakdown';
+import { Money, RoundingMode } from '../../src/pricing/Money';
+import { VoucherService } from '../../src/booking/Voucher';
+import { PromoTemplate } from '../../src/seat/SeatLayout';
+import { ConcreteBookingBuilder } from '../../src/booking/BookingBuilder';
+import { TicketWithAddonsBuilder, TicketDisplay, SnackSize } from '../../src/ticket/TicketAddons';
+import { CinemaPackage, RegularPackageFactory, PremiumPackageFactory } from '../../src/cinema-package/PackageFactory';
+import { PaymentProcessor, EWalletStrategy, EWalletType } from '../../src/payment/PaymentMethod';
+import { UserImpl, MembershipType } from '../../src/models/User';
+import { ShowtimeImpl } from '../../src/models/Showtime';
+import { SeatImpl, SeatType, SeatStatus } from '../../src/models/Seat';
+import { MovieImpl } from '../../src/models/Movie';
+import { CinemaImpl, StudioImpl, StudioType } from '../../src/models/Cinema';
+import { TicketType } from '../../src/ticket/TicketFactory';
+import { CinemaBookingService } from '../../src/services/CinemaBookingService';
+import { BaseBookingRepository, InMemoryBookingRepository } from '../../src/booking/BookingRepository';
+import { PaymentMethod } from '../../src/payment/PaymentGateway';
+
+describe('Strategy Pattern - Unified Price Breakdown', () => {
+    const movie = new MovieImpl('MOV-1', 'Film', 'Drama', 120, 'SU', 'Desc', 'poster.jpg', new Date());
+    const cinema = new CinemaImpl('CIN-1', 'Bioskop', 'Loc', 'Addr', 'City');
+    const studio = new StudioImpl('STD-1', 'Studio 1', StudioType.REGULAR, 100, 10, 10);
+    const showtime = new ShowtimeImpl('SHW-1', movie, cinema, studio, new Date(), '19:00', '21:00', 50000);
+    const user = new UserImpl('USR-1', 'Budi', 'budi@example.com', '081', MembershipType.GOLD);
+
+    const buildBooking = () => new ConcreteBookingBuilder()
+        .reset()
+        .setUser(user)
+        .setShowtime(showtime)
+        .addSeat(new SeatImpl('SEAT-A1', 'A', 1, SeatType.REGULAR, SeatStatus.AVAILABLE, 50000), TicketType.REGULAR)
+        .addSeat(new SeatImpl('SEAT-A2', 'A', 2, SeatType.REGULAR, SeatStatus.AVAILABLE, 50000), TicketType.REGULAR)
+        .addAddon('Popcorn', 20000, 2)
+        .applyVoucher('HEMAT10')
+        .includeInsurance()
+        .build();
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    beforeEach(() => {
+        const vouchers = new VoucherService();
+        vouchers.issue(new PromoTemplate('PROMO-HEMAT', 'Hemat', 'Diskon 10%', 10, 50000, 10000, 30), { code: 'HEMAT10' });
+        VoucherService.setDefault(vouchers);
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    afterEach(() => {
+        PriceCalculator.setDefault(null);
+        VoucherService.setDefault(null);
+    });
+
+    test('should itemize bookings in a fixed order with tax included in prices', () => {
+        const booking = buildBooking();
+        const breakdown = booking.getPriceBreakdown();
+
+        expect(breakdown.lines.map(line => line.type)).toEqual([
+            PriceLineType.TICKET,
+            PriceLineType.TICKET,
+            PriceLineType.ADDON,
+            PriceLineType.INSURANCE,
+            PriceLineType.DISCOUNT,
+            PriceLineType.MEMBERSHIP_DISCOUNT,
+            PriceLineType.TAX,
+            PriceLineType.TAX
+        ]);
+        expect(breakdown.subtotal.toNumber()).toBe(142000);
+        expect(breakdown.discountTotal.toNumber()).toBe(10000);
+        expect(breakdown.membershipDiscount.toNumber()).toBe(21300);
+        expect(breakdown.lines.filter(line => line.type === PriceLineType.TAX).map(line => line.amount.toNumber()))
+            .toEqual([7087, 3245]);
+        expect(breakdown.total.toNumber()).toBe(110700);
+
+        expect(booking.getTotalPrice().toNumber()).toBe(110700);
+        expect(booking.displaySummary()).toContain('Rp 7.087 (termasuk)');
+    });
+
+    test('should add exclusive taxes, payment fees and rounding after discounts', () => {
+        PriceCalculator.setDefault(new PriceCalculator({ pricesIncludeTax: false, roundingUnit: 1000 }));
+        const booking = buildBooking();
+        const breakdown = booking.getPriceBreakdown({ getName: () => 'Uji', calculateFee: amount => amount.multiply(0.01, RoundingMode.HALF_UP) });
+
+        expect(breakdown.lines.slice(-4).map(line => [line.type, line.amount.toNumber()])).toEqual([
+            [PriceLineType.TAX, 7796],
+            [PriceLineType.TAX, 3602],
+            [PriceLineType.FEE, 1221],
+            [PriceLineType.ROUNDING, -319]
+        ]);
+        expect(breakdown.amountDue.toNumber()).toBe(122098);
+        expect(breakdown.total.toNumber()).toBe(123000);
+        expect(booking.getTotalPrice().toNumber()).toBe(122000);
+    });
+
+    test('should derive ticket add-on totals from the breakdown', () => {
+        const ticket = new TicketWithAddonsBuilder('Film', '19:00', 'A1', 50000)
+            .addSnackCombo(SnackSize.REGULAR)
+            .addInsurance()
+            .build();
+
+        expect(ticket.getDetails().totalPrice.toNumber()).toBe(90000);
+
+        PriceCalculator.setDefault(new PriceCalculator({ pricesIncludeTax: false }));
+        expect(ticket.getDetails().totalPrice.toNumber()).toBe(99400);
+        expect(TicketDisplay.print(ticket)).toContain('PPN 11%');
+    });
+
+    test('should keep the breakdown charged at payment when the membership changes later', () => {
+        jest.spyOn(Math, 'random').mockReturnValue(0.5);
+        const repository = new InMemoryBookingRepository();
+        BaseBookingRepository.setDefault(repository);
+        const member = new UserImpl('USR-7', 'Sari', 'sari@example.com', '081', MembershipType.SILVER);
+        const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+        const upcoming = new ShowtimeImpl('SHW-PAID', movie, cinema, studio, tomorrow, '19:00', '21:00', 50000);
+
+        try {
+            const result = new CinemaBookingService().completeBooking(member, 'SHW-PAID', upcoming, ['A1', 'A2'], TicketType.REGULAR, PaymentMethod.GOPAY);
+            expect(result.success).toBe(true);
+            const charged = result.booking!.getTotalPrice();
+            expect(charged).toEqual(result.paymentResult!.amount);
+
+            member.upgradeMembership(MembershipType.PLATINUM);
+            expect(result.booking!.getTotalPrice()).toEqual(charged);
+            expect(result.booking!.getMembershipDiscount()).toBe(result.booking!.charges!.breakdown.membershipDiscount.toNumber());
+            expect(repository.findById(result.booking!.id)!.booking.getTotalPrice()).toEqual(charged);
+        } finally {
+            BaseBookingRepository.setDefault(null);
+        }
+    });
+
+    test('should price packages and payment previews through the calculator', () => {
+        const regular = new CinemaPackage(new RegularPackageFactory());
+        const premium = new CinemaPackage(new PremiumPackageFactory());
+
+        expect(regular.getTotalPrice().toNumber()).toBe(81000);
+        expect(premium.getTotalPrice().toNumber()).toBe(191250);
+        expect(regular.getPriceBreakdown().lines.find(line => line.type === PriceLineType.DISCOUNT))
+            .toMatchObject({ label: 'Diskon Paket Hemat Regular', amount: Money.of(-9000) });
+
+        const processor = new PaymentProcessor(new EWalletStrategy(EWalletType.GOPAY));
+        expect(processor.previewFee(100000)).toMatchObject({ amount: Money.of(100000), fee: Money.of(1500), total: Money.of(101500) });
+
+        PriceCalculator.setDefault(new PriceCalculator({ roundingUnit: 1000 }));
+        expect(processor.previewFee(100000).total.toNumber()).toBe(102000);
+    });
+});
@@ -0,0 +1,184 @@
+import {
+    DayOfWeekRule,
+    HolidayRule,
+    OccupancySurgeRule,
+    PricingEngine,
+    SeatTypeRule,
+    StudioTypeRule,
+    TimeOfDayRule,
+    ZoneRule,
+    DEFAULT_SEAT_TYPE_MULTIPLIERS
+} from '../../src/pricing/PricingEngine';
+import { SeatLayout } from '../../src/seat/SeatLayout';
+import { SeatManager } from '../../src/seat/SeatSelection';
+import { RealSeatAvailabilityService } from '../../src/seat/SeatAvailability';
+import { RegularTicketFactory, VIPTicketFactory, IMAXTicketFactory } from '../../src/ticket/TicketFactory';
+import { ShowtimeImpl } from '../../src/models/Showtime';
+import { MovieImpl } from '../../src/models/Movie';
+import { CinemaImpl, StudioImpl, StudioType } from '../../src/models/Cinema';
+import { SeatImpl, SeatStatus, SeatType } from '../../src/models/Seat';
+import { SeatZone } from '../../src/models/SeatMapDefinition';
+
+describe('Strategy Pattern - Dynamic Seat Pricing', () => {
+    const movie = new MovieImpl('MOV-1', 'Film', 'Drama', 120, 'SU', 'Desc', 'poster.jpg', new Date());
+    const cinema = new CinemaImpl('CIN-1', 'Bioskop', 'Loc', 'Addr', 'City');
+    const imaxStudio = new StudioImpl('STD-IMAX', 'IMAX 1', StudioType.IMAX, 100, 10, 10);
+    const seat = new SeatImpl('SEAT-1', 'A', 1, SeatType.REGULAR, SeatStatus.AVAILABLE, 50000);
+
+    // Sabtu malam, 17 Agustus 2024 (hari libur nasional)
+    const saturdayEvening = new ShowtimeImpl('SHW-1', movie, cinema, imaxStudio, new Date(2024, 7, 17), '19:30', '21:30', 50000);
+    // Selasa siang
+    const tuesdayMatinee = new ShowtimeImpl('SHW-2', movie, cinema, imaxStudio, new Date(2024, 7, 20), '12:00', '14:00', 50000);
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    afterEach(() => {
+        PricingEngine.setDefault(null);
+    });
+
+    test('should register every rule kind in the default engine', () => {
+        expect(PricingEngine.getDefault().getRules().map(rule => rule.name)).toEqual([
+            'studioType', 'seatType', 'zone', 'ticketType', 'dayOfWeek', 'timeOfDay', 'dayCategory', 'holiday', 'occupancySurge'
+        ]);
+    });
+
+    test('should keep the existing prices with the default rules', () => {
+        const layout = new SeatLayout('LAYOUT-PRICE', 'Harga', StudioType.REGULAR, 5, 6, 50000);
+        const prices = new Set(layout.getSeats().flat().map(s => `${s.type}:${s.price}`));
+        expect(prices).toEqual(new Set(['REGULAR:50000', 'VIP:75000']));
+
+        expect(tuesdayMatinee.basePrice).toBe(50000);
+        expect(new RegularTicketFactory().createTicket(tuesdayMatinee, seat).getPrice().toNumber()).toBe(50000);
+        expect(new VIPTicketFactory().createTicket(tuesdayMatinee, seat).getPrice().toNumber()).toBe(75000);
+        expect(new IMAXTicketFactory().createTicket(tuesdayMatinee, seat).getPrice().toNumber()).toBe(100000);
+
+        expect(saturdayEvening.basePrice).toBe(50000);
+        expect(new VIPTicketFactory().createTicket(saturdayEvening, seat).getPrice().toNumber()).toBe(75000);
+    });
+
+    test('should compose showtime, seat and calendar rules into a quote', () => {
+        const engine = new PricingEngine([
+            new StudioTypeRule({ [StudioType.IMAX]: 1.2 }),
+            new SeatTypeRule(DEFAULT_SEAT_TYPE_MULTIPLIERS),
+            new ZoneRule({ [SeatZone.FRONT]: 0.8 }),
+            new DayOfWeekRule({ 0: 1.25, 6: 1.25 }),
+            new TimeOfDayRule([{ fromHour: 0, toHour: 17, multiplier: 0.9 }]),
+            new HolidayRule(1.1)
+        ]);
+
+        const quote = engine.quote({
+            basePrice: 50000,
+            studioType: StudioType.IMAX,
+            seatType: SeatType.VIP,
+            zone: SeatZone.BACK,
+            showStartsAt: saturdayEvening.getStartDateTime()
+        });
+
+        expect(quote.adjustments).toEqual([
+            { rule: 'studioType', multiplier: 1.2 },
+            { rule: 'seatType', multiplier: 1.5 },
+            { rule: 'dayOfWeek', multiplier: 1.25 },
+            { rule: 'holiday', multiplier: 1.1 }
+        ]);
+        expect(quote.price).toBe(123750);
+
+        expect(engine.calculate({
+            basePrice: 50000,
+            zone: SeatZone.FRONT,
+            showStartsAt: tuesdayMatinee.getStartDateTime()
+        })).toBe(36000);
+    });
+
+    test('should apply the highest occupancy surge tier within floor and cap', () => {
+        const engine = new PricingEngine(
+            [new OccupancySurgeRule([
+                { minOccupancy: 0.7, multiplier: 1.2 },
+                { minOccupancy: 0.9, multiplier: 1.5 }
+            ])],
+            { floor: 30000, cap: 70000 }
+        );
+
+        expect(engine.calculate({ basePrice: 50000, occupancyRate: 0.5 })).toBe(50000);
+        expect(engine.calculate({ basePrice: 50000, occupancyRate: 0.75 })).toBe(60000);
+
+        const surged = engine.quote({ basePrice: 50000, occupancyRate: 0.95 });
+        expect(surged.unclampedPrice).toBe(75000);
+        expect(surged.price).toBe(70000);
+
+        expect(engine.calculate({ basePrice: 20000 })).toBe(30000);
+    });
+
+    test('should use the configured default engine on every price path', () => {
+        PricingEngine.setDefault(PricingEngine.createDefault()
+            .addRule(new DayOfWeekRule({ 6: 1.2 })));
+
+        expect(saturdayEvening.basePrice).toBe(60000);
+        expect(tuesdayMatinee.basePrice).toBe(50000);
+        expect(new VIPTicketFactory().createTicket(saturdayEvening, seat).getPrice().toNumber()).toBe(90000);
+        expect(new IMAXTicketFactory().createTicket(tuesdayMatinee, seat).getPrice().toNumber()).toBe(100000);
+
+        PricingEngine.setDefault(PricingEngine.createDefault()
+            .addRule(new ZoneRule({ [SeatZone.FRONT]: 0.8 })));
+
+        const layout = new SeatLayout('LAYOUT-ZONE', 'Zona', StudioType.REGULAR, 6, 4, 50000);
+        const manager = new SeatManager();
+        manager.initializeSeats('SHW-ZONE', 6, 4, 50000, false);
+
+        expect(layout.getSeat('A1')?.price).toBe(40000);
+        expect(manager.getSeat('A1')?.price).toBe(40000);
+        expect(layout.getSeat('C1')?.price).toBe(50000);
+        expect(manager.getSeat('F1')?.price).toBe(75000);
+    });
+
+    test('should give seat and ticket paths the same show time, zone and occupancy', () => {
+        jest.spyOn(Math, 'random').mockReturnValue(0.5);
+        const engine = PricingEngine.createDefault();
+        engine.removeRule('zone');
+        engine.removeRule('dayOfWeek');
+        engine.removeRule('occupancySurge');
+        PricingEngine.setDefault(engine
+            .addRule(new ZoneRule({ [SeatZone.FRONT]: 0.8 }))
+            .addRule(new DayOfWeekRule({ 6: 1.2 }))
+            .addRule(new OccupancySurgeRule([{ minOccupancy: 0.5, multiplier: 1.5 }])));
+
+        // Kursi A1 di baris depan, tayang hari Sabtu: 50000 x 0.8 x 1.2
+        const manager = new SeatManager();
+        manager.initializeSeats('SHW-1', 10, 10, 50000, false, StudioType.IMAX, saturdayEvening.getStartDateTime());
+        const realService = new RealSeatAvailabilityService();
+        realService.registerShowtime('SHW-1', saturdayEvening.getStartDateTime());
+        const layout = new SeatLayout('LAYOUT-SHW', 'Sabtu', StudioType.IMAX, 10, 10, 50000, undefined, saturdayEvening.getStartDateTime());
+
+        expect(manager.getSeat('A1')?.price).toBe(48000);
+        expect(realService.getSeats('SHW-1').find(s => s.getCode() === 'A1')?.price).toBe(48000);
+        expect(layout.getSeat('A1')?.price).toBe(48000);
+        expect(new RegularTicketFactory().createTicket(saturdayEvening, seat).getPrice().toNumber()).toBe(48000);
+
+        // Keterisian dilaporkan saat booking dikonfirmasi dan dipakai harga kursi maupun tiket
+        const small = new SeatManager();
+        small.initializeSeats('SHW-2', 4, 2, 50000, false);
+        small.selectSeats(['A1', 'A2', 'B1', 'B2']);
+        small.confirmBooking();
+
+        expect(PricingEngine.getDefault().getOccupancy('SHW-2')).toBe(0.5);
+        expect(small.getSeat('C1')?.price).toBe(112500);
+        expect(new RegularTicketFactory().createTicket(tuesdayMatinee, seat).getPrice().toNumber()).toBe(60000);
+    });
+
+    test('should price a ticket with the seat type so couple tickets are charged once per pair', () => {
+        const coupleSeat = new SeatImpl('SEAT-C1', 'J', 1, SeatType.COUPLE, SeatStatus.AVAILABLE, 100000);
+        const partnerSeat = new SeatImpl('SEAT-C2', 'J', 2, SeatType.COUPLE, SeatStatus.AVAILABLE, 100000);
+        const vipSeat = new SeatImpl('SEAT-V1', 'J', 5, SeatType.VIP, SeatStatus.AVAILABLE, 75000);
+        const factory = new RegularTicketFactory();
+
+        const [primary, companion] = factory.createCoupleTickets(tuesdayMatinee, coupleSeat, partnerSeat);
+        expect(primary.getPrice().toNumber()).toBe(100000);
+        expect(companion.getPrice().toNumber()).toBe(0);
+        expect(factory.createTicket(tuesdayMatinee, vipSeat).getPrice().toNumber()).toBe(75000);
+    });
+});
@@ -0,0 +1,154 @@
+import {
+    BankPromotion,
+    MembershipPromotion,
+    PromotionRejectionReason,
+    PromotionResolver,
+    VoucherPromotion
+} from '../../src/pricing/PromotionResolver';
+import { Money } from '../../src/pricing/Money';
+import { PriceLineType } from '../../src/pricing/PriceBreakdown';
+import { VoucherService } from '../../src/booking/Voucher';
+import { ConcreteBookingBuilder } from '../../src/booking/BookingBuilder';
+import { PromoTemplate } from '../../src/seat/SeatLayout';
+import { UserImpl, MembershipType } from '../../src/models/User';
+import { ShowtimeImpl } from '../../src/models/Showtime';
+import { SeatImpl, SeatType, SeatStatus } from '../../src/models/Seat';
+import { MovieImpl } from '../../src/models/Movie';
+import { CinemaImpl, StudioImpl, StudioType } from '../../src/models/Cinema';
+import { TicketType } from '../../src/ticket/TicketFactory';
+
+describe('Strategy Pattern - Stackable Promotions', () => {
+    const context = { subtotal: Money.of(200000), paymentBank: 'BCA' };
+    const reasonsOf = (resolution: { rejected: { promotion: { id: string }; reason: PromotionRejectionReason }[] }) =>
+        Object.fromEntries(resolution.rejected.map(entry => [entry.promotion.id, entry.reason]));
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    afterEach(() => {
+        PromotionResolver.setDefault(null);
+        VoucherService.setDefault(null);
+    });
+
+    test('should keep only the best promotion per exclusivity group', () => {
+        const resolver = new PromotionResolver({
+            promotions: [
+                new BankPromotion('BCA-10', 'BCA', 10),
+                new BankPromotion('BCA-20', 'BCA', 20, { maxDiscount: 15000 }),
+                new BankPromotion('MANDIRI-25', 'Mandiri', 25)
+            ]
+        });
+
+        const resolution = resolver.resolve(context);
+
+        expect(resolution.applied.map(entry => [entry.promotion.id, entry.amount.toNumber()])).toEqual([['BCA-10', 20000]]);
+        expect(reasonsOf(resolution)).toEqual({
+            'MANDIRI-25': PromotionRejectionReason.NOT_ELIGIBLE,
+            'BCA-20': PromotionRejectionReason.GROUP_CONFLICT
+        });
+        expect(resolution.rejected.find(entry => entry.promotion.id === 'MANDIRI-25')?.message)
+            .toBe('Hanya untuk pembayaran Mandiri');
+    });
+
+    test('should pick the exclusive promotion only when it beats the stacked ones', () => {
+        const resolver = new PromotionResolver({
+            promotions: [new BankPromotion('BCA-30', 'BCA', 30, { exclusive: true })]
+        });
+        const member = new MembershipPromotion(MembershipType.GOLD, 15);
+
+        const exclusiveWins = resolver.resolve(context, [new VoucherPromotion('HEMAT', Money.of(20000)), member]);
+        expect(exclusiveWins.applied.map(entry => entry.promotion.id)).toEqual(['BCA-30']);
+        expect(exclusiveWins.totalDiscount.toNumber()).toBe(60000);
+        expect(reasonsOf(exclusiveWins)).toEqual({
+            'VOUCHER-HEMAT': PromotionRejectionReason.EXCLUSIVE_CONFLICT,
+            'MEMBER-GOLD': PromotionRejectionReason.EXCLUSIVE_CONFLICT
+        });
+
+        const stackWins = resolver.resolve(context, [new VoucherPromotion('HEMAT', Money.of(40000)), member]);
+        expect(stackWins.applied.map(entry => entry.promotion.id)).toEqual(['VOUCHER-HEMAT', 'MEMBER-GOLD']);
+        expect(stackWins.totalDiscount.toNumber()).toBe(70000);
+        expect(reasonsOf(stackWins)).toEqual({ 'BCA-30': PromotionRejectionReason.EXCLUSIVE_CONFLICT });
+    });
+
+    test('should apply promotions by priority up to the per-booking maximum', () => {
+        const resolver = new PromotionResolver({
+            maxDiscountRate: 0.2,
+            promotions: [new BankPromotion('BCA-10', 'BCA', 10)]
+        });
+
+        const resolution = resolver.resolve(context, [
+            new MembershipPromotion(MembershipType.PLATINUM, 15),
+            new VoucherPromotion('HEMAT', Money.of(30000))
+        ]);
+
+        expect(resolution.maxDiscount.toNumber()).toBe(40000);
+        expect(resolution.applied.map(entry => [entry.promotion.id, entry.amount.toNumber(), entry.capped])).toEqual([
+            ['VOUCHER-HEMAT', 30000, false],
+            ['BCA-10', 10000, true]
+        ]);
+        expect(reasonsOf(resolution)).toEqual({ 'MEMBER-PLATINUM': PromotionRejectionReason.MAX_DISCOUNT_REACHED });
+        expect(resolution.totalDiscount.toNumber()).toBe(40000);
+        expect(() => new PromotionResolver({ maxDiscountRate: 1.5 })).toThrow(/antara 0 dan 1/);
+    });
+
+    test('should not cap stacked discounts unless a maximum is configured', () => {
+        const promotions = [new VoucherPromotion('KELUARGA', Money.of(45000)), new MembershipPromotion(MembershipType.PLATINUM, 15)];
+
+        const uncapped = new PromotionResolver().resolve({ subtotal: Money.of(100000) }, promotions);
+        expect(uncapped.totalDiscount.toNumber()).toBe(60000);
+        expect(uncapped.rejected).toEqual([]);
+
+        const capped = new PromotionResolver({ maxDiscountRate: 0.5 }).resolve({ subtotal: Money.of(100000) }, promotions);
+        expect(capped.totalDiscount.toNumber()).toBe(50000);
+    });
+
+    test('should explain applied and rejected promotions in the booking summary', () => {
+        const vouchers = new VoucherService();
+        vouchers.issue(new PromoTemplate('PROMO-HEMAT', 'Hemat', 'Diskon 10%', 10, 50000, 10000, 30), { code: 'HEMAT10' });
+        PromotionResolver.setDefault(new PromotionResolver({
+            maxDiscountRate: 0.5,
+            promotions: [new BankPromotion('BCA-30', 'BCA', 30, { exclusive: true })]
+        }));
+
+        const movie = new MovieImpl('MOV-1', 'Film', 'Drama', 120, 'SU', 'Desc', 'poster.jpg', new Date());
+        const cinema = new CinemaImpl('CIN-1', 'Bioskop', 'Loc', 'Addr', 'City');
+        const studio = new StudioImpl('STD-1', 'Studio 1', StudioType.REGULAR, 100, 10, 10);
+        const showtime = new ShowtimeImpl('SHW-1', movie, cinema, studio, new Date(), '19:00', '21:00', 50000);
+        const build = (bank?: string) => {
+            const builder = new ConcreteBookingBuilder(vouchers)
+                .reset()
+                .setUser(new UserImpl('USR-1', 'Budi', 'budi@example.com', '081', MembershipType.GOLD))
+                .setShowtime(showtime)
+                .addSeat(new SeatImpl('SEAT-A1', 'A', 1, SeatType.REGULAR, SeatStatus.AVAILABLE, 50000), TicketType.REGULAR)
+                .addSeat(new SeatImpl('SEAT-A2', 'A', 2, SeatType.REGULAR, SeatStatus.AVAILABLE, 50000), TicketType.REGULAR)
+                .applyVoucher('HEMAT10');
+            const booking = (bank ? builder.setPaymentBank(bank) : builder).build();
+            booking.checkout(null, vouchers);
+            return booking;
+        };
+
+        const stacked = build();
+        expect(stacked.getTotalPrice().toNumber()).toBe(75000);
+        expect(stacked.getMembershipDiscount()).toBe(15000);
+        expect(vouchers.getUsageCount('HEMAT10')).toBe(1);
+
+        const withBank = build('BCA');
+        const breakdown = withBank.getPriceBreakdown();
+        expect(breakdown.lines.filter(line => line.type === PriceLineType.DISCOUNT).map(line => line.label))
+            .toEqual(['Promo BCA 30%']);
+        expect(withBank.getTotalPrice().toNumber()).toBe(70000);
+        expect(vouchers.getActiveRedemption(withBank.id)).toBeNull();
+        expect(vouchers.getUsageCount('HEMAT10')).toBe(1);
+
+        const summary = withBank.displaySummary();
+        expect(summary).toContain('PROMO - maks. diskon Rp 50.000');
+        expect(summary).toContain('✓ Promo BCA 30%: -Rp 30.000');
+        expect(summary).toContain('✗ Voucher HEMAT10: Tidak dapat digabung dengan Promo BCA 30%');
+        expect(summary).toContain('✗ Diskon Member: Tidak dapat digabung');
+    });
+});
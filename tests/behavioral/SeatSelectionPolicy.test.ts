@@ -0,0 +1,90 @@
+import { SeatSelectionController } from '../../src/seat/SeatSelection';
+import {
+    OrphanSeatRuleMode,
+    SeatSelectionPolicyRegistry
+} from '../../src/seat/SeatSelectionPolicy';
+import { StudioType } from '../../src/models/Cinema';
+
+describe('Command Pattern - Orphan Seat Selection Policy', () => {
+    let controller: SeatSelectionController;
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+        SeatSelectionPolicyRegistry.initializeDefaults();
+        controller = new SeatSelectionController();
+        controller.initializeForShowtime('SHW-POLICY', 3, 6, 50000, false, StudioType.REGULAR);
+    });
+
+    test('should reject a selection that strands a single empty seat', () => {
+        expect(controller.selectSeat('A2')).toBe(false);
+
+        const check = controller.getLastSelectionCheck()!;
+        expect(check.allowed).toBe(false);
+        expect(check.orphanSeats).toEqual(['A1']);
+        expect(check.reasons[0]).toContain('A1');
+        expect(controller.getSelectedSeats()).toHaveLength(0);
+    });
+
+    test('should allow selections that keep remaining seats together', () => {
+        expect(controller.selectSeat('A1')).toBe(true);
+        expect(controller.selectSeat('A2')).toBe(true);
+        expect(controller.selectSeat('A4')).toBe(false);
+        expect(controller.selectSeat('A3')).toBe(true);
+    });
+
+    test('should evaluate multiple seat selection as a whole', () => {
+        expect(controller.selectMultipleSeats(['B2', 'B3'])).toBe(false);
+        expect(controller.getSelectedSeats()).toHaveLength(0);
+        expect(controller.getLastSelectionCheck()?.orphanSeats).toEqual(['B1']);
+
+        expect(controller.selectMultipleSeats(['B3', 'B4'])).toBe(true);
+        expect(controller.getSelectedSeats()).toHaveLength(2);
+    });
+
+    test('should only warn for studio types configured with WARN', () => {
+        controller.initializeForShowtime('SHW-POLICY-VIP', 3, 6, 100000, false, StudioType.VIP);
+
+        expect(controller.selectSeat('A2')).toBe(true);
+        const check = controller.getLastSelectionCheck()!;
+        expect(check.allowed).toBe(true);
+        expect(check.warnings[0]).toContain('A1');
+    });
+
+    test('should be toggleable per studio type', () => {
+        SeatSelectionPolicyRegistry.setOrphanRuleMode(StudioType.REGULAR, OrphanSeatRuleMode.OFF);
+        controller.initializeForShowtime('SHW-POLICY-OFF', 3, 6, 50000, false, StudioType.REGULAR);
+
+        expect(controller.selectSeat('A2')).toBe(true);
+        expect(controller.getLastSelectionCheck()?.warnings).toEqual([]);
+    });
+
+    test('should keep the other defaults when a studio type is configured before any lookup', () => {
+        jest.isolateModules(() => {
+            const { SeatSelectionPolicyRegistry: FreshRegistry } =
+                require('../../src/seat/SeatSelectionPolicy') as typeof import('../../src/seat/SeatSelectionPolicy');
+
+            FreshRegistry.setOrphanRuleMode(StudioType.VIP, OrphanSeatRuleMode.OFF);
+            expect(FreshRegistry.getOrphanRuleMode(StudioType.VIP)).toBe(OrphanSeatRuleMode.OFF);
+            expect(FreshRegistry.getOrphanRuleMode(StudioType.REGULAR)).toBe(OrphanSeatRuleMode.REJECT);
+            expect(FreshRegistry.getOrphanRuleMode(StudioType.IMAX)).toBe(OrphanSeatRuleMode.REJECT);
+        });
+    });
+
+    test('should not treat a seat isolated by aisles as an orphan', () => {
+        controller.initializeFromSeatMap('SHW-POLICY-AISLE', {
+            id: 'MAP-POLICY',
+            name: 'Aisle',
+            rows: [{ label: 'A', pattern: 'R_RRR_R' }]
+        }, 50000, false, StudioType.REGULAR);
+
+        expect(controller.selectMultipleSeats(['A2', 'A3', 'A4'])).toBe(true);
+        expect(controller.getLastSelectionCheck()?.orphanSeats).toEqual([]);
+    });
+});
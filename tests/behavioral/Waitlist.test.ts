@@ -0,0 +1,224 @@
+import { RealSeatAvailabilityService } from '../../src/seat/SeatAvailability';
+import { SeatHoldManager } from '../../src/seat/SeatHold';
+import { WaitlistManager, WaitlistStatus } from '../../src/seat/Waitlist';
+import {
+    BookingEvent,
+    BookingEventType,
+    BookingNotifier,
+    BookingObserver,
+    EmailNotificationObserver,
+    SMSNotificationObserver
+} from '../../src/notification/NotificationService';
+import { UserImpl, MembershipType } from '../../src/models/User';
+import { ShowtimeImpl } from '../../src/models/Showtime';
+import { MovieImpl } from '../../src/models/Movie';
+import { CinemaImpl, StudioImpl, StudioType } from '../../src/models/Cinema';
+import { SeatImpl, SeatStatus, SeatType } from '../../src/models/Seat';
+import { SeatMapDefinition } from '../../src/models/SeatMapDefinition';
+import { ManualClock } from '../../src/utils/Clock';
+
+const smallStudio: SeatMapDefinition = {
+    id: 'MAP-WAIT',
+    name: 'Studio Kecil',
+    rows: [
+        { label: 'A', pattern: 'RRRR' },
+        { label: 'B', pattern: 'VV' }
+    ]
+};
+
+const accessibleStudio: SeatMapDefinition = {
+    id: 'MAP-WAIT-ACCESS',
+    name: 'Studio Aksesibel',
+    rows: [
+        { label: 'A', pattern: 'RPWP' },
+        { label: 'B', pattern: 'CCCC' }
+    ]
+};
+
+class RecordingObserver implements BookingObserver {
+    events: BookingEvent[] = [];
+
+    getName(): string {
+        return 'Recorder';
+    }
+
+    getSubscribedEvents(): BookingEventType[] {
+        return [
+            BookingEventType.WAITLIST_OFFERED,
+            BookingEventType.WAITLIST_ACCEPTED,
+            BookingEventType.WAITLIST_EXPIRED
+        ];
+    }
+
+    update(event: BookingEvent): void {
+        this.events.push(event);
+    }
+}
+
+describe('Observer Pattern - Waitlist Offers', () => {
+    const offerDurationMs = 10 * 60 * 1000;
+    const movie = new MovieImpl('MOV-1', 'Film', 'Drama', 120, 'SU', 'Desc', 'poster.jpg', new Date());
+    const cinema = new CinemaImpl('CIN-1', 'Bioskop', 'Loc', 'Addr', 'City');
+    const studio = new StudioImpl('STD-1', 'Studio 1', StudioType.REGULAR, 6, 2, 4, smallStudio);
+    const showtime = new ShowtimeImpl('SHOW-WAIT-1', movie, cinema, studio, new Date('2026-01-10T00:00:00'), '19:00', '21:00', 50000);
+    const andi = new UserImpl('USER-1', 'Andi', 'andi@example.com', '0811', MembershipType.REGULAR);
+    const budi = new UserImpl('USER-2', 'Budi', 'budi@example.com', '0812', MembershipType.GOLD);
+    const citra = new UserImpl('USER-3', 'Citra', 'citra@example.com', '0813', MembershipType.SILVER);
+
+    let clock: ManualClock;
+    let service: RealSeatAvailabilityService;
+    let recorder: RecordingObserver;
+    let waitlist: WaitlistManager;
+
+    const statusOf = (code: string) => service.getSeats(showtime.id).find(seat => seat.getCode() === code)!.status;
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+        clock = new ManualClock(new Date('2026-01-10T10:00:00'));
+        service = new RealSeatAvailabilityService(new SeatHoldManager(clock));
+        service.registerSeatMap(showtime.id, smallStudio);
+        // Showtime sudah terjual habis
+        service.getSeats(showtime.id).forEach(seat => (seat as SeatImpl).status = SeatStatus.BOOKED);
+
+        const notifier = new BookingNotifier();
+        recorder = new RecordingObserver();
+        notifier.attach(recorder);
+        waitlist = new WaitlistManager(service, notifier, { clock, offerDurationMs });
+    });
+
+    afterEach(() => {
+        waitlist.dispose();
+    });
+
+    test('should offer cancelled seats to the first matching entry', () => {
+        const pair = waitlist.join(andi, showtime, 2);
+        const vip = waitlist.join(budi, showtime, 1, SeatType.VIP);
+        const single = waitlist.join(citra, showtime, 1);
+        expect(waitlist.getPosition(single.id)).toBe(3);
+
+        // Satu kursi reguler belum cukup untuk Andi, jadi Citra yang mendapat penawaran
+        service.cancelBooking(showtime.id, ['A2']);
+
+        expect(single.status).toBe(WaitlistStatus.OFFERED);
+        expect(pair.status).toBe(WaitlistStatus.WAITING);
+        expect(vip.status).toBe(WaitlistStatus.WAITING);
+        expect(service.getSeatHold(showtime.id, 'A2')?.holderId).toBe('USER-3');
+        expect(recorder.events).toHaveLength(1);
+        expect(recorder.events[0]).toMatchObject({
+            eventType: BookingEventType.WAITLIST_OFFERED,
+            customerEmail: 'citra@example.com',
+            seats: ['A2'],
+            additionalData: { expiresAt: new Date('2026-01-10T10:10:00').toISOString() }
+        });
+
+        // Kursi yang ditawarkan tidak bisa diambil pelanggan lain
+        expect(service.selectSeat(showtime.id, 'A2', 'USER-9')).toBe(false);
+
+        // Dua kursi berdampingan dibatalkan, Andi mendapat keduanya
+        service.cancelBooking(showtime.id, ['A3', 'A4']);
+        expect(pair.status).toBe(WaitlistStatus.OFFERED);
+        expect(waitlist.getOffers(WaitlistStatus.OFFERED).map(offer => offer.seatCodes))
+            .toEqual([['A2'], ['A3', 'A4']]);
+    });
+
+    test('should confirm the held seats when the offer is accepted', () => {
+        waitlist.join(budi, showtime, 1, SeatType.VIP);
+        service.cancelBooking(showtime.id, ['B1']);
+
+        const offer = waitlist.getOffers(WaitlistStatus.OFFERED)[0];
+        clock.advance(5 * 60 * 1000);
+        waitlist.acceptOffer(offer.id);
+
+        expect(offer.status).toBe(WaitlistStatus.ACCEPTED);
+        expect(statusOf('B1')).toBe(SeatStatus.BOOKED);
+        expect(recorder.events.map(event => event.eventType)).toEqual([
+            BookingEventType.WAITLIST_OFFERED,
+            BookingEventType.WAITLIST_ACCEPTED
+        ]);
+    });
+
+    test('should pass an expired offer on to the next entry', () => {
+        const first = waitlist.join(andi, showtime, 1);
+        const second = waitlist.join(citra, showtime, 1);
+        service.cancelBooking(showtime.id, ['A1']);
+        const firstOffer = waitlist.getOffers(WaitlistStatus.OFFERED)[0];
+
+        clock.advance(offerDurationMs);
+        const expired = waitlist.expireOffers();
+
+        expect(expired.map(offer => offer.id)).toEqual([firstOffer.id]);
+        expect(first.status).toBe(WaitlistStatus.EXPIRED);
+        expect(second.status).toBe(WaitlistStatus.OFFERED);
+        expect(service.getSeatHold(showtime.id, 'A1')?.holderId).toBe('USER-3');
+        expect(recorder.events.map(event => [event.eventType, event.customerName])).toEqual([
+            [BookingEventType.WAITLIST_OFFERED, 'Andi'],
+            [BookingEventType.WAITLIST_EXPIRED, 'Andi'],
+            [BookingEventType.WAITLIST_OFFERED, 'Citra']
+        ]);
+
+        expect(() => waitlist.acceptOffer(firstOffer.id)).toThrow(/tidak aktif/);
+    });
+
+    test('should reject duplicate entries and release the offer when leaving', () => {
+        const entry = waitlist.join(andi, showtime, 1);
+        expect(() => waitlist.join(andi, showtime, 2)).toThrow(/sudah berada di waitlist/);
+
+        service.cancelBooking(showtime.id, ['A1']);
+        expect(waitlist.leave(entry.id)).toBe(true);
+        expect(statusOf('A1')).toBe(SeatStatus.AVAILABLE);
+        expect(waitlist.getOffers(WaitlistStatus.CANCELLED)).toHaveLength(1);
+    });
+
+    test('should skip held-back accessible seats and offer couple seats only as full pairs', () => {
+        const accessibleShowtime = new ShowtimeImpl('SHOW-WAIT-2', movie, cinema, studio, new Date('2026-01-10T00:00:00'), '19:00', '21:00', 50000);
+        service.registerSeatMap(accessibleShowtime.id, accessibleStudio);
+        service.getSeats(accessibleShowtime.id).forEach(seat => (seat as SeatImpl).status = SeatStatus.BOOKED);
+        const wheelchairUser = new UserImpl('USER-4', 'Dewi', 'dewi@example.com', '0814', MembershipType.REGULAR, true);
+
+        const general = waitlist.join(andi, accessibleShowtime, 1);
+        const couple = waitlist.join(budi, accessibleShowtime, 2, SeatType.COUPLE);
+        expect(() => waitlist.join(citra, accessibleShowtime, 1, SeatType.COUPLE)).toThrow(/harus genap/);
+
+        // Kursi pendamping masih ditahan sampai satu jam sebelum tayang
+        service.cancelBooking(accessibleShowtime.id, ['A2']);
+        expect(general.status).toBe(WaitlistStatus.WAITING);
+
+        const accessible = waitlist.join(wheelchairUser, accessibleShowtime, 1);
+        expect(accessible.status).toBe(WaitlistStatus.OFFERED);
+        expect(service.getSeatHold(accessibleShowtime.id, 'A2')?.holderId).toBe('USER-4');
+
+        // Satu kursi couple tanpa pasangannya tidak ditawarkan
+        service.cancelBooking(accessibleShowtime.id, ['B2', 'B3']);
+        expect(couple.status).toBe(WaitlistStatus.WAITING);
+
+        service.cancelBooking(accessibleShowtime.id, ['B4']);
+        expect(couple.status).toBe(WaitlistStatus.OFFERED);
+        expect(waitlist.getOffers(WaitlistStatus.OFFERED).map(offer => offer.seatCodes))
+            .toEqual([['A2'], ['B3', 'B4']]);
+    });
+
+    test('should notify users through the existing email and SMS observers', () => {
+        const notifier = new BookingNotifier();
+        const email = new EmailNotificationObserver();
+        const sms = new SMSNotificationObserver();
+        const emailSpy = jest.spyOn(email, 'update');
+        const smsSpy = jest.spyOn(sms, 'update');
+        notifier.attach(email);
+        notifier.attach(sms);
+
+        waitlist.dispose();
+        waitlist = new WaitlistManager(service, notifier, { clock, offerDurationMs });
+        waitlist.join(andi, showtime, 1);
+        service.cancelBooking(showtime.id, ['A1']);
+
+        expect(emailSpy).toHaveBeenCalledWith(expect.objectContaining({ eventType: BookingEventType.WAITLIST_OFFERED }));
+        expect(smsSpy).toHaveBeenCalledTimes(1);
+    });
+});
@@ -5,6 +5,7 @@ import {
     RegularPackageFactory,
     PremiumPackageFactory
 } from '../../src/cinema-package/PackageFactory';
+import { Money } from '../../src/pricing/Money';
 
 describe('Abstract Factory Pattern - Cinema Packages', () => {
 
@@ -37,11 +38,11 @@ describe('Abstract Factory Pattern - Cinema Packages', () => {
         const regular = new RegularPackageFactory();
         const premium = new PremiumPackageFactory();
 
-        // Check calculation logic briefly or at least that it returns number
-        expect(typeof regular.getTotalPrice()).toBe('number');
-        expect(typeof premium.getTotalPrice()).toBe('number');
+        // Check calculation logic briefly or at least that it returns Money
+        expect(regular.getTotalPrice()).toBeInstanceOf(Money);
+        expect(premium.getTotalPrice()).toBeInstanceOf(Money);
 
-        expect(premium.getTotalPrice()).toBeGreaterThan(regular.getTotalPrice());
+        expect(premium.getTotalPrice().compare(regular.getTotalPrice())).toBeGreaterThan(0);
     });
 
     test('should use Provider to get correct factory', () => {
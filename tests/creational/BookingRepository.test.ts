@@ -0,0 +1,232 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    BaseBookingRepository,
+    BookingSerializer,
+    BookingStorageError,
+    FileBookingRepository,
+    InMemoryBookingRepository
+} from '../../src/booking/BookingRepository';
+import { Booking, BookingStatus, ConcreteBookingBuilder } from '../../src/booking/BookingBuilder';
+import { BookingContext } from '../../src/booking/BookingStatus';
+import { VoucherService } from '../../src/booking/Voucher';
+import { CinemaBookingService } from '../../src/services/CinemaBookingService';
+import { PromoTemplate } from '../../src/seat/SeatLayout';
+import { UserImpl, MembershipType } from '../../src/models/User';
+import { ShowtimeImpl } from '../../src/models/Showtime';
+import { SeatImpl, SeatType, SeatStatus } from '../../src/models/Seat';
+import { MovieImpl } from '../../src/models/Movie';
+import { CinemaImpl, StudioImpl, StudioType } from '../../src/models/Cinema';
+import { CoupleCompanionTicket, CoupleTicket, TicketType } from '../../src/ticket/TicketFactory';
+import { PaymentMethod } from '../../src/payment/PaymentGateway';
+import { Money } from '../../src/pricing/Money';
+
+describe('Builder Pattern - Booking Repository', () => {
+    const movie = new MovieImpl('MOV-1', 'Film', 'Drama', 120, 'SU', 'Desc', 'poster.jpg', new Date('2026-01-01T00:00:00'));
+    const cinema = new CinemaImpl('CIN-1', 'Bioskop', 'Loc', 'Addr', 'City');
+    const studio = new StudioImpl('STD-1', 'Studio 1', StudioType.REGULAR, 100, 10, 10);
+    const showtime = new ShowtimeImpl('SHW-1', movie, cinema, studio, new Date('2026-03-10T00:00:00'), '19:00', '21:00', 50000);
+    const budi = new UserImpl('USR-1', 'Budi', 'budi@example.com', '0811', MembershipType.SILVER);
+    const sari = new UserImpl('USR-2', 'Sari', 'sari@example.com', '0812');
+
+    const buildBooking = (user: UserImpl = budi): Booking => {
+        const vouchers = new VoucherService();
+        vouchers.issue(new PromoTemplate('PROMO-HEMAT', 'Hemat', 'Diskon 10%', 10, 50000, 10000, 30), { code: 'HEMAT10' });
+        return new ConcreteBookingBuilder(vouchers)
+            .reset()
+            .setUser(user)
+            .setShowtime(showtime)
+            .addSeat(new SeatImpl('SEAT-A1', 'A', 1, SeatType.REGULAR, SeatStatus.AVAILABLE, 50000), TicketType.REGULAR)
+            .addCoupleSeats(
+                new SeatImpl('SEAT-J5', 'J', 5, SeatType.COUPLE, SeatStatus.AVAILABLE, 50000),
+                new SeatImpl('SEAT-J6', 'J', 6, SeatType.COUPLE, SeatStatus.AVAILABLE, 50000),
+                TicketType.REGULAR
+            )
+            .addAddon('Popcorn Large', 35000, 2)
+            .applyVoucher('hemat10')
+            .includeInsurance()
+            .setPaymentBank('BCA')
+            .setNotes('Dekat lorong')
+            .build();
+    };
+
+    const lifecycleOf = (booking: Booking): BookingContext => {
+        const context = new BookingContext(booking.user!.name, showtime.movie.title, booking.id);
+        booking.tickets.forEach(ticket => context.addSeat(ticket.seat.getCode(), ticket.getPrice().toNumber()));
+        context.proceedToPayment();
+        context.pay(booking.getTotalPrice().toNumber());
+        return context;
+    };
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    afterEach(() => {
+        BaseBookingRepository.setDefault(null);
+    });
+
+    test('should round-trip tickets, add-ons, voucher and status history', () => {
+        const booking = buildBooking();
+        // Harga tiket saat booking dibuat harus dipertahankan walau aturan harga berubah
+        booking.tickets[0].price = Money.of(45000);
+        const lifecycle = lifecycleOf(booking);
+
+        const { booking: restored, lifecycle: restoredLifecycle } = BookingSerializer.fromJSON(BookingSerializer.toJSON(booking, lifecycle));
+
+        expect(restored).not.toBe(booking);
+        expect(restored.tickets.map(ticket => [ticket.id, ticket.seat.getCode(), ticket.getPrice()]))
+            .toEqual(booking.tickets.map(ticket => [ticket.id, ticket.seat.getCode(), ticket.getPrice()]));
+        expect(restored.tickets[0].getPrice().toNumber()).toBe(45000);
+        expect(restored.tickets[1]).toBeInstanceOf(CoupleTicket);
+        expect((restored.tickets[1] as CoupleTicket).partnerSeat.getCode()).toBe('J6');
+        expect((restored.tickets[2] as CoupleCompanionTicket).getPrimaryTicket()).toBe(restored.tickets[1]);
+
+        expect(restored.addons).toEqual([{ name: 'Popcorn Large', price: Money.of(35000), quantity: 2 }]);
+        expect(restored).toMatchObject({
+            voucherCode: 'HEMAT10',
+            discountAmount: Money.of(10000),
+            insuranceIncluded: true,
+            paymentBank: 'BCA',
+            notes: 'Dekat lorong',
+            status: BookingStatus.PENDING
+        });
+        expect(restored.user).toBeInstanceOf(UserImpl);
+        expect(restored.showtime?.date).toEqual(showtime.date);
+        expect(restored.createdAt).toEqual(booking.createdAt);
+        expect(restored.getTotalPrice()).toEqual(booking.getTotalPrice());
+
+        expect(restoredLifecycle?.getStateName()).toBe('Paid');
+        expect(restoredLifecycle?.getStateHistory()).toEqual(lifecycle.getStateHistory());
+        expect(restoredLifecycle?.getTransactionId()).toBe(lifecycle.getTransactionId());
+        expect(() => BookingSerializer.fromJSON('{ "id": ')).toThrow(BookingStorageError);
+    });
+
+    test('should look up saved bookings by id, user, showtime and status', () => {
+        const repository = new InMemoryBookingRepository();
+        const first = buildBooking();
+        const second = buildBooking(sari);
+        const lifecycle = lifecycleOf(first);
+        repository.save(first, lifecycle);
+        repository.save(second);
+
+        expect(repository.count()).toBe(2);
+        expect(repository.findByUser('USR-2').map(record => record.booking.id)).toEqual([second.id]);
+        expect(repository.findByShowtime('SHW-1')).toHaveLength(2);
+        expect(repository.findByShowtime('SHW-X')).toEqual([]);
+
+        const loaded = repository.findById(first.id)!;
+        loaded.booking.status = BookingStatus.CANCELLED;
+        expect(repository.findById(first.id)!.booking.status).toBe(BookingStatus.PENDING);
+
+        // Menyimpan ulang tanpa lifecycle mempertahankan lifecycle yang sudah tersimpan
+        repository.save(loaded.booking);
+        expect(repository.findByStatus(BookingStatus.CANCELLED).map(record => record.booking.id)).toEqual([first.id]);
+        expect(repository.findById(first.id)!.lifecycle?.getStateHistory()).toHaveLength(3);
+
+        expect(() => repository.save(second, lifecycle)).toThrow(/bukan milik booking/);
+        expect(repository.delete(second.id)).toBe(true);
+        expect(repository.delete(second.id)).toBe(false);
+        expect(repository.findById(second.id)).toBeNull();
+    });
+
+    test('should persist bookings to a JSON file and reload them in a new repository', () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'bookings-'));
+        try {
+            const file = path.join(directory, 'data', 'bookings.json');
+            const booking = buildBooking();
+            new FileBookingRepository(file).save(booking, lifecycleOf(booking));
+
+            const reopened = new FileBookingRepository(file);
+            const record = reopened.findById(booking.id)!;
+            expect(record.booking.getTotalPrice()).toEqual(booking.getTotalPrice());
+            expect(record.lifecycle?.getStateHistory().map(entry => entry.toState)).toEqual(['Draft', 'Pending', 'Paid']);
+
+            // Lifecycle yang dimuat dapat melanjutkan transisi
+            record.lifecycle!.confirm();
+            reopened.save(record.booking, record.lifecycle!);
+            expect(new FileBookingRepository(file).findById(booking.id)!.lifecycle?.getStateName()).toBe('Confirmed');
+
+            fs.writeFileSync(file, '{ "version": 1, "bookings": [', 'utf8');
+            expect(() => reopened.reload()).toThrow(/tidak dapat dibaca/);
+            fs.writeFileSync(file, JSON.stringify({ version: 99, bookings: [] }), 'utf8');
+            expect(() => new FileBookingRepository(file)).toThrow(BookingStorageError);
+        } finally {
+            fs.rmSync(directory, { recursive: true, force: true });
+        }
+    });
+
+    test('should keep bookings completed through the facade', () => {
+        jest.spyOn(Math, 'random').mockReturnValue(0.5);
+        const repository = new InMemoryBookingRepository();
+        BaseBookingRepository.setDefault(repository);
+
+        const service = new CinemaBookingService();
+        const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+        const upcoming = new ShowtimeImpl('SHW-REPO', movie, cinema, studio, tomorrow, '20:00', '22:00', 50000);
+        const result = service.completeBooking(budi, 'SHW-REPO', upcoming, ['A1', 'A2'], TicketType.REGULAR, PaymentMethod.GOPAY);
+        expect(result.success).toBe(true);
+
+        const stored = repository.findById(result.booking!.id)!;
+        expect(stored.booking.status).toBe(BookingStatus.PAID);
+        expect(stored.booking.tickets.map(ticket => ticket.seat.getCode())).toEqual(['A1', 'A2']);
+        expect(service.getBookingsForUser(budi.id).map(booking => booking.id)).toEqual([result.booking!.id]);
+
+        expect(stored.lifecycle?.getStateName()).toBe('Paid');
+        expect(stored.lifecycle?.getTransactionId()).toBe(result.paymentResult!.transactionId);
+        expect(stored.lifecycle?.getPaidAmount()).toBe(result.booking!.getTotalPrice().toNumber());
+        expect(stored.booking.charges).toMatchObject({
+            pointsRedeemed: 0,
+            paymentMethod: PaymentMethod.GOPAY,
+            transactionId: result.paymentResult!.transactionId
+        });
+        expect(stored.booking.charges!.cashAmount.toNumber()).toBe(result.paymentResult!.amount.toNumber());
+        expect(stored.booking.charges!.breakdown.total).toEqual(result.booking!.getTotalPrice());
+        expect(stored.booking.charges!.breakdown.lines.map(line => line.label))
+            .toEqual(result.booking!.getPriceBreakdown().lines.map(line => line.label));
+
+        service.cancelBooking(result.booking!, result.paymentResult!.transactionId);
+        expect(repository.findByStatus(BookingStatus.CANCELLED).map(record => record.booking.id)).toEqual([result.booking!.id]);
+        expect(repository.findById(result.booking!.id)!.lifecycle?.getStateName()).toBe('Cancelled');
+    });
+
+    test('should report a paid booking as successful when saving it fails', () => {
+        jest.spyOn(Math, 'random').mockReturnValue(0.5);
+        jest.spyOn(console, 'error').mockImplementation(() => { });
+        const repository = new InMemoryBookingRepository();
+        jest.spyOn(repository, 'save').mockImplementation(() => {
+            throw new BookingStorageError('Disk penuh');
+        });
+        BaseBookingRepository.setDefault(repository);
+
+        const service = new CinemaBookingService();
+        const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+        const upcoming = new ShowtimeImpl('SHW-REPO-2', movie, cinema, studio, tomorrow, '20:00', '22:00', 50000);
+        const result = service.completeBooking(budi, 'SHW-REPO-2', upcoming, ['A1'], TicketType.REGULAR, PaymentMethod.GOPAY);
+
+        expect(result.success).toBe(true);
+        expect(result.booking?.status).toBe(BookingStatus.PAID);
+        expect(result.warnings).toEqual(['Penyimpanan booking: Disk penuh']);
+        expect(service.getAvailableSeatsForShowtime('SHW-REPO-2').some(seat => seat.getCode() === 'A1')).toBe(false);
+    });
+
+    test('should reject a booking made from a stale view of the seat map', () => {
+        jest.spyOn(Math, 'random').mockReturnValue(0.5);
+        const service = new CinemaBookingService();
+        const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+        const upcoming = new ShowtimeImpl('SHW-REPO-3', movie, cinema, studio, tomorrow, '20:00', '22:00', 50000);
+        const seen = service.getSeatVersion('SHW-REPO-3');
+
+        expect(service.completeBooking(budi, 'SHW-REPO-3', upcoming, ['A1'], TicketType.REGULAR, PaymentMethod.GOPAY,
+            undefined, undefined, { expectedVersion: seen }).success).toBe(true);
+        const stale = service.completeBooking(sari, 'SHW-REPO-3', upcoming, ['B1'], TicketType.REGULAR, PaymentMethod.GOPAY,
+            undefined, undefined, { expectedVersion: seen });
+        expect(stale.success).toBe(false);
+        expect(stale.message).toMatch(/sudah berubah/);
+    });
+});
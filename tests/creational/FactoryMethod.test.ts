@@ -40,7 +40,7 @@ describe('Factory Method Pattern - Ticket System', () => {
         const ticket = factory.createTicket(showtime, seat);
 
         expect(ticket.type).toBe(TicketType.REGULAR);
-        expect(ticket.getPrice()).toBe(50000); // Base price
+        expect(ticket.getPrice().toNumber()).toBe(50000); // Base price
         expect(ticket.getDescription()).toContain('Tiket Regular');
     });
 
@@ -49,7 +49,7 @@ describe('Factory Method Pattern - Ticket System', () => {
         const ticket = factory.createTicket(showtime, seat);
 
         expect(ticket.type).toBe(TicketType.VIP);
-        expect(ticket.getPrice()).toBe(75000); // 1.5x multiplier
+        expect(ticket.getPrice().toNumber()).toBe(75000); // 1.5x multiplier
         expect(ticket.getDescription()).toContain('Tiket VIP');
     });
 
@@ -58,7 +58,7 @@ describe('Factory Method Pattern - Ticket System', () => {
         const ticket = factory.createTicket(showtime, seat);
 
         expect(ticket.type).toBe(TicketType.IMAX);
-        expect(ticket.getPrice()).toBe(100000); // 2.0x multiplier
+        expect(ticket.getPrice().toNumber()).toBe(100000); // 2.0x multiplier
         expect(ticket.getDescription()).toContain('Tiket IMAX');
     });
 
@@ -0,0 +1,116 @@
+import { SeatLayout, SeatLayoutRegistry } from '../../src/seat/SeatLayout';
+import {
+    SeatLayoutSerializer,
+    SeatLayoutImportError,
+    SerializedSeatLayout
+} from '../../src/seat/SeatLayoutSerializer';
+import { StudioType } from '../../src/models/Cinema';
+import { SeatImpl, SeatStatus, SeatType } from '../../src/models/Seat';
+
+describe('Prototype Pattern - Seat Layout Import/Export', () => {
+    let layout: SeatLayout;
+
+    beforeEach(() => {
+        layout = new SeatLayout('LAYOUT-OPS', 'Studio 3, Lantai 2', StudioType.REGULAR, 0, 0, 50000, {
+            id: 'MAP-OPS',
+            name: 'Studio 3',
+            columns: 8,
+            rows: [
+                { label: 'A', pattern: 'RRR__RRR' },
+                { label: 'B', pattern: 'CC_VV_W' }
+            ]
+        });
+        (layout.getSeat('A2') as SeatImpl).status = SeatStatus.BOOKED;
+        (layout.getSeat('B3') as SeatImpl).price = 82500;
+    });
+
+    test('should round-trip a layout through JSON', () => {
+        const imported = SeatLayoutSerializer.fromJSON(SeatLayoutSerializer.toJSON(layout));
+
+        expect(SeatLayoutSerializer.serialize(imported)).toEqual(SeatLayoutSerializer.serialize(layout));
+        expect(imported.getSeat('A2')?.status).toBe(SeatStatus.BOOKED);
+        expect(imported.getSeat('B5')?.type).toBe(SeatType.WHEELCHAIR);
+    });
+
+    test('should round-trip a layout through CSV and register it as a prototype', () => {
+        const csv = SeatLayoutSerializer.toCSV(layout);
+        expect(csv.split('\n')[1]).toBe('LAYOUT-OPS,"Studio 3, Lantai 2",REGULAR,50000,8,A,1,0,REGULAR,FRONT,50000,AVAILABLE,false');
+
+        const imported = SeatLayoutSerializer.fromCSV(csv);
+        expect(SeatLayoutSerializer.serialize(imported)).toEqual(SeatLayoutSerializer.serialize(layout));
+        expect(imported.getSeat('B3')?.price).toBe(82500);
+
+        SeatLayoutRegistry.register('OPS_STUDIO_3', imported);
+        const clone = SeatLayoutRegistry.getClone('OPS_STUDIO_3')!;
+        expect(clone.getTotalCapacity()).toBe(11);
+        expect(clone.getSeat('A2')?.status).toBe(SeatStatus.AVAILABLE);
+    });
+
+    test('should report CSV problems with line numbers', () => {
+        const lines = SeatLayoutSerializer.toCSV(layout).split('\n');
+        lines[2] = lines[2].replace(',REGULAR,FRONT,', ',SOFA,FRONT,');
+        lines[4] = lines[4].replace(',A,4,5,', ',A,1,5,');
+        lines[5] = lines[5].replace(',A,5,6,', ',A,7,5,');
+        lines[6] = 'LAYOUT-OPS,oops';
+
+        try {
+            SeatLayoutSerializer.fromCSV(lines.join('\n'));
+            fail('Import seharusnya gagal');
+        } catch (error) {
+            expect(error).toBeInstanceOf(SeatLayoutImportError);
+            const issues = (error as SeatLayoutImportError).issues;
+            const lineOf = (text: string) => issues.find(issue => issue.message.includes(text))?.line;
+
+            expect(lineOf("tipe kursi tidak dikenal 'SOFA'")).toBe(3);
+            expect(lineOf('A1 duplikat')).toBe(5);
+            expect(lineOf('A7 tumpang tindih dengan A1')).toBe(6);
+            expect(lineOf('Jumlah kolom 2')).toBe(7);
+            expect((error as Error).message).toContain('Baris 3:');
+        }
+    });
+
+    test('should report JSON syntax and field errors', () => {
+        const json = SeatLayoutSerializer.toJSON(layout);
+        expect(() => SeatLayoutSerializer.fromJSON(json.replace('"columns": 8,', '"columns": 8'))).toThrow(/Baris 7:/);
+
+        const data: SerializedSeatLayout = JSON.parse(json);
+        data.rows[1].seats[0].status = 'BROKEN' as SeatStatus;
+        delete (data as Partial<SerializedSeatLayout>).name;
+        const edited = JSON.stringify(data, null, 2);
+        try {
+            SeatLayoutSerializer.fromJSON(edited);
+            fail('Import seharusnya gagal');
+        } catch (error) {
+            const issues = (error as SeatLayoutImportError).issues;
+            // Baris '{' kursi: enam baris di atas field status (indeks baris dimulai dari 0)
+            const seatLine = edited.split('\n').findIndex(line => line.includes('"BROKEN"')) - 5;
+            expect(issues).toEqual([
+                { line: 1, path: 'name', message: 'Nilai wajib diisi' },
+                expect.objectContaining({ line: seatLine, path: 'rows[1].seats[0]' })
+            ]);
+            expect((error as Error).message).toContain(`Baris ${seatLine} (rows[1].seats[0]): status kursi tidak dikenal 'BROKEN'`);
+        }
+    });
+
+    test('should round-trip quoted multi-line CSV values and keep line numbers after them', () => {
+        const multiLine = new SeatLayout('LAYOUT-ML', 'Studio 3\n"Sayap Timur", Lantai 2', StudioType.REGULAR, 0, 0, 50000, {
+            id: 'MAP-ML',
+            name: 'Studio 3',
+            columns: 8,
+            rows: [
+                { label: 'A', pattern: 'RRR__RRR' },
+                { label: 'B', pattern: 'CC_VV_W' }
+            ]
+        });
+        (multiLine.getSeat('B3') as SeatImpl).price = 82500;
+        const csv = SeatLayoutSerializer.toCSV(multiLine);
+
+        const imported = SeatLayoutSerializer.fromCSV(csv);
+        expect(imported.getName()).toBe('Studio 3\n"Sayap Timur", Lantai 2');
+        expect(SeatLayoutSerializer.serialize(imported)).toEqual(SeatLayoutSerializer.serialize(multiLine));
+        expect(SeatLayoutSerializer.fromCSV(csv.replace(/\n/g, '\r\n')).getName()).toBe('Studio 3\r\n"Sayap Timur", Lantai 2');
+
+        // Setiap record memakan dua baris fisik: kursi B3 (record ke-9) dimulai di baris 18
+        expect(() => SeatLayoutSerializer.fromCSV(csv.replace(',82500,', ',-1,'))).toThrow(/Baris 18: harga tidak valid '-1'/);
+    });
+});
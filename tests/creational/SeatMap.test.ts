@@ -0,0 +1,103 @@
+import { SeatMap, SeatMapValidationError } from '../../src/seat/SeatMap';
+import { SeatLayout } from '../../src/seat/SeatLayout';
+import { SeatManager } from '../../src/seat/SeatSelection';
+import { SeatService } from '../../src/services/CinemaBookingService';
+import { RealSeatAvailabilityService } from '../../src/seat/SeatAvailability';
+import { StudioType } from '../../src/models/Cinema';
+import { SeatType } from '../../src/models/Seat';
+import { SeatMapDefinition, SeatZone } from '../../src/models/SeatMapDefinition';
+
+const studioWithAisles: SeatMapDefinition = {
+    id: 'MAP-AISLE',
+    name: 'Studio dengan Lorong',
+    columns: 9,
+    rows: [
+        { label: 'A', pattern: 'RR_RRR_RR' },
+        { label: 'B', pattern: 'RRRRR', offset: 2 },
+        { label: 'C', pattern: 'CC_VVV_CC', zone: SeatZone.BACK }
+    ]
+};
+
+describe('Prototype Pattern - Declarative Seat Maps', () => {
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('should resolve aisles, staggered rows and seat types from patterns', () => {
+        const map = SeatMap.fromDefinition(studioWithAisles);
+
+        expect(map.getCapacity()).toBe(7 + 5 + 7);
+        expect(map.getRow('A').map(p => p.column)).toEqual([0, 1, 3, 4, 5, 7, 8]);
+        expect(map.getPosition('B1')?.column).toBe(2);
+        expect(map.getPosition('C3')?.type).toBe(SeatType.VIP);
+        expect(map.getPosition('C1')?.zone).toBe(SeatZone.BACK);
+        expect(map.getPosition('A1')?.zone).toBe(SeatZone.FRONT);
+    });
+
+    test('should label rows beyond Z', () => {
+        const map = SeatMap.rectangular('MAP-BIG', 'Studio Besar', 30, 2);
+
+        expect(SeatMap.rowLabel(25)).toBe('Z');
+        expect(SeatMap.rowLabel(26)).toBe('AA');
+        expect(map.getRowLabels().slice(-4)).toEqual(['AA', 'AB', 'AC', 'AD']);
+        expect(map.getPosition('AD2')).not.toBeNull();
+    });
+
+    test('should report duplicate codes and overlapping positions', () => {
+        const invalid: SeatMapDefinition = {
+            id: 'MAP-BAD',
+            name: 'Invalid',
+            rows: [
+                {
+                    label: 'A',
+                    seats: [
+                        { number: 1, column: 0 },
+                        { number: 1, column: 1 },
+                        { number: 2, column: 1 }
+                    ]
+                },
+                { label: 'b', pattern: 'RXR' }
+            ]
+        };
+
+        const errors = SeatMap.validate(invalid);
+        expect(errors.some(e => e.includes('A1 duplikat'))).toBe(true);
+        expect(errors.some(e => e.includes('A2 tumpang tindih dengan A1'))).toBe(true);
+        expect(errors.some(e => e.includes('huruf kapital'))).toBe(true);
+        expect(errors.some(e => e.includes("karakter pattern tidak dikenal 'X'"))).toBe(true);
+        expect(() => SeatMap.fromDefinition(invalid)).toThrow(SeatMapValidationError);
+    });
+
+    test('should build all seat subsystems from the same map', () => {
+        const layout = new SeatLayout('LAYOUT-AISLE', 'Aisle', StudioType.REGULAR, 0, 0, 50000, studioWithAisles);
+        expect(layout.getTotalCapacity()).toBe(19);
+        expect(layout.getSeat('C3')?.price).toBe(75000);
+        expect(layout.clone().getTotalCapacity()).toBe(19);
+
+        const seatService = new SeatService();
+        seatService.initializeSeatLayout('SHOW-MAP-1', 0, 0, studioWithAisles);
+        expect(seatService.getAvailableSeats('SHOW-MAP-1')).toHaveLength(19);
+        expect(seatService.getSeat('SHOW-MAP-1', 'A8')).toBeNull();
+
+        const manager = new SeatManager();
+        manager.initializeFromSeatMap('SHOW-MAP-1', studioWithAisles, 50000, false);
+        expect(manager.getSeat('B5')).toBeDefined();
+        expect(manager.getSeat('B6')).toBeUndefined();
+
+        const realService = new RealSeatAvailabilityService();
+        realService.registerSeatMap('SHOW-MAP-1', studioWithAisles);
+        expect(realService.getSeats('SHOW-MAP-1')).toHaveLength(19);
+    });
+
+    test('should render aisles as gaps in the layout display', () => {
+        const layout = new SeatLayout('LAYOUT-AISLE', 'Aisle', StudioType.REGULAR, 0, 0, 50000, studioWithAisles);
+        const rowA = layout.displayLayout().split('\n').find(line => line.startsWith('║ A '));
+
+        expect(rowA).toContain('[O][O]   [O][O][O]   [O][O]');
+    });
+});
@@ -0,0 +1,184 @@
+import {
+    FAMILY_VOUCHER_CODE,
+    RedemptionStatus,
+    VoucherError,
+    VoucherRejectionReason,
+    VoucherService
+} from '../../src/booking/Voucher';
+import { BookingDirector, ConcreteBookingBuilder } from '../../src/booking/BookingBuilder';
+import { BookingContext } from '../../src/booking/BookingStatus';
+import { PromoRegistry, PromoTemplate } from '../../src/seat/SeatLayout';
+import { Money } from '../../src/pricing/Money';
+import { ManualClock } from '../../src/utils/Clock';
+import { UserImpl, MembershipType } from '../../src/models/User';
+import { ShowtimeImpl } from '../../src/models/Showtime';
+import { SeatImpl, SeatType, SeatStatus } from '../../src/models/Seat';
+import { MovieImpl } from '../../src/models/Movie';
+import { CinemaImpl, StudioImpl, StudioType } from '../../src/models/Cinema';
+import { TicketType } from '../../src/ticket/TicketFactory';
+import { CinemaBookingService, PaymentService } from '../../src/services/CinemaBookingService';
+import { PaymentMethod } from '../../src/payment/PaymentGateway';
+
+describe('Prototype Pattern - Voucher Codes from Promo Templates', () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    const movie = new MovieImpl('MOV-1', 'Film', 'Drama', 120, 'SU', 'Desc', 'poster.jpg', new Date());
+    const cinema = new CinemaImpl('CIN-1', 'Bioskop', 'Loc', 'Addr', 'City');
+    const studio = new StudioImpl('STD-1', 'Studio 1', StudioType.REGULAR, 100, 10, 10);
+    const showtime = new ShowtimeImpl('SHW-1', movie, cinema, studio, new Date(), '19:00', '21:00', 50000);
+    const alice = new UserImpl('USR-1', 'Alice', 'alice@example.com', '081', MembershipType.REGULAR);
+    const bob = new UserImpl('USR-2', 'Bob', 'bob@example.com', '082', MembershipType.REGULAR);
+
+    let clock: ManualClock;
+    let vouchers: VoucherService;
+
+    const buildTwoVipSeats = (user: UserImpl, code: string) => new ConcreteBookingBuilder(vouchers)
+        .reset()
+        .setUser(user)
+        .setShowtime(showtime)
+        .addSeat(new SeatImpl('SEAT-A1', 'A', 1, SeatType.REGULAR, SeatStatus.AVAILABLE, 50000), TicketType.VIP)
+        .addSeat(new SeatImpl('SEAT-A2', 'A', 2, SeatType.REGULAR, SeatStatus.AVAILABLE, 50000), TicketType.VIP)
+        .applyVoucher(code)
+        .build();
+
+    const bookTwoVipSeats = (user: UserImpl, code: string) => {
+        const booking = buildTwoVipSeats(user, code);
+        booking.checkout(null, vouchers);
+        return booking;
+    };
+
+    const context = (purchaseAmount: number) => ({ userId: alice.id, showtime, purchaseAmount: Money.of(purchaseAmount) });
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+        PromoRegistry.initializeDefaults();
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+        clock = new ManualClock();
+        vouchers = new VoucherService(clock);
+    });
+
+    afterEach(() => {
+        VoucherService.setDefault(null);
+    });
+
+    test('should compute the discount server-side from the promo template', () => {
+        vouchers.issueFromRegistry('WEEKEND', { code: 'weekend15' });
+
+        // Build hanya memvalidasi; kuota baru dipakai saat checkout
+        const booking = buildTwoVipSeats(alice, 'WEEKEND15');
+        expect(vouchers.getActiveRedemption(booking.id)).toBeNull();
+        booking.checkout(null, vouchers);
+
+        expect(booking.voucherCode).toBe('WEEKEND15');
+        expect(booking.discountAmount.toNumber()).toBe(22500);
+        expect(booking.getTotalPrice().toNumber()).toBe(127500);
+        expect(vouchers.getActiveRedemption(booking.id)).toMatchObject({
+            code: 'WEEKEND15',
+            userId: 'USR-1',
+            discount: Money.of(22500)
+        });
+    });
+
+    test('should validate validity window, minimum purchase and restrictions', () => {
+        const template = new PromoTemplate('PROMO-IMAX', 'IMAX Hemat', 'Diskon IMAX', 10, 100000, 20000, 7);
+        clock.set(template.getValidFrom());
+        vouchers.issue(template, { code: 'IMAX10', studioTypes: [StudioType.IMAX] });
+        vouchers.issue(template, { code: 'FILM10', movieIds: ['MOV-2'] });
+        vouchers.issue(template, { code: 'CINEMA10', cinemaIds: ['CIN-9'] });
+        vouchers.issue(template, { code: 'LATER10', validFrom: new Date(clock.now().getTime() + DAY), validUntil: new Date(clock.now().getTime() + 2 * DAY) });
+        vouchers.issue(template, { code: 'OPEN10' });
+
+        const reasonFor = (code: string, amount = 150000) => vouchers.validate(code, context(amount)).reason;
+        expect(reasonFor('UNKNOWN')).toBe(VoucherRejectionReason.NOT_FOUND);
+        expect(reasonFor('IMAX10')).toBe(VoucherRejectionReason.STUDIO_NOT_ELIGIBLE);
+        expect(reasonFor('FILM10')).toBe(VoucherRejectionReason.MOVIE_NOT_ELIGIBLE);
+        expect(reasonFor('CINEMA10')).toBe(VoucherRejectionReason.CINEMA_NOT_ELIGIBLE);
+        expect(reasonFor('LATER10')).toBe(VoucherRejectionReason.NOT_YET_VALID);
+        expect(reasonFor('OPEN10', 90000)).toBe(VoucherRejectionReason.MINIMUM_PURCHASE);
+        expect(vouchers.validate('open10', context(150000))).toMatchObject({ valid: true, discount: Money.of(15000) });
+
+        clock.advance(8 * DAY);
+        expect(reasonFor('OPEN10')).toBe(VoucherRejectionReason.EXPIRED);
+    });
+
+    test('should enforce global and per-user usage limits', () => {
+        vouchers.issueFromRegistry('STUDENT', { code: 'PELAJAR', maxRedemptions: 2, maxRedemptionsPerUser: 1 });
+
+        bookTwoVipSeats(alice, 'PELAJAR');
+        expect(() => bookTwoVipSeats(alice, 'PELAJAR')).toThrow(VoucherError);
+        expect(vouchers.validate('PELAJAR', context(150000)).reason).toBe(VoucherRejectionReason.USER_LIMIT_REACHED);
+
+        bookTwoVipSeats(bob, 'PELAJAR');
+        const carol = new UserImpl('USR-3', 'Carol', 'carol@example.com', '083', MembershipType.REGULAR);
+        try {
+            bookTwoVipSeats(carol, 'PELAJAR');
+            fail('Voucher seharusnya ditolak');
+        } catch (error) {
+            expect((error as VoucherError).reason).toBe(VoucherRejectionReason.GLOBAL_LIMIT_REACHED);
+        }
+        expect(vouchers.getUsageCount('PELAJAR')).toBe(2);
+    });
+
+    test('should reverse redemptions on refund and free the quota', () => {
+        VoucherService.setDefault(vouchers);
+        vouchers.issueFromRegistry('MEMBER', { code: 'MEMBER25', maxRedemptions: 1 });
+        const booking = bookTwoVipSeats(alice, 'MEMBER25');
+
+        const bookingContext = new BookingContext(alice.name, movie.title, booking.id);
+        bookingContext.addSeat('A1', booking.getTotalPrice().toNumber());
+        bookingContext.proceedToPayment();
+        bookingContext.pay(booking.getTotalPrice().toNumber());
+        bookingContext.onRefund(({ bookingId }) => vouchers.reverse(bookingId));
+        bookingContext.refund();
+
+        const [redemption] = vouchers.getRedemptions('MEMBER25');
+        expect(redemption.status).toBe(RedemptionStatus.REVERSED);
+        expect(redemption.reversedAt).toBeDefined();
+        expect(vouchers.getUsageCount('MEMBER25')).toBe(0);
+        expect(vouchers.reverse(booking.id)).toBeNull();
+
+        expect(bookTwoVipSeats(bob, 'MEMBER25').discountAmount.toNumber()).toBe(37500);
+    });
+
+    test('should give family bookings the seeded family voucher', () => {
+        const family = [1, 2, 3, 4].map(number =>
+            new SeatImpl(`SEAT-B${number}`, 'B', number, SeatType.REGULAR, SeatStatus.AVAILABLE, 50000));
+        const director = new BookingDirector(new ConcreteBookingBuilder());
+
+        const booking = director.buildFamilyBooking(alice, showtime, family);
+        expect(booking.voucherCode).toBe(FAMILY_VOUCHER_CODE);
+        expect(booking.discountAmount.toNumber()).toBe(20000);
+        expect(booking.getTotalPrice().toNumber()).toBe(booking.getSubtotal() - 20000);
+
+        booking.checkout();
+        expect(VoucherService.getDefault().getActiveRedemption(booking.id)?.code).toBe(FAMILY_VOUCHER_CODE);
+        expect(director.buildFamilyBooking(bob, showtime, family, null).discountAmount.isZero()).toBe(true);
+    });
+
+    test('should give the voucher back when checkout fails after it was redeemed', () => {
+        VoucherService.setDefault(vouchers);
+        vouchers.issueFromRegistry('STUDENT', { code: 'PELAJAR', maxRedemptions: 1 });
+        const payment = jest.spyOn(PaymentService.prototype, 'processPayment').mockImplementation(() => {
+            throw new Error('Gateway timeout');
+        });
+        jest.spyOn(console, 'error').mockImplementation(() => { });
+
+        try {
+            const upcoming = new ShowtimeImpl('SHW-2', movie, cinema, studio, new Date(Date.now() + DAY), '19:00', '21:00', 50000);
+            const result = new CinemaBookingService().completeBooking(
+                alice, 'SHW-2', upcoming, ['A1', 'A2'], TicketType.REGULAR, PaymentMethod.GOPAY, 'pelajar'
+            );
+
+            expect(result.success).toBe(false);
+            expect(vouchers.getRedemptions('PELAJAR').map(redemption => redemption.status)).toEqual([RedemptionStatus.REVERSED]);
+            expect(vouchers.getUsageCount('PELAJAR')).toBe(0);
+        } finally {
+            payment.mockRestore();
+        }
+    });
+});
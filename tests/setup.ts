@@ -0,0 +1,4 @@
+// Setiap file test memakai sink audit in-memory agar test tidak menulis ke logs/audit
+import { AuditTrail } from '../src/utils/AuditTrail';
+
+AuditTrail.reset();
@@ -0,0 +1,154 @@
+import { SeatAvailabilityProxy } from '../../src/seat/SeatAvailability';
+import { AccessDeniedError, AccessPolicy, Permission } from '../../src/seat/AccessControl';
+import { DistancingOccupancyPolicy } from '../../src/seat/OccupancyPolicy';
+import { UserImpl, MembershipType, UserRole } from '../../src/models/User';
+import { SeatImpl, SeatStatus } from '../../src/models/Seat';
+import { SeatMapDefinition } from '../../src/models/SeatMapDefinition';
+
+const staffStudio: SeatMapDefinition = {
+    id: 'MAP-STAFF',
+    name: 'Studio Staf',
+    rows: [
+        { label: 'A', pattern: 'RRRR' },
+        { label: 'B', pattern: 'VVVV' }
+    ]
+};
+
+describe('Proxy Pattern - Role-Based Access Control', () => {
+    const showtimeId = 'SHOW-STAFF-1';
+    const customer = new UserImpl('USER-1', 'Customer', 'c@example.com', '0811', MembershipType.GOLD);
+    const platinum = new UserImpl('USER-2', 'Platinum', 'p@example.com', '0812', MembershipType.PLATINUM);
+    const cashier = new UserImpl('STAFF-1', 'Cashier', 'k@example.com', '0813', MembershipType.REGULAR, false, UserRole.CASHIER);
+    const supervisor = new UserImpl('STAFF-2', 'Supervisor', 's@example.com', '0814', MembershipType.REGULAR, false, UserRole.SUPERVISOR);
+    const other = new UserImpl('USER-3', 'Other', 'o@example.com', '0816');
+    const admin = new UserImpl('STAFF-3', 'Admin', 'a@example.com', '0815', MembershipType.REGULAR, false, UserRole.ADMIN);
+    let proxy: SeatAvailabilityProxy;
+
+    const statusOf = (code: string) => proxy.getSeats(showtimeId).find(seat => seat.getCode() === code)!.status;
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+        proxy = new SeatAvailabilityProxy();
+        proxy.setCurrentUser(admin);
+        proxy.registerSeatMap(showtimeId, staffStudio);
+        proxy.getSeats(showtimeId).forEach(seat => (seat as SeatImpl).status = SeatStatus.AVAILABLE);
+        proxy.setCurrentUser(null);
+    });
+
+    test('should map roles and memberships to permissions', () => {
+        const policy = new AccessPolicy();
+
+        expect(policy.can(null, Permission.VIEW_SEATS)).toBe(true);
+        expect(policy.can(null, Permission.SELECT_SEAT)).toBe(false);
+        expect(policy.can(customer, Permission.PREVIEW_VIP_SEATS)).toBe(false);
+        expect(policy.can(platinum, Permission.PREVIEW_VIP_SEATS)).toBe(true);
+        expect(policy.can(cashier, Permission.FORCE_RELEASE_SEAT)).toBe(true);
+        expect(policy.can(cashier, Permission.BLOCK_SEAT)).toBe(false);
+        expect(policy.can(supervisor, Permission.OVERRIDE_HOLD)).toBe(true);
+        expect(policy.can(supervisor, Permission.CONFIGURE_SHOWTIME)).toBe(false);
+        expect(policy.can(admin, Permission.CONFIGURE_SHOWTIME)).toBe(true);
+    });
+
+    test('should only let admins register a seat map', () => {
+        const fresh = new SeatAvailabilityProxy();
+
+        expect(() => fresh.registerSeatMap('SHOW-STAFF-2', staffStudio))
+            .toThrow(expect.objectContaining({ missingPermission: Permission.CONFIGURE_SHOWTIME, role: null }));
+        fresh.setCurrentUser(supervisor);
+        expect(() => fresh.registerSeatMap('SHOW-STAFF-2', staffStudio)).toThrow(AccessDeniedError);
+
+        fresh.setCurrentUser(admin);
+        fresh.registerSeatMap('SHOW-STAFF-2', staffStudio);
+        expect(fresh.getSeatMap('SHOW-STAFF-2').getCapacity()).toBe(8);
+    });
+
+    test('should throw a typed error naming the missing permission', () => {
+        proxy.setCurrentUser(customer);
+
+        try {
+            proxy.getVIPSeats(showtimeId);
+            fail('Expected AccessDeniedError');
+        } catch (error) {
+            expect(error).toBeInstanceOf(AccessDeniedError);
+            expect((error as AccessDeniedError).missingPermission).toBe(Permission.PREVIEW_VIP_SEATS);
+            expect((error as AccessDeniedError).role).toBe(UserRole.CUSTOMER);
+            expect((error as Error).message).toMatch(/^Access denied/);
+        }
+
+        proxy.setCurrentUser(cashier);
+        expect(proxy.getVIPSeats(showtimeId)).toHaveLength(4);
+    });
+
+    test('should let a cashier force-release a seat held by a customer', () => {
+        proxy.setCurrentUser(customer);
+        proxy.selectSeat(showtimeId, 'A1');
+
+        expect(() => proxy.forceReleaseSeat(showtimeId, 'A1')).toThrow(AccessDeniedError);
+
+        proxy.setCurrentUser(cashier);
+        expect(proxy.forceReleaseSeat(showtimeId, 'A1')).toBe(true);
+        expect(statusOf('A1')).toBe(SeatStatus.AVAILABLE);
+        expect(proxy.getSeatHold(showtimeId, 'A1')).toBeNull();
+    });
+
+    test('should refuse cancelling seats booked by another customer', () => {
+        proxy.setCurrentUser(customer);
+        proxy.selectSeat(showtimeId, 'A1');
+        proxy.selectSeat(showtimeId, 'A2');
+        expect(proxy.confirmBooking(showtimeId, ['A1', 'A2'])).toBe(true);
+
+        proxy.setCurrentUser(other);
+        proxy.selectSeat(showtimeId, 'A3');
+        proxy.confirmBooking(showtimeId, ['A3']);
+        expect(() => proxy.cancelBooking(showtimeId, ['A1']))
+            .toThrow(expect.objectContaining({ missingPermission: Permission.CANCEL_ANY_BOOKING }));
+        expect(() => proxy.cancelBooking(showtimeId, ['A3', 'A2'])).toThrow(AccessDeniedError);
+        expect(statusOf('A1')).toBe(SeatStatus.BOOKED);
+        expect(statusOf('A3')).toBe(SeatStatus.BOOKED);
+
+        proxy.setCurrentUser(customer);
+        expect(proxy.cancelBooking(showtimeId, ['A1'])).toBe(true);
+
+        proxy.setCurrentUser(cashier);
+        expect(proxy.cancelBooking(showtimeId, ['A2'])).toBe(true);
+        expect(statusOf('A2')).toBe(SeatStatus.AVAILABLE);
+    });
+
+    test('should let a supervisor block seats for maintenance and override holds', () => {
+        proxy.setCurrentUser(customer);
+        proxy.selectSeat(showtimeId, 'A2');
+
+        proxy.setCurrentUser(supervisor);
+        expect(proxy.blockSeat(showtimeId, 'A4', 'Sandaran rusak')).toBe(true);
+        expect(statusOf('A4')).toBe(SeatStatus.UNAVAILABLE);
+
+        expect(proxy.overrideHold(showtimeId, 'A2')).toBe(true);
+        expect(proxy.getSeatHold(showtimeId, 'A2')?.holderId).toBe('STAFF-2');
+        expect(proxy.confirmBooking(showtimeId, ['A2'])).toBe(true);
+
+        expect(proxy.unblockSeat(showtimeId, 'A4')).toBe(true);
+        expect(statusOf('A4')).toBe(SeatStatus.AVAILABLE);
+    });
+
+    test('should keep maintenance blocks when occupancy buffers are recalculated', () => {
+        proxy.setCurrentUser(supervisor);
+        expect(() => proxy.setOccupancyPolicy(showtimeId, new DistancingOccupancyPolicy()))
+            .toThrow(expect.objectContaining({ missingPermission: Permission.CONFIGURE_SHOWTIME }));
+
+        proxy.setCurrentUser(admin);
+        proxy.setOccupancyPolicy(showtimeId, new DistancingOccupancyPolicy());
+        proxy.selectSeat(showtimeId, 'A1');
+        proxy.confirmBooking(showtimeId, ['A1']);
+        expect(proxy.blockSeat(showtimeId, 'A2', 'Kabel lampu')).toBe(true);
+
+        proxy.cancelBooking(showtimeId, ['A1']);
+        expect(statusOf('A2')).toBe(SeatStatus.UNAVAILABLE);
+    });
+});
@@ -0,0 +1,121 @@
+import { SeatAvailabilityProxy } from '../../src/seat/SeatAvailability';
+import { AccessibleSeatingPolicy, AccessibleSeatsReleasedEvent } from '../../src/seat/AccessibleSeating';
+import { SeatHoldManager } from '../../src/seat/SeatHold';
+import { SeatMap } from '../../src/seat/SeatMap';
+import { CinemaBookingService } from '../../src/services/CinemaBookingService';
+import { TicketType } from '../../src/ticket/TicketFactory';
+import { UserImpl, MembershipType, UserRole } from '../../src/models/User';
+import { ShowtimeImpl } from '../../src/models/Showtime';
+import { MovieImpl } from '../../src/models/Movie';
+import { CinemaImpl, StudioImpl, StudioType } from '../../src/models/Cinema';
+import { SeatImpl, SeatStatus, SeatType } from '../../src/models/Seat';
+import { SeatMapDefinition } from '../../src/models/SeatMapDefinition';
+import { ManualClock } from '../../src/utils/Clock';
+import { AuditOutcome, AuditTrail } from '../../src/utils/AuditTrail';
+
+const accessibleStudio: SeatMapDefinition = {
+    id: 'MAP-ACCESS',
+    name: 'Studio Aksesibel',
+    rows: [
+        { label: 'A', pattern: 'RRRRRR' },
+        { label: 'B', pattern: 'RPWPRR' }
+    ]
+};
+
+describe('Proxy Pattern - Accessible Seating', () => {
+    const showtimeId = 'SHOW-ACCESS-1';
+    let clock: ManualClock;
+    let policy: AccessibleSeatingPolicy;
+    let proxy: SeatAvailabilityProxy;
+    const member = new UserImpl('USER-1', 'Member', 'm@example.com', '0812', MembershipType.GOLD);
+    const wheelchairUser = new UserImpl('USER-2', 'Wheel', 'w@example.com', '0813', MembershipType.SILVER, true);
+    const admin = new UserImpl('STAFF-1', 'Admin', 'a@example.com', '0815', MembershipType.REGULAR, false, UserRole.ADMIN);
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+        clock = new ManualClock(new Date('2026-01-10T16:00:00'));
+        policy = new AccessibleSeatingPolicy(clock, 60 * 60 * 1000);
+
+        proxy = new SeatAvailabilityProxy({ holdManager: new SeatHoldManager(clock), accessibilityPolicy: policy });
+        proxy.setCurrentUser(admin);
+        proxy.registerSeatMap(showtimeId, accessibleStudio, new Date('2026-01-10T19:00:00'));
+        proxy.getSeats(showtimeId).forEach(seat => (seat as SeatImpl).status = SeatStatus.AVAILABLE);
+        proxy.setCurrentUser(null);
+    });
+
+    test('should declare wheelchair spaces with adjacent companion seats', () => {
+        const map = SeatMap.fromDefinition(accessibleStudio);
+
+        expect(map.getPosition('B3')?.type).toBe(SeatType.WHEELCHAIR);
+        expect(map.getAccessiblePositions().map(p => p.code)).toEqual(['B2', 'B3', 'B4']);
+        expect(SeatMap.validate({ id: 'X', name: 'X', rows: [{ label: 'A', pattern: 'PRW' }] })[0])
+            .toContain('tidak bersebelahan dengan ruang kursi roda');
+    });
+
+    test('should register the show start with the proxy policy', () => {
+        expect(policy.getReleaseTime(showtimeId)).toEqual(new Date('2026-01-10T18:00:00'));
+
+        const defaultProxy = new SeatAvailabilityProxy({ holdManager: new SeatHoldManager(clock) });
+        defaultProxy.setCurrentUser(admin);
+        defaultProxy.registerShowtime('SHOW-ACCESS-2', new Date('2026-01-10T16:30:00'));
+        expect(defaultProxy.getAccessibilityPolicy().isReleased('SHOW-ACCESS-2')).toBe(true);
+        expect(() => {
+            defaultProxy.setCurrentUser(member);
+            defaultProxy.registerShowtime('SHOW-ACCESS-2', new Date());
+        }).toThrow();
+    });
+
+    test('should hold accessible seats back from general sale', () => {
+        proxy.setCurrentUser(member);
+        expect(proxy.getAvailableSeats(showtimeId).map(seat => seat.getCode())).not.toContain('B3');
+        expect(proxy.selectSeat(showtimeId, 'B2')).toBe(false);
+        expect(AuditTrail.query({ action: 'seat.selectSeat', actor: member.id })).toEqual([
+            expect.objectContaining({ outcome: AuditOutcome.FAILURE })
+        ]);
+
+        proxy.setCurrentUser(wheelchairUser);
+        expect(proxy.getAvailableSeats(showtimeId).map(seat => seat.getCode())).toContain('B3');
+        expect(proxy.selectSeat(showtimeId, 'B3')).toBe(true);
+    });
+
+    test('should release unsold accessible seats once and emit an event', () => {
+        const events: AccessibleSeatsReleasedEvent[] = [];
+        policy.onRelease(event => events.push(event));
+
+        proxy.setCurrentUser(wheelchairUser);
+        proxy.selectSeat(showtimeId, 'B3');
+        proxy.confirmBooking(showtimeId, ['B3']);
+
+        clock.advance(2 * 60 * 60 * 1000);
+        proxy.setCurrentUser(member);
+
+        expect(proxy.selectSeat(showtimeId, 'B2')).toBe(true);
+        proxy.getAvailableSeats(showtimeId);
+
+        expect(events).toHaveLength(1);
+        expect(events[0].seatCodes).toEqual(['B2', 'B4']);
+        expect(events[0].releasedAt).toEqual(new Date('2026-01-10T18:00:00'));
+    });
+
+    test('should require the accessibility flag when booking through the facade', () => {
+        const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+        const movie = new MovieImpl('MOV-1', 'Film', 'Drama', 120, 'SU', 'Desc', 'poster.jpg', new Date());
+        const cinema = new CinemaImpl('CIN-1', 'Bioskop', 'Loc', 'Addr', 'City');
+        const studio = new StudioImpl('STD-1', 'Studio 1', StudioType.REGULAR, 12, 2, 6, accessibleStudio);
+        const showtime = new ShowtimeImpl('SHW-ACC', movie, cinema, studio, tomorrow, '19:00', '21:00', 50000);
+
+        const result = new CinemaBookingService().completeBooking(
+            member, 'SHW-ACC', showtime, ['B3'], TicketType.REGULAR, 'CREDIT_CARD'
+        );
+
+        expect(result.success).toBe(false);
+        expect(result.message).toContain('khusus pengguna kursi roda');
+    });
+});
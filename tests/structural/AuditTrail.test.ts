@@ -0,0 +1,233 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditOutcome, AuditTrail, JsonlFileAuditSink } from '../../src/utils/AuditTrail';
+import { ManualClock } from '../../src/utils/Clock';
+import { SeatAvailabilityProxy } from '../../src/seat/SeatAvailability';
+import { BookingContext } from '../../src/booking/BookingStatus';
+import { PaymentGatewayManager, PaymentMethod } from '../../src/payment/PaymentGateway';
+import { UserImpl, MembershipType } from '../../src/models/User';
+import { CinemaBookingService } from '../../src/services/CinemaBookingService';
+import { ShowtimeImpl } from '../../src/models/Showtime';
+import { MovieImpl } from '../../src/models/Movie';
+import { CinemaImpl, StudioImpl, StudioType } from '../../src/models/Cinema';
+import { TicketType } from '../../src/ticket/TicketFactory';
+
+describe('Proxy Pattern - Audit Trail', () => {
+    let directory: string;
+    let clock: ManualClock;
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterAll(() => {
+        AuditTrail.reset();
+        jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-'));
+        clock = new ManualClock(new Date('2026-01-10T10:00:00Z'));
+        AuditTrail.configure(new JsonlFileAuditSink({ directory, maxFileBytes: 400, maxFiles: 3 }), clock);
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    const recordSeat = (actor: string, showtimeId: string) => AuditTrail.record({
+        actor,
+        action: 'seat.selectSeat',
+        resource: `showtime:${showtimeId}`,
+        outcome: AuditOutcome.SUCCESS,
+        showtimeId
+    });
+
+    test('should append JSONL records and rotate files by size', () => {
+        for (let i = 0; i < 12; i++) {
+            recordSeat(`USER-${i}`, 'SHOW-1');
+            clock.advance(1000);
+        }
+
+        const files = fs.readdirSync(directory).sort();
+        expect(files).toEqual(['audit.1.jsonl', 'audit.2.jsonl', 'audit.jsonl']);
+        files.forEach(file => expect(fs.statSync(path.join(directory, file)).size).toBeLessThanOrEqual(400));
+
+        const records = AuditTrail.query();
+        expect(records[records.length - 1].actor).toBe('USER-11');
+        expect(records[0].timestamp).toBeInstanceOf(Date);
+        expect(records.map(record => record.timestamp.getTime()))
+            .toEqual([...records.map(record => record.timestamp.getTime())].sort());
+    });
+
+    test('should query by user, showtime and time range', () => {
+        recordSeat('USER-1', 'SHOW-1');
+        clock.advance(60000);
+        recordSeat('USER-2', 'SHOW-1');
+        clock.advance(60000);
+        recordSeat('USER-1', 'SHOW-2');
+
+        expect(AuditTrail.query({ actor: 'USER-1' })).toHaveLength(2);
+        expect(AuditTrail.query({ showtimeId: 'SHOW-1' })).toHaveLength(2);
+        expect(AuditTrail.query({
+            from: new Date('2026-01-10T10:01:00Z'),
+            to: new Date('2026-01-10T10:02:00Z')
+        }).map(record => record.actor)).toEqual(['USER-2']);
+    });
+
+    test('should record proxy access including denials', () => {
+        const proxy = new SeatAvailabilityProxy();
+        proxy.getSeatMap('SHOW-AUDIT');
+        expect(() => proxy.selectSeat('SHOW-AUDIT', 'A1')).toThrow(/Access denied/);
+
+        proxy.setCurrentUser(new UserImpl('USER-9', 'Member', 'm@example.com', '0812', MembershipType.GOLD));
+        proxy.getSeatMap('SHOW-AUDIT');
+
+        const records = AuditTrail.query({ showtimeId: 'SHOW-AUDIT' });
+        expect(records.map(record => [record.actor, record.action, record.outcome])).toEqual([
+            ['GUEST', 'seat.getSeatMap', AuditOutcome.SUCCESS],
+            ['GUEST', 'seat.access', AuditOutcome.DENIED],
+            ['USER-9', 'seat.getSeatMap', AuditOutcome.SUCCESS]
+        ]);
+        expect(records[1].details).toEqual({ operation: 'select seat', missingPermission: 'SELECT_SEAT' });
+    });
+
+    test('should audit the actual outcome of proxy operations', () => {
+        AuditTrail.reset();
+        // Kursi acak yang sudah terisi dimatikan agar A1 pasti tersedia
+        const random = jest.spyOn(Math, 'random').mockReturnValue(0.5);
+        const proxy = new SeatAvailabilityProxy();
+        proxy.setCurrentUser(new UserImpl('USER-9', 'Member', 'm@example.com', '0812', MembershipType.GOLD));
+
+        expect(proxy.selectSeat('SHOW-OUTCOME', 'A1')).toBe(true);
+        expect(proxy.selectSeat('SHOW-OUTCOME', 'Z99')).toBe(false);
+        expect(proxy.confirmBooking('SHOW-OUTCOME', ['A2'])).toBe(false);
+
+        expect(AuditTrail.query({ showtimeId: 'SHOW-OUTCOME' })
+            .filter(record => record.action !== 'seat.getSeatMap')
+            .map(record => [record.action, record.outcome])).toEqual([
+                ['seat.selectSeat', AuditOutcome.SUCCESS],
+                ['seat.selectSeat', AuditOutcome.FAILURE],
+                ['seat.confirmBooking', AuditOutcome.FAILURE]
+            ]);
+        random.mockRestore();
+    });
+
+    test('should return no records for a non-positive limit', () => {
+        recordSeat('USER-1', 'SHOW-1');
+        recordSeat('USER-2', 'SHOW-1');
+
+        expect(AuditTrail.query({ limit: 1 }).map(record => record.actor)).toEqual(['USER-2']);
+        expect(AuditTrail.query({ limit: 0 })).toEqual([]);
+        expect(AuditTrail.query({ limit: -1 })).toEqual([]);
+    });
+
+    test('should skip and report truncated JSONL lines instead of failing the whole trail', () => {
+        const log = jest.spyOn(console, 'log');
+        recordSeat('USER-1', 'SHOW-1');
+        fs.appendFileSync(path.join(directory, 'audit.jsonl'), '{"actor":"USER-2","act');
+        fs.appendFileSync(path.join(directory, 'audit.jsonl'), '\n');
+        recordSeat('USER-3', 'SHOW-1');
+
+        expect(AuditTrail.query().map(record => record.actor)).toEqual(['USER-1', 'USER-3']);
+        expect(AuditTrail.export().split('\n')).toHaveLength(2);
+        expect(log).toHaveBeenCalledWith(expect.stringContaining(`${path.join(directory, 'audit.jsonl')}:2`));
+    });
+
+    test('should write to a rotating JSONL file by default', () => {
+        const previous = process.env.AUDIT_LOG_DIR;
+        process.env.AUDIT_LOG_DIR = directory;
+        try {
+            jest.isolateModules(() => {
+                const fresh = require('../../src/utils/AuditTrail') as typeof import('../../src/utils/AuditTrail');
+                expect(fresh.AuditTrail.getSink()).toBeInstanceOf(fresh.JsonlFileAuditSink);
+                fresh.AuditTrail.record({ actor: 'SYSTEM', action: 'test.default', resource: 'test', outcome: AuditOutcome.SUCCESS });
+            });
+        } finally {
+            if (previous === undefined) delete process.env.AUDIT_LOG_DIR;
+            else process.env.AUDIT_LOG_DIR = previous;
+        }
+
+        const lines = fs.readFileSync(path.join(directory, 'audit.jsonl'), 'utf8').trim().split('\n');
+        expect(JSON.parse(lines[0])).toMatchObject({ actor: 'SYSTEM', action: 'test.default' });
+    });
+
+    test('should record booking transitions and refunds', () => {
+        AuditTrail.reset();
+        const context = new BookingContext('Jane', 'Film', 'BKG-AUDIT', { userId: 'USER-7', showtimeId: 'SHOW-1' });
+        context.addSeat('A1', 50000);
+        context.proceedToPayment();
+        context.pay(50000);
+        context.refund();
+
+        new PaymentGatewayManager().refundPayment(PaymentMethod.GOPAY, 'TRX-1', 'STAFF-1');
+
+        const transitions = AuditTrail.query({ action: 'booking.transition' });
+        expect(transitions.map(record => record.details)).toEqual([
+            { from: 'Draft', to: 'Pending' },
+            { from: 'Pending', to: 'Paid' },
+            { from: 'Paid', to: 'Cancelled' }
+        ]);
+        expect(transitions.every(record => record.actor === 'USER-7' && record.showtimeId === 'SHOW-1')).toBe(true);
+        expect(AuditTrail.query({ action: 'booking.refund' })[0]).toMatchObject({
+            actor: 'USER-7',
+            showtimeId: 'SHOW-1',
+            details: expect.objectContaining({ amount: 50000 })
+        });
+        expect(AuditTrail.query({ action: 'payment.refund' })[0]).toMatchObject({
+            actor: 'STAFF-1',
+            resource: 'transaction:TRX-1',
+            outcome: AuditOutcome.SUCCESS
+        });
+    });
+
+    test('should record a guest actor for bookings without a user id', () => {
+        const context = new BookingContext('Jane', 'Film', 'BKG-GUEST');
+        context.addSeat('A1', 50000);
+        context.proceedToPayment();
+
+        expect(AuditTrail.query({ action: 'booking.transition' })[0].actor).toBe('GUEST');
+    });
+
+    test('should audit checkout and cancellation refunds by user id and showtime', () => {
+        AuditTrail.reset();
+        jest.spyOn(Math, 'random').mockReturnValue(0.5);
+        const service = new CinemaBookingService();
+        const user = new UserImpl('USR-AUDIT', 'Jane', 'jane@example.com', '0812', MembershipType.REGULAR);
+        const movie = new MovieImpl('MOV-1', 'Film', 'Drama', 120, 'SU', 'Desc', 'poster.jpg', new Date());
+        const cinema = new CinemaImpl('CIN-1', 'Bioskop', 'Loc', 'Addr', 'City');
+        const studio = new StudioImpl('STD-1', 'Studio 1', StudioType.REGULAR, 100, 10, 10);
+        const showtime = new ShowtimeImpl('SHW-AUDIT', movie, cinema, studio, new Date(Date.now() + 24 * 60 * 60 * 1000), '20:00', '22:00', 50000);
+
+        const result = service.completeBooking(user, 'SHW-AUDIT', showtime, ['A1'], TicketType.REGULAR, PaymentMethod.GOPAY);
+        expect(result.success).toBe(true);
+        const transactionId = result.paymentResult!.transactionId;
+        expect(service.cancelBooking(result.booking!, transactionId)).toBe(true);
+
+        const actions = AuditTrail.query({ actor: user.id, showtimeId: 'SHW-AUDIT' }).map(record => record.action);
+        expect(actions).toEqual(expect.arrayContaining(['booking.transition', 'booking.refund', 'payment.refund']));
+        expect(AuditTrail.query({ action: 'payment.refund' })).toEqual([expect.objectContaining({
+            actor: user.id,
+            resource: `transaction:${transactionId}`,
+            outcome: AuditOutcome.SUCCESS
+        })]);
+        expect(AuditTrail.query({ actor: 'Jane' })).toHaveLength(0);
+    });
+
+    test('should export matching records as JSONL for compliance review', () => {
+        recordSeat('USER-1', 'SHOW-1');
+        recordSeat('USER-2', 'SHOW-1');
+
+        const lines = AuditTrail.export({ actor: 'USER-2' }).split('\n');
+        expect(lines).toHaveLength(1);
+        expect(JSON.parse(lines[0])).toEqual({
+            timestamp: '2026-01-10T10:00:00.000Z',
+            actor: 'USER-2',
+            action: 'seat.selectSeat',
+            resource: 'showtime:SHOW-1',
+            outcome: 'SUCCESS',
+            showtimeId: 'SHOW-1'
+        });
+    });
+});
@@ -25,14 +25,14 @@ describe('Decorator Pattern - Ticket Addons', () => {
     });
 
     test('should calculate base price correctly', () => {
-        expect(ticket.getPrice()).toBe(basePrice);
+        expect(ticket.getPrice().toNumber()).toBe(basePrice);
         expect(ticket.getDescription()).toContain('Tiket Avengers');
     });
 
     test('should add snack combo price', () => {
         const combo = new SnackComboDecorator(ticket, SnackSize.REGULAR);
         const expectedPrice = basePrice + 35000;
-        expect(combo.getPrice()).toBe(expectedPrice);
+        expect(combo.getPrice().toNumber()).toBe(expectedPrice);
         expect(combo.getDescription()).toContain('Snack Combo (REGULAR)');
     });
 
@@ -41,7 +41,7 @@ describe('Decorator Pattern - Ticket Addons', () => {
         // Insurance is 5% of base price, min 5000, max 25000
         // 5% of 50000 = 2500 < 5000, so min applies
         const expectedPrice = basePrice + 5000;
-        expect(insured.getPrice()).toBe(expectedPrice);
+        expect(insured.getPrice().toNumber()).toBe(expectedPrice);
         expect(insured.getDescription()).toContain('Asuransi Tiket');
     });
 
@@ -54,7 +54,7 @@ describe('Decorator Pattern - Ticket Addons', () => {
             .build();
 
         const expected = basePrice + 65000 + 15000 + 50000;
-        expect(builtTicket.getPrice()).toBe(expected);
+        expect(builtTicket.getPrice().toNumber()).toBe(expected);
         expect(builtTicket.getDescription()).toContain('Snack Combo (LARGE)');
         expect(builtTicket.getDescription()).toContain('Voucher Parkir Mobil');
         expect(builtTicket.getDescription()).toContain('[PREMIUM SEAT]');
@@ -63,7 +63,7 @@ describe('Decorator Pattern - Ticket Addons', () => {
     test('should add souvenir price', () => {
         const souvenir = new SouvenirDecorator(ticket, SouvenirType.KEYCHAIN);
         const expectedPrice = basePrice + 25000;
-        expect(souvenir.getPrice()).toBe(expectedPrice);
+        expect(souvenir.getPrice().toNumber()).toBe(expectedPrice);
         expect(souvenir.getDescription()).toContain('Gantungan Kunci Eksklusif');
     });
 });
@@ -9,10 +9,12 @@ import {
     MembershipType
 } from '../../src/models/User';
 import { TicketType } from '../../src/ticket/TicketFactory';
+import { ConcreteBookingBuilder } from '../../src/booking/BookingBuilder';
 import { PaymentMethod } from '../../src/payment/PaymentGateway';
 import { MovieImpl } from '../../src/models/Movie';
 import { CinemaImpl, StudioImpl, StudioType } from '../../src/models/Cinema';
 import { ShowtimeImpl } from '../../src/models/Showtime';
+import { SeatChangeEvent, SeatChangeType } from '../../src/seat/SeatChangeEvents';
 
 describe('Facade Pattern - Cinema Booking', () => {
     let service: CinemaBookingService;
@@ -134,6 +136,58 @@ describe('Facade Pattern - Cinema Booking', () => {
         expect(result.message).toContain('tidak tersedia');
     });
 
+    test('should release reserved seats when checkout throws after the reservation', () => {
+        const build = jest.spyOn(ConcreteBookingBuilder.prototype, 'build').mockImplementation(() => {
+            throw new Error('Builder rusak');
+        });
+
+        try {
+            const result = service.completeBooking(
+                user,
+                showtimeId,
+                showtime,
+                seatCodes,
+                TicketType.REGULAR,
+                PaymentMethod.GOPAY
+            );
+
+            expect(result.success).toBe(false);
+            expect(result.message).toBe('Builder rusak');
+            expect(service.getAvailableSeatsForShowtime(showtimeId).map(seat => seat.getCode()))
+                .toEqual(expect.arrayContaining(seatCodes));
+            expect(service.getAvailableSeatsForShowtime(showtimeId)).toHaveLength(100);
+        } finally {
+            build.mockRestore();
+        }
+    });
+
+    test('should release the seats and publish RELEASED when a booking is cancelled', () => {
+        jest.spyOn(Math, 'random').mockReturnValue(0.5);
+        const events: SeatChangeEvent[] = [];
+        service.getSeatEventBus().subscribe(event => events.push(event));
+
+        try {
+            const result = service.completeBooking(
+                user,
+                showtimeId,
+                showtime,
+                seatCodes,
+                TicketType.REGULAR,
+                PaymentMethod.GOPAY
+            );
+            expect(result.success).toBe(true);
+            expect(service.getAvailableSeatsForShowtime(showtimeId)).toHaveLength(98);
+
+            expect(service.cancelBooking(result.booking!, result.paymentResult!.transactionId)).toBe(true);
+            expect(service.getAvailableSeatsForShowtime(showtimeId)).toHaveLength(100);
+            expect(events).toEqual([
+                expect.objectContaining({ type: SeatChangeType.RELEASED, showtimeId, seatCodes })
+            ]);
+        } finally {
+            (Math.random as jest.Mock).mockRestore();
+        }
+    });
+
     test('should search movies', () => {
         const movies = service.searchMovies('Avengers');
         // Based on hardcoded data in MovieService
@@ -0,0 +1,188 @@
+import {
+    InsufficientPointsError,
+    LedgerEntryType,
+    LoyaltyLedger
+} from '../../src/booking/LoyaltyPoints';
+import { BookingContext } from '../../src/booking/BookingStatus';
+import { CinemaBookingService, PaymentService } from '../../src/services/CinemaBookingService';
+import { Money } from '../../src/pricing/Money';
+import { AuditOutcome, AuditTrail } from '../../src/utils/AuditTrail';
+import { ManualClock } from '../../src/utils/Clock';
+import { UserImpl, MembershipType } from '../../src/models/User';
+import { ShowtimeImpl } from '../../src/models/Showtime';
+import { MovieImpl } from '../../src/models/Movie';
+import { CinemaImpl, StudioImpl, StudioType } from '../../src/models/Cinema';
+import { TicketType } from '../../src/ticket/TicketFactory';
+import { PaymentMethod } from '../../src/payment/PaymentGateway';
+
+describe('Facade Pattern - Loyalty Points Ledger', () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    let clock: ManualClock;
+    let ledger: LoyaltyLedger;
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+        AuditTrail.reset();
+        clock = new ManualClock();
+        ledger = new LoyaltyLedger({ clock, expiryDays: 30 });
+        LoyaltyLedger.setDefault(ledger);
+    });
+
+    afterEach(() => {
+        LoyaltyLedger.setDefault(null);
+    });
+
+    test('should accrue points by membership tier and redeem them as a payment amount', () => {
+        expect(ledger.accrue('USR-1', MembershipType.GOLD, 'BKG-1', Money.of(150000))?.points).toBe(225);
+        expect(ledger.accrue('USR-1', MembershipType.REGULAR, 'BKG-2', Money.of(150000))?.points).toBe(150);
+        expect(ledger.accrue('USR-1', MembershipType.GOLD, 'BKG-1', Money.of(150000))?.points).toBe(225);
+        expect(ledger.accrue('USR-1', MembershipType.REGULAR, 'BKG-3', Money.of(999))).toBeNull();
+        expect(ledger.getBalance('USR-1')).toBe(375);
+
+        const redemption = ledger.redeem('USR-1', 100, 'BKG-4');
+        expect(redemption.amount.toNumber()).toBe(1000);
+        expect(ledger.getBalance('USR-1')).toBe(275);
+
+        expect(() => ledger.redeem('USR-1', 300, 'BKG-5')).toThrow(InsufficientPointsError);
+        expect(() => ledger.redeem('USR-1', 10, 'BKG-4')).toThrow(/sudah memakai poin/);
+        expect(AuditTrail.query({ action: 'loyalty.redemption', outcome: AuditOutcome.DENIED })).toHaveLength(1);
+    });
+
+    test('should expire unused points oldest lot first', () => {
+        ledger.accrue('USR-1', MembershipType.REGULAR, 'BKG-1', Money.of(100000));
+        clock.advance(10 * DAY);
+        ledger.accrue('USR-1', MembershipType.REGULAR, 'BKG-2', Money.of(50000));
+        ledger.redeem('USR-1', 120, 'BKG-3');
+
+        clock.advance(25 * DAY);
+        expect(ledger.getBalance('USR-1')).toBe(30);
+        expect(ledger.getEntries('USR-1').some(entry => entry.type === LedgerEntryType.EXPIRY)).toBe(false);
+
+        clock.advance(6 * DAY);
+        expect(ledger.getBalance('USR-1')).toBe(0);
+        const expiry = ledger.getEntries('USR-1').filter(entry => entry.type === LedgerEntryType.EXPIRY);
+        expect(expiry).toEqual([expect.objectContaining({ points: -30, relatedEntryId: 'LPT-2' })]);
+    });
+
+    test('should reverse accruals on refund and reproduce the balance from entries', () => {
+        ledger.accrue('USR-1', MembershipType.PLATINUM, 'BKG-1', Money.of(100000));
+        ledger.accrue('USR-1', MembershipType.PLATINUM, 'BKG-2', Money.of(50000));
+
+        const context = new BookingContext('Budi', 'Film', 'BKG-2');
+        context.addSeat('A1', 50000);
+        context.proceedToPayment();
+        context.pay(50000);
+        context.onRefund(({ bookingId }) => ledger.reverseAccrual(bookingId));
+        context.refund();
+
+        expect(ledger.getBalance('USR-1')).toBe(200);
+        expect(ledger.reverseAccrual('BKG-2')).toBeNull();
+
+        const entries = ledger.getEntries();
+        expect(entries.map(entry => entry.type)).toEqual([
+            LedgerEntryType.ACCRUAL,
+            LedgerEntryType.ACCRUAL,
+            LedgerEntryType.ACCRUAL_REVERSAL
+        ]);
+        expect(LoyaltyLedger.sumPoints(entries)).toBe(200);
+        expect(LoyaltyLedger.fromEntries(JSON.parse(JSON.stringify(entries), (key, value) =>
+            key === 'createdAt' || key === 'expiresAt' ? new Date(value) : value
+        ), { clock }).getBalance('USR-1')).toBe(200);
+        expect(AuditTrail.query().filter(record => record.action.startsWith('loyalty.'))).toHaveLength(entries.length);
+    });
+
+    test('should return reversed redemptions to their original lots and expiry dates', () => {
+        const first = ledger.accrue('USR-1', MembershipType.REGULAR, 'BKG-1', Money.of(100000))!;
+        clock.advance(10 * DAY);
+        const second = ledger.accrue('USR-1', MembershipType.REGULAR, 'BKG-2', Money.of(50000))!;
+        ledger.redeem('USR-1', 120, 'BKG-3');
+
+        clock.advance(5 * DAY);
+        ledger.reverseRedemption('BKG-3');
+        const restored = ledger.getEntries('USR-1').filter(entry => entry.type === LedgerEntryType.REDEMPTION_REVERSAL);
+        expect(restored.map(entry => [entry.points, entry.expiresAt])).toEqual([
+            [100, first.expiresAt],
+            [20, second.expiresAt]
+        ]);
+        expect(ledger.reverseRedemption('BKG-3')).toBeNull();
+        expect(ledger.getBalance('USR-1')).toBe(150);
+
+        // Poin yang dikembalikan tetap kedaluwarsa sesuai lot asalnya
+        clock.advance(16 * DAY);
+        expect(ledger.getBalance('USR-1')).toBe(50);
+    });
+
+    test('should not drive the balance negative when reversing an accrual already spent', () => {
+        ledger.accrue('USR-1', MembershipType.REGULAR, 'BKG-1', Money.of(100000));
+        ledger.redeem('USR-1', 80, 'BKG-2');
+
+        const reversal = ledger.reverseAccrual('BKG-1');
+        expect(reversal?.points).toBe(-20);
+        expect(reversal?.description).toContain('80 poin sudah terpakai');
+        expect(ledger.getBalance('USR-1')).toBe(0);
+        expect(ledger.reverseAccrual('BKG-1')).toBeNull();
+    });
+
+    test('should take points as part of checkout and give them back on cancellation', () => {
+        jest.spyOn(Math, 'random').mockReturnValue(0.5);
+        const service = new CinemaBookingService();
+        const user = new UserImpl('USR-9', 'Sari', 'sari@example.com', '08123456789', MembershipType.GOLD);
+        const movie = new MovieImpl('MOV-1', 'Film', 'Drama', 120, 'SU', 'Desc', 'poster.jpg', new Date());
+        const cinema = new CinemaImpl('CIN-1', 'Bioskop', 'Loc', 'Addr', 'City');
+        const studio = new StudioImpl('STD-1', 'Studio 1', StudioType.REGULAR, 100, 10, 10);
+        const tomorrow = new Date(Date.now() + DAY);
+        const showtime = new ShowtimeImpl('SHW-LOYAL', movie, cinema, studio, tomorrow, '20:00', '22:00', 50000);
+        ledger.accrue(user.id, MembershipType.GOLD, 'BKG-LAMA', Money.of(400000));
+
+        const denied = service.completeBooking(user, 'SHW-LOYAL', showtime, ['A1', 'A2'], TicketType.REGULAR, PaymentMethod.GOPAY, undefined, 10000);
+        expect(denied.success).toBe(false);
+        expect(denied.message).toContain('tidak mencukupi');
+
+        const result = service.completeBooking(user, 'SHW-LOYAL', showtime, ['A1', 'A2'], TicketType.REGULAR, PaymentMethod.GOPAY, undefined, 500);
+        expect(result.success).toBe(true);
+        const total = result.booking!.getTotalPrice().toNumber();
+        expect(result.pointsRedeemed).toBe(500);
+        expect(result.paymentResult?.amount.toNumber()).toBe(total - 5000);
+        expect(result.pointsEarned).toBe(Math.floor((total - 5000) / 1000 * 1.5));
+        expect(ledger.getBalance(user.id)).toBe(600 - 500 + result.pointsEarned!);
+
+        expect(service.cancelBooking(result.booking!, result.paymentResult!.transactionId)).toBe(true);
+        expect(ledger.getBalance(user.id)).toBe(600);
+    });
+
+    test('should give redeemed points back when checkout fails after the redemption', () => {
+        const payment = jest.spyOn(PaymentService.prototype, 'processPayment').mockImplementation(() => {
+            throw new Error('Gateway timeout');
+        });
+        jest.spyOn(console, 'error').mockImplementation(() => { });
+        const user = new UserImpl('USR-8', 'Dodi', 'dodi@example.com', '0812', MembershipType.GOLD);
+        const movie = new MovieImpl('MOV-1', 'Film', 'Drama', 120, 'SU', 'Desc', 'poster.jpg', new Date());
+        const cinema = new CinemaImpl('CIN-1', 'Bioskop', 'Loc', 'Addr', 'City');
+        const studio = new StudioImpl('STD-1', 'Studio 1', StudioType.REGULAR, 100, 10, 10);
+        const showtime = new ShowtimeImpl('SHW-FAIL', movie, cinema, studio, new Date(Date.now() + DAY), '20:00', '22:00', 50000);
+        ledger.accrue(user.id, MembershipType.GOLD, 'BKG-LAMA', Money.of(400000));
+
+        try {
+            const result = new CinemaBookingService().completeBooking(
+                user, 'SHW-FAIL', showtime, ['A1'], TicketType.REGULAR, PaymentMethod.GOPAY, undefined, 300
+            );
+
+            expect(result.success).toBe(false);
+            expect(ledger.getBalance(user.id)).toBe(600);
+            expect(ledger.getEntries(user.id).map(entry => entry.type)).toEqual([
+                LedgerEntryType.ACCRUAL,
+                LedgerEntryType.REDEMPTION,
+                LedgerEntryType.REDEMPTION_REVERSAL
+            ]);
+        } finally {
+            payment.mockRestore();
+        }
+    });
+});
@@ -0,0 +1,124 @@
+import { RealSeatAvailabilityService, SeatDisplayHelper } from '../../src/seat/SeatAvailability';
+import { DistancingOccupancyPolicy } from '../../src/seat/OccupancyPolicy';
+import { SeatHoldManager } from '../../src/seat/SeatHold';
+import { ManualClock } from '../../src/utils/Clock';
+import { SeatMap } from '../../src/seat/SeatMap';
+import { SeatImpl, SeatStatus } from '../../src/models/Seat';
+import { SeatMapDefinition } from '../../src/models/SeatMapDefinition';
+
+const distancingStudio: SeatMapDefinition = {
+    id: 'MAP-DISTANCING',
+    name: 'Studio Jaga Jarak',
+    rows: [
+        { label: 'A', pattern: 'RRRRRR' },
+        { label: 'B', pattern: 'RRR_RRR' },
+        { label: 'C', pattern: 'RRRRRR' }
+    ]
+};
+
+describe('Proxy Pattern - Occupancy Policy', () => {
+    const showtimeId = 'SHOW-DISTANCING-1';
+    let service: RealSeatAvailabilityService;
+
+    const statusOf = (code: string) => service.getSeats(showtimeId).find(seat => seat.getCode() === code)!.status;
+
+    const book = (codes: string[]) => {
+        codes.forEach(code => service.selectSeat(showtimeId, code, 'GROUP'));
+        return service.confirmBooking(showtimeId, codes, 'GROUP');
+    };
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    let clock: ManualClock;
+
+    beforeEach(() => {
+        clock = new ManualClock(new Date('2026-01-10T10:00:00'));
+        service = new RealSeatAvailabilityService(new SeatHoldManager(clock));
+        service.registerSeatMap(showtimeId, distancingStudio);
+        service.getSeats(showtimeId).forEach(seat => (seat as SeatImpl).status = SeatStatus.AVAILABLE);
+        service.setOccupancyPolicy(showtimeId, new DistancingOccupancyPolicy());
+    });
+
+    test('should block buffer seats beside each confirmed group', () => {
+        expect(book(['A2', 'A3'])).toBe(true);
+
+        expect(statusOf('A1')).toBe(SeatStatus.UNAVAILABLE);
+        expect(statusOf('A4')).toBe(SeatStatus.UNAVAILABLE);
+        expect(statusOf('A5')).toBe(SeatStatus.AVAILABLE);
+        expect(service.selectSeat(showtimeId, 'A4', 'OTHER')).toBe(false);
+    });
+
+    test('should not carry buffers across an aisle', () => {
+        book(['B3']);
+
+        expect(service.getBlockedSeats(showtimeId)).toEqual(['B2']);
+        expect(statusOf('B4')).toBe(SeatStatus.AVAILABLE);
+    });
+
+    test('should recalculate buffers when a booking is cancelled', () => {
+        book(['A2', 'A3']);
+        book(['C5']);
+
+        expect(service.cancelBooking(showtimeId, ['A2', 'A3'])).toBe(true);
+
+        expect(statusOf('A1')).toBe(SeatStatus.AVAILABLE);
+        expect(statusOf('A4')).toBe(SeatStatus.AVAILABLE);
+        expect(service.getBlockedSeats(showtimeId).sort()).toEqual(['C4', 'C6']);
+        expect(service.cancelBooking(showtimeId, ['A2'])).toBe(false);
+    });
+
+    test('should block a held buffer seat once it is deselected or its hold expires', () => {
+        service.selectSeat(showtimeId, 'A4', 'OTHER');
+        service.selectSeat(showtimeId, 'C4', 'SLOW');
+        book(['A2', 'A3']);
+        book(['C5']);
+
+        expect(statusOf('A4')).toBe(SeatStatus.SELECTED);
+        expect(statusOf('C4')).toBe(SeatStatus.SELECTED);
+
+        expect(service.deselectSeat(showtimeId, 'A4', 'OTHER')).toBe(true);
+        expect(statusOf('A4')).toBe(SeatStatus.UNAVAILABLE);
+
+        clock.advance(SeatHoldManager.DEFAULT_HOLD_DURATION + 1);
+        service.releaseExpiredHolds();
+        expect(statusOf('C4')).toBe(SeatStatus.UNAVAILABLE);
+        expect(service.getBlockedSeats(showtimeId).sort()).toEqual(['A1', 'A4', 'C4', 'C6']);
+    });
+
+    test('should report effective capacity', () => {
+        book(['A2', 'A3']);
+
+        expect(service.getOccupancyReport(showtimeId)).toEqual({
+            showtimeId,
+            totalCapacity: 18,
+            bookedSeats: 2,
+            blockedSeats: 2,
+            effectiveCapacity: 16,
+            remainingSeats: 14
+        });
+
+        service.setOccupancyPolicy(showtimeId, null);
+        expect(service.getOccupancyReport(showtimeId).effectiveCapacity).toBe(18);
+    });
+
+    test('should optionally block seats in front of and behind a group', () => {
+        const policy = new DistancingOccupancyPolicy({ seatBuffer: 1, rowBuffer: 1 });
+        const blocked = policy.computeBlockedSeats(SeatMap.fromDefinition(distancingStudio), code => code === 'B2');
+
+        expect(Array.from(blocked).sort()).toEqual(['A2', 'B1', 'B3', 'C2']);
+    });
+
+    test('should show blocked seats in the seat display', () => {
+        book(['A2']);
+
+        const output = SeatDisplayHelper.displayLayout(service.getSeats(showtimeId), 6);
+        expect(output).toContain('▫');
+        expect(output).toContain('Blocked');
+    });
+});
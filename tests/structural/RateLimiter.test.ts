@@ -0,0 +1,119 @@
+import { AccessLevel, SeatAvailabilityProxy } from '../../src/seat/SeatAvailability';
+import { SeatHoldManager } from '../../src/seat/SeatHold';
+import { RateLimitExceededError, TokenBucketRateLimiter } from '../../src/utils/RateLimiter';
+import { AuditOutcome, AuditTrail } from '../../src/utils/AuditTrail';
+import { ManualClock } from '../../src/utils/Clock';
+import { UserImpl, MembershipType } from '../../src/models/User';
+
+describe('Proxy Pattern - Seat Operation Rate Limiting', () => {
+    const showtimeId = 'SHOW-RATE-1';
+    let clock: ManualClock;
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterAll(() => {
+        AuditTrail.reset();
+        jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+        clock = new ManualClock(new Date('2026-01-10T10:00:00'));
+        AuditTrail.reset();
+    });
+
+    test('should allow bursts up to capacity and refill over time', () => {
+        const limiter = new TokenBucketRateLimiter(clock);
+        const limits = { capacity: 2, refillPerSecond: 1 };
+
+        expect(limiter.tryConsume('USER-1', limits).allowed).toBe(true);
+        expect(limiter.tryConsume('USER-1', limits).remaining).toBe(0);
+
+        const denied = limiter.tryConsume('USER-1', limits);
+        expect(denied.allowed).toBe(false);
+        expect(denied.retryAfterMs).toBe(1000);
+
+        // Bucket user lain tidak terpengaruh
+        expect(limiter.tryConsume('USER-2', limits).allowed).toBe(true);
+
+        clock.advance(500);
+        expect(limiter.tryConsume('USER-1', limits).retryAfterMs).toBe(500);
+        clock.advance(500);
+        expect(limiter.tryConsume('USER-1', limits).allowed).toBe(true);
+    });
+
+    test('should evict idle buckets once they have refilled', () => {
+        const limiter = new TokenBucketRateLimiter(clock, 60 * 1000);
+        const fast = { capacity: 2, refillPerSecond: 1 };
+        const slow = { capacity: 2, refillPerSecond: 0.01 };
+
+        for (let i = 0; i < 100; i++) {
+            limiter.tryConsume(`GUEST-${i}`, fast);
+        }
+        limiter.tryConsume('USER-SLOW', slow);
+        limiter.tryConsume('USER-SLOW', slow);
+        expect(limiter.getBucketCount()).toBe(101);
+
+        // Belum waktunya pembersihan: bucket tetap disimpan
+        clock.advance(30 * 1000);
+        limiter.tryConsume('USER-1', fast);
+        expect(limiter.getBucketCount()).toBe(102);
+
+        // Bucket yang sudah penuh dibuang, bucket yang masih terisi ulang dipertahankan
+        clock.advance(30 * 1000);
+        limiter.tryConsume('USER-1', fast);
+        expect(limiter.getBucketCount()).toBe(2);
+        expect(limiter.tryConsume('USER-SLOW', slow).allowed).toBe(false);
+        expect(limiter.tryConsume('GUEST-1', fast).remaining).toBe(1);
+    });
+
+    test('should reject seat selection with a retry-after hint when exceeded', () => {
+        const proxy = new SeatAvailabilityProxy({
+            holdManager: new SeatHoldManager(clock),
+            rateLimits: { [AccessLevel.MEMBER]: { capacity: 2, refillPerSecond: 0.5 } }
+        });
+        proxy.setCurrentUser(new UserImpl('BOT-1', 'Bot', 'bot@example.com', '0812', MembershipType.GOLD));
+
+        proxy.selectSeat(showtimeId, 'A1');
+        proxy.deselectSeat(showtimeId, 'A1');
+
+        try {
+            proxy.selectSeat(showtimeId, 'A2');
+            fail('Expected RateLimitExceededError');
+        } catch (error) {
+            expect(error).toBeInstanceOf(RateLimitExceededError);
+            expect((error as RateLimitExceededError).retryAfterMs).toBe(2000);
+            expect((error as RateLimitExceededError).key).toBe('BOT-1');
+        }
+
+        expect(AuditTrail.query({ action: 'seat.rateLimit' })[0]).toMatchObject({
+            actor: 'BOT-1',
+            outcome: AuditOutcome.DENIED,
+            showtimeId
+        });
+
+        clock.advance(2000);
+        expect(() => proxy.selectSeat(showtimeId, 'A2')).not.toThrow();
+    });
+
+    test('should apply higher limits to higher access levels', () => {
+        const proxy = new SeatAvailabilityProxy({
+            holdManager: new SeatHoldManager(clock),
+            rateLimits: {
+                [AccessLevel.MEMBER]: { capacity: 1, refillPerSecond: 0 },
+                [AccessLevel.VIP]: { capacity: 3, refillPerSecond: 0 }
+            }
+        });
+
+        proxy.setCurrentUser(new UserImpl('USER-G', 'Gold', 'g@example.com', '0812', MembershipType.GOLD));
+        proxy.selectSeat(showtimeId, 'A1');
+        expect(() => proxy.selectSeat(showtimeId, 'A2')).toThrow(RateLimitExceededError);
+
+        proxy.setCurrentUser(new UserImpl('USER-P', 'Platinum', 'p@example.com', '0813', MembershipType.PLATINUM));
+        proxy.selectSeat(showtimeId, 'A3');
+        proxy.selectSeat(showtimeId, 'A4');
+        expect(() => proxy.selectSeat(showtimeId, 'A5')).not.toThrow();
+        expect(() => proxy.selectSeat(showtimeId, 'A6')).toThrow(/Rate limit exceeded/);
+    });
+});
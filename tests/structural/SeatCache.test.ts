@@ -0,0 +1,125 @@
+import { SEAT_LIST_CODEC, SeatAvailabilityProxy } from '../../src/seat/SeatAvailability';
+import { SeatChangeEvent, SeatChangeEventBus, SeatChangeType } from '../../src/seat/SeatChangeEvents';
+import { SeatHoldManager } from '../../src/seat/SeatHold';
+import { ExternalCacheStore, InMemoryLRUCacheStore, LocalCacheClient } from '../../src/utils/CacheStore';
+import { ManualClock } from '../../src/utils/Clock';
+import { UserImpl, MembershipType, UserRole } from '../../src/models/User';
+import { Seat, SeatImpl, SeatStatus } from '../../src/models/Seat';
+import { SeatMapDefinition } from '../../src/models/SeatMapDefinition';
+
+const smallStudio: SeatMapDefinition = {
+    id: 'MAP-CACHE',
+    name: 'Studio Cache',
+    rows: [{ label: 'A', pattern: 'RRRR' }]
+};
+
+describe('Proxy Pattern - Pluggable Cache and Event Invalidation', () => {
+    const showtimeId = 'SHOW-CACHE-1';
+    const member = new UserImpl('USER-1', 'Member', 'm@example.com', '0812', MembershipType.GOLD);
+    const admin = new UserImpl('STAFF-1', 'Admin', 'a@example.com', '0815', MembershipType.REGULAR, false, UserRole.ADMIN);
+    let clock: ManualClock;
+
+    const createProxy = (options: ConstructorParameters<typeof SeatAvailabilityProxy>[0] = {}) => {
+        const proxy = new SeatAvailabilityProxy({ holdManager: new SeatHoldManager(clock), ...options });
+        proxy.setCurrentUser(admin);
+        proxy.registerSeatMap(showtimeId, smallStudio);
+        proxy.getSeats(showtimeId).forEach(seat => (seat as SeatImpl).status = SeatStatus.AVAILABLE);
+        proxy.clearCache();
+        proxy.setCurrentUser(member);
+        return proxy;
+    };
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+        clock = new ManualClock(new Date('2026-01-10T10:00:00'));
+    });
+
+    test('should evict least recently used entries and report statistics', () => {
+        const cache = new InMemoryLRUCacheStore<string>({ maxEntries: 2, clock });
+        cache.set('a', 'A', 1000);
+        cache.set('b', 'B', 1000);
+        cache.get('a');
+        cache.set('c', 'C', 1000);
+
+        expect(cache.get('b')).toBeUndefined();
+        expect(cache.keys()).toEqual(['a', 'c']);
+
+        const stats = cache.getStats();
+        expect(stats.hits).toBe(1);
+        expect(stats.misses).toBe(1);
+        expect(stats.hitRatio).toBe(0.5);
+        expect(stats.evictions).toBe(1);
+        expect(stats.memoryBytes).toBe(12);
+    });
+
+    test('should honour per-key TTL and memory limits', () => {
+        const cache = new InMemoryLRUCacheStore<string>({ maxMemoryBytes: 20, clock });
+        cache.set('short', 'x', 1000);
+        cache.set('long', 'y', 5000);
+
+        clock.advance(1000);
+        expect(cache.get('short')).toBeUndefined();
+        expect(cache.get('long')).toBe('y');
+
+        cache.set('big', 'zzzzzz', 5000);
+        expect(cache.keys()).toEqual(['big']);
+        expect(cache.getStats().evictions).toBe(1);
+    });
+
+    test('should use configured TTLs in the proxy', () => {
+        const proxy = new SeatAvailabilityProxy({ holdManager: new SeatHoldManager(clock), cacheTtl: { seats: 1000 } });
+
+        proxy.getSeats(showtimeId);
+        proxy.getSeats(showtimeId);
+        clock.advance(1000);
+        proxy.getSeats(showtimeId);
+
+        const stats = proxy.getCacheStats();
+        expect(stats.hits).toBe(1);
+        expect(stats.misses).toBe(2);
+    });
+
+    test('should invalidate on booking and cancellation events', () => {
+        const eventBus = new SeatChangeEventBus();
+        const events: SeatChangeEvent[] = [];
+        eventBus.subscribe(event => events.push(event));
+        const proxy = createProxy({ eventBus });
+
+        proxy.selectSeat(showtimeId, 'A1');
+        proxy.getSeats(showtimeId);
+        expect(proxy.confirmBooking(showtimeId, ['A1'])).toBe(true);
+        expect(proxy.getCacheStats().entries).toBe(0);
+
+        proxy.getSeats(showtimeId);
+        expect(proxy.cancelBooking(showtimeId, ['A1'])).toBe(true);
+        expect(proxy.getCacheStats().entries).toBe(0);
+
+        expect(events.map(event => event.type)).toEqual([
+            SeatChangeType.SELECTED,
+            SeatChangeType.BOOKED,
+            SeatChangeType.CANCELLED
+        ]);
+    });
+
+    test('should share an external store and invalidation across proxies', () => {
+        const client = new LocalCacheClient(clock);
+        const eventBus = new SeatChangeEventBus();
+        const kiosk = createProxy({ eventBus, cacheStore: new ExternalCacheStore<Seat[]>(client, SEAT_LIST_CODEC) });
+        const web = createProxy({ eventBus, cacheStore: new ExternalCacheStore<Seat[]>(client, SEAT_LIST_CODEC) });
+
+        const seats = web.getSeats(showtimeId);
+        expect(seats[0]).toBeInstanceOf(SeatImpl);
+        expect(kiosk.getCacheStats().keys).toEqual([`seats-all-${showtimeId}`]);
+        expect(kiosk.getCacheStats().memoryBytes).toBeGreaterThan(0);
+
+        kiosk.selectSeat(showtimeId, 'A2');
+        expect(client.keys()).toEqual([]);
+    });
+});
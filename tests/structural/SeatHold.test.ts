@@ -0,0 +1,91 @@
+import {
+    RealSeatAvailabilityService,
+    SeatAvailabilityProxy
+} from '../../src/seat/SeatAvailability';
+import { SeatHoldManager } from '../../src/seat/SeatHold';
+import { SeatStatus } from '../../src/models/Seat';
+import { UserImpl, MembershipType } from '../../src/models/User';
+import { ManualClock } from '../../src/utils/Clock';
+
+describe('Proxy Pattern - Time-limited Seat Holds', () => {
+    const showtimeId = 'SHOW-HOLD-1';
+    const TEN_MINUTES = 10 * 60 * 1000;
+    let clock: ManualClock;
+    let holdManager: SeatHoldManager;
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+        clock = new ManualClock(new Date('2026-01-10T10:00:00'));
+        holdManager = new SeatHoldManager(clock, TEN_MINUTES);
+    });
+
+    test('should not let another holder take over an active hold', () => {
+        expect(holdManager.placeHold(showtimeId, 'A1', 'USER-1')).not.toBeNull();
+        expect(holdManager.placeHold(showtimeId, 'A1', 'USER-2')).toBeNull();
+        expect(holdManager.isHeldBy(showtimeId, 'A1', 'USER-1')).toBe(true);
+        expect(holdManager.getRemainingTime(showtimeId, 'A1')).toBe(TEN_MINUTES);
+    });
+
+    test('should release expired holds and notify listeners', () => {
+        const expired: string[] = [];
+        holdManager.onExpire(hold => expired.push(hold.seatCode));
+
+        holdManager.placeHold(showtimeId, 'A1', 'USER-1');
+        clock.advanceMinutes(9);
+        expect(holdManager.releaseExpired()).toHaveLength(0);
+
+        clock.advanceMinutes(1);
+        expect(holdManager.releaseExpired()).toHaveLength(1);
+        expect(expired).toEqual(['A1']);
+        expect(holdManager.getHold(showtimeId, 'A1')).toBeNull();
+    });
+
+    test('should return seat to AVAILABLE when its hold expires', () => {
+        const service = new RealSeatAvailabilityService(holdManager);
+        const seat = service.getAvailableSeats(showtimeId)[0];
+
+        expect(service.selectSeat(showtimeId, seat.getCode(), 'USER-1')).toBe(true);
+        expect(seat.status).toBe(SeatStatus.SELECTED);
+
+        clock.advanceMinutes(11);
+
+        expect(service.isSeatAvailable(showtimeId, seat.getCode())).toBe(true);
+        expect(service.getSeatHold(showtimeId, seat.getCode())).toBeNull();
+    });
+
+    test('should only confirm booking for the holder that owns the hold', () => {
+        const service = new RealSeatAvailabilityService(holdManager);
+        const code = service.getAvailableSeats(showtimeId)[0].getCode();
+
+        service.selectSeat(showtimeId, code, 'USER-1');
+
+        expect(service.deselectSeat(showtimeId, code, 'USER-2')).toBe(false);
+        expect(service.confirmBooking(showtimeId, [code], 'USER-2')).toBe(false);
+        expect(service.confirmBooking(showtimeId, [code], 'USER-1')).toBe(true);
+        expect(service.getSeatHold(showtimeId, code)).toBeNull();
+    });
+
+    test('should invalidate proxy cache when a hold expires', () => {
+        const proxy = new SeatAvailabilityProxy({ holdManager });
+        proxy.setCurrentUser(new UserImpl('USER-1', 'Member', 'm@example.com', '0812', MembershipType.GOLD));
+
+        const code = proxy.getAvailableSeats(showtimeId)[0].getCode();
+        proxy.selectSeat(showtimeId, code);
+        expect(proxy.getSeatHold(showtimeId, code)?.holderId).toBe('USER-1');
+
+        proxy.getAvailableSeats(showtimeId);
+        expect(proxy.getCacheStats().entries).toBe(1);
+
+        clock.advanceMinutes(10);
+
+        const available = proxy.getAvailableSeats(showtimeId);
+        expect(available.map(seat => seat.getCode())).toContain(code);
+    });
+});
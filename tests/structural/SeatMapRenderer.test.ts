@@ -0,0 +1,80 @@
+import { SeatDisplayHelper } from '../../src/seat/SeatAvailability';
+import { SeatLayout } from '../../src/seat/SeatLayout';
+import { HtmlSeatMapRenderer, SvgSeatMapRenderer } from '../../src/seat/SeatMapRenderer';
+import { SeatSelectionController } from '../../src/seat/SeatSelection';
+import { StudioType } from '../../src/models/Cinema';
+import { SeatImpl, SeatStatus } from '../../src/models/Seat';
+import { SeatMapDefinition } from '../../src/models/SeatMapDefinition';
+import { formatRupiah } from '../../src/pricing/Money';
+
+const kioskStudio: SeatMapDefinition = {
+    id: 'MAP-KIOSK',
+    name: 'Studio Kiosk & Lounge',
+    rows: [
+        { label: 'A', pattern: 'RR_RR' },
+        { label: 'B', pattern: 'PW_RR' },
+        { label: 'C', pattern: 'VV_CC' }
+    ]
+};
+
+describe('Strategy Pattern - Seat Map Rendering', () => {
+    let layout: SeatLayout;
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+        layout = new SeatLayout('LAYOUT-KIOSK', 'Kiosk', StudioType.REGULAR, 0, 0, 50000, kioskStudio);
+        (layout.getSeat('A2') as SeatImpl).status = SeatStatus.BOOKED;
+        (layout.getSeat('A3') as SeatImpl).status = SeatStatus.SELECTED;
+        (layout.getSeat('B3') as SeatImpl).status = SeatStatus.UNAVAILABLE;
+    });
+
+    test('should render a standalone SVG', () => {
+        const svg = layout.render(new SvgSeatMapRenderer());
+
+        expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+        expect(svg).toContain('<title id="seat-map-title">Studio Kiosk &amp; Lounge</title>');
+        expect(svg).toContain('class="aisle"');
+        expect(svg).toContain('Kursi B1, Regular (Pendamping), Tersedia, Rp 50.000');
+        expect(svg).toMatchSnapshot();
+    });
+
+    test('should render an accessible HTML table', () => {
+        const html = layout.render(new HtmlSeatMapRenderer());
+
+        expect(html).toContain('<th scope="row">A</th>');
+        expect(html).toContain('<td class="aisle" aria-hidden="true"></td>');
+        expect(html).toContain('aria-label="Kursi A2, Regular, Terisi, Rp 50.000" aria-disabled="true"');
+        expect(html).toContain('<li class="seat-vip">VIP: Rp 75.000</li>');
+        expect(html).toMatchSnapshot();
+    });
+
+    test('should produce identical output for identical state', () => {
+        const seats = layout.getSeats().flat();
+
+        expect(SeatDisplayHelper.renderSvg(layout.getSeatMap(), seats)).toBe(layout.render());
+        expect(SeatDisplayHelper.renderHtml(layout.getSeatMap(), seats)).toBe(layout.render(new HtmlSeatMapRenderer()));
+        expect(layout.render()).toBe(layout.render());
+    });
+
+    test('should render the current selection from the seat manager', () => {
+        const controller = new SeatSelectionController();
+        controller.initializeFromSeatMap('SHW-KIOSK', kioskStudio, 50000, false);
+        controller.selectSeat('C4');
+
+        const svg = controller.render();
+        expect(svg).toContain('class="seat seat-couple seat-selected" data-code="C3"');
+        expect(svg).toContain('class="seat seat-couple seat-selected" data-code="C4"');
+    });
+
+    test('should format prices independently of locale', () => {
+        expect(formatRupiah(1250000)).toBe('Rp 1.250.000');
+        expect(formatRupiah(500)).toBe('Rp 500');
+    });
+});
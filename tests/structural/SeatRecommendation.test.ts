@@ -0,0 +1,102 @@
+import { RealSeatAvailabilityService } from '../../src/seat/SeatAvailability';
+import { SeatRecommendationEngine } from '../../src/seat/SeatRecommendation';
+import { SeatMap } from '../../src/seat/SeatMap';
+import { SeatImpl, SeatStatus } from '../../src/models/Seat';
+import { SeatMapDefinition } from '../../src/models/SeatMapDefinition';
+
+const studio: SeatMapDefinition = {
+    id: 'MAP-RECO',
+    name: 'Studio Rekomendasi',
+    rows: [
+        { label: 'A', pattern: 'RRRRRRRRR' },
+        { label: 'B', pattern: 'RRRRRRRRR' },
+        { label: 'C', pattern: 'RRRRRRRRR' },
+        { label: 'D', pattern: 'CC_CCCC_CC' }
+    ]
+};
+
+describe('Proxy Pattern - Best-available Seat Recommendation', () => {
+    const showtimeId = 'SHOW-RECO-1';
+    let service: RealSeatAvailabilityService;
+    let engine: SeatRecommendationEngine;
+
+    // Membuat semua kursi tersedia kecuali kode yang disebutkan
+    const bookOnly = (...codes: string[]) => {
+        for (const seat of service.getSeats(showtimeId)) {
+            (seat as SeatImpl).status = codes.includes(seat.getCode()) ? SeatStatus.BOOKED : SeatStatus.AVAILABLE;
+        }
+    };
+
+    const codesOf = (seats: { getCode(): string }[]) => seats.map(seat => seat.getCode());
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+        service = new RealSeatAvailabilityService();
+        service.registerSeatMap(showtimeId, studio);
+        engine = new SeatRecommendationEngine(service);
+        bookOnly();
+    });
+
+    test('should pair couple seats left to right within a segment', () => {
+        const map = SeatMap.fromDefinition(studio);
+
+        expect(map.getCouplePartner('D1')?.code).toBe('D2');
+        expect(map.getCouplePartner('D4')?.code).toBe('D3');
+        expect(map.getCouplePartner('D5')?.code).toBe('D6');
+        expect(map.getCouplePartner('A1')).toBeNull();
+    });
+
+    test('should pick a centred contiguous block in the preferred row', () => {
+        const result = engine.recommend(showtimeId, 3)!;
+
+        expect(result.contiguous).toBe(true);
+        expect(result.rows).toEqual(['C']);
+        expect(codesOf(result.seats)).toEqual(['C4', 'C5', 'C6']);
+    });
+
+    test('should avoid leaving a single orphaned seat when an alternative exists', () => {
+        // Baris A dan B penuh, baris C: hanya C2..C5 dan C7..C9 kosong
+        const fullRows = ['A', 'B'].flatMap(row => Array.from({ length: 9 }, (_, i) => `${row}${i + 1}`));
+        bookOnly(...fullRows, 'C1', 'C6');
+        const result = new SeatRecommendationEngine(service, { preferredRowRatio: 1, rowWeight: 0.1 }).recommend(showtimeId, 3)!;
+
+        expect(result.leavesOrphan).toBe(false);
+        expect(codesOf(result.seats)).toEqual(['C7', 'C8', 'C9']);
+    });
+
+    test('should never split a couple pair', () => {
+        const result = new SeatRecommendationEngine(service, {
+            preferredRowRatio: 1,
+            rowWeight: 10,
+            seatTypePenalty: { COUPLE: 0 }
+        }).recommend(showtimeId, 2)!;
+
+        expect(result.rows).toEqual(['D']);
+        expect(['D3,D4', 'D5,D6']).toContain(codesOf(result.seats).join(','));
+    });
+
+    test('should fall back to adjacent rows when no single row fits', () => {
+        const booked = ['A', 'B', 'C'].flatMap(row => [`${row}3`, `${row}7`]);
+        bookOnly(...booked);
+
+        const result = engine.recommend(showtimeId, 5)!;
+        expect(result.contiguous).toBe(false);
+        expect(result.seats).toHaveLength(5);
+        expect(result.rows).toHaveLength(2);
+
+        const [first, second] = result.rows.map(row => row.charCodeAt(0));
+        expect(second - first).toBe(1);
+    });
+
+    test('should return null when not enough seats are available', () => {
+        bookOnly(...service.getSeats(showtimeId).map(seat => seat.getCode()).slice(1));
+        expect(engine.recommend(showtimeId, 2)).toBeNull();
+    });
+});
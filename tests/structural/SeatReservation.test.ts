@@ -0,0 +1,174 @@
+import {
+    SeatService,
+    SeatReservation,
+    SeatReservationConflictError,
+    ReservationConflictReason
+} from '../../src/services/CinemaBookingService';
+import { SeatStatus } from '../../src/models/Seat';
+
+// Deterministic pseudo-random generator so the interleaving is reproducible
+function createRandom(seed: number): () => number {
+    let state = seed;
+    return () => {
+        state = (state * 1103515245 + 12345) % 2147483648;
+        return state / 2147483648;
+    };
+}
+
+type BuyerPhase = 'READ' | 'RESERVE' | 'PAY' | 'DONE';
+
+interface SimulatedBuyer {
+    id: number;
+    seatCodes: string[];
+    phase: BuyerPhase;
+    observedVersion: number;
+    reservation: SeatReservation | null;
+    attempts: number;
+}
+
+describe('Facade Pattern - Concurrency-safe Seat Reservation', () => {
+    const showtimeId = 'SHOW-RSV-1';
+    let seatService: SeatService;
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+        seatService = new SeatService();
+        seatService.initializeSeatLayout(showtimeId, 2, 5);
+    });
+
+    test('should reserve all seats atomically and bump the version', () => {
+        const version = seatService.getVersion(showtimeId);
+        const reservation = seatService.reserveSeats(showtimeId, ['A1', 'A2'], version);
+
+        expect(reservation.version).toBe(version + 1);
+        expect(seatService.getSeat(showtimeId, 'A1')?.status).toBe(SeatStatus.SELECTED);
+        expect(seatService.getSeat(showtimeId, 'A2')?.status).toBe(SeatStatus.SELECTED);
+    });
+
+    test('should reject stale writers with a typed conflict error', () => {
+        const staleVersion = seatService.getVersion(showtimeId);
+        seatService.reserveSeats(showtimeId, ['A1'], staleVersion);
+
+        expect(() => seatService.reserveSeats(showtimeId, ['B1'], staleVersion))
+            .toThrow(SeatReservationConflictError);
+
+        try {
+            seatService.reserveSeats(showtimeId, ['B1'], staleVersion);
+        } catch (error) {
+            expect((error as SeatReservationConflictError).reason).toBe(ReservationConflictReason.STALE_VERSION);
+        }
+        expect(seatService.getSeat(showtimeId, 'B1')?.status).toBe(SeatStatus.AVAILABLE);
+    });
+
+    test('should never leave a partial selection behind', () => {
+        seatService.reserveSeats(showtimeId, ['A3']);
+
+        expect(() => seatService.reserveSeats(showtimeId, ['A2', 'A3', 'A4']))
+            .toThrow(/A3/);
+        expect(seatService.getSeat(showtimeId, 'A2')?.status).toBe(SeatStatus.AVAILABLE);
+        expect(seatService.getSeat(showtimeId, 'A4')?.status).toBe(SeatStatus.AVAILABLE);
+    });
+
+    test('should release and commit reservations', () => {
+        const first = seatService.reserveSeats(showtimeId, ['A1', 'A2']);
+        seatService.releaseReservation(first.id);
+        expect(seatService.getAvailableSeats(showtimeId).length).toBe(10);
+
+        const second = seatService.reserveSeats(showtimeId, ['A1', 'A2']);
+        const booked = seatService.commitReservation(second.id);
+        expect(booked.map(seat => seat.status)).toEqual([SeatStatus.BOOKED, SeatStatus.BOOKED]);
+        expect(seatService.getReservation(second.id)).toBeNull();
+    });
+
+    test('should keep seats consistent when many buyers are interleaved', () => {
+        const random = createRandom(42);
+        const allCodes = seatService.getSeats(showtimeId).flat().map(seat => seat.getCode());
+        const owners = new Map<string, number>();
+        const conflicts: SeatReservationConflictError[] = [];
+
+        const buyers: SimulatedBuyer[] = [];
+        for (let i = 0; i < 40; i++) {
+            const start = Math.floor(random() * (allCodes.length - 2));
+            const count = 1 + Math.floor(random() * 3);
+            buyers.push({
+                id: i,
+                seatCodes: allCodes.slice(start, start + count),
+                phase: 'READ',
+                observedVersion: -1,
+                reservation: null,
+                attempts: 0
+            });
+        }
+
+        const activeReservations = new Set<string>();
+        let running = buyers.filter(buyer => buyer.phase !== 'DONE');
+
+        while (running.length > 0) {
+            const buyer = running[Math.floor(random() * running.length)];
+
+            switch (buyer.phase) {
+                case 'READ':
+                    buyer.observedVersion = seatService.getVersion(showtimeId);
+                    buyer.phase = 'RESERVE';
+                    break;
+
+                case 'RESERVE':
+                    buyer.attempts++;
+                    try {
+                        buyer.reservation = seatService.reserveSeats(showtimeId, buyer.seatCodes, buyer.observedVersion);
+                        activeReservations.add(buyer.reservation.id);
+                        buyer.phase = 'PAY';
+                    } catch (error) {
+                        expect(error).toBeInstanceOf(SeatReservationConflictError);
+                        const conflict = error as SeatReservationConflictError;
+                        conflicts.push(conflict);
+
+                        // Stale readers retry with a fresh version, unavailable seats give up
+                        const canRetry = conflict.reason === ReservationConflictReason.STALE_VERSION && buyer.attempts < 5;
+                        buyer.phase = canRetry ? 'READ' : 'DONE';
+                    }
+                    break;
+
+                case 'PAY': {
+                    const reservation = buyer.reservation!;
+                    if (random() < 0.7) {
+                        for (const seat of seatService.commitReservation(reservation.id)) {
+                            expect(owners.has(seat.getCode())).toBe(false);
+                            owners.set(seat.getCode(), buyer.id);
+                        }
+                    } else {
+                        seatService.releaseReservation(reservation.id);
+                    }
+                    activeReservations.delete(reservation.id);
+                    buyer.phase = 'DONE';
+                    break;
+                }
+            }
+
+            // Invariant: SELECTED seats belong to exactly one active reservation
+            const reservedCodes = Array.from(activeReservations)
+                .flatMap(id => seatService.getReservation(id)!.seatCodes);
+            const selectedCodes = allCodes.filter(code =>
+                seatService.getSeat(showtimeId, code)?.status === SeatStatus.SELECTED
+            );
+            expect(new Set(reservedCodes).size).toBe(reservedCodes.length);
+            expect(selectedCodes.sort()).toEqual([...reservedCodes].sort());
+
+            running = buyers.filter(b => b.phase !== 'DONE');
+        }
+
+        const bookedCodes = allCodes.filter(code =>
+            seatService.getSeat(showtimeId, code)?.status === SeatStatus.BOOKED
+        );
+        expect(conflicts.length).toBeGreaterThan(0);
+        expect(bookedCodes.sort()).toEqual(Array.from(owners.keys()).sort());
+        expect(activeReservations.size).toBe(0);
+    });
+});